@@ -17,6 +17,8 @@ import { store } from './store/store';
 import Header from './components/Layout/Header';
 import Footer from './components/Layout/Footer';
 import LoadingSpinner from './components/Common/LoadingSpinner';
+import WalletAccountMismatchAlert from './components/Wallet/WalletAccountMismatchAlert';
+import TransactionFeeDialog from './components/Wallet/TransactionFeeDialog';
 
 // Pages
 import HomePage from './pages/HomePage';
@@ -28,6 +30,8 @@ import ProjectDetailsPage from './pages/Projects/ProjectDetailsPage';
 import CreateProjectPage from './pages/Projects/CreateProjectPage';
 import DecVCPlatMainControlCenter from './pages/DecVCPlatMainControlCenter';
 import VotingPage from './pages/Voting/VotingPage';
+import DelegationPage from './pages/Voting/DelegationPage';
+import BallotReceiptPage from './pages/Voting/BallotReceiptPage';
 import ProfilePage from './pages/Profile/ProfilePage';
 import NotificationsPage from './pages/Notifications/NotificationsPage';
 import WalletPage from './pages/Wallet/WalletPage';
@@ -101,6 +105,7 @@ const App: React.FC = () => {
                     pt: { xs: 8, sm: 9 }, // Account for fixed header
                   }}
                 >
+                  <WalletAccountMismatchAlert />
                   <Routes>
                     {/* Public Routes */}
                     <Route path="/" element={<HomePage />} />
@@ -110,6 +115,8 @@ const App: React.FC = () => {
                       element={<DecVCPlatMainControlCenter />}
                     />
                     
+                    <Route path="/voting/receipts/:ballotHash" element={<BallotReceiptPage />} />
+                    
                     <Route
                       path="/login"
                       element={
@@ -178,6 +185,15 @@ const App: React.FC = () => {
                         </ProtectedRoute>
                       }
                     />
+
+                    <Route
+                      path="/voting/delegation"
+                      element={
+                        <ProtectedRoute roles={['Investor', 'Luminary']}>
+                          <DelegationPage />
+                        </ProtectedRoute>
+                      }
+                    />
                     
                     <Route
                       path="/profile"
@@ -234,6 +250,9 @@ const App: React.FC = () => {
                 
                 <Footer />
               </Box>
+
+              {/* Fee confirmation before every contract write */}
+              <TransactionFeeDialog />
             </Router>
             
             {/* Global Toast Notifications */}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import WalletAccountMismatchAlert from '../../components/Wallet/WalletAccountMismatchAlert';
+import authReducer from '../../store/slices/authSlice';
+import walletReducer, { handleWalletAccountChange } from '../../store/slices/walletSlice';
+
+const profileWallet = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const otherWallet = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const createMockStore = () => {
+  return configureStore({
+    reducer: {
+      auth: authReducer,
+      wallet: walletReducer,
+    },
+    preloadedState: {
+      auth: {
+        ...authReducer(undefined, { type: 'init' }),
+        isAuthenticated: true,
+        user: {
+          id: '1',
+          userName: 'founder',
+          email: 'founder@decvcplat.com',
+          fullName: 'DecVCPlat Founder',
+          role: 'Founder' as const,
+          walletAddress: profileWallet,
+          isWalletVerified: true,
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      },
+      wallet: {
+        ...walletReducer(undefined, { type: 'init' }),
+        walletConnection: {
+          address: profileWallet.toLowerCase(),
+          walletType: 'MetaMask' as const,
+          walletRdns: 'io.metamask',
+          networkId: 1,
+          connected: true,
+          ethBalance: '0',
+          decvcplatTokenBalance: '0',
+          networkDisplayName: 'Ethereum Mainnet',
+        },
+      },
+    },
+  });
+};
+
+const renderWithStore = (store: ReturnType<typeof createMockStore>) => {
+  return render(
+    <Provider store={store}>
+      <WalletAccountMismatchAlert />
+    </Provider>
+  );
+};
+
+describe('WalletAccountMismatchAlert', () => {
+  it('stays hidden while the wallet matches the profile, whatever the address case', () => {
+    renderWithStore(createMockStore());
+    expect(screen.queryByText('Wallet account mismatch')).not.toBeInTheDocument();
+  });
+
+  it('warns when the user switches to another account in the wallet and clears once they switch back', async () => {
+    const store = createMockStore();
+    renderWithStore(store);
+
+    await act(async () => {
+      await store.dispatch(handleWalletAccountChange(otherWallet));
+    });
+    expect(screen.getByText('Wallet account mismatch')).toBeInTheDocument();
+    expect(screen.getByText(/Your wallet is using 0x7099\.\.\.79C8/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Link this wallet' })).toBeEnabled();
+
+    await act(async () => {
+      await store.dispatch(handleWalletAccountChange(profileWallet));
+    });
+    expect(screen.queryByText('Wallet account mismatch')).not.toBeInTheDocument();
+  });
+
+  it('does not warn once the wallet is locked', async () => {
+    const store = createMockStore();
+    renderWithStore(store);
+
+    await act(async () => {
+      await store.dispatch(handleWalletAccountChange(otherWallet));
+      await store.dispatch(handleWalletAccountChange(null));
+    });
+    expect(screen.queryByText('Wallet account mismatch')).not.toBeInTheDocument();
+  });
+});
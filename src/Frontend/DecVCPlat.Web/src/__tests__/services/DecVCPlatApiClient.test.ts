@@ -0,0 +1,246 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+
+const decvcplatUser = {
+  id: 'user-1',
+  userName: 'investor',
+  email: 'investor@decvcplat.com',
+  fullName: 'DecVCPlat Investor',
+  role: 'Investor',
+  isWalletVerified: false,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+// A gateway status, a dropped connection, or a response lost after the request was applied
+type DecVCPlatFault = { status: number; retryAfter?: string } | 'network' | 'lost';
+
+interface DecVCPlatSentRequest {
+  method: string;
+  url?: string;
+  idempotencyKey?: string;
+  authorization?: string;
+}
+
+const decvcplatApiInstance = decvcplatApiService['decvcplatApiInstance'];
+let faults: DecVCPlatFault[] = [];
+let sent: DecVCPlatSentRequest[] = [];
+// The gateway only accepts the access token it issued last and the current refresh token
+let gatewayAccessToken = 'access-token-0';
+let gatewayRefreshToken = 'refresh-token';
+let issuedTokens = 0;
+
+const respondWith = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): AxiosResponse => {
+  const response = { data, status, statusText: status < 400 ? 'OK' : 'Error', headers, config };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+  }
+  return response;
+};
+
+const routeGatewayRequest = (config: InternalAxiosRequestConfig): AxiosResponse => {
+  if (config.url === '/voting/vote') {
+    const { proposalId, choice, stakedAmount } = JSON.parse(config.data);
+    return respondWith(config, 200, {
+      id: 'vote-1',
+      proposalId,
+      userId: decvcplatUser.id,
+      userName: decvcplatUser.userName,
+      choice,
+      votingPower: stakedAmount,
+      stakedAmount,
+      timestamp: '2024-01-02T00:00:00Z',
+    });
+  }
+  if (config.url === '/auth/profile') {
+    return respondWith(config, 200, { ...decvcplatUser, ...JSON.parse(config.data) });
+  }
+  return respondWith(config, 200, { items: [], totalCount: 0, page: Number(config.params?.page ?? 1), pageSize: 12, totalPages: 0 });
+};
+
+// In-memory stand-in for the gateway: rotates the access token on every refresh,
+// rejects requests that still carry an old one and fails the next requests as queued in `faults`
+const gatewayAdapter: AxiosAdapter = async (config) => {
+  sent.push({
+    method: (config.method || 'get').toUpperCase(),
+    url: config.url,
+    idempotencyKey: config.headers['Idempotency-Key'] as string | undefined,
+    authorization: config.headers.Authorization as string | undefined,
+  });
+
+  const fault = faults.shift();
+  if (fault === 'network') {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+  }
+  if (fault && fault !== 'lost') {
+    return respondWith(config, fault.status, { message: 'Service unavailable' }, fault.retryAfter ? { 'retry-after': fault.retryAfter } : {});
+  }
+
+  if (config.url === '/auth/refresh') {
+    if (JSON.parse(config.data).refreshToken !== gatewayRefreshToken) {
+      return respondWith(config, 401, { message: 'Refresh token is invalid or expired' });
+    }
+    gatewayAccessToken = `access-token-${++issuedTokens}`;
+    return respondWith(config, 200, { token: gatewayAccessToken, refreshToken: gatewayRefreshToken, user: decvcplatUser });
+  }
+  if (config.headers.Authorization !== `Bearer ${gatewayAccessToken}`) {
+    return respondWith(config, 401, { message: 'Access token has expired' });
+  }
+  const response = routeGatewayRequest(config);
+  if (fault === 'lost') {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+  }
+  return response;
+};
+
+const retryDelays = (spy: jest.SpyInstance) => spy.mock.calls.map(([, delay]) => delay);
+
+describe('DecVCPlatApiClient', () => {
+  const decvcplatDefaultAdapter = decvcplatApiInstance.defaults.adapter;
+  let setTimeoutSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    decvcplatApiService.configureDecVCPlatRetryPolicy({ maxRetries: 3, baseDelayMs: 4, maxDelayMs: 1000 });
+    decvcplatApiService.setDecVCPlatAuthenticationToken('access-token-0', 'refresh-token');
+    decvcplatApiInstance.defaults.adapter = gatewayAdapter;
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    faults = [];
+    sent = [];
+    gatewayAccessToken = 'access-token-0';
+    gatewayRefreshToken = 'refresh-token';
+    issuedTokens = 0;
+  });
+
+  afterEach(() => {
+    decvcplatApiInstance.defaults.adapter = decvcplatDefaultAdapter;
+    decvcplatApiService.clearDecVCPlatAuthentication();
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('retries a GET until the gateway recovers, without an Idempotency-Key', async () => {
+      faults = [{ status: 502 }, 'network'];
+
+      const page = await decvcplatApiService.fetchDecVCPlatProjects({ page: 2 });
+
+      expect(page.page).toBe(2);
+      expect(sent).toHaveLength(3);
+      expect(sent.every((request) => request.method === 'GET' && request.idempotencyKey === undefined)).toBe(true);
+    });
+
+    it('backs off exponentially and gives up after maxRetries', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      faults = [{ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }];
+
+      await expect(decvcplatApiService.fetchDecVCPlatProjects()).rejects.toMatchObject({ response: { status: 503 } });
+
+      expect(sent).toHaveLength(4);
+      expect(retryDelays(setTimeoutSpy)).toEqual([4, 8, 16]);
+    });
+
+    it('waits as long as Retry-After asks, capped at maxDelayMs', async () => {
+      faults = [{ status: 429, retryAfter: '0.05' }, { status: 503, retryAfter: '120' }];
+
+      await decvcplatApiService.fetchDecVCPlatProjects();
+
+      expect(retryDelays(setTimeoutSpy)).toEqual([50, 1000]);
+    });
+
+    it('does not retry statuses outside the policy', async () => {
+      faults = [{ status: 500 }];
+
+      await expect(decvcplatApiService.fetchDecVCPlatProjects()).rejects.toMatchObject({ response: { status: 500 } });
+      expect(sent).toHaveLength(1);
+    });
+
+    it('re-sends one Idempotency-Key on every retry of a POST', async () => {
+      faults = ['lost', { status: 503 }];
+
+      const vote = await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 1000 });
+
+      expect(vote.votingPower).toBe(1000);
+      expect(sent).toHaveLength(3);
+      expect(sent[0].idempotencyKey).toEqual(expect.any(String));
+      expect(new Set(sent.map((request) => request.idempotencyKey)).size).toBe(1);
+
+      // A new call is a new mutation, so it gets its own key
+      await decvcplatApiService.castDecVCPlatVote({ proposalId: '2', choice: 'For', stakedAmount: 1000 });
+      expect(sent[sent.length - 1].idempotencyKey).not.toBe(sent[0].idempotencyKey);
+    });
+
+    it('sends an Idempotency-Key on PUT before retrying it', async () => {
+      faults = ['lost'];
+
+      const profile = await decvcplatApiService.updateDecVCPlatUserProfile({ fullName: 'Renamed Investor' });
+
+      expect(profile.fullName).toBe('Renamed Investor');
+      expect(sent.map((request) => request.method)).toEqual(['PUT', 'PUT']);
+      expect(sent[0].idempotencyKey).toEqual(expect.any(String));
+      expect(sent[1].idempotencyKey).toBe(sent[0].idempotencyKey);
+    });
+  });
+
+  describe('token refresh', () => {
+    const sessionHandlers = { onSessionRefreshed: jest.fn(), onSessionExpired: jest.fn() };
+
+    beforeEach(() => {
+      sessionHandlers.onSessionRefreshed.mockReset();
+      sessionHandlers.onSessionExpired.mockReset();
+      decvcplatApiService.registerDecVCPlatSessionHandlers(sessionHandlers);
+      // Signed in earlier; the access token has since expired
+      decvcplatApiService.setDecVCPlatAuthenticationToken('expired-access-token', 'refresh-token');
+    });
+
+    const refreshRequests = () => sent.filter((request) => request.url === '/auth/refresh');
+
+    it('refreshes once for concurrent 401s and replays every request with the new token', async () => {
+      const pages = await Promise.all([1, 2, 3].map((page) => decvcplatApiService.fetchDecVCPlatProjects({ page })));
+
+      expect(pages.map((result) => result.page)).toEqual([1, 2, 3]);
+      expect(refreshRequests()).toHaveLength(1);
+      expect(sessionHandlers.onSessionRefreshed).toHaveBeenCalledTimes(1);
+      expect(sessionHandlers.onSessionRefreshed.mock.calls[0][0].token).toBe('access-token-1');
+
+      const replays = sent.slice(sent.indexOf(refreshRequests()[0]) + 1);
+      expect(replays).toHaveLength(3);
+      expect(replays.every((request) => request.authorization === 'Bearer access-token-1')).toBe(true);
+      expect(sessionHandlers.onSessionExpired).not.toHaveBeenCalled();
+    });
+
+    it('holds requests issued during a refresh until the new token arrives', async () => {
+      const refreshing = decvcplatApiService.refreshDecVCPlatToken();
+      const queued = decvcplatApiService.fetchDecVCPlatProjects();
+      await refreshing;
+      await queued;
+
+      expect(sent.map((request) => request.url)).toEqual(['/auth/refresh', '/projects']);
+      expect(sent[1].authorization).toBe('Bearer access-token-1');
+    });
+
+    it('expires the session once when the refresh fails, without retrying in a loop', async () => {
+      gatewayRefreshToken = 'rotated-refresh-token';
+
+      const results = await Promise.allSettled([
+        decvcplatApiService.fetchDecVCPlatProjects({ page: 1 }),
+        decvcplatApiService.fetchDecVCPlatProjects({ page: 2 }),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(results[0]).toMatchObject({ reason: { response: { status: 401 } } });
+      expect(refreshRequests()).toHaveLength(1);
+      expect(sent).toHaveLength(3);
+      expect(sessionHandlers.onSessionExpired).toHaveBeenCalledTimes(1);
+      expect(sessionHandlers.onSessionRefreshed).not.toHaveBeenCalled();
+
+      // Signed out now, so a later 401 is passed on instead of refreshing again
+      await expect(decvcplatApiService.fetchDecVCPlatProjects()).rejects.toMatchObject({ response: { status: 401 } });
+      expect(sent[sent.length - 1].authorization).toBeUndefined();
+      expect(refreshRequests()).toHaveLength(1);
+      expect(sessionHandlers.onSessionExpired).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  authSessionSchema,
+  DecVCPlatApiContractError,
+  isDecVCPlatApiContractError,
+  projectPageSchema,
+  toDecVCPlatApiProblem,
+  validateDecVCPlatContract,
+} from '../../services/api/DecVCPlatApiContracts';
+
+const decvcplatUser = {
+  id: 'user-1',
+  userName: 'founder',
+  email: 'founder@decvcplat.com',
+  fullName: 'DecVCPlat Founder',
+  role: 'Founder',
+  isWalletVerified: false,
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+describe('DecVCPlatApiContracts', () => {
+  it('accepts a payload that matches the contract', () => {
+    const session = validateDecVCPlatContract(
+      authSessionSchema,
+      { token: 'jwt-token', user: decvcplatUser },
+      'POST auth/login'
+    );
+
+    expect(session.user.role).toBe('Founder');
+  });
+
+  it('keeps unknown fields so newer backends stay compatible', () => {
+    const session = validateDecVCPlatContract(
+      authSessionSchema,
+      { token: 'jwt-token', user: { ...decvcplatUser, lastLoginAt: '2024-02-01T00:00:00Z' } },
+      'POST auth/login'
+    );
+
+    expect(session.user).toHaveProperty('lastLoginAt');
+  });
+
+  it('accepts null for optional fields, as the ASP.NET API serializes them', () => {
+    const session = validateDecVCPlatContract(
+      authSessionSchema,
+      { token: 'jwt-token', refreshToken: null, user: { ...decvcplatUser, walletAddress: null, bio: null } },
+      'POST auth/login'
+    );
+
+    expect(session.user.walletAddress).toBeNull();
+    expect(() =>
+      validateDecVCPlatContract(authSessionSchema, { token: 'jwt-token', user: { ...decvcplatUser, email: null } }, 'POST auth/login')
+    ).toThrow('POST auth/login');
+  });
+
+  it('rejects missing and mistyped fields with every issue listed', () => {
+    let contractError: unknown;
+    try {
+      validateDecVCPlatContract(
+        projectPageSchema,
+        { items: [], totalCount: '0', page: 1, pageSize: 12 },
+        'GET projects'
+      );
+    } catch (error) {
+      contractError = error;
+    }
+
+    expect(contractError).toBeInstanceOf(DecVCPlatApiContractError);
+    expect(isDecVCPlatApiContractError(contractError)).toBe(true);
+    expect(contractError).toMatchObject({
+      decvcplatEndpoint: 'GET projects',
+      decvcplatIssues: [expect.any(String), expect.any(String)],
+      message: expect.stringContaining('GET projects'),
+    });
+  });
+
+  it('rejects values outside the allowed enums', () => {
+    expect(() =>
+      validateDecVCPlatContract(
+        authSessionSchema,
+        { token: 'jwt-token', user: { ...decvcplatUser, role: 'Admin' } },
+        'POST auth/login'
+      )
+    ).toThrow('POST auth/login');
+  });
+
+  it('maps validation problem details onto form field paths', () => {
+    const problem = toDecVCPlatApiProblem(
+      {
+        response: {
+          status: 400,
+          data: {
+            title: 'One or more validation errors occurred.',
+            errors: {
+              Title: ['Title must be at least 5 characters'],
+              'Milestones[0].FundingAmount': ['Milestone funding must be greater than zero'],
+              '$.fundingGoal': ['The JSON value could not be converted'],
+            },
+          },
+        },
+      },
+      'Failed to create project'
+    );
+
+    expect(problem).toEqual({
+      message: 'One or more validation errors occurred.',
+      status: 400,
+      fieldErrors: {
+        title: 'Title must be at least 5 characters',
+        'milestones[0].fundingAmount': 'Milestone funding must be greater than zero',
+        fundingGoal: 'The JSON value could not be converted',
+      },
+    });
+  });
+
+  it('falls back to the given message for errors without a response', () => {
+    expect(toDecVCPlatApiProblem(new Error('Network Error'), 'Failed to load projects')).toEqual({
+      message: 'Failed to load projects',
+      status: undefined,
+      fieldErrors: {},
+    });
+    expect(toDecVCPlatApiProblem(undefined, 'Failed to load projects').message).toBe('Failed to load projects');
+  });
+});
@@ -0,0 +1,121 @@
+import { AbiCoder, Interface, id } from 'ethers';
+import {
+  DecVCPlatEip1193Provider,
+  DecVCPlatGovernanceContract,
+  DecVCPlatSimulationError,
+  DecVCPlatTokenContract,
+  decvcplatGovernanceInterface,
+  decvcplatTokenInterface,
+  decodeDecVCPlatRevertReason,
+  formatDecVCPlatTokenAmount,
+  parseDecVCPlatTokenAmount,
+} from '../../services/blockchain/DecVCPlatContractBindings';
+
+const decvcplatGovernanceAddress = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const decvcplatTokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const decvcplatVoter = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const createRecordingProvider = (decvcplatCallResult = '0x') => {
+  const decvcplatRequests: Array<{ method: string; params?: any }> = [];
+  const decvcplatProvider: DecVCPlatEip1193Provider = {
+    request: async (decvcplatArgs) => {
+      decvcplatRequests.push(decvcplatArgs);
+      return decvcplatArgs.method === 'eth_sendTransaction' ? `0x${'ab'.repeat(32)}` : decvcplatCallResult;
+    },
+  };
+  return { decvcplatProvider, decvcplatRequests };
+};
+
+describe('DecVCPlatContractBindings', () => {
+  it('keeps full precision for 18-decimal amounts', () => {
+    const decvcplatAmount = parseDecVCPlatTokenAmount('123456789.123456789012345678');
+
+    expect(decvcplatAmount).toBe(BigInt('123456789123456789012345678'));
+    expect(formatDecVCPlatTokenAmount(decvcplatAmount)).toBe('123456789.123456789012345678');
+  });
+
+  it('encodes castVote with the real selector and enum index', async () => {
+    const { decvcplatProvider, decvcplatRequests } = createRecordingProvider();
+    const decvcplatGovernance = new DecVCPlatGovernanceContract(decvcplatGovernanceAddress, decvcplatProvider, decvcplatVoter);
+
+    await decvcplatGovernance.castVote('7', 'Abstain', parseDecVCPlatTokenAmount('1500'));
+
+    expect(decvcplatRequests.map(decvcplatRequest => decvcplatRequest.method)).toEqual(['eth_call', 'eth_sendTransaction']);
+    const [decvcplatTransaction] = decvcplatRequests[1].params;
+    expect(decvcplatTransaction.from).toBe(decvcplatVoter);
+    expect(decvcplatTransaction.data.slice(0, 10)).toBe(id('castVote(uint256,uint8,uint256)').slice(0, 10));
+
+    const [decvcplatProposalId, decvcplatChoice, decvcplatStake] = decvcplatGovernanceInterface.decodeFunctionData('castVote', decvcplatTransaction.data);
+    expect(decvcplatProposalId).toBe(BigInt(7));
+    expect(decvcplatChoice).toBe(BigInt(2));
+    expect(decvcplatStake).toBe(parseDecVCPlatTokenAmount('1500'));
+    expect(decvcplatStake.toString()).toBe('1500000000000000000000');
+  });
+
+  it('decodes balances above 2^53 without rounding', async () => {
+    const decvcplatBalance = BigInt('9007199254740993123456789');
+    const { decvcplatProvider } = createRecordingProvider(
+      decvcplatTokenInterface.encodeFunctionResult('balanceOf', [decvcplatBalance])
+    );
+    const decvcplatToken = new DecVCPlatTokenContract(decvcplatTokenAddress, decvcplatProvider);
+
+    await expect(decvcplatToken.balanceOf(decvcplatVoter)).resolves.toBe(decvcplatBalance);
+  });
+
+  it('maps the proposal state enum when reading a proposal', async () => {
+    const { decvcplatProvider } = createRecordingProvider(
+      decvcplatGovernanceInterface.encodeFunctionResult('getProposal', [
+        1, decvcplatVoter, 'Solar Grid', 'Community solar', parseDecVCPlatTokenAmount('1000'), 100, 200, 5, 1, 0, 2,
+      ])
+    );
+    const decvcplatGovernance = new DecVCPlatGovernanceContract(decvcplatGovernanceAddress, decvcplatProvider);
+
+    const decvcplatProposal = await decvcplatGovernance.getProposal(1);
+    expect(decvcplatProposal.state).toBe('Succeeded');
+    expect(decvcplatProposal.fundingAmount).toBe(parseDecVCPlatTokenAmount('1000'));
+  });
+
+  it('refuses to send transactions without a connected account', async () => {
+    const { decvcplatProvider } = createRecordingProvider();
+    const decvcplatToken = new DecVCPlatTokenContract(decvcplatTokenAddress, decvcplatProvider);
+
+    await expect(decvcplatToken.claimStakingRewards()).rejects.toThrow('DecVCPlat wallet not connected');
+  });
+
+  it('decodes panic codes from revert data', () => {
+    const decvcplatPanic = `0x4e487b71${AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11]).slice(2)}`;
+
+    expect(decodeDecVCPlatRevertReason(decvcplatPanic)).toBe('Panic 0x11: arithmetic overflow or underflow');
+    expect(decodeDecVCPlatRevertReason('0x')).toBe('Transaction reverted without a reason');
+  });
+
+  it('decodes custom errors declared by the contract interface', () => {
+    const decvcplatInterface = new Interface(['error InsufficientStake(address account, uint256 needed)']);
+    const decvcplatRevertData = decvcplatInterface.encodeErrorResult('InsufficientStake', [decvcplatVoter, BigInt(25)]);
+
+    expect(decodeDecVCPlatRevertReason(decvcplatRevertData, decvcplatInterface)).toBe(`InsufficientStake(${decvcplatVoter}, 25)`);
+    expect(decodeDecVCPlatRevertReason(decvcplatRevertData)).toMatch(/unrecognised error/);
+  });
+
+  it('blocks a write that would revert and explains why', async () => {
+    const decvcplatRevertData = `0x08c379a0${AbiCoder.defaultAbiCoder().encode(['string'], ['DecVCPlat: already voted']).slice(2)}`;
+    const decvcplatMethods: string[] = [];
+    const decvcplatProvider: DecVCPlatEip1193Provider = {
+      request: async ({ method }) => {
+        decvcplatMethods.push(method);
+        throw Object.assign(new Error('Internal JSON-RPC error.'), {
+          code: -32603,
+          data: { code: 3, message: 'execution reverted', data: decvcplatRevertData },
+        });
+      },
+    };
+    const decvcplatGovernance = new DecVCPlatGovernanceContract(decvcplatGovernanceAddress, decvcplatProvider, decvcplatVoter);
+
+    const decvcplatError = await decvcplatGovernance.castVote('7', 'For', parseDecVCPlatTokenAmount('10')).catch(error => error);
+
+    expect(decvcplatError).toBeInstanceOf(DecVCPlatSimulationError);
+    expect(decvcplatError.message).toBe('You have already voted on this.');
+    expect(decvcplatError.decvcplatRevertReason).toBe('DecVCPlat: already voted');
+    expect(decvcplatMethods).toEqual(['eth_call']);
+  });
+});
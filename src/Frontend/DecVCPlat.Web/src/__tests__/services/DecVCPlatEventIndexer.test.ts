@@ -0,0 +1,164 @@
+import { toQuantity } from 'ethers';
+import {
+  DecVCPlatEip1193Provider,
+  decvcplatGovernanceInterface,
+  decvcplatTokenInterface,
+  parseDecVCPlatTokenAmount,
+} from '../../services/blockchain/DecVCPlatContractBindings';
+import { DecVCPlatEventIndexer, DecVCPlatMemoryIndexerStore } from '../../services/blockchain/DecVCPlatEventIndexer';
+import { decvcplatLocalChainId } from '../../services/blockchain/DecVCPlatNetworkRegistry';
+
+const decvcplatGovernanceAddress = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const decvcplatTokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const decvcplatVoter = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const decvcplatOtherVoter = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+interface FakeLog {
+  address: string;
+  blockNumber: number;
+  topics: string[];
+  data: string;
+}
+
+// A local chain whose head, block hashes and logs the test controls
+const createDecVCPlatFakeChain = () => {
+  const decvcplatChain = {
+    head: 0,
+    // Blocks at or above this height hash differently, as if replaced by a reorg
+    forkFrom: Number.POSITIVE_INFINITY,
+    logs: [] as FakeLog[],
+    logRequests: [] as Array<[number, number]>,
+    maxLogRange: Number.POSITIVE_INFINITY,
+  };
+  const hashOf = (decvcplatBlock: number) =>
+    `0x${(decvcplatBlock >= decvcplatChain.forkFrom ? 'b' : 'a').repeat(8)}${decvcplatBlock.toString(16).padStart(56, '0')}`;
+
+  const decvcplatProvider: DecVCPlatEip1193Provider = {
+    request: async ({ method, params }) => {
+      const decvcplatParams = params as any[];
+      switch (method) {
+        case 'eth_chainId':
+          return toQuantity(decvcplatLocalChainId);
+        case 'eth_blockNumber':
+          return toQuantity(decvcplatChain.head);
+        case 'eth_getBlockByNumber': {
+          const decvcplatBlock = Number(decvcplatParams[0]);
+          return decvcplatBlock > decvcplatChain.head ? null : { hash: hashOf(decvcplatBlock), timestamp: toQuantity(1700000000 + decvcplatBlock * 12) };
+        }
+        case 'eth_getLogs': {
+          const { address, fromBlock, toBlock, topics } = decvcplatParams[0];
+          const [decvcplatFrom, decvcplatTo] = [Number(fromBlock), Number(toBlock)];
+          if (decvcplatTo - decvcplatFrom + 1 > decvcplatChain.maxLogRange) {
+            throw Object.assign(new Error('query exceeds max block range'), { code: -32005 });
+          }
+          decvcplatChain.logRequests.push([decvcplatFrom, decvcplatTo]);
+          return decvcplatChain.logs
+            .filter(decvcplatLog => decvcplatLog.address === address
+              && decvcplatLog.blockNumber >= decvcplatFrom
+              && decvcplatLog.blockNumber <= decvcplatTo
+              && topics[0].includes(decvcplatLog.topics[0]))
+            .map((decvcplatLog, decvcplatIndex) => ({
+              ...decvcplatLog,
+              blockNumber: toQuantity(decvcplatLog.blockNumber),
+              blockHash: hashOf(decvcplatLog.blockNumber),
+              transactionHash: `0x${decvcplatLog.blockNumber.toString(16).padStart(62, '0')}${decvcplatIndex.toString(16).padStart(2, '0')}`,
+              logIndex: toQuantity(decvcplatIndex),
+            }));
+        }
+        default:
+          throw new Error(`Unsupported ${method}`);
+      }
+    },
+  };
+
+  const emitGovernance = (decvcplatBlock: number, decvcplatName: string, decvcplatArgs: unknown[]) =>
+    decvcplatChain.logs.push({ address: decvcplatGovernanceAddress, blockNumber: decvcplatBlock, ...decvcplatGovernanceInterface.encodeEventLog(decvcplatName, decvcplatArgs) });
+  const emitToken = (decvcplatBlock: number, decvcplatName: string, decvcplatArgs: unknown[]) =>
+    decvcplatChain.logs.push({ address: decvcplatTokenAddress, blockNumber: decvcplatBlock, ...decvcplatTokenInterface.encodeEventLog(decvcplatName, decvcplatArgs) });
+
+  return { decvcplatChain, decvcplatProvider, emitGovernance, emitToken };
+};
+
+const createIndexer = (decvcplatProvider: DecVCPlatEip1193Provider, decvcplatChunkSize = 100) =>
+  new DecVCPlatEventIndexer({
+    getProvider: () => decvcplatProvider,
+    store: new DecVCPlatMemoryIndexerStore(),
+    confirmations: 5,
+    chunkSize: decvcplatChunkSize,
+    reorgRewindBlocks: 20,
+  });
+
+describe('DecVCPlatEventIndexer', () => {
+  it('reads logs in chunks and builds wallet history and proposal tallies', async () => {
+    const { decvcplatChain, decvcplatProvider, emitGovernance, emitToken } = createDecVCPlatFakeChain();
+    decvcplatChain.head = 250;
+    emitGovernance(10, 'ProposalCreated', [1, decvcplatVoter, 'Solar farm', parseDecVCPlatTokenAmount('50000')]);
+    emitGovernance(120, 'VoteCast', [decvcplatVoter, 1, 1, parseDecVCPlatTokenAmount('300'), parseDecVCPlatTokenAmount('300')]);
+    emitGovernance(121, 'VoteCast', [decvcplatOtherVoter, 1, 0, parseDecVCPlatTokenAmount('120'), parseDecVCPlatTokenAmount('120')]);
+    emitGovernance(248, 'VoteCast', [decvcplatOtherVoter, 2, 2, parseDecVCPlatTokenAmount('5'), parseDecVCPlatTokenAmount('5')]);
+    emitToken(200, 'TokensStaked', [decvcplatVoter, parseDecVCPlatTokenAmount('1000')]);
+    const decvcplatIndexer = createIndexer(decvcplatProvider);
+
+    await decvcplatIndexer.syncDecVCPlatEvents(decvcplatLocalChainId);
+
+    expect(decvcplatChain.logRequests.slice(0, 3)).toEqual([[0, 99], [100, 199], [200, 250]]);
+
+    const decvcplatHistory = await decvcplatIndexer.getDecVCPlatWalletHistory(decvcplatLocalChainId, decvcplatVoter.toLowerCase());
+    expect(decvcplatHistory.map(tx => [tx.transactionCategory, tx.amountTransferred, tx.blockHeight])).toEqual([
+      ['stake', '1000.0', 200],
+      ['vote', '300.0', 120],
+      ['funding', '50000.0', 10],
+    ]);
+    expect(decvcplatHistory[1].transactionNote).toBe('Voted For on proposal #1');
+    expect(decvcplatHistory[1].confirmationStatus).toBe('confirmed');
+
+    const decvcplatTallies = await decvcplatIndexer.getDecVCPlatProposalTallies(decvcplatLocalChainId);
+    expect(decvcplatTallies['1']).toMatchObject({
+      forVotes: parseDecVCPlatTokenAmount('300').toString(),
+      againstVotes: parseDecVCPlatTokenAmount('120').toString(),
+      voterCount: 2,
+    });
+    expect(decvcplatTallies['2'].abstainVotes).toBe(parseDecVCPlatTokenAmount('5').toString());
+  });
+
+  it('narrows the block range when the node rejects it as too large', async () => {
+    const { decvcplatChain, decvcplatProvider, emitGovernance } = createDecVCPlatFakeChain();
+    decvcplatChain.head = 99;
+    decvcplatChain.maxLogRange = 30;
+    emitGovernance(75, 'StakeForVoting', [decvcplatVoter, parseDecVCPlatTokenAmount('40')]);
+    const decvcplatIndexer = createIndexer(decvcplatProvider);
+
+    await decvcplatIndexer.syncDecVCPlatEvents(decvcplatLocalChainId);
+
+    expect(decvcplatChain.logRequests.slice(0, 4)).toEqual([[0, 24], [25, 49], [50, 74], [75, 99]]);
+    expect(await decvcplatIndexer.getDecVCPlatAccountEvents(decvcplatLocalChainId, decvcplatVoter)).toHaveLength(1);
+  });
+
+  it('drops logs from blocks that were reorged out', async () => {
+    const { decvcplatChain, decvcplatProvider, emitGovernance } = createDecVCPlatFakeChain();
+    decvcplatChain.head = 100;
+    emitGovernance(60, 'VoteCast', [decvcplatVoter, 1, 1, parseDecVCPlatTokenAmount('10'), parseDecVCPlatTokenAmount('10')]);
+    emitGovernance(90, 'StakeForVoting', [decvcplatOtherVoter, parseDecVCPlatTokenAmount('7')]);
+    emitGovernance(98, 'VoteCast', [decvcplatOtherVoter, 1, 1, parseDecVCPlatTokenAmount('7'), parseDecVCPlatTokenAmount('7')]);
+    const decvcplatIndexer = createIndexer(decvcplatProvider);
+    await decvcplatIndexer.syncDecVCPlatEvents(decvcplatLocalChainId);
+
+    // A shallow reorg removes the unconfirmed vote at block 98
+    decvcplatChain.logs = decvcplatChain.logs.filter(decvcplatLog => decvcplatLog.blockNumber !== 98);
+    decvcplatChain.forkFrom = 97;
+    decvcplatChain.head = 101;
+    await decvcplatIndexer.syncDecVCPlatEvents(decvcplatLocalChainId);
+    expect((await decvcplatIndexer.getDecVCPlatProposalTallies(decvcplatLocalChainId))['1'].voterCount).toBe(1);
+
+    // A deeper reorg replaces the checkpoint block and the confirmed stake at block 90
+    decvcplatChain.logs = decvcplatChain.logs.filter(decvcplatLog => decvcplatLog.blockNumber !== 90);
+    decvcplatChain.forkFrom = 85;
+    decvcplatChain.head = 102;
+    decvcplatChain.logRequests = [];
+    await decvcplatIndexer.syncDecVCPlatEvents(decvcplatLocalChainId);
+
+    expect(decvcplatChain.logRequests[0][0]).toBe(77);
+    expect(await decvcplatIndexer.getDecVCPlatAccountEvents(decvcplatLocalChainId, decvcplatOtherVoter)).toHaveLength(0);
+    expect(await decvcplatIndexer.getDecVCPlatAccountEvents(decvcplatLocalChainId, decvcplatVoter)).toHaveLength(1);
+  });
+});
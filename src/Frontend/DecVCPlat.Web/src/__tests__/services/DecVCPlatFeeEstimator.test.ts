@@ -0,0 +1,87 @@
+import { AbiCoder, parseUnits } from 'ethers';
+import { DecVCPlatEip1193Provider } from '../../services/blockchain/DecVCPlatContractBindings';
+import {
+  applyDecVCPlatFeeSuggestion,
+  quoteDecVCPlatTransactionFees,
+} from '../../services/blockchain/DecVCPlatFeeEstimator';
+
+const decvcplatCall = {
+  to: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  data: '0xa694fc3a',
+  from: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+};
+
+const gwei = (value: string) => parseUnits(value, 'gwei');
+const hex = (value: bigint) => `0x${value.toString(16)}`;
+
+const createFeeProvider = (responses: Record<string, (params?: any) => unknown>): DecVCPlatEip1193Provider => ({
+  request: async ({ method, params }) => {
+    const respond = responses[method];
+    if (!respond) {
+      throw new Error(`Unsupported ${method}`);
+    }
+    return respond(params);
+  },
+});
+
+describe('DecVCPlatFeeEstimator', () => {
+  it('adds a safety margin to the estimate and prices speeds from recent priority fees', async () => {
+    const provider = createFeeProvider({
+      eth_estimateGas: () => hex(BigInt(50000)),
+      eth_feeHistory: () => ({
+        baseFeePerGas: [hex(gwei('18')), hex(gwei('19')), hex(gwei('20')), hex(gwei('20'))],
+        gasUsedRatio: [0.4, 0, 0.6],
+        // The empty middle block reports zero tips and is ignored
+        reward: [
+          [hex(gwei('1')), hex(gwei('2')), hex(gwei('4'))],
+          ['0x0', '0x0', '0x0'],
+          [hex(gwei('1')), hex(gwei('3')), hex(gwei('5'))],
+        ],
+      }),
+    });
+
+    const quote = await quoteDecVCPlatTransactionFees(provider, decvcplatCall);
+
+    expect(quote.gasEstimate).toBe(BigInt(50000));
+    expect(quote.gasLimit).toBe(BigInt(60000));
+    expect(quote.baseFeePerGas).toBe(gwei('20'));
+    expect(quote.suggestions.normal).toMatchObject({
+      maxPriorityFeePerGas: gwei('3'),
+      maxFeePerGas: gwei('33'),
+      estimatedCostWei: BigInt(50000) * gwei('23'),
+      maxCostWei: BigInt(60000) * gwei('33'),
+    });
+    expect(quote.suggestions.fast.maxFeePerGas).toBe(gwei('45'));
+
+    expect(applyDecVCPlatFeeSuggestion(decvcplatCall, quote, 'slow')).toEqual({
+      ...decvcplatCall,
+      gas: '0xea60',
+      maxFeePerGas: hex(gwei('23.5')),
+      maxPriorityFeePerGas: hex(gwei('1')),
+    });
+  });
+
+  it('falls back to eth_gasPrice on chains without a base fee', async () => {
+    const provider = createFeeProvider({
+      eth_estimateGas: () => '0x5208',
+      eth_feeHistory: () => { throw new Error('Method not found'); },
+      eth_gasPrice: () => hex(gwei('10')),
+    });
+
+    const quote = await quoteDecVCPlatTransactionFees(provider, decvcplatCall);
+
+    expect(quote.baseFeePerGas).toBeNull();
+    expect(quote.suggestions.fast.gasPrice).toBe(gwei('12.5'));
+    expect(applyDecVCPlatFeeSuggestion(decvcplatCall, quote, 'normal')).toMatchObject({ gasPrice: hex(gwei('10')) });
+  });
+
+  it('reports the revert reason when the estimate fails', async () => {
+    const revertData = `0x08c379a0${AbiCoder.defaultAbiCoder().encode(['string'], ['DecVCPlat: Insufficient balance']).slice(2)}`;
+    const provider = createFeeProvider({
+      eth_estimateGas: () => { throw Object.assign(new Error('execution reverted'), { code: 3, data: revertData }); },
+      eth_feeHistory: () => ({ baseFeePerGas: ['0x1'], gasUsedRatio: [], reward: [] }),
+    });
+
+    await expect(quoteDecVCPlatTransactionFees(provider, decvcplatCall)).rejects.toThrow('DecVCPlat: Insufficient balance');
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  decvcplatMilestoneVotingPeriodMs,
+  evaluateDecVCPlatMilestoneVote,
+  getDecVCPlatMilestoneVoteEndTime,
+  getDecVCPlatOnChainMilestoneCompletionBlocker,
+  getDecVCPlatOnChainMilestoneVoteBlocker,
+} from '../../services/blockchain/DecVCPlatMilestoneVoting';
+
+const decvcplatCompletedAt = new Date('2024-05-01T00:00:00Z');
+const decvcplatVoteEnd = getDecVCPlatMilestoneVoteEndTime(decvcplatCompletedAt);
+
+describe('DecVCPlatMilestoneVoting', () => {
+  it('opens a three day window from completion', () => {
+    expect(decvcplatVoteEnd.getTime() - decvcplatCompletedAt.getTime()).toBe(decvcplatMilestoneVotingPeriodMs);
+    expect(decvcplatVoteEnd.toISOString()).toBe('2024-05-04T00:00:00.000Z');
+  });
+
+  it('has no window before the milestone is marked complete', () => {
+    const decvcplatEvaluation = evaluateDecVCPlatMilestoneVote({ status: 'Pending' }, decvcplatCompletedAt);
+    expect(decvcplatEvaluation).toMatchObject({ votingStarted: false, votingOpen: false, totalVotes: 0, msRemaining: 0 });
+  });
+
+  it('tallies approvals against rejections up to and including the window end', () => {
+    const decvcplatMilestone = {
+      status: 'Completed' as const,
+      voteEndTime: decvcplatVoteEnd.toISOString(),
+      approvalVotes: 3000,
+      rejectionVotes: 1000,
+    };
+
+    const decvcplatOpen = evaluateDecVCPlatMilestoneVote(decvcplatMilestone, decvcplatVoteEnd);
+    expect(decvcplatOpen).toMatchObject({ votingStarted: true, votingOpen: true, totalVotes: 4000, approvalPercent: 75, approvalLeading: true });
+
+    const decvcplatClosed = evaluateDecVCPlatMilestoneVote(decvcplatMilestone, new Date(decvcplatVoteEnd.getTime() + 1));
+    expect(decvcplatClosed).toMatchObject({ votingOpen: false, msRemaining: 0 });
+
+    const decvcplatTied = evaluateDecVCPlatMilestoneVote({ ...decvcplatMilestone, rejectionVotes: 3000 }, decvcplatCompletedAt);
+    expect(decvcplatTied.approvalLeading).toBe(false);
+    expect(decvcplatTied.msRemaining).toBe(decvcplatMilestoneVotingPeriodMs);
+  });
+
+  it('mirrors the contract checks before sending milestone transactions', () => {
+    const decvcplatOnChainEnd = BigInt(decvcplatVoteEnd.getTime() / 1000);
+
+    expect(getDecVCPlatOnChainMilestoneCompletionBlocker({ completed: true })).toBe('Milestone is already complete on-chain');
+    expect(getDecVCPlatOnChainMilestoneCompletionBlocker({ completed: false })).toBeNull();
+
+    expect(getDecVCPlatOnChainMilestoneVoteBlocker({ completed: false, voteEndTime: BigInt(0) }, BigInt(100), decvcplatCompletedAt))
+      .toBe('Milestone has not been marked complete on-chain');
+    expect(getDecVCPlatOnChainMilestoneVoteBlocker(
+      { completed: true, voteEndTime: decvcplatOnChainEnd }, BigInt(100), new Date(decvcplatVoteEnd.getTime() + 1000)
+    )).toBe('On-chain milestone voting has closed');
+    expect(getDecVCPlatOnChainMilestoneVoteBlocker({ completed: true, voteEndTime: decvcplatOnChainEnd }, BigInt(0), decvcplatCompletedAt))
+      .toBe('Stake DVCP for voting before voting on milestones');
+    expect(getDecVCPlatOnChainMilestoneVoteBlocker({ completed: true, voteEndTime: decvcplatOnChainEnd }, BigInt(100), decvcplatVoteEnd))
+      .toBeNull();
+  });
+});
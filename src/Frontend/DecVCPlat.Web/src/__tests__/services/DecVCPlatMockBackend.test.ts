@@ -0,0 +1,460 @@
+import { AxiosAdapter } from 'axios';
+import { Wallet } from 'ethers';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import { decvcplatMockBackend } from '../../services/api/DecVCPlatMockBackend';
+import { decvcplatMockPassword } from '../../services/api/DecVCPlatMockFixtures';
+import { buildDecVCPlatSiweMessage } from '../../services/blockchain/DecVCPlatSiweMessage';
+import {
+  createDecVCPlatBallot,
+  decvcplatBallotTypes,
+  getDecVCPlatBallotDomain,
+  toDecVCPlatSignedBallot,
+} from '../../services/blockchain/DecVCPlatSignedBallot';
+import { evaluateDecVCPlatProposal } from '../../services/blockchain/DecVCPlatProposalLifecycle';
+
+const signInAs = async (email: string) => {
+  const session = await decvcplatApiService.authenticateDecVCPlatUser({ email, password: decvcplatMockPassword });
+  decvcplatApiService.setDecVCPlatAuthenticationToken(session.token, session.refreshToken);
+  return session;
+};
+
+const signSiweMessage = async (wallet: Wallet) => {
+  const { nonce } = await decvcplatApiService.requestDecVCPlatSiweNonce({ walletAddress: wallet.address });
+  const message = buildDecVCPlatSiweMessage({
+    domain: 'localhost',
+    address: wallet.address,
+    uri: 'http://localhost',
+    version: '1',
+    chainId: 31337,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  return { message, signature: await wallet.signMessage(message) };
+};
+
+describe('DecVCPlatMockBackend', () => {
+  beforeEach(() => {
+    decvcplatMockBackend.reset();
+    decvcplatApiService.clearDecVCPlatAuthentication();
+  });
+
+  it('serves the client when mock mode is enabled', () => {
+    expect(decvcplatApiService.isDecVCPlatMockMode()).toBe(true);
+    // Only the mock serves the vote revision routes
+    expect(decvcplatApiService.supportsDecVCPlatVoteRevision()).toBe(true);
+  });
+
+  it('rejects unknown credentials', async () => {
+    await expect(
+      decvcplatApiService.authenticateDecVCPlatUser({ email: 'founder@decvcplat.com', password: 'wrong' })
+    ).rejects.toMatchObject({ response: { status: 401 } });
+  });
+
+  it('pages and filters projects on the server side', async () => {
+    const page = await decvcplatApiService.fetchDecVCPlatProjects({ page: 1, pageSize: 2, status: 'All' });
+    expect(page.items).toHaveLength(2);
+    expect(page.totalPages).toBe(2);
+
+    const healthcare = await decvcplatApiService.fetchDecVCPlatProjects({ category: 'Healthcare' });
+    expect(healthcare.items.map(project => project.id)).toEqual(['1']);
+  });
+
+  it('keeps created projects between requests', async () => {
+    await signInAs('founder@decvcplat.com');
+
+    const created = await decvcplatApiService.createDecVCPlatProject({
+      title: 'Carbon Credit Marketplace',
+      description: 'A transparent marketplace for verified carbon credits settled on-chain for small buyers.',
+      category: 'Sustainability',
+      fundingGoal: 500000,
+      tags: ['Climate'],
+      milestones: [{ title: 'Pilot', description: 'First buyers', fundingAmount: 100000, dueDate: '2025-01-01' }],
+    });
+
+    const fetched = await decvcplatApiService.fetchDecVCPlatProjectById(created.id);
+    expect(fetched.founderId).toBe('founder1');
+    expect(fetched.milestones[0].status).toBe('Pending');
+  });
+
+  it('returns field-level validation errors', async () => {
+    await signInAs('founder@decvcplat.com');
+
+    await expect(
+      decvcplatApiService.createDecVCPlatProject({
+        title: 'AI',
+        description: 'Too short',
+        category: 'Technology',
+        fundingGoal: 1000,
+        tags: [],
+        milestones: [{ title: '', description: '', fundingAmount: 5000, dueDate: '2025-01-01' }],
+      })
+    ).rejects.toMatchObject({
+      response: {
+        status: 400,
+        data: {
+          errors: expect.objectContaining({
+            Title: expect.any(Array),
+            Description: expect.any(Array),
+            'Milestones[0].Title': expect.any(Array),
+            Milestones: expect.any(Array),
+          }),
+        },
+      },
+    });
+  });
+
+  it('rejects a second vote on the same proposal', async () => {
+    await signInAs('investor@decvcplat.com');
+
+    const vote = await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 1000 });
+    expect(vote.votingPower).toBe(1000);
+
+    const proposal = await decvcplatApiService.fetchDecVCPlatProposalById('1');
+    expect(proposal.forVotes).toBe(10000);
+
+    await expect(
+      decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'Against', stakedAmount: 1000 })
+    ).rejects.toMatchObject({ response: { data: { message: 'You have already voted on this proposal' } } });
+  });
+
+  it('replays a POST that failed on an expired token once the session is refreshed', async () => {
+    await signInAs('investor@decvcplat.com');
+    const decvcplatApiInstance = decvcplatApiService['decvcplatApiInstance'];
+    const decvcplatMockAdapter = decvcplatApiInstance.defaults.adapter as AxiosAdapter;
+    const sent: Array<{ url?: string; idempotencyKey?: string }> = [];
+    decvcplatApiInstance.defaults.adapter = (config) => {
+      sent.push({ url: config.url, idempotencyKey: config.headers['Idempotency-Key'] as string | undefined });
+      return decvcplatMockAdapter(config);
+    };
+    // Past the access token lifetime; the refresh token is still valid
+    const signedInAt = Date.now();
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(signedInAt + 16 * 60 * 1000);
+
+    try {
+      const vote = await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 1000 });
+
+      expect(vote.votingPower).toBe(1000);
+      expect(sent.map((request) => request.url)).toEqual(['/voting/vote', '/auth/refresh', '/voting/vote']);
+      expect(sent[2].idempotencyKey).toBe(sent[0].idempotencyKey);
+      expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).forVotes).toBe(10000);
+    } finally {
+      nowSpy.mockRestore();
+      decvcplatApiInstance.defaults.adapter = decvcplatMockAdapter;
+    }
+  });
+
+  it('changes and withdraws a vote without double counting, keeping the history', async () => {
+    await signInAs('investor@decvcplat.com');
+    await expect(
+      decvcplatApiService.changeDecVCPlatVote({ proposalId: '1', choice: 'Against', stakedAmount: 1000 })
+    ).rejects.toMatchObject({ response: { data: { message: 'You have not voted on this proposal yet' } } });
+
+    const { votesCast } = await decvcplatApiService.fetchDecVCPlatUserVotingStats();
+    const first = await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 1000 });
+    const changed = await decvcplatApiService.changeDecVCPlatVote({ proposalId: '1', choice: 'Against', stakedAmount: 2000 });
+    expect(changed.previousVote).toMatchObject({ id: first.id, replacedByVoteId: changed.vote?.id });
+    expect(changed.proposal).toMatchObject({ forVotes: 9000, againstVotes: 5000 });
+
+    const withdrawn = await decvcplatApiService.withdrawDecVCPlatVote('1');
+    expect(withdrawn.vote).toBeUndefined();
+    expect(withdrawn.previousVote.withdrawnAt).toBeDefined();
+    expect(withdrawn.proposal).toMatchObject({ forVotes: 9000, againstVotes: 3000 });
+    await expect(decvcplatApiService.withdrawDecVCPlatVote('1')).rejects.toMatchObject({ response: { status: 400 } });
+
+    const history = await decvcplatApiService.fetchDecVCPlatUserVotes();
+    expect(history.filter((vote) => vote.proposalId === '1').map((vote) => vote.choice).sort()).toEqual(['Against', 'For']);
+    expect((await decvcplatApiService.fetchDecVCPlatUserVotingStats()).votesCast).toBe(votesCast);
+
+    await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'Abstain', stakedAmount: 500 });
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).abstainVotes).toBe(3500);
+  });
+
+  it('refuses to change a vote once the proposal has closed', async () => {
+    await signInAs('investor@decvcplat.com');
+    await expect(
+      decvcplatApiService.changeDecVCPlatVote({ proposalId: '2', choice: 'Against', stakedAmount: 1000 })
+    ).rejects.toMatchObject({ response: { data: { message: 'Voting period has ended for this proposal' } } });
+  });
+
+  it('carries delegated power on the delegate\'s ballot and tells the delegator', async () => {
+    await signInAs('investor@decvcplat.com');
+    await expect(
+      decvcplatApiService.createDecVCPlatDelegation({ delegateId: 'luminary1', amount: 60000 })
+    ).rejects.toMatchObject({ response: { status: 400, data: { errors: { Amount: expect.any(Array) } } } });
+    const delegation = await decvcplatApiService.createDecVCPlatDelegation({ delegateId: 'luminary1', amount: 20000 });
+    expect(await decvcplatApiService.fetchDecVCPlatUserVotingStats()).toMatchObject({ totalVotingPower: 30000, delegatedPower: 20000 });
+    await expect(
+      decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 40000 })
+    ).rejects.toMatchObject({ response: { status: 400 } });
+
+    await signInAs('luminary@decvcplat.com');
+    const vote = await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 5000 });
+    expect(vote).toMatchObject({ votingPower: 25000, delegatedFrom: 'Emma Davis' });
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).forVotes).toBe(34000);
+
+    await signInAs('investor@decvcplat.com');
+    const feed = await decvcplatApiService.fetchDecVCPlatNotifications();
+    expect(feed.items[0]).toMatchObject({ title: 'Your delegate voted', metadata: { proposalId: '1', delegationId: delegation.id } });
+
+    await decvcplatApiService.revokeDecVCPlatDelegation(delegation.id);
+    const history = await decvcplatApiService.fetchDecVCPlatDelegations();
+    expect(history.map((entry) => entry.status)).toEqual(['Revoked', 'Revoked']);
+    expect((await decvcplatApiService.fetchDecVCPlatUserVotingStats()).totalVotingPower).toBe(50000);
+  });
+
+  it('moves revoked power off the delegate\'s open ballots before the delegator votes with it', async () => {
+    await signInAs('investor@decvcplat.com');
+    const delegation = await decvcplatApiService.createDecVCPlatDelegation({ delegateId: 'luminary1', amount: 20000 });
+
+    await signInAs('luminary@decvcplat.com');
+    await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 5000 });
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).forVotes).toBe(34000);
+
+    await signInAs('investor@decvcplat.com');
+    await decvcplatApiService.revokeDecVCPlatDelegation(delegation.id);
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).forVotes).toBe(14000);
+
+    await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 20000 });
+    expect(await decvcplatApiService.fetchDecVCPlatProposalById('1')).toMatchObject({ forVotes: 34000, participation: 40000 });
+
+    await signInAs('luminary@decvcplat.com');
+    const [ballot] = (await decvcplatApiService.fetchDecVCPlatUserVotes()).filter((vote) => vote.proposalId === '1');
+    expect(ballot.votingPower).toBe(5000);
+    expect(ballot.delegatedFrom).toBeUndefined();
+  });
+
+  it('refuses to delegate stake that already backs an open ballot', async () => {
+    await signInAs('investor@decvcplat.com');
+    await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 50000 });
+    await expect(
+      decvcplatApiService.createDecVCPlatDelegation({ delegateId: 'luminary1', amount: 20000 })
+    ).rejects.toMatchObject({
+      response: { status: 400, data: { errors: { Amount: [expect.stringContaining('50,000 DVCP backs your ballots on open proposals')] } } },
+    });
+
+    // Freeing part of the stake lets that part go to the delegate, counted once
+    await decvcplatApiService.changeDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 30000 });
+    await decvcplatApiService.createDecVCPlatDelegation({ delegateId: 'luminary1', amount: 20000 });
+
+    await signInAs('luminary@decvcplat.com');
+    await decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 5000 });
+    expect(await decvcplatApiService.fetchDecVCPlatProposalById('1')).toMatchObject({ forVotes: 64000, participation: 70000 });
+  });
+
+  it('counts gasless ballots signed by the linked wallet and serves a public receipt', async () => {
+    const wallet = new Wallet(`0x${'11'.repeat(32)}`);
+    await signInAs('investor@decvcplat.com');
+    await decvcplatApiService.connectDecVCPlatWallet({ walletAddress: wallet.address, ...(await signSiweMessage(wallet)) });
+
+    const signBallot = async (proposalId: string, signer: Wallet) => {
+      const ballot = createDecVCPlatBallot({ proposalId, choice: 'For', stakedAmount: 1500, voter: signer.address });
+      const signature = await signer.signTypedData(getDecVCPlatBallotDomain(31337), decvcplatBallotTypes, ballot);
+      return { proposalId, choice: ballot.choice, stakedAmount: ballot.stakedAmount, signedBallot: toDecVCPlatSignedBallot(ballot, 31337, signature) };
+    };
+
+    await expect(decvcplatApiService.castDecVCPlatVote(await signBallot('1', wallet))).rejects.toMatchObject({
+      response: { data: { message: 'Signed ballots are only accepted on Governance proposals' } },
+    });
+    await expect(decvcplatApiService.castDecVCPlatVote(await signBallot('5', new Wallet(`0x${'22'.repeat(32)}`)))).rejects.toMatchObject({
+      response: { data: { message: 'Ballot must be signed by the wallet linked to your account' } },
+    });
+    const tampered = await signBallot('5', wallet);
+    await expect(decvcplatApiService.castDecVCPlatVote({ ...tampered, stakedAmount: 3000 })).rejects.toMatchObject({
+      response: { data: { message: 'Ballot signature was not produced by the voter' } },
+    });
+
+    const vote = await decvcplatApiService.castDecVCPlatVote(await signBallot('5', wallet));
+    expect(vote.ballotHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    decvcplatApiService.clearDecVCPlatAuthentication();
+    const receipt = await decvcplatApiService.fetchDecVCPlatBallotReceipt(vote.ballotHash!);
+    expect(receipt.vote.id).toBe(vote.id);
+    // Governance proposals are tallied quadratically
+    expect(receipt.proposal).toMatchObject({ votingStrategy: 'Quadratic', forVotes: 38.73, participation: 1500 });
+    expect(receipt.ballots).toHaveLength(1);
+  });
+
+  it('weighs ballots by the strategy of the proposal type and keeps quorum unweighted', async () => {
+    await signInAs('luminary@decvcplat.com');
+    const create = (proposalType: 'FundingRelease' | 'Governance') => decvcplatApiService.createDecVCPlatProposal({
+      title: `${proposalType} strategy check`,
+      description: 'Checks how the proposal type weighs its ballots',
+      proposalType,
+    });
+    const conviction = await create('FundingRelease');
+    const quadratic = await create('Governance');
+    expect(conviction.votingStrategy).toBe('Conviction');
+    expect(quadratic.votingStrategy).toBe('Quadratic');
+
+    await signInAs('investor@decvcplat.com');
+    expect((await decvcplatApiService.fetchDecVCPlatUserVotingStats()).stakeAgeDays).toBeCloseTo(20, 1);
+    // 20 of 90 days locked lifts own stake by 2/9
+    const convictionVote = await decvcplatApiService.castDecVCPlatVote({ proposalId: conviction.id, choice: 'For', stakedAmount: 9000 });
+    expect(convictionVote.weight).toBeCloseTo(11000, 0);
+    const quadraticVote = await decvcplatApiService.castDecVCPlatVote({ proposalId: quadratic.id, choice: 'Against', stakedAmount: 10000 });
+    expect(quadraticVote.weight).toBe(100);
+
+    const convictionProposal = await decvcplatApiService.fetchDecVCPlatProposalById(conviction.id);
+    expect(convictionProposal.forVotes).toBeCloseTo(11000, 0);
+    expect(convictionProposal.participation).toBe(9000);
+    expect(evaluateDecVCPlatProposal(convictionProposal).quorumReached).toBe(false);
+
+    const withdrawn = await decvcplatApiService.withdrawDecVCPlatVote(quadratic.id);
+    expect(withdrawn.proposal).toMatchObject({ againstVotes: 0, participation: 0 });
+  });
+
+  it('settles expired proposals and notifies the proposer and voters', async () => {
+    decvcplatMockBackend.reset(new Date(Date.now() - 6.5 * 24 * 60 * 60 * 1000));
+    await signInAs('luminary@decvcplat.com');
+
+    const active = await decvcplatApiService.fetchDecVCPlatProposals({ status: 'Active' });
+    expect(active.items).toHaveLength(0);
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('1')).status).toBe('Passed');
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('3')).status).toBe('Failed');
+    await expect(
+      decvcplatApiService.castDecVCPlatVote({ proposalId: '1', choice: 'For', stakedAmount: 1000 })
+    ).rejects.toMatchObject({ response: { data: { message: 'Voting period has ended for this proposal' } } });
+
+    // The fixture feed already holds a VotingResult that points at no proposal
+    const feed = await decvcplatApiService.fetchDecVCPlatNotifications({ type: 'VotingResult' });
+    const settled = feed.items.filter((notification) => notification.metadata?.proposalId);
+    expect(settled.map((notification) => notification.metadata?.proposalId).sort()).toEqual(['1', '3', '5']);
+    expect(settled.find((notification) => notification.metadata?.proposalId === '1')?.title).toBe('Proposal Passed');
+  });
+
+  it('releases approved tranches and updates the project', async () => {
+    await signInAs('luminary@decvcplat.com');
+
+    const result = await decvcplatApiService.releaseDecVCPlatFunds({
+      trancheId: 't4',
+      amount: 500000,
+      recipientWalletAddress: '0x1111111111111111111111111111111111111111',
+    });
+    expect(result.status).toBe('Released');
+    expect(result.transactionHash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    const project = await decvcplatApiService.fetchDecVCPlatProjectById('2');
+    expect(project.currentFunding).toBe(1000000);
+    expect(project.milestones[0].status).toBe('FundingReleased');
+  });
+
+  it('executes passed funding proposals and links the transaction to the released tranche', async () => {
+    await signInAs('investor@decvcplat.com');
+    await expect(decvcplatApiService.executeDecVCPlatProposal('2')).rejects.toMatchObject({ response: { status: 403 } });
+
+    await signInAs('luminary@decvcplat.com');
+    await expect(decvcplatApiService.executeDecVCPlatProposal('1')).rejects.toMatchObject({
+      response: { data: { message: 'Voting has not closed on this proposal yet' } },
+    });
+    await expect(decvcplatApiService.executeDecVCPlatProposal('4')).rejects.toMatchObject({
+      response: { data: { message: 'Only passed proposals can be executed' } },
+    });
+
+    const transactionHash = `0x${'ab'.repeat(32)}`;
+    const execution = await decvcplatApiService.executeDecVCPlatProposal('2', { transactionHash, chainId: 31337, blockNumber: 42 });
+    expect(execution.proposal).toMatchObject({ status: 'Executed', executionTransactionHash: transactionHash, executedTrancheId: 't4' });
+    expect(execution.tranche).toMatchObject({ id: 't4', status: 'Released', releaseTransactionHash: transactionHash });
+
+    const project = await decvcplatApiService.fetchDecVCPlatProjectById('2');
+    expect(project.currentFunding).toBe(1000000);
+    expect(project.milestones[0].status).toBe('FundingReleased');
+    expect((await decvcplatApiService.fetchDecVCPlatProposalById('2')).status).toBe('Executed');
+    await expect(decvcplatApiService.executeDecVCPlatProposal('2')).rejects.toMatchObject({
+      response: { data: { message: 'Proposal has already been executed' } },
+    });
+  });
+
+  it('lets the founder complete a milestone and releases its funding once approvals lead', async () => {
+    await signInAs('investor@decvcplat.com');
+    await expect(
+      decvcplatApiService.completeDecVCPlatMilestone('1', 'm3', { evidence: 'Marketplace beta shipped to pilot users' })
+    ).rejects.toMatchObject({ response: { status: 403 } });
+
+    await signInAs('founder@decvcplat.com');
+    await expect(
+      decvcplatApiService.completeDecVCPlatMilestone('1', 'm3', { evidence: 'Done' })
+    ).rejects.toMatchObject({ response: { status: 400, data: { errors: { Evidence: expect.any(Array) } } } });
+    const completed = await decvcplatApiService.completeDecVCPlatMilestone('1', 'm3', {
+      evidence: 'Marketplace beta shipped to pilot users',
+    });
+    expect(completed.milestones.find((milestone) => milestone.id === 'm3')).toMatchObject({
+      status: 'Completed',
+      approvalVotes: 0,
+      rejectionVotes: 0,
+    });
+    await expect(
+      decvcplatApiService.completeDecVCPlatMilestone('1', 'm3', { evidence: 'Marketplace beta shipped to pilot users' })
+    ).rejects.toMatchObject({ response: { data: { message: 'Milestone has already been marked complete' } } });
+
+    await signInAs('investor@decvcplat.com');
+    const fundingBefore = (await decvcplatApiService.fetchDecVCPlatProjectById('1')).currentFunding;
+    const approved = await decvcplatApiService.voteOnDecVCPlatMilestone('1', 'm2', { approve: true });
+    const milestone = approved.milestones.find((item) => item.id === 'm2');
+    expect(milestone).toMatchObject({ status: 'FundingReleased', approvalVotes: 50000, rejectionVotes: 0 });
+    expect(milestone?.fundingTransactionHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(approved.currentFunding).toBe(fundingBefore + milestone!.fundingAmount);
+    await expect(
+      decvcplatApiService.voteOnDecVCPlatMilestone('1', 'm2', { approve: false })
+    ).rejects.toMatchObject({ response: { data: { message: 'You have already voted on this milestone' } } });
+
+    await signInAs('founder@decvcplat.com');
+    const feed = await decvcplatApiService.fetchDecVCPlatNotifications({ type: 'FundingRelease' });
+    expect(feed.items.some((notification) => notification.metadata?.milestoneId === 'm2')).toBe(true);
+  });
+
+  it('rejects milestones whose approval window closed without approvals leading', async () => {
+    decvcplatMockBackend.reset(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+    await signInAs('luminary@decvcplat.com');
+
+    const project = await decvcplatApiService.fetchDecVCPlatProjectById('1');
+    expect(project.milestones.find((milestone) => milestone.id === 'm2')?.status).toBe('Rejected');
+    await expect(
+      decvcplatApiService.voteOnDecVCPlatMilestone('1', 'm2', { approve: true })
+    ).rejects.toMatchObject({ response: { data: { message: 'Milestone voting period has ended' } } });
+  });
+
+  it('signs in with Ethereum only after the wallet is linked, and never twice with one nonce', async () => {
+    const wallet = new Wallet(`0x${'11'.repeat(32)}`);
+
+    await expect(
+      decvcplatApiService.authenticateDecVCPlatWithEthereum(await signSiweMessage(wallet))
+    ).rejects.toMatchObject({ response: { status: 401 } });
+
+    await signInAs('investor@decvcplat.com');
+    const linked = await decvcplatApiService.connectDecVCPlatWallet({
+      walletAddress: wallet.address,
+      ...(await signSiweMessage(wallet)),
+    });
+    expect(linked).toMatchObject({ walletAddress: wallet.address, isWalletVerified: true });
+    decvcplatApiService.clearDecVCPlatAuthentication();
+
+    const proof = await signSiweMessage(wallet);
+    const session = await decvcplatApiService.authenticateDecVCPlatWithEthereum(proof);
+    expect(session.user.email).toBe('investor@decvcplat.com');
+
+    await expect(
+      decvcplatApiService.authenticateDecVCPlatWithEthereum(proof)
+    ).rejects.toMatchObject({ response: { status: 401 } });
+  });
+
+  it('refuses to link a wallet with a signature from another account', async () => {
+    await signInAs('investor@decvcplat.com');
+    const proof = await signSiweMessage(new Wallet(`0x${'22'.repeat(32)}`));
+
+    await expect(
+      decvcplatApiService.connectDecVCPlatWallet({ walletAddress: new Wallet(`0x${'33'.repeat(32)}`).address, ...proof })
+    ).rejects.toMatchObject({ response: { status: 400 } });
+  });
+
+  it('tracks notification read state per user', async () => {
+    await signInAs('founder@decvcplat.com');
+
+    const feed = await decvcplatApiService.fetchDecVCPlatNotifications();
+    expect(feed.unreadCount).toBe(3);
+
+    await decvcplatApiService.markAllDecVCPlatNotificationsAsRead();
+    const unread = await decvcplatApiService.fetchDecVCPlatNotifications({ isRead: false });
+    expect(unread.items).toHaveLength(0);
+    expect(unread.unreadCount).toBe(0);
+  });
+});
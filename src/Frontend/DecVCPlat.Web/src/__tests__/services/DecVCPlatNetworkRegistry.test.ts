@@ -0,0 +1,38 @@
+import { DecVCPlatNetworkRegistry, decvcplatLocalChainId } from '../../services/blockchain/DecVCPlatNetworkRegistry';
+
+describe('DecVCPlatNetworkRegistry', () => {
+  it('resolves the local development chain out of the box', () => {
+    const registry = new DecVCPlatNetworkRegistry();
+
+    expect(registry.getDecVCPlatNetwork(decvcplatLocalChainId)).toMatchObject({ name: 'Hardhat Local', rpcUrl: 'http://127.0.0.1:8545' });
+    expect(registry.requireDecVCPlatContractAddress(decvcplatLocalChainId, 'governance')).toBe('0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512');
+    // The token contract handles plain staking itself
+    expect(registry.getDecVCPlatContractAddress(decvcplatLocalChainId, 'staking')).toBe('0x5FbDB2315678afecb367f032d93F642f64180aa3');
+    expect(() => registry.requireDecVCPlatContractAddress(1, 'token')).toThrow('not deployed on Ethereum Mainnet');
+  });
+
+  it('layers manifest deployments over the defaults and notifies subscribers', () => {
+    const registry = new DecVCPlatNetworkRegistry(undefined, [11155111, 8453]);
+    const listener = jest.fn();
+    registry.subscribe(listener);
+
+    registry.applyDecVCPlatDeploymentManifest({
+      11155111: { contracts: { token: '0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9' } },
+      8453: { name: 'Base', rpcUrl: 'https://mainnet.base.org', blockExplorerUrl: 'https://basescan.org/', isTestnet: false },
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(registry.getDecVCPlatNetworks().map(network => network.chainId)).toEqual([11155111, 8453]);
+    expect(registry.getDecVCPlatContractAddress(11155111, 'token')).toBe('0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9');
+    expect(registry.getDecVCPlatNetwork(11155111)?.blockExplorerUrl).toBe('https://sepolia.etherscan.io');
+    expect(registry.getDecVCPlatExplorerUrl(8453, 'tx', '0xabc')).toBe('https://basescan.org/tx/0xabc');
+  });
+
+  it('rejects manifests with bad addresses or incomplete new chains', () => {
+    const registry = new DecVCPlatNetworkRegistry();
+
+    expect(() => registry.applyDecVCPlatDeploymentManifest({ 1: { contracts: { governance: '0x1234' } } })).toThrow('invalid governance address');
+    expect(() => registry.applyDecVCPlatDeploymentManifest({ 8453: { contracts: {} } })).toThrow('needs a name and rpcUrl');
+    expect(registry.getDecVCPlatContractAddress(1, 'governance')).toBeUndefined();
+  });
+});
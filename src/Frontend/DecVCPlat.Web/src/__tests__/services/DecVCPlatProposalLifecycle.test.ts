@@ -0,0 +1,159 @@
+import {
+  DecVCPlatLifecycleProposal,
+  applyDecVCPlatProposalLifecycle,
+  canDecVCPlatProposalTransition,
+  evaluateDecVCPlatProposal,
+  getDecVCPlatExecutionBlocker,
+  getDecVCPlatOnChainExecutionBlocker,
+  getDecVCPlatRevoteBlocker,
+  findDecVCPlatCurrentBallot,
+  isDecVCPlatProposalFinal,
+} from '../../services/blockchain/DecVCPlatProposalLifecycle';
+
+const decvcplatStart = new Date('2024-05-01T00:00:00Z');
+const decvcplatEnd = new Date('2024-05-08T00:00:00Z');
+const decvcplatAfterEnd = new Date(decvcplatEnd.getTime() + 1);
+
+const createProposal = (decvcplatOverrides: Partial<DecVCPlatLifecycleProposal> = {}): DecVCPlatLifecycleProposal => ({
+  status: 'Active',
+  startTime: decvcplatStart.toISOString(),
+  endTime: decvcplatEnd.toISOString(),
+  quorumThreshold: 10000,
+  approvalThreshold: 51,
+  forVotes: 6000,
+  againstVotes: 4000,
+  abstainVotes: 0,
+  ...decvcplatOverrides,
+});
+
+describe('DecVCPlatProposalLifecycle', () => {
+  it('follows the clock from Pending through Active to an outcome', () => {
+    const decvcplatProposal = createProposal({ status: 'Pending' });
+
+    expect(evaluateDecVCPlatProposal(decvcplatProposal, new Date(decvcplatStart.getTime() - 3600000))).toMatchObject({
+      status: 'Pending',
+      votingOpen: false,
+      msRemaining: 3600000,
+    });
+    expect(evaluateDecVCPlatProposal(decvcplatProposal, decvcplatStart).status).toBe('Active');
+    // Like castVote, the contract still accepts ballots at exactly endTime
+    expect(evaluateDecVCPlatProposal(decvcplatProposal, decvcplatEnd)).toMatchObject({ status: 'Active', votingOpen: true, msRemaining: 0 });
+    expect(evaluateDecVCPlatProposal(decvcplatProposal, decvcplatAfterEnd)).toMatchObject({ status: 'Passed', votingOpen: false });
+
+    const decvcplatSettled = applyDecVCPlatProposalLifecycle(decvcplatProposal, decvcplatAfterEnd);
+    expect(decvcplatSettled).not.toBe(decvcplatProposal);
+    expect(decvcplatSettled.status).toBe('Passed');
+    expect(applyDecVCPlatProposalLifecycle(decvcplatSettled, decvcplatAfterEnd)).toBe(decvcplatSettled);
+  });
+
+  it('applies quorum and approval the way the governance contract does', () => {
+    const decvcplatOutcome = (decvcplatOverrides: Partial<DecVCPlatLifecycleProposal>) =>
+      evaluateDecVCPlatProposal(createProposal(decvcplatOverrides), decvcplatAfterEnd).status;
+
+    // Quorum is inclusive and abstentions count toward it
+    expect(decvcplatOutcome({ forVotes: 5100, againstVotes: 4900, abstainVotes: 0 })).toBe('Passed');
+    expect(decvcplatOutcome({ forVotes: 5100, againstVotes: 4800, abstainVotes: 0 })).toBe('Failed');
+    expect(decvcplatOutcome({ forVotes: 3000, againstVotes: 1000, abstainVotes: 6000 })).toBe('Passed');
+    // A tie fails, as For must strictly beat Against
+    expect(decvcplatOutcome({ forVotes: 5000, againstVotes: 5000, approvalThreshold: 50 })).toBe('Failed');
+    // The approval threshold is measured on For + Against only
+    expect(decvcplatOutcome({ forVotes: 5000, againstVotes: 4901, abstainVotes: 99 })).toBe('Failed');
+    expect(decvcplatOutcome({ forVotes: 0, againstVotes: 0, abstainVotes: 0, quorumThreshold: 0 })).toBe('Failed');
+
+    expect(evaluateDecVCPlatProposal(createProposal({ abstainVotes: 5000 }), decvcplatStart)).toMatchObject({
+      totalVotes: 15000,
+      quorumReached: true,
+      quorumPercent: 150,
+      approvalPercent: 60,
+      approvalReached: true,
+      projectedOutcome: 'Passed',
+    });
+  });
+
+  it('measures quorum on unweighted participation when a strategy weighs the tallies', () => {
+    // A quadratic tally of 100 For from 10000 DVCP of ballots
+    const decvcplatQuadratic = createProposal({ forVotes: 100, againstVotes: 0, abstainVotes: 0, participation: 10000 });
+    expect(evaluateDecVCPlatProposal(decvcplatQuadratic, decvcplatStart)).toMatchObject({
+      totalVotes: 100,
+      participation: 10000,
+      quorumReached: true,
+      quorumPercent: 100,
+    });
+    expect(evaluateDecVCPlatProposal(createProposal({ participation: 9999 }), decvcplatAfterEnd).status).toBe('Failed');
+  });
+
+  it('keeps recorded outcomes and only allows forward transitions', () => {
+    (['Passed', 'Failed', 'Executed', 'Cancelled'] as const).forEach(decvcplatStatus => {
+      expect(evaluateDecVCPlatProposal(createProposal({ status: decvcplatStatus, forVotes: 0 }), decvcplatStart).status).toBe(decvcplatStatus);
+    });
+
+    expect(canDecVCPlatProposalTransition('Active', 'Passed')).toBe(true);
+    expect(canDecVCPlatProposalTransition('Passed', 'Executed')).toBe(true);
+    expect(canDecVCPlatProposalTransition('Failed', 'Executed')).toBe(false);
+    expect(canDecVCPlatProposalTransition('Executed', 'Active')).toBe(false);
+    expect(isDecVCPlatProposalFinal('Passed')).toBe(false);
+    expect(isDecVCPlatProposalFinal('Cancelled')).toBe(true);
+  });
+
+  it('only clears passed proposals for execution once voting has closed', () => {
+    expect(getDecVCPlatExecutionBlocker(createProposal(), decvcplatEnd)).toBe('Voting has not closed on this proposal yet');
+    expect(getDecVCPlatExecutionBlocker(createProposal(), decvcplatAfterEnd)).toBeNull();
+    expect(getDecVCPlatExecutionBlocker(createProposal({ status: 'Passed', forVotes: 4000, againstVotes: 4000 }), decvcplatAfterEnd))
+      .toBe('Proposal did not reach quorum');
+    expect(getDecVCPlatExecutionBlocker(createProposal({ forVotes: 4000, againstVotes: 6000 }), decvcplatAfterEnd))
+      .toBe('Only passed proposals can be executed');
+    expect(getDecVCPlatExecutionBlocker(createProposal({ status: 'Executed' }), decvcplatAfterEnd))
+      .toBe('Proposal has already been executed');
+
+    const decvcplatOnChain = {
+      state: 'Active' as const,
+      endTime: BigInt(decvcplatEnd.getTime() / 1000),
+      forVotes: BigInt(600),
+      againstVotes: BigInt(300),
+      abstainVotes: BigInt(100),
+    };
+    const decvcplatSupply = BigInt(10000);
+    const decvcplatQuorum = BigInt(10);
+    // block.timestamp must be strictly past endTime
+    expect(getDecVCPlatOnChainExecutionBlocker(decvcplatOnChain, decvcplatSupply, decvcplatQuorum, decvcplatEnd))
+      .toBe('On-chain voting period has not ended yet');
+    const decvcplatNextBlock = new Date(decvcplatEnd.getTime() + 1000);
+    expect(getDecVCPlatOnChainExecutionBlocker(decvcplatOnChain, decvcplatSupply, decvcplatQuorum, decvcplatNextBlock)).toBeNull();
+    // The contract's quorum division rounds down
+    expect(getDecVCPlatOnChainExecutionBlocker(decvcplatOnChain, BigInt(10009), decvcplatQuorum, decvcplatNextBlock)).toBeNull();
+    expect(getDecVCPlatOnChainExecutionBlocker(decvcplatOnChain, BigInt(10010), decvcplatQuorum, decvcplatNextBlock))
+      .toBe('Proposal did not reach the on-chain quorum');
+    expect(getDecVCPlatOnChainExecutionBlocker({ ...decvcplatOnChain, state: 'Succeeded' }, decvcplatSupply, decvcplatQuorum, decvcplatAfterEnd))
+      .toBe('Proposal has already been executed on-chain');
+  });
+
+  it('lets off-chain ballots change only while voting is open', () => {
+    const decvcplatDuringVoting = new Date('2024-05-03T00:00:00Z');
+    expect(getDecVCPlatRevoteBlocker(createProposal(), false, decvcplatDuringVoting)).toBeNull();
+    expect(getDecVCPlatRevoteBlocker(createProposal(), true, decvcplatDuringVoting))
+      .toBe('On-chain votes cannot be changed once cast');
+    expect(getDecVCPlatRevoteBlocker(createProposal(), false, decvcplatAfterEnd))
+      .toBe('Votes can only be changed while the proposal is Active');
+  });
+
+  it('finds the ballot that still counts among a voter\'s history', () => {
+    const decvcplatBallot = {
+      id: 'v1',
+      proposalId: '1',
+      userId: 'investor1',
+      userName: 'Emma Davis',
+      choice: 'For' as const,
+      votingPower: 1000,
+      stakedAmount: 1000,
+      timestamp: decvcplatStart.toISOString(),
+    };
+    const decvcplatHistory = [
+      { ...decvcplatBallot, id: 'v3', choice: 'Abstain' as const, withdrawnAt: decvcplatEnd.toISOString() },
+      { ...decvcplatBallot, id: 'v2', choice: 'Against' as const },
+      { ...decvcplatBallot, replacedAt: decvcplatStart.toISOString(), replacedByVoteId: 'v2' },
+    ];
+    expect(findDecVCPlatCurrentBallot(decvcplatHistory, '1', 'investor1')?.id).toBe('v2');
+    expect(findDecVCPlatCurrentBallot(decvcplatHistory, '1', 'luminary1')).toBeUndefined();
+    expect(findDecVCPlatCurrentBallot(decvcplatHistory.slice(0, 1), '1')).toBeUndefined();
+  });
+});
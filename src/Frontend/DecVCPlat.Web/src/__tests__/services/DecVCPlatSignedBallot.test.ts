@@ -0,0 +1,92 @@
+import { Wallet } from 'ethers';
+import {
+  buildDecVCPlatBallotTypedData,
+  createDecVCPlatBallot,
+  decvcplatBallotTypes,
+  getDecVCPlatBallotDomain,
+  hashDecVCPlatBallot,
+  toDecVCPlatSignedBallot,
+  verifyDecVCPlatBallotReceipt,
+  verifyDecVCPlatSignedBallot,
+} from '../../services/blockchain/DecVCPlatSignedBallot';
+import type { BallotReceiptDto, VoteDto, VotingProposalDto } from '../../services/api/DecVCPlatApiContracts';
+
+const decvcplatVoter = new Wallet(`0x${'44'.repeat(32)}`);
+const decvcplatChainId = 31337;
+
+const signBallot = async (decvcplatWallet: Wallet, decvcplatStake = 1500) => {
+  const decvcplatBallot = createDecVCPlatBallot(
+    { proposalId: '5', choice: 'For', stakedAmount: decvcplatStake, voter: decvcplatWallet.address.toLowerCase() },
+    new Date('2024-05-01T12:00:00Z')
+  );
+  const decvcplatSignature = await decvcplatWallet.signTypedData(
+    getDecVCPlatBallotDomain(decvcplatChainId),
+    decvcplatBallotTypes,
+    decvcplatBallot
+  );
+  return { decvcplatBallot, decvcplatSignedBallot: toDecVCPlatSignedBallot(decvcplatBallot, decvcplatChainId, decvcplatSignature) };
+};
+
+const toVote = (decvcplatSigned: Awaited<ReturnType<typeof signBallot>>, decvcplatId: string): VoteDto => ({
+  id: decvcplatId,
+  proposalId: '5',
+  userId: decvcplatId,
+  userName: decvcplatId,
+  choice: decvcplatSigned.decvcplatBallot.choice,
+  votingPower: decvcplatSigned.decvcplatBallot.stakedAmount,
+  stakedAmount: decvcplatSigned.decvcplatBallot.stakedAmount,
+  timestamp: '2024-05-01T12:00:00Z',
+  signedBallot: decvcplatSigned.decvcplatSignedBallot,
+  ballotHash: hashDecVCPlatBallot(decvcplatSigned.decvcplatBallot, decvcplatChainId),
+});
+
+describe('DecVCPlatSignedBallot', () => {
+  it('produces the eth_signTypedData_v4 document and recovers the voter', async () => {
+    const { decvcplatBallot, decvcplatSignedBallot } = await signBallot(decvcplatVoter);
+
+    expect(decvcplatBallot).toMatchObject({ voter: decvcplatVoter.address, issuedAt: 1714564800 });
+    expect(decvcplatBallot.nonce).toMatch(/^0x[0-9a-f]{32}$/);
+    const decvcplatTypedData = buildDecVCPlatBallotTypedData(decvcplatBallot, decvcplatChainId);
+    expect(decvcplatTypedData.primaryType).toBe('Ballot');
+    expect(decvcplatTypedData.types.EIP712Domain).toHaveLength(3);
+    expect(decvcplatTypedData.domain).toEqual({ name: 'DecVCPlat Governance', version: '1', chainId: '0x7a69' });
+
+    expect(verifyDecVCPlatSignedBallot(decvcplatBallot, decvcplatSignedBallot)).toEqual({
+      ballotHash: hashDecVCPlatBallot(decvcplatBallot, decvcplatChainId),
+      signer: decvcplatVoter.address,
+      signatureValid: true,
+    });
+    // Changing the choice or the chain breaks the signature
+    expect(verifyDecVCPlatSignedBallot({ ...decvcplatBallot, choice: 'Against' }, decvcplatSignedBallot).signatureValid).toBe(false);
+    expect(verifyDecVCPlatSignedBallot(decvcplatBallot, { ...decvcplatSignedBallot, chainId: 1 }).signatureValid).toBe(false);
+    expect(verifyDecVCPlatSignedBallot(decvcplatBallot, { ...decvcplatSignedBallot, signature: '0x1234' })).toMatchObject({
+      signer: null,
+      signatureValid: false,
+    });
+    expect(() => createDecVCPlatBallot({ proposalId: '5', choice: 'For', stakedAmount: 1.5, voter: decvcplatVoter.address })).toThrow();
+  });
+
+  it('checks a receipt against the proposal\'s published ballots', async () => {
+    const decvcplatOwn = toVote(await signBallot(decvcplatVoter), 'own');
+    const decvcplatOther = toVote(await signBallot(new Wallet(`0x${'55'.repeat(32)}`), 700), 'other');
+    const decvcplatReceipt: BallotReceiptDto = {
+      vote: decvcplatOwn,
+      proposal: { id: '5' } as VotingProposalDto,
+      ballots: [decvcplatOther, decvcplatOwn],
+    };
+
+    expect(verifyDecVCPlatBallotReceipt(decvcplatReceipt)).toMatchObject({
+      signatureValid: true,
+      includedInProposal: true,
+      publishedBallots: 2,
+      invalidPublishedBallots: 0,
+    });
+
+    // Published with a different stake than was signed
+    const decvcplatAltered = verifyDecVCPlatBallotReceipt({
+      ...decvcplatReceipt,
+      ballots: [decvcplatOther, { ...decvcplatOwn, stakedAmount: 100 }],
+    });
+    expect(decvcplatAltered).toMatchObject({ signatureValid: true, includedInProposal: false, invalidPublishedBallots: 1 });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  buildDecVCPlatSiweMessage,
+  DecVCPlatSiweMessageFields,
+  parseDecVCPlatSiweMessage,
+} from '../../services/blockchain/DecVCPlatSiweMessage';
+
+const decvcplatFields: DecVCPlatSiweMessageFields = {
+  domain: 'app.decvcplat.com',
+  address: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+  statement: 'Sign in to DecVCPlat.',
+  uri: 'https://app.decvcplat.com',
+  version: '1',
+  chainId: 31337,
+  nonce: 'k3d9x7q2m1p0',
+  issuedAt: '2024-05-01T12:00:00.000Z',
+  expirationTime: '2024-05-01T12:05:00.000Z',
+};
+
+describe('DecVCPlatSiweMessage', () => {
+  it('lays the message out as EIP-4361 and parses it back', () => {
+    const decvcplatMessage = buildDecVCPlatSiweMessage(decvcplatFields);
+
+    expect(decvcplatMessage).toBe([
+      'app.decvcplat.com wants you to sign in with your Ethereum account:',
+      '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      '',
+      'Sign in to DecVCPlat.',
+      '',
+      'URI: https://app.decvcplat.com',
+      'Version: 1',
+      'Chain ID: 31337',
+      'Nonce: k3d9x7q2m1p0',
+      'Issued At: 2024-05-01T12:00:00.000Z',
+      'Expiration Time: 2024-05-01T12:05:00.000Z',
+    ].join('\n'));
+    expect(parseDecVCPlatSiweMessage(decvcplatMessage)).toMatchObject({
+      ...decvcplatFields,
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    });
+  });
+
+  it('rejects weak nonces and tampered messages', () => {
+    expect(() => buildDecVCPlatSiweMessage({ ...decvcplatFields, nonce: 'abc' })).toThrow('nonce');
+
+    const decvcplatTampered = buildDecVCPlatSiweMessage(decvcplatFields).replace('Version: 1\n', '');
+    expect(() => parseDecVCPlatSiweMessage(decvcplatTampered)).toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+import { MaxUint256 } from 'ethers';
+import {
+  DecVCPlatEip1193Provider,
+  DecVCPlatGovernanceContract,
+  DecVCPlatTokenContract,
+  decvcplatGovernanceInterface,
+  decvcplatTokenInterface,
+  parseDecVCPlatTokenAmount,
+} from '../../services/blockchain/DecVCPlatContractBindings';
+import { DecVCPlatStakingStep, runDecVCPlatStakingFlow } from '../../services/blockchain/DecVCPlatStakingFlow';
+
+const decvcplatOwner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const decvcplatTokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const decvcplatGovernanceAddress = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+// Answers allowance reads and records every transaction the flow sends
+const createDecVCPlatChain = (decvcplatAllowance: bigint) => {
+  const decvcplatSent: Array<{ to: string; name: string; args: unknown[] }> = [];
+  const decvcplatProvider: DecVCPlatEip1193Provider = {
+    request: async ({ method, params }) => {
+      const [decvcplatCall] = params as Array<{ to: string; data: string }>;
+      const decvcplatInterface = decvcplatCall.to === decvcplatTokenAddress ? decvcplatTokenInterface : decvcplatGovernanceInterface;
+      const decvcplatParsed = decvcplatInterface.parseTransaction({ data: decvcplatCall.data })!;
+
+      if (method === 'eth_call') {
+        return decvcplatTokenInterface.encodeFunctionResult('allowance', [decvcplatAllowance]);
+      }
+      decvcplatSent.push({ to: decvcplatCall.to, name: decvcplatParsed.name, args: [...decvcplatParsed.args] });
+      return `0x${String(decvcplatSent.length).padStart(64, '0')}`;
+    },
+  };
+
+  return {
+    decvcplatSent,
+    decvcplatDependencies: {
+      ownerAddress: decvcplatOwner,
+      tokenContract: new DecVCPlatTokenContract(decvcplatTokenAddress, decvcplatProvider, decvcplatOwner),
+      governanceContract: new DecVCPlatGovernanceContract(decvcplatGovernanceAddress, decvcplatProvider, decvcplatOwner),
+      waitForTransaction: jest.fn(async () => undefined),
+    },
+  };
+};
+
+const finalStatuses = (decvcplatSteps: DecVCPlatStakingStep[]) =>
+  decvcplatSteps.reduce<Record<string, string>>((decvcplatStatuses, decvcplatStep) => ({ ...decvcplatStatuses, [decvcplatStep.key]: decvcplatStep.status }), {});
+
+describe('DecVCPlatStakingFlow', () => {
+  it('approves the exact shortfall before staking for votes', async () => {
+    const { decvcplatSent, decvcplatDependencies } = createDecVCPlatChain(BigInt(0));
+    const decvcplatSteps: DecVCPlatStakingStep[] = [];
+
+    await runDecVCPlatStakingFlow({ amount: '2500', target: 'voting', approvalMode: 'exact' }, decvcplatDependencies, (step) => decvcplatSteps.push(step));
+
+    expect(decvcplatSent.map(tx => tx.name)).toEqual(['approve', 'stakeForVoting']);
+    expect(decvcplatSent[0].args).toEqual([decvcplatGovernanceAddress, parseDecVCPlatTokenAmount('2500')]);
+    expect(decvcplatDependencies.waitForTransaction).toHaveBeenCalledTimes(2);
+    expect(finalStatuses(decvcplatSteps)).toEqual({ allowance: 'completed', approve: 'completed', stake: 'completed' });
+  });
+
+  it('requests an unlimited allowance when chosen', async () => {
+    const { decvcplatSent, decvcplatDependencies } = createDecVCPlatChain(BigInt(0));
+
+    await runDecVCPlatStakingFlow({ amount: '10', target: 'voting', approvalMode: 'unlimited' }, decvcplatDependencies, () => undefined);
+
+    expect(decvcplatSent[0].args[1]).toBe(MaxUint256);
+  });
+
+  it('skips the approval when the allowance already covers the stake', async () => {
+    const { decvcplatSent, decvcplatDependencies } = createDecVCPlatChain(parseDecVCPlatTokenAmount('5000'));
+    const decvcplatSteps: DecVCPlatStakingStep[] = [];
+
+    await runDecVCPlatStakingFlow({ amount: '5000', target: 'voting', approvalMode: 'exact' }, decvcplatDependencies, (step) => decvcplatSteps.push(step));
+
+    expect(decvcplatSent.map(tx => tx.name)).toEqual(['stakeForVoting']);
+    expect(finalStatuses(decvcplatSteps).approve).toBe('skipped');
+  });
+
+  it('stakes for rewards without touching allowances', async () => {
+    const { decvcplatSent, decvcplatDependencies } = createDecVCPlatChain(BigInt(0));
+
+    await runDecVCPlatStakingFlow({ amount: '1', target: 'rewards', approvalMode: 'exact' }, decvcplatDependencies, () => undefined);
+
+    expect(decvcplatSent).toEqual([{ to: decvcplatTokenAddress, name: 'stakeTokens', args: [parseDecVCPlatTokenAmount('1')] }]);
+  });
+
+  it('stops before staking when the approval reverts', async () => {
+    const { decvcplatSent, decvcplatDependencies } = createDecVCPlatChain(BigInt(0));
+    decvcplatDependencies.waitForTransaction.mockRejectedValueOnce(new Error('DecVCPlat transaction failed'));
+    const decvcplatSteps: DecVCPlatStakingStep[] = [];
+
+    await expect(
+      runDecVCPlatStakingFlow({ amount: '3', target: 'voting', approvalMode: 'exact' }, decvcplatDependencies, (step) => decvcplatSteps.push(step))
+    ).rejects.toThrow('DecVCPlat transaction failed');
+
+    expect(decvcplatSent.map(tx => tx.name)).toEqual(['approve']);
+    expect(finalStatuses(decvcplatSteps)).toEqual({ allowance: 'completed', approve: 'failed' });
+  });
+});
@@ -0,0 +1,114 @@
+import { toQuantity } from 'ethers';
+import {
+  DecVCPlatEip1193Provider,
+  DecVCPlatTokenContract,
+  decvcplatTokenInterface,
+  parseDecVCPlatTokenAmount,
+} from '../../services/blockchain/DecVCPlatContractBindings';
+import {
+  DecVCPlatStakingRewardsSnapshot,
+  buildDecVCPlatRewardSeries,
+  calculateDecVCPlatPendingRewardsAt,
+  readDecVCPlatStakingRewards,
+  toDecVCPlatStakingSummary,
+} from '../../services/blockchain/DecVCPlatStakingRewards';
+import type { DecVCPlatIndexedEvent } from '../../services/blockchain/DecVCPlatEventIndexer';
+
+const decvcplatTokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const decvcplatStaker = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const decvcplatYear = 365 * 24 * 60 * 60;
+const decvcplatDay = 24 * 60 * 60;
+
+const createSnapshot = (decvcplatOverrides: Partial<DecVCPlatStakingRewardsSnapshot> = {}): DecVCPlatStakingRewardsSnapshot => ({
+  stakedAmount: parseDecVCPlatTokenAmount('1000').toString(),
+  isActive: true,
+  stakingTime: 1700000000,
+  lastRewardTime: 1700000000,
+  pendingRewards: '0',
+  stakingRewardRate: '50',
+  rewardRatePrecision: '1000',
+  secondsPerYear: decvcplatYear,
+  minStakingPeriod: 7 * decvcplatDay,
+  readAt: 1700000000 + decvcplatYear / 2,
+  payouts: [],
+  ...decvcplatOverrides,
+});
+
+describe('DecVCPlatStakingRewards', () => {
+  it('reads the stake and reward parameters and summarises them from the contract', async () => {
+    const decvcplatResults: Record<string, unknown[]> = {
+      getStakeInfo: [parseDecVCPlatTokenAmount('1000'), 1700000000, 1700000000 + 10 * decvcplatDay, true, parseDecVCPlatTokenAmount('1.5')],
+      stakingRewardRate: [50],
+      REWARD_RATE_PRECISION: [1000],
+      SECONDS_PER_YEAR: [decvcplatYear],
+      MIN_STAKING_PERIOD: [7 * decvcplatDay],
+    };
+    const decvcplatProvider: DecVCPlatEip1193Provider = {
+      request: async ({ method, params }) => {
+        if (method === 'eth_getBlockByNumber') {
+          return { timestamp: toQuantity(1700000000 + 3 * decvcplatDay) };
+        }
+        const decvcplatFunction = decvcplatTokenInterface.parseTransaction({ data: (params as any[])[0].data })!;
+        return decvcplatTokenInterface.encodeFunctionResult(decvcplatFunction.name, decvcplatResults[decvcplatFunction.name]);
+      },
+    };
+    const decvcplatPayout = {
+      name: 'RewardsDistributed',
+      blockTimestamp: 1700000000 + 10 * decvcplatDay,
+      amount: parseDecVCPlatTokenAmount('0.25').toString(),
+    } as DecVCPlatIndexedEvent;
+    const decvcplatStake = { name: 'TokensStaked', blockTimestamp: 1700000000, amount: '1' } as DecVCPlatIndexedEvent;
+
+    const decvcplatSnapshot = await readDecVCPlatStakingRewards(
+      decvcplatProvider,
+      new DecVCPlatTokenContract(decvcplatTokenAddress, decvcplatProvider),
+      decvcplatStaker,
+      [decvcplatStake, decvcplatPayout]
+    );
+
+    expect(decvcplatSnapshot).toMatchObject({
+      stakingRewardRate: '50',
+      secondsPerYear: decvcplatYear,
+      readAt: 1700000000 + 3 * decvcplatDay,
+      payouts: [{ timestamp: decvcplatPayout.blockTimestamp, amount: decvcplatPayout.amount }],
+    });
+    expect(toDecVCPlatStakingSummary(decvcplatSnapshot, '250.0')).toEqual({
+      currentlyStakedAmount: '1000.0',
+      availableForStaking: '250.0',
+      earnedStakingRewards: '1.5',
+      unstakingWaitPeriod: 4,
+      annualPercentageYield: 5,
+    });
+  });
+
+  it('accrues with the contract formula and projects from the reward rate', () => {
+    const decvcplatSnapshot = createSnapshot();
+
+    // 5% of 1000 DVCP over half a year
+    expect(calculateDecVCPlatPendingRewardsAt(decvcplatSnapshot, decvcplatSnapshot.readAt)).toBe(parseDecVCPlatTokenAmount('25'));
+    expect(calculateDecVCPlatPendingRewardsAt(createSnapshot({ isActive: false }), decvcplatSnapshot.readAt)).toBe(BigInt(0));
+
+    const decvcplatSeries = buildDecVCPlatRewardSeries(decvcplatSnapshot, 365);
+    const decvcplatNow = decvcplatSeries.find(decvcplatPoint => decvcplatPoint.timestamp === decvcplatSnapshot.readAt)!;
+    expect(decvcplatNow).toEqual({ timestamp: decvcplatSnapshot.readAt, earned: 25, projected: 25 });
+    expect(decvcplatSeries[0]).toEqual({ timestamp: decvcplatSnapshot.stakingTime, earned: 0 });
+    expect(decvcplatSeries[decvcplatSeries.length - 1]).toEqual({ timestamp: decvcplatSnapshot.readAt + decvcplatYear, projected: 75 });
+  });
+
+  it('draws past payouts into the earned line', () => {
+    const decvcplatClaimTime = 1700000000 + decvcplatYear / 4;
+    const decvcplatSnapshot = createSnapshot({
+      lastRewardTime: decvcplatClaimTime,
+      payouts: [{ timestamp: decvcplatClaimTime, amount: parseDecVCPlatTokenAmount('12.5').toString() }],
+    });
+
+    const decvcplatSeries = buildDecVCPlatRewardSeries(decvcplatSnapshot, 30);
+    const decvcplatEarnedAt = (decvcplatTimestamp: number) =>
+      decvcplatSeries.find(decvcplatPoint => decvcplatPoint.timestamp === decvcplatTimestamp)?.earned;
+
+    expect(decvcplatEarnedAt(decvcplatClaimTime)).toBe(12.5);
+    // Half way to the claim, half of the payout
+    expect(decvcplatEarnedAt(1700000000 + decvcplatYear / 8)).toBeCloseTo(6.25);
+    expect(decvcplatEarnedAt(decvcplatSnapshot.readAt)).toBe(25);
+  });
+});
@@ -0,0 +1,200 @@
+import { AbiCoder, toQuantity } from 'ethers';
+import { DecVCPlatEip1193Provider } from '../../services/blockchain/DecVCPlatContractBindings';
+import {
+  DecVCPlatTrackedTransaction,
+  DecVCPlatTransactionTracker,
+} from '../../services/blockchain/DecVCPlatTransactionTracker';
+
+const decvcplatSender = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const decvcplatTokenAddress = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const decvcplatOriginalHash = `0x${'a'.repeat(64)}`;
+const decvcplatReplacementHash = `0x${'b'.repeat(64)}`;
+const decvcplatStakeCalldata = '0x7b0472f0';
+
+// A minimal node: tests mutate the chain between polling passes
+const createDecVCPlatChain = () => {
+  const decvcplatChain = {
+    blockNumber: 100,
+    accountNonce: 7,
+    pending: new Map<string, any>(),
+    receipts: new Map<string, any>(),
+    blocks: new Map<number, any[]>(),
+    callError: null as any,
+  };
+
+  const decvcplatProvider: DecVCPlatEip1193Provider = {
+    request: async ({ method, params }) => {
+      const decvcplatParams = (params ?? []) as any[];
+      switch (method) {
+        case 'eth_blockNumber':
+          return toQuantity(decvcplatChain.blockNumber);
+        case 'eth_getTransactionReceipt':
+          return decvcplatChain.receipts.get(decvcplatParams[0]) ?? null;
+        case 'eth_getTransactionByHash':
+          return decvcplatChain.pending.get(decvcplatParams[0]) ?? null;
+        case 'eth_getTransactionCount':
+          return toQuantity(decvcplatChain.accountNonce);
+        case 'eth_getBlockByNumber':
+          return { transactions: decvcplatChain.blocks.get(Number(decvcplatParams[0])) ?? [] };
+        case 'eth_call':
+          if (decvcplatChain.callError) {
+            throw decvcplatChain.callError;
+          }
+          return '0x';
+        default:
+          throw new Error(`Unexpected ${method}`);
+      }
+    },
+  };
+
+  return { decvcplatChain, decvcplatProvider };
+};
+
+const createDecVCPlatMemoryStorage = () => {
+  const decvcplatItems = new Map<string, string>();
+  return {
+    getItem: (key: string) => decvcplatItems.get(key) ?? null,
+    setItem: (key: string, value: string) => { decvcplatItems.set(key, value); },
+    removeItem: (key: string) => { decvcplatItems.delete(key); },
+  };
+};
+
+const decvcplatStakeInput = {
+  hash: decvcplatOriginalHash,
+  from: decvcplatSender,
+  to: decvcplatTokenAddress,
+  category: 'stake' as const,
+  amount: '250',
+  note: 'DecVCPlat 250 DVCP tokens staked for rewards',
+};
+
+const decvcplatPendingTransaction = (decvcplatHash: string, decvcplatOverrides: Record<string, unknown> = {}) => ({
+  hash: decvcplatHash,
+  from: decvcplatSender,
+  to: decvcplatTokenAddress,
+  nonce: toQuantity(7),
+  input: decvcplatStakeCalldata,
+  value: '0x0',
+  ...decvcplatOverrides,
+});
+
+const createDecVCPlatTracker = (decvcplatProvider: DecVCPlatEip1193Provider, decvcplatStorage = createDecVCPlatMemoryStorage()) =>
+  new DecVCPlatTransactionTracker({
+    getProvider: () => decvcplatProvider,
+    storage: decvcplatStorage,
+    requiredConfirmations: 3,
+    autoPoll: false,
+  });
+
+describe('DecVCPlatTransactionTracker', () => {
+  it('counts confirmations until the required depth is reached', async () => {
+    const { decvcplatChain, decvcplatProvider } = createDecVCPlatChain();
+    const decvcplatTracker = createDecVCPlatTracker(decvcplatProvider);
+    const decvcplatUpdates: DecVCPlatTrackedTransaction[] = [];
+    decvcplatTracker.subscribe((tx) => decvcplatUpdates.push(tx));
+
+    decvcplatTracker.track(decvcplatStakeInput);
+    decvcplatChain.pending.set(decvcplatOriginalHash, decvcplatPendingTransaction(decvcplatOriginalHash));
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    const decvcplatMined = decvcplatTracker.waitForDecVCPlatTransaction(decvcplatOriginalHash);
+    decvcplatChain.receipts.set(decvcplatOriginalHash, { blockNumber: toQuantity(101), status: '0x1', gasUsed: '0x5208' });
+    decvcplatChain.blockNumber = 101;
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+    await expect(decvcplatMined).resolves.toMatchObject({ status: 'mined', confirmations: 1, gasUsed: '21000' });
+
+    decvcplatChain.blockNumber = 103;
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    expect(decvcplatUpdates.map(tx => `${tx.status}:${tx.confirmations}`)).toEqual(['pending:0', 'mined:1', 'confirmed:3']);
+  });
+
+  it('decodes the revert reason of a failed transaction', async () => {
+    const { decvcplatChain, decvcplatProvider } = createDecVCPlatChain();
+    const decvcplatTracker = createDecVCPlatTracker(decvcplatProvider);
+
+    decvcplatTracker.track(decvcplatStakeInput);
+    decvcplatChain.pending.set(decvcplatOriginalHash, decvcplatPendingTransaction(decvcplatOriginalHash, { blockNumber: toQuantity(101) }));
+    decvcplatChain.receipts.set(decvcplatOriginalHash, { blockNumber: toQuantity(101), status: '0x0', gasUsed: '0x7530' });
+    decvcplatChain.callError = {
+      code: -32603,
+      data: {
+        originalError: {
+          data: `0x08c379a0${AbiCoder.defaultAbiCoder().encode(['string'], ['DecVCPlat: Insufficient balance']).slice(2)}`,
+        },
+      },
+    };
+
+    const decvcplatOutcome = decvcplatTracker.waitForDecVCPlatTransaction(decvcplatOriginalHash);
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    await expect(decvcplatOutcome).rejects.toThrow('Reverted: DecVCPlat: Insufficient balance');
+    expect(decvcplatTracker.getDecVCPlatTransaction(decvcplatOriginalHash)).toMatchObject({
+      status: 'failed',
+      revertReason: 'DecVCPlat: Insufficient balance',
+    });
+  });
+
+  it('follows a sped-up transaction to its replacement', async () => {
+    const { decvcplatChain, decvcplatProvider } = createDecVCPlatChain();
+    const decvcplatTracker = createDecVCPlatTracker(decvcplatProvider);
+
+    decvcplatTracker.track(decvcplatStakeInput);
+    decvcplatChain.pending.set(decvcplatOriginalHash, decvcplatPendingTransaction(decvcplatOriginalHash));
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+    const decvcplatOutcome = decvcplatTracker.waitForDecVCPlatTransaction(decvcplatOriginalHash);
+
+    // The wallet resubmits with a higher fee; the original leaves the mempool
+    decvcplatChain.pending.delete(decvcplatOriginalHash);
+    decvcplatChain.accountNonce = 8;
+    decvcplatChain.blockNumber = 101;
+    decvcplatChain.blocks.set(101, [decvcplatPendingTransaction(decvcplatReplacementHash)]);
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    expect(decvcplatTracker.getDecVCPlatTransaction(decvcplatOriginalHash)).toMatchObject({ status: 'replaced', replacedBy: decvcplatReplacementHash });
+    expect(decvcplatTracker.getDecVCPlatTransaction(decvcplatReplacementHash)).toMatchObject({
+      status: 'pending',
+      replacementOf: decvcplatOriginalHash,
+      category: 'stake',
+      amount: '250',
+    });
+
+    decvcplatChain.receipts.set(decvcplatReplacementHash, { blockNumber: toQuantity(101), status: '0x1', gasUsed: '0x5208' });
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    await expect(decvcplatOutcome).resolves.toMatchObject({ hash: decvcplatReplacementHash, status: 'mined' });
+  });
+
+  it('reports a nonce reused for a self-transfer as cancelled', async () => {
+    const { decvcplatChain, decvcplatProvider } = createDecVCPlatChain();
+    const decvcplatTracker = createDecVCPlatTracker(decvcplatProvider);
+
+    decvcplatTracker.track(decvcplatStakeInput);
+    decvcplatChain.pending.set(decvcplatOriginalHash, decvcplatPendingTransaction(decvcplatOriginalHash));
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+    const decvcplatOutcome = decvcplatTracker.waitForDecVCPlatTransaction(decvcplatOriginalHash);
+
+    decvcplatChain.pending.delete(decvcplatOriginalHash);
+    decvcplatChain.accountNonce = 8;
+    decvcplatChain.blockNumber = 102;
+    decvcplatChain.blocks.set(102, [decvcplatPendingTransaction(decvcplatReplacementHash, { to: decvcplatSender, input: '0x' })]);
+    await decvcplatTracker.refreshDecVCPlatTransactions();
+
+    await expect(decvcplatOutcome).rejects.toThrow('Cancelled in the wallet');
+    expect(decvcplatTracker.getDecVCPlatTransaction(decvcplatReplacementHash)).toBeUndefined();
+  });
+
+  it('restores pending transactions after a reload', async () => {
+    const { decvcplatProvider } = createDecVCPlatChain();
+    const decvcplatStorage = createDecVCPlatMemoryStorage();
+    createDecVCPlatTracker(decvcplatProvider, decvcplatStorage).track(decvcplatStakeInput);
+
+    const decvcplatReloaded = createDecVCPlatTracker(decvcplatProvider, decvcplatStorage);
+    const decvcplatAnnounced: string[] = [];
+    decvcplatReloaded.subscribe((tx) => decvcplatAnnounced.push(tx.hash));
+    decvcplatReloaded.resume();
+
+    expect(decvcplatAnnounced).toEqual([decvcplatOriginalHash]);
+    expect(decvcplatReloaded.getDecVCPlatTransaction(decvcplatOriginalHash)).toMatchObject({ status: 'pending', note: decvcplatStakeInput.note });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  DecVCPlatEip1193Provider,
+  DecVCPlatGovernanceContract,
+  DecVCPlatTokenContract,
+  decvcplatGovernanceInterface,
+  decvcplatTokenInterface,
+  parseDecVCPlatTokenAmount,
+} from '../../services/blockchain/DecVCPlatContractBindings';
+import {
+  buildDecVCPlatVotingPowerBreakdown,
+  calculateDecVCPlatBallotWeight,
+  readDecVCPlatOnChainVotingPower,
+} from '../../services/blockchain/DecVCPlatVotingPower';
+import type { UserVotingStatsDto } from '../../services/api/DecVCPlatApiContracts';
+
+const decvcplatTokenAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const decvcplatGovernanceAddress = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const decvcplatVoter = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+const decvcplatStats: UserVotingStatsDto = {
+  totalStaked: 9999,
+  totalVotingPower: 9999,
+  activeProposals: 2,
+  votesCast: 1,
+  proposalsCreated: 0,
+  rewardsEarned: 0,
+  delegatedPower: 300,
+  receivedPower: 1200,
+};
+
+describe('DecVCPlatVotingPower', () => {
+  it('reads own stake from the token and governance contracts', async () => {
+    const decvcplatProvider: DecVCPlatEip1193Provider = {
+      request: async ({ params }) => {
+        const { to } = (params as any[])[0];
+        return to === decvcplatTokenAddress
+          ? decvcplatTokenInterface.encodeFunctionResult('getVotingPower', [parseDecVCPlatTokenAmount('500')])
+          : decvcplatGovernanceInterface.encodeFunctionResult('stakedForVoting', [parseDecVCPlatTokenAmount('1500')]);
+      },
+    };
+
+    const decvcplatOnChain = await readDecVCPlatOnChainVotingPower(
+      new DecVCPlatTokenContract(decvcplatTokenAddress, decvcplatProvider),
+      new DecVCPlatGovernanceContract(decvcplatGovernanceAddress, decvcplatProvider),
+      decvcplatVoter
+    );
+    const decvcplatBreakdown = buildDecVCPlatVotingPowerBreakdown(decvcplatOnChain, decvcplatStats);
+
+    expect(decvcplatBreakdown).toEqual({
+      tokenStake: 500,
+      votingStake: 1500,
+      ownStake: 2000,
+      receivedDelegations: 1200,
+      delegatedAway: 300,
+      totalPower: 2900,
+      availableToStake: 1700,
+      stakeAgeDays: 0,
+      source: 'chain',
+    });
+    // The stake is capped at what has not been delegated away
+    expect(calculateDecVCPlatBallotWeight(decvcplatBreakdown, 1000)).toBe(2200);
+    expect(calculateDecVCPlatBallotWeight(decvcplatBreakdown, 5000)).toBe(2900);
+  });
+
+  it('falls back to the backend stake without a chain and skips a missing contract', async () => {
+    expect(buildDecVCPlatVotingPowerBreakdown(null, decvcplatStats)).toMatchObject({
+      votingStake: 9999,
+      ownStake: 9999,
+      totalPower: 9999 - 300 + 1200,
+      source: 'api',
+    });
+    expect(await readDecVCPlatOnChainVotingPower(null, null, decvcplatVoter)).toEqual({ tokenStake: BigInt(0), votingStake: BigInt(0) });
+    expect(buildDecVCPlatVotingPowerBreakdown(null, null).totalPower).toBe(0);
+  });
+});
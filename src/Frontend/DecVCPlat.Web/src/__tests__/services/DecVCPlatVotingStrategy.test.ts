@@ -0,0 +1,54 @@
+import {
+  calculateDecVCPlatStrategyWeight,
+  decvcplatConvictionMaxDays,
+  decvcplatProposalTypeVotingStrategies,
+  getDecVCPlatConvictionMultiplier,
+  getDecVCPlatProposalVotingStrategy,
+} from '../../services/blockchain/DecVCPlatVotingStrategy';
+import {
+  buildDecVCPlatVotingPowerBreakdown,
+  calculateDecVCPlatStrategyBallotWeight,
+} from '../../services/blockchain/DecVCPlatVotingPower';
+
+describe('DecVCPlatVotingStrategy', () => {
+  const decvcplatPower = { stakedAmount: 8100, receivedPower: 1900, stakeAgeDays: 45 };
+
+  it('weighs the same ballot linearly, quadratically and by conviction', () => {
+    expect(calculateDecVCPlatStrategyWeight('Linear', decvcplatPower)).toBe(10000);
+    expect(calculateDecVCPlatStrategyWeight('Quadratic', decvcplatPower)).toBe(100);
+    // Half of the conviction period earns half of the bonus on own stake only
+    expect(calculateDecVCPlatStrategyWeight('Conviction', decvcplatPower)).toBe(8100 * 1.5 + 1900);
+    expect(calculateDecVCPlatStrategyWeight('Quadratic', { stakedAmount: 1500, receivedPower: 0 })).toBe(38.73);
+  });
+
+  it('caps the conviction multiplier and ignores negative ages', () => {
+    expect(getDecVCPlatConvictionMultiplier()).toBe(1);
+    expect(getDecVCPlatConvictionMultiplier(-5)).toBe(1);
+    expect(getDecVCPlatConvictionMultiplier(decvcplatConvictionMaxDays)).toBe(2);
+    expect(getDecVCPlatConvictionMultiplier(decvcplatConvictionMaxDays * 3)).toBe(2);
+  });
+
+  it('falls back to linear for proposals recorded without a strategy', () => {
+    expect(getDecVCPlatProposalVotingStrategy({}).id).toBe('Linear');
+    expect(getDecVCPlatProposalVotingStrategy({ votingStrategy: decvcplatProposalTypeVotingStrategies.Governance }).id).toBe('Quadratic');
+  });
+
+  it('previews a ballot under the proposal strategy from the voting power breakdown', () => {
+    const decvcplatBreakdown = buildDecVCPlatVotingPowerBreakdown(null, {
+      totalStaked: 8100,
+      totalVotingPower: 10000,
+      activeProposals: 1,
+      votesCast: 0,
+      proposalsCreated: 0,
+      rewardsEarned: 0,
+      delegatedPower: 0,
+      receivedPower: 1900,
+      stakeAgeDays: 90,
+    });
+
+    expect(decvcplatBreakdown.stakeAgeDays).toBe(90);
+    // The stake is capped at what can still be committed, as with linear weight
+    expect(calculateDecVCPlatStrategyBallotWeight(decvcplatBreakdown, 20000, 'Quadratic')).toBe(100);
+    expect(calculateDecVCPlatStrategyBallotWeight(decvcplatBreakdown, 1000, 'Conviction')).toBe(3900);
+  });
+});
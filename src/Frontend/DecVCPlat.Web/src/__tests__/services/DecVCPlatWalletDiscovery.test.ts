@@ -0,0 +1,47 @@
+import decvcplatWalletDiscovery, { decvcplatLegacyWalletRdns } from '../../services/blockchain/DecVCPlatWalletDiscovery';
+
+// Mimics an extension's content script: answers every request with an announcement
+const installDecVCPlatWallet = (decvcplatName: string, decvcplatRdns: string) => {
+  const decvcplatProvider = { request: jest.fn() };
+  const announce = () =>
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', {
+      detail: Object.freeze({
+        info: { uuid: `${decvcplatRdns}-uuid`, name: decvcplatName, icon: 'data:image/svg+xml,<svg/>', rdns: decvcplatRdns },
+        provider: decvcplatProvider,
+      }),
+    }));
+  window.addEventListener('eip6963:requestProvider', announce);
+  return { decvcplatProvider, uninstall: () => window.removeEventListener('eip6963:requestProvider', announce) };
+};
+
+describe('DecVCPlatWalletDiscovery', () => {
+  afterEach(() => {
+    delete window.ethereum;
+  });
+
+  // Runs first: the discovery singleton keeps every wallet it has ever heard from
+  it('falls back to window.ethereum while nothing has announced', async () => {
+    window.ethereum = { isMetaMask: true, request: jest.fn() };
+
+    const decvcplatWallets = await decvcplatWalletDiscovery.discoverDecVCPlatWallets(0);
+
+    expect(decvcplatWallets).toHaveLength(1);
+    expect(decvcplatWallets[0].info).toMatchObject({ name: 'MetaMask', rdns: decvcplatLegacyWalletRdns });
+    expect(decvcplatWallets[0].provider).toBe(window.ethereum);
+  });
+
+  it('lists every announced wallet once with its own provider', async () => {
+    const decvcplatMetaMask = installDecVCPlatWallet('MetaMask', 'io.metamask');
+    const decvcplatRabby = installDecVCPlatWallet('Rabby Wallet', 'io.rabby');
+    window.ethereum = decvcplatRabby.decvcplatProvider;
+
+    await decvcplatWalletDiscovery.discoverDecVCPlatWallets(0);
+    const decvcplatWallets = await decvcplatWalletDiscovery.discoverDecVCPlatWallets(0);
+
+    expect(decvcplatWallets.map(wallet => wallet.info.name)).toEqual(['MetaMask', 'Rabby Wallet']);
+    expect(decvcplatWalletDiscovery.getDecVCPlatWallet('io.metamask')?.provider).toBe(decvcplatMetaMask.decvcplatProvider);
+
+    decvcplatMetaMask.uninstall();
+    decvcplatRabby.uninstall();
+  });
+});
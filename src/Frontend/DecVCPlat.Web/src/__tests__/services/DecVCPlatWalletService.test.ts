@@ -0,0 +1,166 @@
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+
+const decvcplatAccount = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const decvcplatOtherAccount = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const providerListeners = new Map<string, (...args: any[]) => void>();
+const emitProviderEvent = (event: string, ...args: any[]) => providerListeners.get(event)?.(...args);
+
+// A wallet that starts on mainnet and only knows the chains it has been given
+const installDecVCPlatWallet = () => {
+  const knownChains = new Set(['0x1']);
+  let currentChain = '0x1';
+  const request = jest.fn(async ({ method, params }: { method: string; params?: any[] }) => {
+    switch (method) {
+      case 'eth_requestAccounts':
+        return [decvcplatAccount];
+      case 'eth_chainId':
+        return currentChain;
+      case 'wallet_switchEthereumChain':
+        if (!knownChains.has(params![0].chainId)) {
+          throw Object.assign(new Error('Unrecognized chain ID'), { code: 4902 });
+        }
+        currentChain = params![0].chainId;
+        return null;
+      case 'wallet_addEthereumChain':
+        knownChains.add(params![0].chainId);
+        return null;
+      case 'eth_call':
+        return '0x';
+      case 'eth_estimateGas':
+        return '0xc350';
+      case 'eth_gasPrice':
+        return '0x3b9aca00';
+      case 'eth_sendTransaction':
+        throw Object.assign(new Error('User rejected the request.'), { code: 4001 });
+      default:
+        throw new Error(`Unexpected ${method}`);
+    }
+  });
+  window.ethereum = {
+    isMetaMask: true,
+    request,
+    on: jest.fn((event: string, listener: (...args: any[]) => void) => providerListeners.set(event, listener)),
+    removeListener: jest.fn((event: string) => providerListeners.delete(event)),
+  };
+  return request;
+};
+
+describe('DecVCPlatWalletService networks', () => {
+  afterEach(() => {
+    decvcplatWalletService.disconnectDecVCPlatWallet();
+    delete window.ethereum;
+  });
+
+  it('reports a chain missing from the wallet and adds it from the registry', async () => {
+    const request = installDecVCPlatWallet();
+    await decvcplatWalletService.connectDecVCPlatWallet();
+
+    await expect(decvcplatWalletService.switchDecVCPlatNetwork(31337)).resolves.toBe(false);
+    expect(decvcplatWalletService.getDecVCPlatCurrentNetwork()).toBe(1);
+
+    await decvcplatWalletService.addDecVCPlatNetwork(31337);
+
+    expect(request).toHaveBeenCalledWith({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId: '0x7a69',
+        chainName: 'Hardhat Local',
+        rpcUrls: ['http://127.0.0.1:8545'],
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        blockExplorerUrls: undefined,
+      }],
+    });
+    expect(decvcplatWalletService.getDecVCPlatCurrentNetwork()).toBe(31337);
+    expect(decvcplatWalletService.getDecVCPlatGovernanceAddress()).toBe('0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512');
+  });
+
+  it('refuses to add a chain the registry does not describe', async () => {
+    installDecVCPlatWallet();
+    await decvcplatWalletService.connectDecVCPlatWallet();
+
+    await expect(decvcplatWalletService.addDecVCPlatNetwork(424242)).rejects.toThrow('not configured');
+  });
+});
+
+describe('DecVCPlatWalletService provider events', () => {
+  const handlers = { onAccountChanged: jest.fn(), onNetworkChanged: jest.fn(), onDisconnected: jest.fn() };
+
+  beforeEach(async () => {
+    Object.values(handlers).forEach((handler) => handler.mockReset());
+    decvcplatWalletService.registerDecVCPlatProviderEventHandlers(handlers);
+    installDecVCPlatWallet();
+    await decvcplatWalletService.connectDecVCPlatWallet();
+  });
+
+  afterEach(() => {
+    decvcplatWalletService.disconnectDecVCPlatWallet();
+    delete window.ethereum;
+  });
+
+  it('follows the account selected in the wallet and reports a locked wallet as null', () => {
+    emitProviderEvent('accountsChanged', [decvcplatOtherAccount]);
+    expect(decvcplatWalletService.getDecVCPlatConnectedAddress()).toBe(decvcplatOtherAccount);
+    expect(handlers.onAccountChanged).toHaveBeenLastCalledWith(decvcplatOtherAccount);
+
+    emitProviderEvent('accountsChanged', []);
+    expect(decvcplatWalletService.getDecVCPlatConnectedAddress()).toBeNull();
+    expect(handlers.onAccountChanged).toHaveBeenLastCalledWith(null);
+  });
+
+  it('reports chain switches with the registry network name', () => {
+    emitProviderEvent('chainChanged', '0x7a69');
+
+    expect(decvcplatWalletService.getDecVCPlatCurrentNetwork()).toBe(31337);
+    expect(handlers.onNetworkChanged).toHaveBeenCalledWith(31337, 'Hardhat Local');
+  });
+
+  it('reports a provider disconnect with its reason', () => {
+    emitProviderEvent('disconnect', { code: 1013, message: 'Lost connection to the RPC' });
+    emitProviderEvent('disconnect');
+
+    expect(handlers.onDisconnected.mock.calls).toEqual([['Lost connection to the RPC'], ['DecVCPlat wallet disconnected']]);
+  });
+
+  it('stops listening once the wallet is disconnected', () => {
+    decvcplatWalletService.disconnectDecVCPlatWallet();
+    emitProviderEvent('accountsChanged', [decvcplatOtherAccount]);
+    emitProviderEvent('chainChanged', '0x7a69');
+
+    expect(providerListeners.size).toBe(0);
+    expect(handlers.onAccountChanged).not.toHaveBeenCalled();
+    expect(handlers.onNetworkChanged).not.toHaveBeenCalled();
+  });
+});
+
+describe('DecVCPlatWalletService transactions', () => {
+  beforeEach(async () => {
+    installDecVCPlatWallet();
+    await decvcplatWalletService.connectDecVCPlatWallet();
+    await decvcplatWalletService.addDecVCPlatNetwork(31337);
+  });
+
+  afterEach(() => {
+    decvcplatWalletService.registerDecVCPlatFeeConfirmationHandler(null);
+    decvcplatWalletService.disconnectDecVCPlatWallet();
+    delete window.ethereum;
+  });
+
+  it('keeps code 4001 when the user cancels the fee preview', async () => {
+    const confirmFees = jest.fn(async () => null);
+    decvcplatWalletService.registerDecVCPlatFeeConfirmationHandler(confirmFees);
+
+    await expect(decvcplatWalletService.stakeDecVCPlatTokens('100')).rejects.toMatchObject({
+      code: 4001,
+      message: 'DecVCPlat transaction cancelled before signing',
+    });
+    expect(confirmFees).toHaveBeenCalledWith(expect.objectContaining({ decvcplatFunctionName: 'stakeTokens', decvcplatNetworkId: 31337 }));
+  });
+
+  it('passes a rejection in the wallet through with its code', async () => {
+    await expect(decvcplatWalletService.stakeDecVCPlatTokens('100')).rejects.toMatchObject({
+      code: 4001,
+      message: 'User rejected the request.',
+    });
+  });
+});
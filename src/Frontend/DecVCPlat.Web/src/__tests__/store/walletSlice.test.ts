@@ -0,0 +1,100 @@
+import { configureStore, Middleware } from '@reduxjs/toolkit';
+import walletReducer, {
+  DecVCPlatWallet,
+  handleWalletAccountChange,
+  handleWalletNetworkChange,
+} from '../../store/slices/walletSlice';
+
+const decvcplatConnectedWallet: DecVCPlatWallet = {
+  address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+  walletType: 'MetaMask',
+  walletRdns: 'io.metamask',
+  networkId: 1,
+  connected: true,
+  ethBalance: '1.5',
+  decvcplatTokenBalance: '2500',
+  networkDisplayName: 'Ethereum Mainnet',
+};
+
+// Records every dispatched action type, so the follow-up fetches can be checked
+const createWalletStore = () => {
+  const dispatched: string[] = [];
+  const recordActions: Middleware = () => (next) => (action) => {
+    dispatched.push((action as { type: string }).type);
+    return next(action);
+  };
+  const store = configureStore({
+    reducer: { wallet: walletReducer },
+    preloadedState: {
+      wallet: {
+        ...walletReducer(undefined, { type: 'init' }),
+        walletConnection: decvcplatConnectedWallet,
+        userTokenBalances: [{
+          tokenSymbol: 'DVCP',
+          tokenName: 'DecVCPlat Token',
+          contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+          userBalance: '2500',
+          tokenDecimals: 18,
+        }],
+      },
+    },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(recordActions),
+  });
+  return { store, dispatched };
+};
+
+describe('walletSlice provider events', () => {
+  it('switches to the new account and fetches everything derived from it again', async () => {
+    const { store, dispatched } = createWalletStore();
+    const decvcplatNewAccount = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+    const pending = store.dispatch(handleWalletAccountChange(decvcplatNewAccount));
+    // The old account's balances are dropped before the new ones arrive
+    expect(store.getState().wallet.walletConnection?.address).toBe(decvcplatNewAccount);
+    expect(store.getState().wallet.userTokenBalances).toEqual([]);
+    await pending;
+
+    expect(dispatched).toEqual(expect.arrayContaining([
+      'decvcplatWallet/refreshWalletOnChainBalances/pending',
+      'decvcplatWallet/retrieveTokenBalances/pending',
+      'decvcplatWallet/retrieveTransactionHistory/pending',
+      'decvcplatWallet/retrieveStakingData/pending',
+    ]));
+  });
+
+  it('keeps the data when the wallet reports the same account in another case', async () => {
+    const { store } = createWalletStore();
+
+    await store.dispatch(handleWalletAccountChange(decvcplatConnectedWallet.address.toLowerCase()));
+
+    expect(store.getState().wallet.walletConnection?.address).toBe(decvcplatConnectedWallet.address);
+  });
+
+  it('disconnects when the wallet is locked or access is revoked', async () => {
+    const { store, dispatched } = createWalletStore();
+
+    await store.dispatch(handleWalletAccountChange(null));
+
+    expect(store.getState().wallet.walletConnection).toBeNull();
+    expect(dispatched).toContain('decvcplatWallet/terminateWalletConnection/fulfilled');
+    expect(dispatched).not.toContain('decvcplatWallet/retrieveTokenBalances/pending');
+  });
+
+  it('moves to the new chain and refetches only per-chain data', async () => {
+    const { store, dispatched } = createWalletStore();
+
+    await store.dispatch(handleWalletNetworkChange({ networkId: 137, networkDisplayName: 'Polygon Mainnet' }));
+
+    expect(store.getState().wallet.walletConnection).toMatchObject({
+      address: decvcplatConnectedWallet.address,
+      networkId: 137,
+      networkDisplayName: 'Polygon Mainnet',
+    });
+    expect(dispatched).toEqual(expect.arrayContaining([
+      'decvcplatWallet/refreshWalletOnChainBalances/pending',
+      'decvcplatWallet/retrieveTransactionHistory/pending',
+      'decvcplatWallet/retrieveStakingData/pending',
+    ]));
+    expect(dispatched).not.toContain('decvcplatWallet/retrieveTokenBalances/pending');
+  });
+});
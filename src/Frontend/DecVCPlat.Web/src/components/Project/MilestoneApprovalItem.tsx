@@ -0,0 +1,202 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React from 'react';
+import { Box, Button, Chip, LinearProgress, Link, Typography } from '@mui/material';
+import {
+  CheckCircle,
+  Schedule,
+  ThumbUp,
+  ThumbDown,
+  TaskAlt,
+  AttachMoney,
+} from '@mui/icons-material';
+import { ProjectMilestone, decvcplatCompletedMilestoneStatuses } from '../../store/slices/projectSlice';
+import { evaluateDecVCPlatMilestoneVote } from '../../services/blockchain/DecVCPlatMilestoneVoting';
+
+interface DecVCPlatMilestoneApprovalItemProps {
+  decvcplatMilestone: ProjectMilestone;
+  // The founder may mark an open milestone complete
+  decvcplatCanComplete?: boolean;
+  // Investors and Luminaries may vote while the window is open
+  decvcplatCanVote?: boolean;
+  decvcplatHasVoted?: boolean;
+  decvcplatBusy?: boolean;
+  onDecVCPlatComplete?: (milestoneId: string) => void;
+  onDecVCPlatVote?: (milestoneId: string, approve: boolean) => void;
+}
+
+const getDecVCPlatMilestoneStatusColor = (decvcplatStatus: ProjectMilestone['status']): 'default' | 'info' | 'success' | 'error' | 'warning' => {
+  switch (decvcplatStatus) {
+    case 'Completed': return 'info';
+    case 'Approved':
+    case 'FundingReleased': return 'success';
+    case 'Rejected': return 'error';
+    case 'InProgress': return 'warning';
+    default: return 'default';
+  }
+};
+
+const formatDecVCPlatWindow = (decvcplatMs: number): string => {
+  const decvcplatDays = Math.floor(decvcplatMs / (1000 * 60 * 60 * 24));
+  const decvcplatHours = Math.floor((decvcplatMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const decvcplatMinutes = Math.floor((decvcplatMs % (1000 * 60 * 60)) / (1000 * 60));
+  if (decvcplatDays > 0) return `${decvcplatDays}d ${decvcplatHours}h left to vote`;
+  if (decvcplatHours > 0) return `${decvcplatHours}h ${decvcplatMinutes}m left to vote`;
+  return `${decvcplatMinutes}m left to vote`;
+};
+
+const MilestoneApprovalItem: React.FC<DecVCPlatMilestoneApprovalItemProps> = ({
+  decvcplatMilestone,
+  decvcplatCanComplete = false,
+  decvcplatCanVote = false,
+  decvcplatHasVoted = false,
+  decvcplatBusy = false,
+  onDecVCPlatComplete,
+  onDecVCPlatVote,
+}) => {
+  const decvcplatEvaluation = evaluateDecVCPlatMilestoneVote(decvcplatMilestone);
+  const decvcplatAwaitingCompletion = !decvcplatEvaluation.votingStarted
+    && (decvcplatMilestone.status === 'Pending' || decvcplatMilestone.status === 'InProgress');
+
+  return (
+    <Box sx={{ py: 2, borderBottom: 1, borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+        {decvcplatCompletedMilestoneStatuses.includes(decvcplatMilestone.status) ? (
+          <CheckCircle color="success" sx={{ mt: 0.5 }} />
+        ) : (
+          <Schedule color="warning" sx={{ mt: 0.5 }} />
+        )}
+        <Box sx={{ flexGrow: 1 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+            <Typography variant="subtitle1" fontWeight={600}>
+              {decvcplatMilestone.title}
+            </Typography>
+            <Chip
+              label={decvcplatMilestone.status}
+              color={getDecVCPlatMilestoneStatusColor(decvcplatMilestone.status)}
+              size="small"
+            />
+          </Box>
+          <Typography variant="body2" color="text.secondary">
+            {decvcplatMilestone.description}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Due: {new Date(decvcplatMilestone.dueDate).toLocaleDateString()} •
+            Funding: ${decvcplatMilestone.fundingAmount?.toLocaleString()} ETH
+          </Typography>
+
+          {/* DecVCPlat Completion Evidence */}
+          {(decvcplatMilestone.completionEvidence || decvcplatMilestone.evidenceUrl) && (
+            <Box sx={{ mt: 1.5, p: 1.5, bgcolor: 'action.hover', borderRadius: 1 }}>
+              <Typography variant="caption" color="text.secondary" display="block">
+                Completion evidence{decvcplatMilestone.completedAt ? ` · ${new Date(decvcplatMilestone.completedAt).toLocaleDateString()}` : ''}
+              </Typography>
+              {decvcplatMilestone.completionEvidence && (
+                <Typography variant="body2">{decvcplatMilestone.completionEvidence}</Typography>
+              )}
+              {decvcplatMilestone.evidenceUrl && (
+                <Link href={decvcplatMilestone.evidenceUrl} target="_blank" rel="noopener noreferrer" variant="body2">
+                  {decvcplatMilestone.evidenceUrl}
+                </Link>
+              )}
+            </Box>
+          )}
+
+          {/* DecVCPlat Approval Tally */}
+          {decvcplatEvaluation.votingStarted && (
+            <Box sx={{ mt: 1.5 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                <Typography variant="body2" color="success.main">
+                  Approve: {decvcplatEvaluation.approvalVotes.toLocaleString()} DVCP
+                </Typography>
+                <Typography variant="body2" color="error.main">
+                  Reject: {decvcplatEvaluation.rejectionVotes.toLocaleString()} DVCP
+                </Typography>
+              </Box>
+              <LinearProgress
+                variant="determinate"
+                color="success"
+                value={decvcplatEvaluation.approvalPercent}
+                sx={{
+                  height: 6,
+                  borderRadius: 3,
+                  backgroundColor: decvcplatEvaluation.totalVotes > 0 ? 'error.light' : 'grey.200',
+                }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {decvcplatMilestone.votes?.length ?? 0} voter{decvcplatMilestone.votes?.length === 1 ? '' : 's'} •
+                {decvcplatEvaluation.votingOpen
+                  ? ` ${formatDecVCPlatWindow(decvcplatEvaluation.msRemaining)}`
+                  : ' Voting closed'}
+              </Typography>
+            </Box>
+          )}
+
+          {/* DecVCPlat Released Funding */}
+          {decvcplatMilestone.fundingReleasedAt && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1.5 }}>
+              <AttachMoney fontSize="small" color="success" />
+              <Box>
+                <Typography variant="body2" color="success.main">
+                  ${decvcplatMilestone.fundingAmount.toLocaleString()} ETH released on {new Date(decvcplatMilestone.fundingReleasedAt).toLocaleDateString()}
+                </Typography>
+                {decvcplatMilestone.fundingTransactionHash && (
+                  <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {decvcplatMilestone.fundingTransactionHash}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          )}
+
+          {/* DecVCPlat Milestone Actions */}
+          {decvcplatCanComplete && decvcplatAwaitingCompletion && (
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<TaskAlt />}
+              disabled={decvcplatBusy}
+              onClick={() => onDecVCPlatComplete?.(decvcplatMilestone.id)}
+              sx={{ mt: 1.5, textTransform: 'none' }}
+            >
+              Mark Complete
+            </Button>
+          )}
+          {decvcplatCanVote && decvcplatEvaluation.votingOpen && (
+            <Box sx={{ display: 'flex', gap: 1, mt: 1.5 }}>
+              <Button
+                variant="contained"
+                color="success"
+                size="small"
+                startIcon={<ThumbUp />}
+                disabled={decvcplatBusy || decvcplatHasVoted}
+                onClick={() => onDecVCPlatVote?.(decvcplatMilestone.id, true)}
+                sx={{ textTransform: 'none' }}
+              >
+                Approve
+              </Button>
+              <Button
+                variant="outlined"
+                color="error"
+                size="small"
+                startIcon={<ThumbDown />}
+                disabled={decvcplatBusy || decvcplatHasVoted}
+                onClick={() => onDecVCPlatVote?.(decvcplatMilestone.id, false)}
+                sx={{ textTransform: 'none' }}
+              >
+                Reject
+              </Button>
+              {decvcplatHasVoted && (
+                <Typography variant="caption" color="text.secondary" sx={{ alignSelf: 'center' }}>
+                  You have voted on this milestone
+                </Typography>
+              )}
+            </Box>
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default MilestoneApprovalItem;
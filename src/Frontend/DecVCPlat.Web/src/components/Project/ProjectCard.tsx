@@ -20,7 +20,7 @@ import {
   CheckCircle,
 } from '@mui/icons-material';
 import { Link as RouterLink } from 'react-router-dom';
-import { Project } from '../../store/slices/projectSlice';
+import { Project, decvcplatCompletedMilestoneStatuses } from '../../store/slices/projectSlice';
 
 interface DecVCPlatProjectCardProps {
   decvcplatProject: Project;
@@ -210,7 +210,7 @@ const ProjectCard: React.FC<DecVCPlatProjectCardProps> = ({
             <Box sx={{ display: 'flex', alignItems: 'center' }}>
               <CheckCircle fontSize="small" color="info" sx={{ mr: 0.5 }} />
               <Typography variant="caption" color="text.secondary">
-                {decvcplatProject.milestones.filter(m => m.isCompleted).length}/{decvcplatProject.milestones.length} milestones
+                {decvcplatProject.milestones.filter(m => decvcplatCompletedMilestoneStatuses.includes(m.status)).length}/{decvcplatProject.milestones.length} milestones
               </Typography>
             </Box>
             <Box sx={{ display: 'flex', alignItems: 'center' }}>
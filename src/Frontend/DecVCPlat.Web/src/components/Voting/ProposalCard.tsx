@@ -13,6 +13,7 @@ import {
   LinearProgress,
   useTheme,
   Divider,
+  Tooltip,
 } from '@mui/material';
 import {
   HowToVote,
@@ -22,24 +23,72 @@ import {
   CheckCircle,
   Cancel,
   RemoveCircle,
+  PlayArrow,
+  Undo,
 } from '@mui/icons-material';
 import { Link as RouterLink } from 'react-router-dom';
-import { VotingProposal } from '../../store/slices/votingSlice';
+import { Vote, VotingProposal } from '../../store/slices/votingSlice';
+import {
+  evaluateDecVCPlatProposal,
+  findDecVCPlatCurrentBallot,
+  getDecVCPlatExecutionBlocker,
+  getDecVCPlatRevoteBlocker,
+  decvcplatVoteRevisionUnavailableMessage,
+} from '../../services/blockchain/DecVCPlatProposalLifecycle';
+import { getDecVCPlatProposalVotingStrategy } from '../../services/blockchain/DecVCPlatVotingStrategy';
 
 interface DecVCPlatProposalCardProps {
   decvcplatProposal: VotingProposal;
   decvcplatShowVoteActions?: boolean;
   decvcplatCompactView?: boolean;
+  // Tallies come from indexed VoteCast logs rather than the API
+  decvcplatTalliedOnChain?: boolean;
   onDecVCPlatVote?: (proposalId: string, voteChoice: 'For' | 'Against' | 'Abstain') => void;
+  // Offered only once the proposal can be executed; omit for members who cannot execute
+  onDecVCPlatExecute?: (proposalId: string) => void;
+  decvcplatExecuting?: boolean;
+  // The member's ballots on this proposal, newest first, replaced and withdrawn included
+  decvcplatBallots?: Vote[];
+  onDecVCPlatWithdrawVote?: (proposalId: string) => void;
+  // Whether the voting service can change or withdraw a ballot at all
+  decvcplatVoteRevisionSupported?: boolean;
+  decvcplatVoting?: boolean;
 }
 
+const decvcplatVoteChoiceLabels: Record<Vote['choice'], string> = {
+  For: 'Vote For',
+  Against: 'Vote Against',
+  Abstain: 'Abstain',
+};
+
 const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
   decvcplatProposal,
   decvcplatShowVoteActions = true,
   decvcplatCompactView = false,
+  decvcplatTalliedOnChain = false,
   onDecVCPlatVote,
+  onDecVCPlatExecute,
+  decvcplatExecuting = false,
+  decvcplatBallots = [],
+  onDecVCPlatWithdrawVote,
+  decvcplatVoteRevisionSupported = false,
+  decvcplatVoting = false,
 }) => {
   const decvcplatTheme = useTheme();
+  // Status, quorum and approval follow the governance contract's rules, so an
+  // expired proposal shows its outcome even before the backend settles it
+  const decvcplatEvaluation = evaluateDecVCPlatProposal(decvcplatProposal);
+  // Tallies are weighted by the proposal's strategy; participation stays in plain DVCP
+  const decvcplatVotingStrategy = getDecVCPlatProposalVotingStrategy(decvcplatProposal);
+  const decvcplatCanExecute = !!onDecVCPlatExecute && getDecVCPlatExecutionBlocker(decvcplatProposal) === null;
+  const decvcplatCurrentBallot = findDecVCPlatCurrentBallot(decvcplatBallots, decvcplatProposal.id);
+  const decvcplatPastBallots = decvcplatBallots.filter(ballot => ballot !== decvcplatCurrentBallot);
+  // Only matters once the member has a ballot; a first vote is governed by votingOpen
+  const decvcplatRevoteBlocker = !decvcplatCurrentBallot
+    ? null
+    : decvcplatVoteRevisionSupported
+      ? getDecVCPlatRevoteBlocker(decvcplatProposal, decvcplatTalliedOnChain)
+      : decvcplatVoteRevisionUnavailableMessage;
 
   const calculateDecVCPlatVotingProgress = () => {
     const decvcplatTotalVotes = decvcplatProposal.forVotes + decvcplatProposal.againstVotes + decvcplatProposal.abstainVotes;
@@ -53,7 +102,8 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
   };
 
   const getDecVCPlatProposalStatusColor = (): 'default' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning' => {
-    switch (decvcplatProposal.status) {
+    switch (decvcplatEvaluation.status) {
+      case 'Pending': return 'secondary';
       case 'Active': return 'primary';
       case 'Passed': return 'success';
       case 'Failed': return 'error';
@@ -79,21 +129,20 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
     } else if (decvcplatAmount >= 1000) {
       return `${(decvcplatAmount / 1000).toFixed(1)}K`;
     }
-    return decvcplatAmount.toString();
+    // Quadratic and conviction weights are fractional
+    return decvcplatAmount.toLocaleString(undefined, { maximumFractionDigits: 2 });
   };
 
   const calculateDecVCPlatTimeRemaining = (): string => {
-    const decvcplatEndTime = new Date(decvcplatProposal.endTime);
-    const decvcplatNow = new Date();
-    const decvcplatTimeDiff = decvcplatEndTime.getTime() - decvcplatNow.getTime();
+    const decvcplatTimeDiff = decvcplatEvaluation.msRemaining;
 
     if (decvcplatTimeDiff <= 0) return 'Voting Ended';
 
     const decvcplatDays = Math.floor(decvcplatTimeDiff / (1000 * 60 * 60 * 24));
     const decvcplatHours = Math.floor((decvcplatTimeDiff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+    const decvcplatDuration = decvcplatDays > 0 ? `${decvcplatDays}d ${decvcplatHours}h` : `${decvcplatHours}h`;
 
-    if (decvcplatDays > 0) return `${decvcplatDays}d ${decvcplatHours}h remaining`;
-    return `${decvcplatHours}h remaining`;
+    return decvcplatEvaluation.status === 'Pending' ? `Opens in ${decvcplatDuration}` : `${decvcplatDuration} remaining`;
   };
 
   const decvcplatVotingProgress = calculateDecVCPlatVotingProgress();
@@ -133,7 +182,7 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
             {decvcplatProposal.title}
           </Typography>
           <Chip
-            label={decvcplatProposal.status}
+            label={decvcplatEvaluation.status}
             color={getDecVCPlatProposalStatusColor()}
             size="small"
             variant="outlined"
@@ -183,9 +232,19 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
 
         {/* DecVCPlat Voting Progress */}
         <Box sx={{ mb: 2 }}>
-          <Typography variant="body2" fontWeight={600} gutterBottom>
-            DecVCPlat Voting Results
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant="body2" fontWeight={600} gutterBottom>
+              DecVCPlat Voting Results
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 0.5 }}>
+              <Tooltip title={decvcplatVotingStrategy.description}>
+                <Chip label={`${decvcplatVotingStrategy.label} voting`} size="small" variant="outlined" />
+              </Tooltip>
+              {decvcplatTalliedOnChain && (
+                <Chip label="On-chain" size="small" color="success" variant="outlined" />
+              )}
+            </Box>
+          </Box>
           
           {/* For Votes */}
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
@@ -285,10 +344,12 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
               </Box>
               <Box sx={{ textAlign: 'center' }}>
                 <Typography variant="caption" color="text.secondary" display="block">
-                  Approval Threshold
+                  Approval / Required
                 </Typography>
-                <Typography variant="body2" fontWeight={600}>
-                  {decvcplatProposal.approvalThreshold}%
+                <Typography variant="body2" fontWeight={600} color={
+                  decvcplatEvaluation.approvalReached ? 'success.main' : 'warning.main'
+                }>
+                  {decvcplatEvaluation.approvalPercent.toFixed(1)}% / {decvcplatProposal.approvalThreshold}%
                 </Typography>
               </Box>
               <Box sx={{ textAlign: 'center' }}>
@@ -296,51 +357,117 @@ const ProposalCard: React.FC<DecVCPlatProposalCardProps> = ({
                   Current Participation
                 </Typography>
                 <Typography variant="body2" fontWeight={600} color={
-                  decvcplatProposal.totalStaked >= decvcplatProposal.quorumThreshold ? 'success.main' : 'warning.main'
+                  decvcplatEvaluation.quorumReached ? 'success.main' : 'warning.main'
                 }>
-                  {((decvcplatProposal.totalStaked / decvcplatProposal.quorumThreshold) * 100).toFixed(1)}%
+                  {decvcplatEvaluation.quorumPercent.toFixed(1)}%
                 </Typography>
               </Box>
             </Box>
           </>
         )}
+
+        {/* DecVCPlat Member Ballot */}
+        {decvcplatBallots.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" fontWeight={600}>
+                Your vote:
+              </Typography>
+              {decvcplatCurrentBallot ? (
+                <Chip
+                  label={`${decvcplatCurrentBallot.choice} · ${formatDecVCPlatTokenAmount(decvcplatCurrentBallot.votingPower)} DVCP${
+                    typeof decvcplatCurrentBallot.weight === 'number' && decvcplatCurrentBallot.weight !== decvcplatCurrentBallot.votingPower
+                      ? ` (weight ${formatDecVCPlatTokenAmount(decvcplatCurrentBallot.weight)})`
+                      : ''
+                  }`}
+                  color={decvcplatCurrentBallot.choice === 'For' ? 'success' : decvcplatCurrentBallot.choice === 'Against' ? 'error' : 'default'}
+                  size="small"
+                />
+              ) : (
+                <Chip label="Withdrawn" size="small" variant="outlined" />
+              )}
+            </Box>
+            {decvcplatPastBallots.map((ballot) => (
+              <Typography key={ballot.id} variant="caption" color="text.secondary" display="block">
+                {ballot.choice} with {formatDecVCPlatTokenAmount(ballot.votingPower)} DVCP,{' '}
+                {ballot.withdrawnAt
+                  ? `withdrawn ${new Date(ballot.withdrawnAt).toLocaleString()}`
+                  : `replaced ${new Date(ballot.replacedAt!).toLocaleString()}`}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {/* DecVCPlat Execution Record */}
+        {decvcplatProposal.executionTransactionHash && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="caption" color="text.secondary" display="block">
+              Executed {decvcplatProposal.executedAt ? new Date(decvcplatProposal.executedAt).toLocaleDateString() : ''}
+              {decvcplatProposal.executedTrancheId ? ` · released tranche ${decvcplatProposal.executedTrancheId}` : ''}
+            </Typography>
+            <Typography variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {decvcplatProposal.executionTransactionHash}
+            </Typography>
+          </Box>
+        )}
       </CardContent>
 
-      {/* DecVCPlat Vote Actions */}
-      {decvcplatShowVoteActions && decvcplatProposal.status === 'Active' && (
+      {/* DecVCPlat Execute Action */}
+      {decvcplatShowVoteActions && decvcplatCanExecute && (
         <CardActions sx={{ p: 2, pt: 0 }}>
+          <Button
+            variant="contained"
+            size="small"
+            fullWidth
+            startIcon={<PlayArrow />}
+            disabled={decvcplatExecuting}
+            onClick={() => onDecVCPlatExecute?.(decvcplatProposal.id)}
+            sx={{ textTransform: 'none' }}
+          >
+            {decvcplatExecuting ? 'Executing...' : 'Execute Proposal'}
+          </Button>
+        </CardActions>
+      )}
+
+      {/* DecVCPlat Vote Actions */}
+      {decvcplatShowVoteActions && decvcplatEvaluation.votingOpen && (
+        <CardActions sx={{ p: 2, pt: 0, flexDirection: 'column', alignItems: 'stretch', gap: 1 }}>
           <Box sx={{ display: 'flex', gap: 1, width: '100%' }}>
+            {(['For', 'Against', 'Abstain'] as const).map((decvcplatChoice) => (
+              <Button
+                key={decvcplatChoice}
+                variant={decvcplatChoice === 'Abstain' ? 'outlined' : 'contained'}
+                color={decvcplatChoice === 'For' ? 'success' : decvcplatChoice === 'Against' ? 'error' : 'inherit'}
+                size="small"
+                startIcon={decvcplatChoice === 'For' ? <CheckCircle /> : decvcplatChoice === 'Against' ? <Cancel /> : <RemoveCircle />}
+                disabled={decvcplatVoting || decvcplatRevoteBlocker !== null}
+                onClick={() => onDecVCPlatVote?.(decvcplatProposal.id, decvcplatChoice)}
+                sx={{ flex: 1, textTransform: 'none' }}
+              >
+                {decvcplatCurrentBallot?.choice === decvcplatChoice
+                  ? 'Update Stake'
+                  : decvcplatCurrentBallot ? `Change to ${decvcplatChoice}` : decvcplatVoteChoiceLabels[decvcplatChoice]}
+              </Button>
+            ))}
+          </Box>
+          {decvcplatCurrentBallot && decvcplatRevoteBlocker === null && onDecVCPlatWithdrawVote && (
             <Button
-              variant="contained"
-              color="success"
-              size="small"
-              startIcon={<CheckCircle />}
-              onClick={() => onDecVCPlatVote?.(decvcplatProposal.id, 'For')}
-              sx={{ flex: 1, textTransform: 'none' }}
-            >
-              Vote For
-            </Button>
-            <Button
-              variant="contained"
-              color="error"
-              size="small"
-              startIcon={<Cancel />}
-              onClick={() => onDecVCPlatVote?.(decvcplatProposal.id, 'Against')}
-              sx={{ flex: 1, textTransform: 'none' }}
-            >
-              Vote Against
-            </Button>
-            <Button
-              variant="outlined"
+              variant="text"
               color="inherit"
               size="small"
-              startIcon={<RemoveCircle />}
-              onClick={() => onDecVCPlatVote?.(decvcplatProposal.id, 'Abstain')}
-              sx={{ flex: 1, textTransform: 'none' }}
+              startIcon={<Undo />}
+              disabled={decvcplatVoting}
+              onClick={() => onDecVCPlatWithdrawVote(decvcplatProposal.id)}
+              sx={{ textTransform: 'none', ml: '0 !important' }}
             >
-              Abstain
+              Withdraw Vote
             </Button>
-          </Box>
+          )}
+          {decvcplatRevoteBlocker && (
+            <Typography variant="caption" color="text.secondary" sx={{ ml: '0 !important' }}>
+              {decvcplatRevoteBlocker}
+            </Typography>
+          )}
         </CardActions>
       )}
 
@@ -0,0 +1,95 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React from 'react';
+import { Box, Chip, Divider, Typography } from '@mui/material';
+import {
+  DecVCPlatVotingPowerBreakdown,
+  calculateDecVCPlatBallotWeight,
+  calculateDecVCPlatStrategyBallotWeight,
+} from '../../services/blockchain/DecVCPlatVotingPower';
+import { decvcplatVotingStrategies, getDecVCPlatConvictionMultiplier } from '../../services/blockchain/DecVCPlatVotingStrategy';
+import type { VotingStrategy } from '../../services/api/DecVCPlatApiContracts';
+
+interface DecVCPlatVotingPowerBreakdownProps {
+  decvcplatVotingPower: DecVCPlatVotingPowerBreakdown;
+  // When set, the last row shows the weight a ballot staking this much carries
+  decvcplatBallotStake?: number;
+  // The proposal's voting strategy; the ballot weight is linear without one
+  decvcplatVotingStrategy?: VotingStrategy;
+}
+
+const formatDecVCPlatPower = (decvcplatValue: number): string =>
+  `${decvcplatValue.toLocaleString(undefined, { maximumFractionDigits: 2 })} DVCP`;
+
+const VotingPowerBreakdown: React.FC<DecVCPlatVotingPowerBreakdownProps> = ({
+  decvcplatVotingPower,
+  decvcplatBallotStake,
+  decvcplatVotingStrategy,
+}) => {
+  const decvcplatStrategy = decvcplatVotingStrategy ? decvcplatVotingStrategies[decvcplatVotingStrategy] : undefined;
+
+  const decvcplatRows: Array<{ label: string; value: string; hint?: string }> = [
+    {
+      label: 'Own stake',
+      value: formatDecVCPlatPower(decvcplatVotingPower.ownStake),
+      hint: decvcplatVotingPower.source === 'chain'
+        ? `${formatDecVCPlatPower(decvcplatVotingPower.votingStake)} staked for voting, ${formatDecVCPlatPower(decvcplatVotingPower.tokenStake)} staked for rewards`
+        : undefined,
+    },
+    { label: 'Received delegations', value: `+${formatDecVCPlatPower(decvcplatVotingPower.receivedDelegations)}` },
+    { label: 'Delegated away', value: `-${formatDecVCPlatPower(decvcplatVotingPower.delegatedAway)}` },
+  ];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle2" fontWeight={600}>
+          DecVCPlat Voting Power
+        </Typography>
+        <Chip
+          label={decvcplatVotingPower.source === 'chain' ? 'On-chain' : 'Platform records'}
+          size="small"
+          variant="outlined"
+          color={decvcplatVotingPower.source === 'chain' ? 'success' : 'default'}
+        />
+      </Box>
+
+      {decvcplatRows.map((decvcplatRow) => (
+        <Box key={decvcplatRow.label} sx={{ mb: 0.5 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body2" color="text.secondary">{decvcplatRow.label}</Typography>
+            <Typography variant="body2">{decvcplatRow.value}</Typography>
+          </Box>
+          {decvcplatRow.hint && (
+            <Typography variant="caption" color="text.secondary">{decvcplatRow.hint}</Typography>
+          )}
+        </Box>
+      ))}
+
+      <Divider sx={{ my: 1 }} />
+      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Typography variant="body2" fontWeight={600}>Total voting power</Typography>
+        <Typography variant="body2" fontWeight={600}>{formatDecVCPlatPower(decvcplatVotingPower.totalPower)}</Typography>
+      </Box>
+      {decvcplatBallotStake !== undefined && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+          <Typography variant="body2" fontWeight={600} color="primary">This ballot carries</Typography>
+          <Typography variant="body2" fontWeight={600} color="primary">
+            {decvcplatVotingStrategy
+              ? formatDecVCPlatPower(calculateDecVCPlatStrategyBallotWeight(decvcplatVotingPower, decvcplatBallotStake, decvcplatVotingStrategy))
+              : formatDecVCPlatPower(calculateDecVCPlatBallotWeight(decvcplatVotingPower, decvcplatBallotStake))}
+          </Typography>
+        </Box>
+      )}
+      {decvcplatBallotStake !== undefined && decvcplatStrategy && (
+        <Typography variant="caption" color="text.secondary" display="block">
+          {decvcplatStrategy.label} voting: {decvcplatStrategy.description}
+          {decvcplatStrategy.id === 'Conviction'
+            && ` (your stake has been locked ${Math.floor(decvcplatVotingPower.stakeAgeDays)} days, ${getDecVCPlatConvictionMultiplier(decvcplatVotingPower.stakeAgeDays).toFixed(2)}x)`}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default VotingPowerBreakdown;
@@ -0,0 +1,88 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import { Hub } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { addDecVCPlatNetworkToWallet, dismissNetworkAddition } from '../../store/slices/walletSlice';
+import { toast } from 'react-hot-toast';
+
+// Opens when the wallet rejects a switch to a chain it has not been told about; the
+// details shown are exactly what wallet_addEthereumChain will ask the wallet to store.
+const AddNetworkDialog: React.FC = () => {
+  const decvcplatDispatch = useAppDispatch();
+  const { networkPendingAddition, addingNetwork, supportedNetworks } = useAppSelector(state => state.wallet);
+  const decvcplatNetwork = supportedNetworks.find(decvcplatCandidate => decvcplatCandidate.chainId === networkPendingAddition);
+
+  if (!decvcplatNetwork) {
+    return null;
+  }
+
+  const decvcplatDetails: Array<[string, string]> = [
+    ['Chain ID', String(decvcplatNetwork.chainId)],
+    ['RPC URL', decvcplatNetwork.rpcUrl],
+    ['Currency', `${decvcplatNetwork.nativeCurrency.name} (${decvcplatNetwork.nativeCurrency.symbol})`],
+    ['Block explorer', decvcplatNetwork.blockExplorerUrl ?? 'None'],
+  ];
+
+  const handleDecVCPlatAddNetwork = async () => {
+    const decvcplatResult = await decvcplatDispatch(addDecVCPlatNetworkToWallet(decvcplatNetwork.chainId));
+    if (addDecVCPlatNetworkToWallet.fulfilled.match(decvcplatResult)) {
+      toast.success(`Switched to ${decvcplatNetwork.name}`);
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to add DecVCPlat network');
+    }
+  };
+
+  return (
+    <Dialog open onClose={addingNetwork ? undefined : () => decvcplatDispatch(dismissNetworkAddition())} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <Hub sx={{ mr: 2 }} />
+          Add {decvcplatNetwork.name}?
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Your wallet does not have this network yet. DecVCPlat can ask it to add the network and then switch to it.
+        </Typography>
+        <Box component="dl" sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5, my: 2 }}>
+          {decvcplatDetails.map(([decvcplatLabel, decvcplatValue]) => (
+            <React.Fragment key={decvcplatLabel}>
+              <Typography component="dt" variant="body2" color="text.secondary">{decvcplatLabel}</Typography>
+              <Typography component="dd" variant="body2" sx={{ m: 0, wordBreak: 'break-all' }}>{decvcplatValue}</Typography>
+            </React.Fragment>
+          ))}
+        </Box>
+        {!decvcplatNetwork.contracts.token && (
+          <Alert severity="info">DVCP contracts are not deployed on this network.</Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => decvcplatDispatch(dismissNetworkAddition())} disabled={addingNetwork}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleDecVCPlatAddNetwork}
+          disabled={addingNetwork}
+          startIcon={addingNetwork ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          Add and Switch
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AddNetworkDialog;
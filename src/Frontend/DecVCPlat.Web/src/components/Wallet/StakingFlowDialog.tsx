@@ -0,0 +1,212 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Security } from '@mui/icons-material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { executeTokenStaking, resetStakingFlow } from '../../store/slices/walletSlice';
+import type {
+  DecVCPlatApprovalMode,
+  DecVCPlatStakingStep,
+  DecVCPlatStakingStepKey,
+  DecVCPlatStakingTarget,
+} from '../../services/blockchain/DecVCPlatStakingFlow';
+import { toast } from 'react-hot-toast';
+
+interface DecVCPlatStakingFlowDialogProps {
+  decvcplatOpen: boolean;
+  decvcplatAvailableBalance: string;
+  decvcplatDefaultTarget?: DecVCPlatStakingTarget;
+  decvcplatAllowTargetChoice?: boolean;
+  onDecVCPlatClose: () => void;
+  onDecVCPlatStaked?: () => void;
+}
+
+const decvcplatStepLabels: Record<DecVCPlatStakingStepKey, string> = {
+  allowance: 'Check DVCP allowance',
+  approve: 'Approve DVCP spending',
+  stake: 'Stake DVCP',
+};
+
+const formatDecVCPlatTxHash = (decvcplatTxHash: string): string =>
+  `${decvcplatTxHash.slice(0, 10)}...${decvcplatTxHash.slice(-8)}`;
+
+const StakingFlowDialog: React.FC<DecVCPlatStakingFlowDialogProps> = ({
+  decvcplatOpen,
+  decvcplatAvailableBalance,
+  decvcplatDefaultTarget = 'rewards',
+  decvcplatAllowTargetChoice = false,
+  onDecVCPlatClose,
+  onDecVCPlatStaked,
+}) => {
+  const decvcplatDispatch = useAppDispatch();
+  const { stakingFlow: decvcplatStakingFlow, processingStakeRequest: decvcplatProcessing } = useAppSelector(state => state.wallet);
+
+  const [decvcplatAmount, setDecVCPlatAmount] = useState('');
+  const [decvcplatTarget, setDecVCPlatTarget] = useState<DecVCPlatStakingTarget>(decvcplatDefaultTarget);
+  const [decvcplatApprovalMode, setDecVCPlatApprovalMode] = useState<DecVCPlatApprovalMode>('exact');
+
+  useEffect(() => {
+    if (decvcplatOpen) {
+      setDecVCPlatTarget(decvcplatDefaultTarget);
+    }
+  }, [decvcplatOpen, decvcplatDefaultTarget]);
+
+  const decvcplatFlowFinished = decvcplatStakingFlow?.steps.some(step => step.status === 'failed')
+    || decvcplatStakingFlow?.steps.find(step => step.key === 'stake')?.status === 'completed';
+
+  const handleDecVCPlatClose = () => {
+    if (decvcplatProcessing) {
+      return;
+    }
+    decvcplatDispatch(resetStakingFlow());
+    setDecVCPlatAmount('');
+    onDecVCPlatClose();
+  };
+
+  const handleDecVCPlatStake = async () => {
+    if (!decvcplatAmount || parseFloat(decvcplatAmount) <= 0) {
+      toast.error('Please enter a valid DecVCPlat stake amount');
+      return;
+    }
+
+    const decvcplatResult = await decvcplatDispatch(executeTokenStaking({
+      amount: decvcplatAmount,
+      target: decvcplatTarget,
+      approvalMode: decvcplatApprovalMode,
+    }));
+
+    if (executeTokenStaking.fulfilled.match(decvcplatResult)) {
+      toast.success('DecVCPlat tokens staked successfully');
+      onDecVCPlatStaked?.();
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to stake DecVCPlat tokens');
+    }
+  };
+
+  const renderDecVCPlatStep = (decvcplatStep: DecVCPlatStakingStep) => (
+    <Step
+      key={decvcplatStep.key}
+      completed={decvcplatStep.status === 'completed' || decvcplatStep.status === 'skipped'}
+      active={decvcplatStep.status === 'active'}
+    >
+      <StepLabel
+        error={decvcplatStep.status === 'failed'}
+        optional={
+          <Box>
+            {decvcplatStep.message && (
+              <Typography variant="caption" color={decvcplatStep.status === 'failed' ? 'error' : 'text.secondary'} display="block">
+                {decvcplatStep.status === 'skipped' ? `Skipped: ${decvcplatStep.message}` : decvcplatStep.message}
+              </Typography>
+            )}
+            {decvcplatStep.txHash && (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ fontFamily: 'monospace' }}>
+                Tx {formatDecVCPlatTxHash(decvcplatStep.txHash)}
+              </Typography>
+            )}
+          </Box>
+        }
+      >
+        {decvcplatStepLabels[decvcplatStep.key]}
+      </StepLabel>
+    </Step>
+  );
+
+  return (
+    <Dialog open={decvcplatOpen} onClose={handleDecVCPlatClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <Security sx={{ mr: 2 }} />
+          Stake DecVCPlat Tokens
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {decvcplatStakingFlow ? (
+          <Stepper orientation="vertical" sx={{ mt: 1 }}>
+            {decvcplatStakingFlow.steps.map(renderDecVCPlatStep)}
+          </Stepper>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Available Balance: {decvcplatAvailableBalance} DVCP
+            </Typography>
+            <TextField
+              fullWidth
+              label="Amount to Stake"
+              type="number"
+              value={decvcplatAmount}
+              onChange={(e) => setDecVCPlatAmount(e.target.value)}
+              inputProps={{ min: 0 }}
+              sx={{ mt: 2 }}
+            />
+
+            {decvcplatAllowTargetChoice && (
+              <FormControl sx={{ mt: 3, display: 'block' }}>
+                <FormLabel>Stake for</FormLabel>
+                <RadioGroup
+                  value={decvcplatTarget}
+                  onChange={(e) => setDecVCPlatTarget(e.target.value as DecVCPlatStakingTarget)}
+                >
+                  <FormControlLabel value="rewards" control={<Radio />} label="Staking rewards (5% APR, 7 day minimum)" />
+                  <FormControlLabel value="voting" control={<Radio />} label="Governance voting power" />
+                </RadioGroup>
+              </FormControl>
+            )}
+
+            {decvcplatTarget === 'voting' ? (
+              <FormControl sx={{ mt: 3, display: 'block' }}>
+                <FormLabel>Approval if your allowance is too low</FormLabel>
+                <RadioGroup
+                  value={decvcplatApprovalMode}
+                  onChange={(e) => setDecVCPlatApprovalMode(e.target.value as DecVCPlatApprovalMode)}
+                >
+                  <FormControlLabel value="exact" control={<Radio />} label="Exact amount – approve only what this stake needs" />
+                  <FormControlLabel value="unlimited" control={<Radio />} label="Unlimited – skip approvals on future stakes" />
+                </RadioGroup>
+                {decvcplatApprovalMode === 'unlimited' && (
+                  <Alert severity="warning" sx={{ mt: 1 }}>
+                    The governance contract will be able to move any amount of your DVCP until you revoke the allowance.
+                  </Alert>
+                )}
+              </FormControl>
+            ) : (
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 2, display: 'block' }}>
+                Staked tokens earn rewards and provide voting power in DecVCPlat governance
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleDecVCPlatClose} disabled={decvcplatProcessing}>
+          {decvcplatFlowFinished ? 'Close' : 'Cancel'}
+        </Button>
+        {!decvcplatStakingFlow && (
+          <Button onClick={handleDecVCPlatStake} variant="contained">
+            Stake DecVCPlat Tokens
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StakingFlowDialog;
@@ -0,0 +1,204 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import { Redeem } from '@mui/icons-material';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { claimStakingRewards } from '../../store/slices/walletSlice';
+import {
+  buildDecVCPlatRewardSeries,
+  calculateDecVCPlatAnnualReward,
+  calculateDecVCPlatPendingRewardsAt,
+  getDecVCPlatRewardRatePercent,
+  getDecVCPlatTotalPaidOut,
+  getDecVCPlatUnstakeWaitSeconds,
+} from '../../services/blockchain/DecVCPlatStakingRewards';
+import { formatDecVCPlatTokenAmount } from '../../services/blockchain/DecVCPlatContractBindings';
+import { toast } from 'react-hot-toast';
+
+const decvcplatProjectionOptions = [30, 90, 365];
+// How often the pending figure is re-evaluated between chain reads
+const decvcplatTickIntervalMs = 10000;
+
+const formatDecVCPlatRewardAmount = (decvcplatWei: bigint): string =>
+  Number(formatDecVCPlatTokenAmount(decvcplatWei)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const formatDecVCPlatChartDate = (decvcplatTimestamp: number): string =>
+  new Date(decvcplatTimestamp * 1000).toLocaleDateString();
+
+// Reads the reward snapshot loaded by retrieveStakingData. Pending rewards keep
+// accruing on screen from the snapshot's block time using the contract's own
+// formula, so the figure moves without polling the chain.
+const StakingRewardsPanel: React.FC = () => {
+  const decvcplatTheme = useTheme();
+  const decvcplatDispatch = useAppDispatch();
+  const decvcplatSnapshot = useAppSelector(state => state.wallet.stakingRewards);
+  const decvcplatClaiming = useAppSelector(state => state.wallet.claimingStakingRewards);
+  const [decvcplatProjectionDays, setDecVCPlatProjectionDays] = useState(90);
+  const [decvcplatElapsedSeconds, setDecVCPlatElapsedSeconds] = useState(0);
+  const decvcplatLoadedAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    decvcplatLoadedAtRef.current = Date.now();
+    setDecVCPlatElapsedSeconds(0);
+    const decvcplatTimer = setInterval(
+      () => setDecVCPlatElapsedSeconds(Math.floor((Date.now() - decvcplatLoadedAtRef.current) / 1000)),
+      decvcplatTickIntervalMs
+    );
+    return () => clearInterval(decvcplatTimer);
+  }, [decvcplatSnapshot]);
+
+  const decvcplatSeries = useMemo(
+    () => (decvcplatSnapshot ? buildDecVCPlatRewardSeries(decvcplatSnapshot, decvcplatProjectionDays) : []),
+    [decvcplatSnapshot, decvcplatProjectionDays]
+  );
+
+  if (!decvcplatSnapshot) {
+    return null;
+  }
+
+  const decvcplatPendingNow = calculateDecVCPlatPendingRewardsAt(decvcplatSnapshot, decvcplatSnapshot.readAt + decvcplatElapsedSeconds);
+  const decvcplatProjectedGain = calculateDecVCPlatPendingRewardsAt(decvcplatSnapshot, decvcplatSnapshot.readAt + decvcplatProjectionDays * 24 * 60 * 60)
+    - BigInt(decvcplatSnapshot.pendingRewards);
+  const decvcplatUnstakeWaitDays = Math.ceil(getDecVCPlatUnstakeWaitSeconds(decvcplatSnapshot) / (24 * 60 * 60));
+  const decvcplatHasHistory = decvcplatSnapshot.isActive || decvcplatSnapshot.payouts.length > 0;
+
+  const handleDecVCPlatClaim = async () => {
+    const decvcplatResult = await decvcplatDispatch(claimStakingRewards());
+    if (claimStakingRewards.fulfilled.match(decvcplatResult)) {
+      toast.success('DecVCPlat staking rewards claimed');
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to claim DecVCPlat staking rewards');
+    }
+  };
+
+  return (
+    <Card elevation={1} sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+          <Box>
+            <Typography variant="h6" fontWeight={600} gutterBottom>
+              DecVCPlat Staking Rewards
+            </Typography>
+            <Chip
+              label={`${getDecVCPlatRewardRatePercent(decvcplatSnapshot).toLocaleString()}% per year on staked DVCP`}
+              size="small"
+              color="success"
+              variant="outlined"
+            />
+          </Box>
+          <Button
+            variant="contained"
+            startIcon={<Redeem />}
+            onClick={handleDecVCPlatClaim}
+            disabled={decvcplatClaiming || decvcplatPendingNow === BigInt(0)}
+          >
+            {decvcplatClaiming ? 'Claiming...' : 'Claim Rewards'}
+          </Button>
+        </Box>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={6} sm={3}>
+            <Typography variant="caption" color="text.secondary">Pending</Typography>
+            <Typography variant="h6" fontWeight={600}>{formatDecVCPlatRewardAmount(decvcplatPendingNow)} DVCP</Typography>
+          </Grid>
+          <Grid item xs={6} sm={3}>
+            <Typography variant="caption" color="text.secondary">Paid out so far</Typography>
+            <Typography variant="h6" fontWeight={600}>{formatDecVCPlatRewardAmount(getDecVCPlatTotalPaidOut(decvcplatSnapshot))} DVCP</Typography>
+          </Grid>
+          <Grid item xs={6} sm={3}>
+            <Typography variant="caption" color="text.secondary">Per year at current stake</Typography>
+            <Typography variant="h6" fontWeight={600}>{formatDecVCPlatRewardAmount(calculateDecVCPlatAnnualReward(decvcplatSnapshot))} DVCP</Typography>
+          </Grid>
+          <Grid item xs={6} sm={3}>
+            <Typography variant="caption" color="text.secondary">Next {decvcplatProjectionDays} days</Typography>
+            <Typography variant="h6" fontWeight={600}>+{formatDecVCPlatRewardAmount(decvcplatProjectedGain)} DVCP</Typography>
+          </Grid>
+        </Grid>
+
+        {!decvcplatHasHistory ? (
+          <Alert severity="info">Stake DVCP to start earning rewards. Accrual will be charted here.</Alert>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                Cumulative rewards earned and projected
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={decvcplatProjectionDays}
+                onChange={(_, decvcplatDays: number | null) => decvcplatDays && setDecVCPlatProjectionDays(decvcplatDays)}
+              >
+                {decvcplatProjectionOptions.map((decvcplatDays) => (
+                  <ToggleButton key={decvcplatDays} value={decvcplatDays}>{decvcplatDays}d</ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+            <Box sx={{ height: 260 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={decvcplatSeries} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={decvcplatTheme.palette.divider} />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatDecVCPlatChartDate}
+                    tick={{ fontSize: 12 }}
+                  />
+                  <YAxis tick={{ fontSize: 12 }} width={64} />
+                  <Tooltip
+                    labelFormatter={(decvcplatLabel) => formatDecVCPlatChartDate(Number(decvcplatLabel))}
+                    formatter={(decvcplatValue) => `${Number(decvcplatValue).toLocaleString(undefined, { maximumFractionDigits: 4 })} DVCP`}
+                  />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="earned"
+                    name="Earned"
+                    stroke={decvcplatTheme.palette.success.main}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="projected"
+                    name="Projected"
+                    stroke={decvcplatTheme.palette.primary.main}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </Box>
+          </>
+        )}
+
+        {decvcplatUnstakeWaitDays > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+            Unstaking opens in {decvcplatUnstakeWaitDays} day{decvcplatUnstakeWaitDays === 1 ? '' : 's'}. Rewards can be claimed at any time.
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StakingRewardsPanel;
@@ -0,0 +1,156 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Typography,
+} from '@mui/material';
+import { LocalGasStation } from '@mui/icons-material';
+import { formatEther, formatUnits } from 'ethers';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import decvcplatWalletService, { DecVCPlatFeeConfirmationRequest } from '../../services/blockchain/DecVCPlatWalletService';
+import decvcplatNetworkRegistry from '../../services/blockchain/DecVCPlatNetworkRegistry';
+import { DecVCPlatFeeSpeed, decvcplatFeeSpeeds } from '../../services/blockchain/DecVCPlatFeeEstimator';
+
+const decvcplatFunctionLabels: Record<string, string> = {
+  approve: 'Approve DVCP spending',
+  stakeTokens: 'Stake DVCP',
+  unstakeTokens: 'Unstake DVCP',
+  claimStakingRewards: 'Claim staking rewards',
+  stakeForVoting: 'Stake DVCP for voting',
+  unstakeFromVoting: 'Unstake DVCP from voting',
+  createProposal: 'Create proposal',
+  castVote: 'Cast vote',
+  executeProposal: 'Execute proposal',
+  completeMilestone: 'Complete milestone',
+  voteOnMilestone: 'Vote on milestone',
+};
+
+const decvcplatSpeedLabels: Record<DecVCPlatFeeSpeed, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+};
+
+const formatDecVCPlatNativeAmount = (decvcplatWei: bigint): string =>
+  Number(formatEther(decvcplatWei)).toLocaleString(undefined, { maximumSignificantDigits: 4 });
+
+const formatDecVCPlatUsd = (decvcplatWei: bigint, decvcplatUsdPrice: number): string =>
+  (Number(formatEther(decvcplatWei)) * decvcplatUsdPrice).toLocaleString(undefined, { style: 'currency', currency: 'USD' });
+
+// Mounted once at the app root. It registers itself as the wallet service's fee
+// confirmation step, so every contract write pauses here until the user picks a
+// fee level or cancels, before the wallet is asked to sign.
+const TransactionFeeDialog: React.FC = () => {
+  const [decvcplatRequest, setDecVCPlatRequest] = useState<DecVCPlatFeeConfirmationRequest | null>(null);
+  const [decvcplatSpeed, setDecVCPlatSpeed] = useState<DecVCPlatFeeSpeed>('normal');
+  const [decvcplatUsdPrice, setDecVCPlatUsdPrice] = useState<number | null>(null);
+  const decvcplatResolveRef = useRef<((decvcplatChoice: DecVCPlatFeeSpeed | null) => void) | null>(null);
+
+  useEffect(() => {
+    decvcplatWalletService.registerDecVCPlatFeeConfirmationHandler((decvcplatNextRequest) =>
+      new Promise((resolve) => {
+        // A newer request supersedes one still on screen
+        decvcplatResolveRef.current?.(null);
+        decvcplatResolveRef.current = resolve;
+        setDecVCPlatSpeed('normal');
+        setDecVCPlatRequest(decvcplatNextRequest);
+      })
+    );
+    return () => decvcplatWalletService.registerDecVCPlatFeeConfirmationHandler(null);
+  }, []);
+
+  const decvcplatNetwork = decvcplatRequest ? decvcplatNetworkRegistry.getDecVCPlatNetwork(decvcplatRequest.decvcplatNetworkId) : undefined;
+  const decvcplatCurrencySymbol = decvcplatNetwork?.nativeCurrency.symbol ?? 'ETH';
+  const decvcplatShowUsd = !!decvcplatNetwork && !decvcplatNetwork.isTestnet;
+
+  useEffect(() => {
+    setDecVCPlatUsdPrice(null);
+    if (!decvcplatShowUsd) {
+      return;
+    }
+    let decvcplatCancelled = false;
+    decvcplatApiService.fetchDecVCPlatMarketPrice(decvcplatCurrencySymbol)
+      .then((decvcplatPrice) => !decvcplatCancelled && setDecVCPlatUsdPrice(decvcplatPrice.usdPrice))
+      .catch(() => undefined);
+    return () => {
+      decvcplatCancelled = true;
+    };
+  }, [decvcplatShowUsd, decvcplatCurrencySymbol]);
+
+  const settleDecVCPlatRequest = (decvcplatChoice: DecVCPlatFeeSpeed | null) => {
+    decvcplatResolveRef.current?.(decvcplatChoice);
+    decvcplatResolveRef.current = null;
+    setDecVCPlatRequest(null);
+  };
+
+  if (!decvcplatRequest) {
+    return null;
+  }
+
+  const { decvcplatQuote } = decvcplatRequest;
+
+  return (
+    <Dialog open onClose={() => settleDecVCPlatRequest(null)} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <LocalGasStation sx={{ mr: 2 }} />
+          {decvcplatFunctionLabels[decvcplatRequest.decvcplatFunctionName] ?? decvcplatRequest.decvcplatFunctionName}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Gas limit {decvcplatQuote.gasLimit.toLocaleString()} (estimate {decvcplatQuote.gasEstimate.toLocaleString()} plus a safety margin)
+          {decvcplatQuote.baseFeePerGas !== null && `, base fee ${Number(formatUnits(decvcplatQuote.baseFeePerGas, 'gwei')).toFixed(2)} gwei`}
+        </Typography>
+
+        <RadioGroup value={decvcplatSpeed} onChange={(e) => setDecVCPlatSpeed(e.target.value as DecVCPlatFeeSpeed)} sx={{ my: 1 }}>
+          {decvcplatFeeSpeeds.map((decvcplatOption) => {
+            const decvcplatSuggestion = decvcplatQuote.suggestions[decvcplatOption];
+            return (
+              <FormControlLabel
+                key={decvcplatOption}
+                value={decvcplatOption}
+                control={<Radio />}
+                label={
+                  <Box>
+                    <Typography variant="body2" fontWeight={500}>
+                      {decvcplatSpeedLabels[decvcplatOption]}: ~{formatDecVCPlatNativeAmount(decvcplatSuggestion.estimatedCostWei)} {decvcplatCurrencySymbol}
+                      {decvcplatUsdPrice !== null && ` (${formatDecVCPlatUsd(decvcplatSuggestion.estimatedCostWei, decvcplatUsdPrice)})`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Max {formatDecVCPlatNativeAmount(decvcplatSuggestion.maxCostWei)} {decvcplatCurrencySymbol}
+                    </Typography>
+                  </Box>
+                }
+              />
+            );
+          })}
+        </RadioGroup>
+
+        {decvcplatNetwork?.isTestnet && (
+          <Alert severity="info">Test network funds have no USD value.</Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => settleDecVCPlatRequest(null)}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={() => settleDecVCPlatRequest(decvcplatSpeed)}>
+          Continue to Wallet
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransactionFeeDialog;
@@ -0,0 +1,55 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React from 'react';
+import { Alert, AlertTitle, Button } from '@mui/material';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { connectWallet } from '../../store/slices/authSlice';
+import { toast } from 'react-hot-toast';
+
+const formatDecVCPlatAddress = (decvcplatAddress: string): string =>
+  `${decvcplatAddress.slice(0, 6)}...${decvcplatAddress.slice(-4)}`;
+
+// Shown while the account selected in the wallet extension differs from the wallet
+// bound to the signed-in DecVCPlat profile; transactions are signed by the former.
+const WalletAccountMismatchAlert: React.FC = () => {
+  const decvcplatDispatch = useAppDispatch();
+  const decvcplatProfileWallet = useAppSelector(state => state.auth.user?.walletAddress);
+  const decvcplatConnectedWallet = useAppSelector(state => state.wallet.walletConnection?.address);
+  const decvcplatLinking = useAppSelector(state => state.auth.isLoading);
+
+  if (
+    !decvcplatProfileWallet
+    || !decvcplatConnectedWallet
+    || decvcplatProfileWallet.toLowerCase() === decvcplatConnectedWallet.toLowerCase()
+  ) {
+    return null;
+  }
+
+  const handleDecVCPlatLinkWallet = async () => {
+    const decvcplatResult = await decvcplatDispatch(connectWallet());
+    if (connectWallet.fulfilled.match(decvcplatResult)) {
+      toast.success('DecVCPlat profile linked to the connected wallet');
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to link DecVCPlat wallet');
+    }
+  };
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ borderRadius: 0 }}
+      action={
+        <Button color="inherit" size="small" onClick={handleDecVCPlatLinkWallet} disabled={decvcplatLinking}>
+          Link this wallet
+        </Button>
+      }
+    >
+      <AlertTitle>Wallet account mismatch</AlertTitle>
+      Your wallet is using {formatDecVCPlatAddress(decvcplatConnectedWallet)}, but your DecVCPlat profile is linked to{' '}
+      {formatDecVCPlatAddress(decvcplatProfileWallet)}. Transactions will be signed by {formatDecVCPlatAddress(decvcplatConnectedWallet)}.
+      Switch accounts in your wallet or link this one to your profile.
+    </Alert>
+  );
+};
+
+export default WalletAccountMismatchAlert;
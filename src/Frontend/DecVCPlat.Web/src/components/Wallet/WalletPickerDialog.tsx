@@ -0,0 +1,123 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  List,
+  ListItemAvatar,
+  ListItemButton,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { AccountBalanceWallet } from '@mui/icons-material';
+import decvcplatWalletDiscovery, {
+  DecVCPlatDiscoveredWallet,
+} from '../../services/blockchain/DecVCPlatWalletDiscovery';
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+
+interface DecVCPlatWalletPickerDialogProps {
+  decvcplatOpen: boolean;
+  decvcplatConnecting?: boolean;
+  onDecVCPlatClose: () => void;
+  onDecVCPlatSelect: (decvcplatWalletRdns: string) => void;
+}
+
+const WalletPickerDialog: React.FC<DecVCPlatWalletPickerDialogProps> = ({
+  decvcplatOpen,
+  decvcplatConnecting = false,
+  onDecVCPlatClose,
+  onDecVCPlatSelect,
+}) => {
+  const [decvcplatWallets, setDecVCPlatWallets] = useState<DecVCPlatDiscoveredWallet[]>([]);
+  const [decvcplatDiscovering, setDecVCPlatDiscovering] = useState(false);
+  const decvcplatRememberedRdns = decvcplatWalletService.getDecVCPlatRememberedWalletRdns();
+
+  useEffect(() => {
+    if (!decvcplatOpen) {
+      return;
+    }
+
+    let decvcplatCancelled = false;
+    setDecVCPlatDiscovering(true);
+    decvcplatWalletDiscovery.discoverDecVCPlatWallets().then((decvcplatFound) => {
+      if (decvcplatCancelled) {
+        return;
+      }
+      // The wallet used last time goes first
+      setDecVCPlatWallets([...decvcplatFound].sort((decvcplatLeft, decvcplatRight) =>
+        Number(decvcplatRight.info.rdns === decvcplatRememberedRdns) - Number(decvcplatLeft.info.rdns === decvcplatRememberedRdns)
+      ));
+      setDecVCPlatDiscovering(false);
+    });
+
+    return () => {
+      decvcplatCancelled = true;
+    };
+  }, [decvcplatOpen, decvcplatRememberedRdns]);
+
+  return (
+    <Dialog open={decvcplatOpen} onClose={decvcplatConnecting ? undefined : onDecVCPlatClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <AccountBalanceWallet sx={{ mr: 2 }} />
+          Choose a Wallet
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {decvcplatDiscovering ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : decvcplatWallets.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 3 }}>
+            <Typography variant="body1" gutterBottom>
+              No browser wallet found
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Install a wallet extension such as{' '}
+              <Link href="https://metamask.io/download/" target="_blank" rel="noopener noreferrer">MetaMask</Link>
+              {' '}and reload the page.
+            </Typography>
+          </Box>
+        ) : (
+          <List sx={{ p: 0 }}>
+            {decvcplatWallets.map((decvcplatWallet) => (
+              <ListItemButton
+                key={decvcplatWallet.info.rdns}
+                disabled={decvcplatConnecting}
+                onClick={() => onDecVCPlatSelect(decvcplatWallet.info.rdns)}
+                sx={{ borderRadius: 1 }}
+              >
+                <ListItemAvatar>
+                  <Avatar src={decvcplatWallet.info.icon || undefined} alt={decvcplatWallet.info.name} variant="rounded">
+                    <AccountBalanceWallet />
+                  </Avatar>
+                </ListItemAvatar>
+                <ListItemText primary={decvcplatWallet.info.name} secondary={decvcplatWallet.info.rdns} />
+                {decvcplatWallet.info.rdns === decvcplatRememberedRdns && (
+                  <Chip label="Last used" size="small" color="primary" variant="outlined" />
+                )}
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDecVCPlatClose} disabled={decvcplatConnecting}>
+          Cancel
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WalletPickerDialog;
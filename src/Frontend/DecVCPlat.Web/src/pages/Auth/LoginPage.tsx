@@ -22,13 +22,15 @@ import {
   Lock,
   Google,
   GitHub,
+  AccountBalanceWallet,
 } from '@mui/icons-material';
 import { Link as RouterLink, useNavigate, useLocation } from 'react-router-dom';
 import { useFormik } from 'formik';
 import * as yup from 'yup';
 import { useAppDispatch } from '../../hooks/redux';
-import { loginUser } from '../../store/slices/authSlice';
+import { loginUser, loginWithEthereum } from '../../store/slices/authSlice';
 import LoadingSpinner from '../../components/Common/LoadingSpinner';
+import WalletPickerDialog from '../../components/Wallet/WalletPickerDialog';
 import { toast } from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
 
@@ -52,6 +54,7 @@ const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [walletPickerOpen, setWalletPickerOpen] = useState(false);
 
   const from = (location.state as any)?.from?.pathname || '/dashboard';
 
@@ -86,6 +89,24 @@ const LoginPage: React.FC = () => {
     },
   });
 
+  const handleEthereumLogin = async (walletRdns: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await dispatch(loginWithEthereum(walletRdns));
+    setIsLoading(false);
+    setWalletPickerOpen(false);
+
+    if (loginWithEthereum.fulfilled.match(result)) {
+      toast.success('Welcome to DecVCPlat!');
+      navigate(from, { replace: true });
+    } else {
+      const errorMessage = result.payload as string || 'Sign-in with Ethereum failed';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    }
+  };
+
   const handleTogglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -287,6 +308,17 @@ const LoginPage: React.FC = () => {
             {/* Social Login */}
             <Divider sx={{ mb: 3 }}>or continue with</Divider>
 
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={<AccountBalanceWallet />}
+              disabled={isLoading}
+              onClick={() => setWalletPickerOpen(true)}
+              sx={{ textTransform: 'none', mb: 2 }}
+            >
+              Sign in with Ethereum
+            </Button>
+
             <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
               <Button
                 fullWidth
@@ -340,6 +372,13 @@ const LoginPage: React.FC = () => {
           </Paper>
         </Box>
       </Container>
+
+      <WalletPickerDialog
+        decvcplatOpen={walletPickerOpen}
+        decvcplatConnecting={isLoading}
+        onDecVCPlatClose={() => setWalletPickerOpen(false)}
+        onDecVCPlatSelect={handleEthereumLogin}
+      />
     </>
   );
 };
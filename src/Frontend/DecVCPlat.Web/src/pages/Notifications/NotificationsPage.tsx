@@ -44,12 +44,12 @@ const NotificationsPage: React.FC = () => {
   const [decvcplatSelectedNotifications, setDecVCPlatSelectedNotifications] = useState<string[]>([]);
 
   useEffect(() => {
-    const decvcplatFilterStatus = decvcplatActiveTab === 0 ? 'All' : decvcplatActiveTab === 1 ? 'Unread' : 'Read';
+    const decvcplatFilterIsRead = decvcplatActiveTab === 0 ? undefined : decvcplatActiveTab === 2;
     
     decvcplatDispatch(fetchNotifications({
       page: decvcplatPaginationState.page,
       pageSize: decvcplatPaginationState.pageSize,
-      status: decvcplatFilterStatus,
+      isRead: decvcplatFilterIsRead,
       type: decvcplatCurrentFilters.type,
       priority: decvcplatCurrentFilters.priority,
     }));
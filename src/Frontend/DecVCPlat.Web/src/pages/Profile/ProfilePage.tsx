@@ -33,7 +33,7 @@ import {
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
 import { useAuth } from '../../hooks/useAuth';
 import { updateNotificationPreferences, fetchNotificationPreferences } from '../../store/slices/notificationSlice';
-import { updateProfile } from '../../store/slices/authSlice';
+import { connectWallet, updateProfile } from '../../store/slices/authSlice';
 import toast from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
 
@@ -158,6 +158,15 @@ const DecVCPlatProfilePage: React.FC = () => {
     }
   };
 
+  const handleDecVCPlatVerifyWallet = async () => {
+    const decvcplatResult = await dispatch(connectWallet());
+    if (connectWallet.fulfilled.match(decvcplatResult)) {
+      toast.success('Wallet verified and linked to your DecVCPlat account');
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Wallet verification failed');
+    }
+  };
+
   return (
     <>
       <Helmet>
@@ -499,7 +508,13 @@ const DecVCPlatProfilePage: React.FC = () => {
                       </Typography>
                       <Typography variant="body2" color="text.secondary">
                         Connected Wallet: {user?.walletAddress ? `${user.walletAddress.substring(0, 6)}...${user.walletAddress.substring(38)}` : 'Not Connected'}
+                        {user?.isWalletVerified && (
+                          <Chip label="Verified" size="small" color="success" sx={{ ml: 1 }} />
+                        )}
                       </Typography>
+                      <Button variant="outlined" sx={{ mt: 2 }} onClick={handleDecVCPlatVerifyWallet} disabled={authLoading}>
+                        {user?.isWalletVerified ? 'Link a Different Wallet' : 'Verify Wallet Ownership'}
+                      </Button>
                     </CardContent>
                   </Card>
                 </Grid>
@@ -14,6 +14,7 @@ import {
   Chip,
   FormControl,
   InputLabel,
+  FormHelperText,
   Select,
   MenuItem,
   InputAdornment,
@@ -41,6 +42,7 @@ import {
 import { useAppDispatch } from '../../hooks/redux';
 import { useAuth } from '../../hooks/useAuth';
 import { createProject } from '../../store/slices/projectSlice';
+import type { DecVCPlatApiProblem } from '../../services/api/DecVCPlatApiContracts';
 import toast from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
 
@@ -62,6 +64,24 @@ interface DecVCPlatProjectData {
   documents: File[];
 }
 
+// Form fields owned by each stepper step, used to send the user back to the step
+// holding the first field the backend rejected.
+const decvcplatStepFields: string[][] = [
+  ['title', 'description', 'category', 'tags'],
+  ['fundingGoal', 'fundingDeadline'],
+  ['milestones'],
+  ['documents'],
+];
+
+const getDecVCPlatStepForField = (decvcplatFieldPath: string): number =>
+  decvcplatStepFields.findIndex((decvcplatFields) =>
+    decvcplatFields.some((decvcplatField) =>
+      decvcplatFieldPath === decvcplatField ||
+      decvcplatFieldPath.startsWith(`${decvcplatField}[`) ||
+      decvcplatFieldPath.startsWith(`${decvcplatField}.`)
+    )
+  );
+
 const DecVCPlatCreateProjectPage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
@@ -70,6 +90,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
   const [decvcplatActiveStep, setDecVCPlatActiveStep] = useState(0);
   const [decvcplatNewTag, setDecVCPlatNewTag] = useState('');
   const [decvcplatIsSubmitting, setDecVCPlatIsSubmitting] = useState(false);
+  const [decvcplatFieldErrors, setDecVCPlatFieldErrors] = useState<Record<string, string>>({});
 
   const [decvcplatProjectData, setDecVCPlatProjectData] = useState<DecVCPlatProjectData>({
     title: '',
@@ -109,7 +130,25 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
     'Other'
   ];
 
+  const decvcplatStepsWithErrors = Object.keys(decvcplatFieldErrors).map(getDecVCPlatStepForField);
+
+  const clearDecVCPlatFieldError = (fieldPath: string) => {
+    setDecVCPlatFieldErrors(prev => {
+      if (!(fieldPath in prev)) {
+        return prev;
+      }
+      const { [fieldPath]: _cleared, ...remaining } = prev;
+      return remaining;
+    });
+  };
+
+  const getDecVCPlatFieldErrorProps = (fieldPath: string) => ({
+    error: Boolean(decvcplatFieldErrors[fieldPath]),
+    helperText: decvcplatFieldErrors[fieldPath],
+  });
+
   const handleDecVCPlatInputChange = (field: keyof DecVCPlatProjectData, value: any) => {
+    clearDecVCPlatFieldError(field);
     setDecVCPlatProjectData(prev => ({
       ...prev,
       [field]: value,
@@ -128,6 +167,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
   };
 
   const handleDecVCPlatMilestoneChange = (index: number, field: keyof DecVCPlatMilestone, value: any) => {
+    clearDecVCPlatFieldError(`milestones[${index}].${field}`);
     const updatedMilestones = decvcplatProjectData.milestones.map((milestone, i) =>
       i === index ? { ...milestone, [field]: value } : milestone
     );
@@ -146,6 +186,10 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
 
   const handleDecVCPlatRemoveMilestone = (index: number) => {
     if (decvcplatProjectData.milestones.length > 1) {
+      // Indexed errors no longer line up once a milestone is removed
+      setDecVCPlatFieldErrors(prev =>
+        Object.fromEntries(Object.entries(prev).filter(([fieldPath]) => !fieldPath.startsWith('milestones[')))
+      );
       const updatedMilestones = decvcplatProjectData.milestones.filter((_, i) => i !== index);
       handleDecVCPlatInputChange('milestones', updatedMilestones);
     }
@@ -211,19 +255,32 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
 
     try {
       const projectSubmissionData = {
-        ...decvcplatProjectData,
-        founderId: user.id,
-        founderName: user.displayName,
-        status: 'Pending',
-        submittedAt: new Date().toISOString(),
+        title: decvcplatProjectData.title,
+        description: decvcplatProjectData.description,
+        category: decvcplatProjectData.category,
+        fundingGoal: decvcplatProjectData.fundingGoal,
+        tags: decvcplatProjectData.tags,
+        milestones: decvcplatProjectData.milestones,
       };
 
+      setDecVCPlatFieldErrors({});
       await dispatch(createProject(projectSubmissionData)).unwrap();
       
       toast.success('Project created successfully! It will be reviewed by the community.');
       navigate('/projects');
     } catch (error: any) {
-      toast.error(error.message || 'Failed to create project');
+      const problem = error as DecVCPlatApiProblem;
+      const erroredSteps = Object.keys(problem.fieldErrors ?? {})
+        .map(getDecVCPlatStepForField)
+        .filter(step => step !== -1);
+
+      if (erroredSteps.length > 0) {
+        setDecVCPlatFieldErrors(problem.fieldErrors);
+        setDecVCPlatActiveStep(Math.min(...erroredSteps));
+        toast.error('Please correct the highlighted fields and resubmit');
+      } else {
+        toast.error(problem.message || 'Failed to create project');
+      }
     } finally {
       setDecVCPlatIsSubmitting(false);
     }
@@ -242,6 +299,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                 onChange={(e) => handleDecVCPlatInputChange('title', e.target.value)}
                 placeholder="Enter a compelling project title"
                 required
+                {...getDecVCPlatFieldErrorProps('title')}
               />
             </Grid>
             <Grid item xs={12}>
@@ -254,10 +312,11 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                 onChange={(e) => handleDecVCPlatInputChange('description', e.target.value)}
                 placeholder="Describe your project, its goals, and potential impact"
                 required
+                {...getDecVCPlatFieldErrorProps('description')}
               />
             </Grid>
             <Grid item xs={12} sm={6}>
-              <FormControl fullWidth required>
+              <FormControl fullWidth required error={Boolean(decvcplatFieldErrors.category)}>
                 <InputLabel>Category</InputLabel>
                 <Select
                   value={decvcplatProjectData.category}
@@ -270,6 +329,9 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                     </MenuItem>
                   ))}
                 </Select>
+                {decvcplatFieldErrors.category && (
+                  <FormHelperText>{decvcplatFieldErrors.category}</FormHelperText>
+                )}
               </FormControl>
             </Grid>
             <Grid item xs={12}>
@@ -325,6 +387,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                 }}
                 placeholder="0"
                 required
+                {...getDecVCPlatFieldErrorProps('fundingGoal')}
               />
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -381,6 +444,12 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
               </Button>
             </Box>
             
+            {decvcplatFieldErrors.milestones && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {decvcplatFieldErrors.milestones}
+              </Alert>
+            )}
+
             <Alert severity="info" sx={{ mb: 3 }}>
               Define clear, measurable milestones for your project. Each milestone should have specific deliverables 
               and a corresponding funding amount that will be released upon community approval.
@@ -412,6 +481,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                         value={milestone.title}
                         onChange={(e) => handleDecVCPlatMilestoneChange(index, 'title', e.target.value)}
                         required
+                        {...getDecVCPlatFieldErrorProps(`milestones[${index}].title`)}
                       />
                     </Grid>
                     <Grid item xs={12} sm={6}>
@@ -423,6 +493,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                         onChange={(e) => handleDecVCPlatMilestoneChange(index, 'dueDate', e.target.value)}
                         InputLabelProps={{ shrink: true }}
                         required
+                        {...getDecVCPlatFieldErrorProps(`milestones[${index}].dueDate`)}
                       />
                     </Grid>
                     <Grid item xs={12}>
@@ -435,6 +506,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                         onChange={(e) => handleDecVCPlatMilestoneChange(index, 'description', e.target.value)}
                         placeholder="Describe what will be delivered in this milestone"
                         required
+                        {...getDecVCPlatFieldErrorProps(`milestones[${index}].description`)}
                       />
                     </Grid>
                     <Grid item xs={12} sm={6}>
@@ -449,6 +521,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
                           endAdornment: <InputAdornment position="end">ETH</InputAdornment>,
                         }}
                         required
+                        {...getDecVCPlatFieldErrorProps(`milestones[${index}].fundingAmount`)}
                       />
                     </Grid>
                   </Grid>
@@ -604,7 +677,7 @@ const DecVCPlatCreateProjectPage: React.FC = () => {
           <Stepper activeStep={decvcplatActiveStep} alternativeLabel>
             {decvcplatStepLabels.map((label, index) => (
               <Step key={label}>
-                <StepLabel>{label}</StepLabel>
+                <StepLabel error={decvcplatStepsWithErrors.includes(index)}>{label}</StepLabel>
               </Step>
             ))}
           </Stepper>
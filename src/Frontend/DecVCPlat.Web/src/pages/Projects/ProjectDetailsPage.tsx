@@ -1,6 +1,6 @@
 // © 2024 DecVCPlat. All rights reserved.
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -39,15 +39,25 @@ import {
   Visibility as ViewIcon,
   ThumbUp as ApproveIcon,
   ThumbDown as RejectIcon,
-  CheckCircle as CompleteIcon,
-  Schedule as PendingIcon,
 } from '@mui/icons-material';
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
 import { useAuth } from '../../hooks/useAuth';
-import { fetchProjectById, voteOnProject } from '../../store/slices/projectSlice';
+import {
+  completeMilestone,
+  fetchProjectById,
+  refreshProjectById,
+  voteOnMilestone,
+  voteOnProject,
+} from '../../store/slices/projectSlice';
+import { evaluateDecVCPlatMilestoneVote } from '../../services/blockchain/DecVCPlatMilestoneVoting';
+import MilestoneApprovalItem from '../../components/Project/MilestoneApprovalItem';
 import toast from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
 
+// Live milestone tallies are re-fetched this often while a window is open
+const DECVCPLAT_MILESTONE_POLL_MS = 20000;
+const DECVCPLAT_MIN_EVIDENCE_LENGTH = 20;
+
 interface TabPanelProps {
   children?: React.ReactNode;
   index: number;
@@ -75,12 +85,16 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
   const { user } = useAuth();
-  const { currentProject, isLoading } = useAppSelector(state => state.projects);
+  const { currentProject, isLoading, milestoneActionId } = useAppSelector(state => state.projects);
 
   const [decvcplatActiveTab, setDecVCPlatActiveTab] = useState(0);
   const [decvcplatShowVoteDialog, setDecVCPlatShowVoteDialog] = useState(false);
   const [decvcplatVoteComment, setDecVCPlatVoteComment] = useState('');
   const [decvcplatVoteType, setDecVCPlatVoteType] = useState<'approve' | 'reject'>('approve');
+  const [decvcplatCompletingMilestoneId, setDecVCPlatCompletingMilestoneId] = useState<string | null>(null);
+  const [decvcplatEvidence, setDecVCPlatEvidence] = useState('');
+  const [decvcplatEvidenceUrl, setDecVCPlatEvidenceUrl] = useState('');
+  const [, setDecVCPlatTick] = useState(0);
 
   useEffect(() => {
     if (id) {
@@ -88,6 +102,22 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
     }
   }, [dispatch, id]);
 
+  const decvcplatHasOpenMilestoneVote = useMemo(
+    () => (currentProject?.milestones ?? []).some(milestone => evaluateDecVCPlatMilestoneVote(milestone).votingOpen),
+    [currentProject]
+  );
+
+  // Keep countdowns current and pick up other voters' ballots while a window is open
+  useEffect(() => {
+    if (!id || !decvcplatHasOpenMilestoneVote) return;
+    const decvcplatTickTimer = setInterval(() => setDecVCPlatTick(tick => tick + 1), 60000);
+    const decvcplatPollTimer = setInterval(() => dispatch(refreshProjectById(id)), DECVCPLAT_MILESTONE_POLL_MS);
+    return () => {
+      clearInterval(decvcplatTickTimer);
+      clearInterval(decvcplatPollTimer);
+    };
+  }, [dispatch, id, decvcplatHasOpenMilestoneVote]);
+
   const handleDecVCPlatTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setDecVCPlatActiveTab(newValue);
   };
@@ -103,22 +133,67 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
     try {
       await dispatch(voteOnProject({
         projectId: currentProject.id,
-        voteType: decvcplatVoteType,
+        voteType: decvcplatVoteType === 'approve' ? 'Approve' : 'Reject',
+        stakedTokens: 0,
         comment: decvcplatVoteComment,
-        voterRole: user.role,
       })).unwrap();
 
       toast.success(`Vote ${decvcplatVoteType === 'approve' ? 'approved' : 'rejected'} successfully`);
       setDecVCPlatShowVoteDialog(false);
       setDecVCPlatVoteComment('');
     } catch (error: any) {
-      toast.error(error.message || 'Failed to submit vote');
+      toast.error(typeof error === 'string' ? error : error.message || 'Failed to submit vote');
+    }
+  };
+
+  const handleDecVCPlatCompleteOpen = (milestoneId: string) => {
+    setDecVCPlatCompletingMilestoneId(milestoneId);
+    setDecVCPlatEvidence('');
+    setDecVCPlatEvidenceUrl('');
+  };
+
+  const handleDecVCPlatCompleteSubmit = async () => {
+    if (!currentProject || !decvcplatCompletingMilestoneId) return;
+
+    try {
+      await dispatch(completeMilestone({
+        projectId: currentProject.id,
+        milestoneId: decvcplatCompletingMilestoneId,
+        evidence: decvcplatEvidence.trim(),
+        evidenceUrl: decvcplatEvidenceUrl.trim() || undefined,
+      })).unwrap();
+
+      toast.success('Milestone submitted for approval');
+      setDecVCPlatCompletingMilestoneId(null);
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : error.message || 'Failed to complete milestone');
+    }
+  };
+
+  const handleDecVCPlatMilestoneVote = async (milestoneId: string, approve: boolean) => {
+    if (!currentProject) return;
+
+    try {
+      const updatedProject = await dispatch(voteOnMilestone({
+        projectId: currentProject.id,
+        milestoneId,
+        approve,
+      })).unwrap();
+
+      const updatedMilestone = updatedProject.milestones.find(milestone => milestone.id === milestoneId);
+      if (approve && updatedMilestone?.status === 'FundingReleased') {
+        toast.success('Milestone approved and funding released');
+      } else {
+        toast.success(`Milestone ${approve ? 'approval' : 'rejection'} recorded`);
+      }
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : error.message || 'Failed to vote on milestone');
     }
   };
 
   const getFundingProgressPercentage = () => {
     if (!currentProject) return 0;
-    return Math.min((currentProject.fundingRaised / currentProject.fundingGoal) * 100, 100);
+    return Math.min((currentProject.currentFunding / currentProject.fundingGoal) * 100, 100);
   };
 
   const getStatusColor = (status: string) => {
@@ -138,10 +213,25 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
     }
   };
 
+  const getProjectVoteSummary = () => {
+    const votes = currentProject?.votes || [];
+    const approve = votes.filter(vote => vote.voteType === 'Approve').length;
+    const reject = votes.filter(vote => vote.voteType === 'Reject').length;
+    return {
+      approve,
+      reject,
+      total: votes.length,
+      approvalPercentage: votes.length > 0 ? Math.round((approve / votes.length) * 100) : 0,
+    };
+  };
+
   const canUserVote = () => {
-    return user && ['Investor', 'Luminary'].includes(user.role) && currentProject?.status === 'Review';
+    return user && ['Investor', 'Luminary'].includes(user.role) && currentProject?.status === 'UnderReview';
   };
 
+  const canUserVoteOnMilestones = !!user && ['Investor', 'Luminary'].includes(user.role);
+  const isProjectFounder = !!user && user.id === currentProject?.founderId;
+
   if (isLoading) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -237,7 +327,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                   </Typography>
                   <Box mb={2}>
                     <Typography variant="h4" color="primary">
-                      ${currentProject.fundingRaised?.toLocaleString()} ETH
+                      ${currentProject.currentFunding.toLocaleString()} ETH
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       of ${currentProject.fundingGoal?.toLocaleString()} ETH goal
@@ -306,39 +396,18 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
               <Typography variant="h6" gutterBottom>
                 Project Milestones
               </Typography>
-              <List>
-                {currentProject.milestones?.map((milestone, index) => (
-                  <ListItem key={index} divider>
-                    <ListItemIcon>
-                      {milestone.status === 'completed' ? (
-                        <CompleteIcon color="success" />
-                      ) : (
-                        <PendingIcon color="warning" />
-                      )}
-                    </ListItemIcon>
-                    <ListItemText
-                      primary={milestone.title}
-                      secondary={
-                        <>
-                          <Typography variant="body2" component="span">
-                            {milestone.description}
-                          </Typography>
-                          <br />
-                          <Typography variant="caption" color="text.secondary">
-                            Due: {new Date(milestone.dueDate).toLocaleDateString()} • 
-                            Funding: ${milestone.fundingAmount?.toLocaleString()} ETH
-                          </Typography>
-                        </>
-                      }
-                    />
-                    <Chip
-                      label={milestone.status}
-                      color={getStatusColor(milestone.status) as any}
-                      size="small"
-                    />
-                  </ListItem>
-                ))}
-              </List>
+              {currentProject.milestones?.map((milestone) => (
+                <MilestoneApprovalItem
+                  key={milestone.id}
+                  decvcplatMilestone={milestone}
+                  decvcplatCanComplete={isProjectFounder}
+                  decvcplatCanVote={canUserVoteOnMilestones}
+                  decvcplatHasVoted={!!milestone.votes?.some(vote => vote.userId === user?.id)}
+                  decvcplatBusy={milestoneActionId === milestone.id}
+                  onDecVCPlatComplete={handleDecVCPlatCompleteOpen}
+                  onDecVCPlatVote={handleDecVCPlatMilestoneVote}
+                />
+              ))}
             </Box>
           </TabPanel>
 
@@ -355,7 +424,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                       <DocumentIcon />
                     </ListItemIcon>
                     <ListItemText
-                      primary={document.name}
+                      primary={document.fileName}
                       secondary={
                         <>
                           <Typography variant="body2" component="span">
@@ -364,7 +433,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                           <br />
                           <Typography variant="caption" color="text.secondary">
                             Uploaded: {new Date(document.uploadedAt).toLocaleDateString()} • 
-                            Size: {document.fileSize}
+                            Size: {typeof document.fileSize === 'number' ? `${(document.fileSize / 1024).toFixed(1)} KB` : 'Unknown'}
                           </Typography>
                         </>
                       }
@@ -394,7 +463,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                   <Card>
                     <CardContent sx={{ textAlign: 'center' }}>
                       <Typography variant="h4" color="success.main">
-                        {currentProject.votes?.approve || 0}
+                        {getProjectVoteSummary().approve}
                       </Typography>
                       <Typography variant="body2">Approve Votes</Typography>
                     </CardContent>
@@ -404,7 +473,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                   <Card>
                     <CardContent sx={{ textAlign: 'center' }}>
                       <Typography variant="h4" color="error.main">
-                        {currentProject.votes?.reject || 0}
+                        {getProjectVoteSummary().reject}
                       </Typography>
                       <Typography variant="body2">Reject Votes</Typography>
                     </CardContent>
@@ -414,7 +483,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                   <Card>
                     <CardContent sx={{ textAlign: 'center' }}>
                       <Typography variant="h4" color="primary">
-                        {currentProject.totalVotes || 0}
+                        {getProjectVoteSummary().total}
                       </Typography>
                       <Typography variant="body2">Total Votes</Typography>
                     </CardContent>
@@ -424,7 +493,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                   <Card>
                     <CardContent sx={{ textAlign: 'center' }}>
                       <Typography variant="h4" color="text.primary">
-                        {currentProject.approvalPercentage || 0}%
+                        {getProjectVoteSummary().approvalPercentage}%
                       </Typography>
                       <Typography variant="body2">Approval Rate</Typography>
                     </CardContent>
@@ -460,7 +529,7 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                           Amount Raised
                         </Typography>
                         <Typography variant="h5" color="primary">
-                          ${currentProject.fundingRaised?.toLocaleString()} ETH
+                          ${currentProject.currentFunding.toLocaleString()} ETH
                         </Typography>
                       </Box>
                       <Box>
@@ -492,6 +561,13 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
                               primary={`Tranche ${index + 1}`}
                               secondary={`$${milestone.fundingAmount?.toLocaleString()} ETH - ${milestone.title}`}
                             />
+                            {milestone.fundingReleasedAt && (
+                              <Chip
+                                label={`Released ${new Date(milestone.fundingReleasedAt).toLocaleDateString()}`}
+                                color="success"
+                                size="small"
+                              />
+                            )}
                           </ListItem>
                         ))}
                       </List>
@@ -540,6 +616,54 @@ const DecVCPlatProjectDetailsPage: React.FC = () => {
             </Button>
           </DialogActions>
         </Dialog>
+
+        {/* Milestone Completion Dialog */}
+        <Dialog
+          open={decvcplatCompletingMilestoneId !== null}
+          onClose={() => setDecVCPlatCompletingMilestoneId(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>Mark Milestone Complete</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Describe what was delivered. Investors and Luminaries then have 3 days to approve
+              or reject the milestone before its funding is released.
+            </Typography>
+            <TextField
+              autoFocus
+              fullWidth
+              multiline
+              rows={4}
+              label="Completion Evidence"
+              value={decvcplatEvidence}
+              onChange={(e) => setDecVCPlatEvidence(e.target.value)}
+              helperText={`At least ${DECVCPLAT_MIN_EVIDENCE_LENGTH} characters`}
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              fullWidth
+              label="Evidence Link (optional)"
+              value={decvcplatEvidenceUrl}
+              onChange={(e) => setDecVCPlatEvidenceUrl(e.target.value)}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDecVCPlatCompletingMilestoneId(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDecVCPlatCompleteSubmit}
+              variant="contained"
+              disabled={
+                decvcplatEvidence.trim().length < DECVCPLAT_MIN_EVIDENCE_LENGTH
+                || milestoneActionId === decvcplatCompletingMilestoneId
+              }
+            >
+              Submit for Approval
+            </Button>
+          </DialogActions>
+        </Dialog>
       </Container>
     </>
   );
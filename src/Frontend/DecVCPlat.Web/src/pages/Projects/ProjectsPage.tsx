@@ -27,23 +27,16 @@ const ProjectsPage: React.FC = () => {
   const [decvcplatShowFilters, setDecVCPlatShowFilters] = useState(false);
 
   useEffect(() => {
-    decvcplatDispatch(fetchProjects({
-      page: decvcplatPaginationState.page,
-      pageSize: decvcplatPaginationState.pageSize,
-      status: decvcplatCurrentFilters.status,
-      category: decvcplatCurrentFilters.category,
-      search: decvcplatCurrentFilters.search,
-    }));
+    // The thunk reads filters and paging from the store; setFilters already resets to page 1
+    decvcplatDispatch(fetchProjects());
   }, [decvcplatDispatch, decvcplatPaginationState.page, decvcplatCurrentFilters]);
 
   const handleDecVCPlatSearch = () => {
     decvcplatDispatch(setFilters({ search: decvcplatSearchInput }));
-    decvcplatDispatch(setPagination({ page: 1 }));
   };
 
   const handleDecVCPlatFilterChange = (decvcplatFilterType: string, decvcplatFilterValue: string) => {
     decvcplatDispatch(setFilters({ [decvcplatFilterType]: decvcplatFilterValue }));
-    decvcplatDispatch(setPagination({ page: 1 }));
   };
 
   const handleDecVCPlatPageChange = (_: React.ChangeEvent<unknown>, decvcplatNewPage: number) => {
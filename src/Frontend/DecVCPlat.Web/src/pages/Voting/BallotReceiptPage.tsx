@@ -0,0 +1,217 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect } from 'react';
+import {
+  Container,
+  Grid,
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Alert,
+  Chip,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+} from '@mui/material';
+import { ArrowBack, CheckCircle, Cancel, ContentCopy } from '@mui/icons-material';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { fetchBallotReceipt } from '../../store/slices/votingSlice';
+import LoadingSpinner from '../../components/Common/LoadingSpinner';
+import { toast } from 'react-hot-toast';
+import { Helmet } from 'react-helmet-async';
+
+// Every check runs in the browser from the published receipt, so the page proves
+// the ballot was counted without trusting the server's word for it.
+const BallotReceiptPage: React.FC = () => {
+  const { ballotHash: decvcplatBallotHash } = useParams<{ ballotHash: string }>();
+  const decvcplatDispatch = useAppDispatch();
+  const {
+    ballotReceipt: decvcplatBallotReceipt,
+    isLoading: decvcplatLoading,
+    error: decvcplatError,
+  } = useAppSelector(state => state.voting);
+
+  useEffect(() => {
+    if (decvcplatBallotHash) {
+      decvcplatDispatch(fetchBallotReceipt(decvcplatBallotHash));
+    }
+  }, [decvcplatDispatch, decvcplatBallotHash]);
+
+  const handleDecVCPlatCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast.success('DecVCPlat receipt link copied');
+  };
+
+  if (decvcplatLoading) {
+    return <LoadingSpinner message="Verifying DecVCPlat ballot..." />;
+  }
+
+  const decvcplatReceipt = decvcplatBallotReceipt?.receipt;
+  const decvcplatVerification = decvcplatBallotReceipt?.verification;
+  const decvcplatSignedBallot = decvcplatReceipt?.vote.signedBallot;
+  // Quadratic and conviction proposals count a weight other than the ballot's power
+  const decvcplatStrategyWeighted = typeof decvcplatReceipt?.vote.weight === 'number'
+    && decvcplatReceipt.vote.weight !== decvcplatReceipt.vote.votingPower;
+
+  const decvcplatChecks = decvcplatVerification ? [
+    {
+      label: 'Signature recovers to the voter',
+      detail: decvcplatVerification.signer ?? 'Signature could not be recovered',
+      passed: decvcplatVerification.signatureValid,
+    },
+    {
+      label: 'Ballot hash matches this receipt',
+      detail: decvcplatVerification.ballotHash,
+      passed: decvcplatVerification.ballotHash.toLowerCase() === decvcplatBallotHash?.toLowerCase(),
+    },
+    {
+      label: 'Counted on the proposal',
+      detail: decvcplatReceipt?.vote.withdrawnAt
+        ? `The voter withdrew this ballot on ${new Date(decvcplatReceipt.vote.withdrawnAt).toLocaleString()}`
+        : decvcplatReceipt?.vote.replacedAt
+          ? `The voter replaced this ballot on ${new Date(decvcplatReceipt.vote.replacedAt).toLocaleString()}`
+          : 'The ballot appears unchanged among the proposal\'s published ballots',
+      passed: decvcplatVerification.includedInProposal,
+    },
+    {
+      label: 'Published ballots verify',
+      detail: `${decvcplatVerification.publishedBallots - decvcplatVerification.invalidPublishedBallots} of ${decvcplatVerification.publishedBallots} signed ballots on this proposal have valid signatures`,
+      passed: decvcplatVerification.invalidPublishedBallots === 0,
+    },
+  ] : [];
+  const decvcplatAllPassed = decvcplatChecks.length > 0 && decvcplatChecks.every(decvcplatCheck => decvcplatCheck.passed);
+
+  return (
+    <>
+      <Helmet>
+        <title>DecVCPlat Ballot Receipt - DecVCPlat</title>
+        <meta name="description" content="Verify that a signed DecVCPlat ballot was counted" />
+      </Helmet>
+
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 4 }}>
+          <Box>
+            <Typography variant="h4" fontWeight={600} gutterBottom>
+              DecVCPlat Ballot Receipt
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Anyone with this link can re-check the signed ballot.
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button variant="outlined" startIcon={<ContentCopy />} onClick={handleDecVCPlatCopyLink}>
+              Copy Link
+            </Button>
+            <Button component={RouterLink} to="/voting" variant="outlined" startIcon={<ArrowBack />}>
+              Back to Voting
+            </Button>
+          </Box>
+        </Box>
+
+        {!decvcplatReceipt || !decvcplatSignedBallot || !decvcplatVerification ? (
+          <Alert severity="error">{decvcplatError || 'DecVCPlat ballot receipt not found'}</Alert>
+        ) : (
+          <>
+            <Alert severity={decvcplatAllPassed ? 'success' : 'error'} sx={{ mb: 3 }}>
+              {decvcplatAllPassed
+                ? 'This ballot was signed by the voter and counted as cast.'
+                : 'This ballot failed verification. Do not rely on it.'}
+            </Alert>
+
+            <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                {decvcplatReceipt.proposal.title}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+                <Chip size="small" label={decvcplatReceipt.proposal.proposalType} />
+                <Chip size="small" label={decvcplatReceipt.proposal.status} variant="outlined" />
+              </Box>
+              <Grid container spacing={2}>
+                <Grid item xs={6} sm={3}>
+                  <Typography variant="caption" color="text.secondary">Choice</Typography>
+                  <Typography variant="body1" fontWeight={600}>{decvcplatReceipt.vote.choice}</Typography>
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <Typography variant="caption" color="text.secondary">Signed stake</Typography>
+                  <Typography variant="body1" fontWeight={600}>{decvcplatReceipt.vote.stakedAmount.toLocaleString()} DVCP</Typography>
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <Typography variant="caption" color="text.secondary">Counted weight</Typography>
+                  <Typography variant="body1" fontWeight={600}>
+                    {decvcplatStrategyWeighted
+                      ? decvcplatReceipt.vote.weight?.toLocaleString()
+                      : `${decvcplatReceipt.vote.votingPower.toLocaleString()} DVCP`}
+                  </Typography>
+                  {decvcplatStrategyWeighted && (
+                    <Typography variant="caption" color="text.secondary">
+                      from {decvcplatReceipt.vote.votingPower.toLocaleString()} DVCP of voting power
+                    </Typography>
+                  )}
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <Typography variant="caption" color="text.secondary">Signed at</Typography>
+                  <Typography variant="body1" fontWeight={600}>
+                    {new Date(decvcplatSignedBallot.issuedAt * 1000).toLocaleString()}
+                  </Typography>
+                </Grid>
+              </Grid>
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="caption" color="text.secondary">Voter wallet (chain {decvcplatSignedBallot.chainId})</Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mb: 1 }}>
+                {decvcplatSignedBallot.voter}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">Signature</Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {decvcplatSignedBallot.signature}
+              </Typography>
+            </Paper>
+
+            <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                Verification
+              </Typography>
+              <List disablePadding>
+                {decvcplatChecks.map((decvcplatCheck) => (
+                  <ListItem key={decvcplatCheck.label} disableGutters>
+                    <ListItemIcon>
+                      {decvcplatCheck.passed ? <CheckCircle color="success" /> : <Cancel color="error" />}
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={decvcplatCheck.label}
+                      secondary={decvcplatCheck.detail}
+                      secondaryTypographyProps={{ sx: { wordBreak: 'break-all' } }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Paper>
+
+            <Paper elevation={1} sx={{ p: 3 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                Current Tally
+              </Typography>
+              <Grid container spacing={2}>
+                {[
+                  { label: 'For', value: decvcplatReceipt.proposal.forVotes },
+                  { label: 'Against', value: decvcplatReceipt.proposal.againstVotes },
+                  { label: 'Abstain', value: decvcplatReceipt.proposal.abstainVotes },
+                ].map((decvcplatTally) => (
+                  <Grid item xs={4} key={decvcplatTally.label}>
+                    <Typography variant="caption" color="text.secondary">{decvcplatTally.label}</Typography>
+                    <Typography variant="body1" fontWeight={600}>{decvcplatTally.value.toLocaleString()} DVCP</Typography>
+                  </Grid>
+                ))}
+              </Grid>
+            </Paper>
+          </>
+        )}
+      </Container>
+    </>
+  );
+};
+
+export default BallotReceiptPage;
@@ -0,0 +1,338 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Grid,
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  CardActions,
+  Avatar,
+  Chip,
+  Paper,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+  Alert,
+  InputAdornment,
+} from '@mui/material';
+import { ArrowBack, GroupAdd, HowToVote, PersonRemove } from '@mui/icons-material';
+import { Link as RouterLink } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import {
+  fetchDelegates,
+  fetchDelegations,
+  fetchUserVotingStats,
+  delegateVotingPower,
+  revokeDelegation,
+} from '../../store/slices/votingSlice';
+import VotingPowerBreakdown from '../../components/Voting/VotingPowerBreakdown';
+import type { DelegateDto, DelegationDto } from '../../services/api/DecVCPlatApiContracts';
+import { toast } from 'react-hot-toast';
+import { Helmet } from 'react-helmet-async';
+
+const formatDecVCPlatDelegationDate = (decvcplatTimestamp: string): string =>
+  new Date(decvcplatTimestamp).toLocaleDateString();
+
+const DelegationPage: React.FC = () => {
+  const decvcplatAuth = useAuth();
+  const decvcplatDispatch = useAppDispatch();
+
+  const {
+    delegates: decvcplatDelegates,
+    delegations: decvcplatDelegations,
+    votingPower: decvcplatVotingPower,
+    isDelegating: decvcplatDelegating,
+  } = useAppSelector(state => state.voting);
+
+  const [decvcplatSelectedDelegate, setDecVCPlatSelectedDelegate] = useState<DelegateDto | null>(null);
+  const [decvcplatDelegateAmount, setDecVCPlatDelegateAmount] = useState('');
+  const [decvcplatDelegateReason, setDecVCPlatDelegateReason] = useState('');
+
+  const decvcplatUserId = decvcplatAuth.user?.id;
+  const decvcplatAvailablePower = decvcplatVotingPower ? Math.floor(decvcplatVotingPower.availableToStake) : 0;
+  const decvcplatActiveGiven = decvcplatDelegations.filter(
+    (decvcplatDelegation) => decvcplatDelegation.status === 'Active' && decvcplatDelegation.delegatorId === decvcplatUserId
+  );
+  const decvcplatActiveReceived = decvcplatDelegations.filter(
+    (decvcplatDelegation) => decvcplatDelegation.status === 'Active' && decvcplatDelegation.delegateId === decvcplatUserId
+  );
+
+  useEffect(() => {
+    if (decvcplatAuth.isAuthenticated) {
+      decvcplatDispatch(fetchDelegates());
+      decvcplatDispatch(fetchDelegations());
+      decvcplatDispatch(fetchUserVotingStats());
+    }
+  }, [decvcplatDispatch, decvcplatAuth.isAuthenticated]);
+
+  const handleDecVCPlatDelegateClick = (decvcplatDelegate: DelegateDto) => {
+    setDecVCPlatSelectedDelegate(decvcplatDelegate);
+    setDecVCPlatDelegateAmount(decvcplatAvailablePower > 0 ? String(decvcplatAvailablePower) : '');
+    setDecVCPlatDelegateReason('');
+  };
+
+  const handleDecVCPlatDelegateSubmit = async () => {
+    if (!decvcplatSelectedDelegate) return;
+
+    const decvcplatResult = await decvcplatDispatch(delegateVotingPower({
+      delegateId: decvcplatSelectedDelegate.userId,
+      amount: Number(decvcplatDelegateAmount),
+      reason: decvcplatDelegateReason || undefined,
+    }));
+    if (delegateVotingPower.fulfilled.match(decvcplatResult)) {
+      toast.success(`Delegated ${Number(decvcplatDelegateAmount).toLocaleString()} DVCP to ${decvcplatSelectedDelegate.fullName}`);
+      setDecVCPlatSelectedDelegate(null);
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to delegate DecVCPlat voting power');
+    }
+  };
+
+  const handleDecVCPlatRevoke = async (decvcplatDelegation: DelegationDto) => {
+    const decvcplatResult = await decvcplatDispatch(revokeDelegation(decvcplatDelegation.id));
+    if (revokeDelegation.fulfilled.match(decvcplatResult)) {
+      toast.success(`Revoked delegation to ${decvcplatDelegation.delegateName}`);
+    } else {
+      toast.error((decvcplatResult.payload as string) || 'Failed to revoke DecVCPlat delegation');
+    }
+  };
+
+  const decvcplatAmountValue = Number(decvcplatDelegateAmount);
+  const decvcplatAmountInvalid = decvcplatDelegateAmount !== ''
+    && (!(decvcplatAmountValue > 0) || decvcplatAmountValue > decvcplatAvailablePower);
+
+  return (
+    <>
+      <Helmet>
+        <title>DecVCPlat Vote Delegation - DecVCPlat</title>
+        <meta name="description" content="Delegate DecVCPlat voting power to Luminaries and manage your delegations" />
+      </Helmet>
+
+      <Container maxWidth="xl" sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 4 }}>
+          <Box>
+            <Typography variant="h4" fontWeight={600} gutterBottom>
+              DecVCPlat Vote Delegation
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Hand all or part of your staked voting power to a Luminary. Their ballots carry it until you revoke.
+            </Typography>
+          </Box>
+          <Button component={RouterLink} to="/voting" variant="outlined" startIcon={<ArrowBack />}>
+            Back to Voting
+          </Button>
+        </Box>
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={4}>
+            {decvcplatVotingPower && (
+              <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+                <VotingPowerBreakdown decvcplatVotingPower={decvcplatVotingPower} />
+              </Paper>
+            )}
+
+            <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                Active Delegations
+              </Typography>
+              {decvcplatActiveGiven.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  You are voting with all of your own power.
+                </Typography>
+              ) : (
+                <List disablePadding>
+                  {decvcplatActiveGiven.map((decvcplatDelegation) => (
+                    <ListItem
+                      key={decvcplatDelegation.id}
+                      disableGutters
+                      secondaryAction={
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<PersonRemove />}
+                          disabled={decvcplatDelegating}
+                          onClick={() => handleDecVCPlatRevoke(decvcplatDelegation)}
+                        >
+                          Revoke
+                        </Button>
+                      }
+                    >
+                      <ListItemText
+                        primary={`${decvcplatDelegation.amount.toLocaleString()} DVCP to ${decvcplatDelegation.delegateName}`}
+                        secondary={`Since ${formatDecVCPlatDelegationDate(decvcplatDelegation.createdAt)}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+
+              {decvcplatActiveReceived.length > 0 && (
+                <>
+                  <Divider sx={{ my: 2 }} />
+                  <Typography variant="subtitle2" fontWeight={600} gutterBottom>
+                    Delegated to you
+                  </Typography>
+                  <List disablePadding>
+                    {decvcplatActiveReceived.map((decvcplatDelegation) => (
+                      <ListItem key={decvcplatDelegation.id} disableGutters>
+                        <ListItemText
+                          primary={`${decvcplatDelegation.amount.toLocaleString()} DVCP from ${decvcplatDelegation.delegatorName}`}
+                          secondary={decvcplatDelegation.reason}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </>
+              )}
+            </Paper>
+
+            <Paper elevation={1} sx={{ p: 3 }}>
+              <Typography variant="h6" fontWeight={600} gutterBottom>
+                Delegation History
+              </Typography>
+              {decvcplatDelegations.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No delegations yet.
+                </Typography>
+              ) : (
+                <List disablePadding>
+                  {decvcplatDelegations.map((decvcplatDelegation) => {
+                    const decvcplatGiven = decvcplatDelegation.delegatorId === decvcplatUserId;
+                    return (
+                      <ListItem key={decvcplatDelegation.id} disableGutters>
+                        <ListItemText
+                          primary={decvcplatGiven
+                            ? `${decvcplatDelegation.amount.toLocaleString()} DVCP to ${decvcplatDelegation.delegateName}`
+                            : `${decvcplatDelegation.amount.toLocaleString()} DVCP from ${decvcplatDelegation.delegatorName}`}
+                          secondary={decvcplatDelegation.revokedAt
+                            ? `${formatDecVCPlatDelegationDate(decvcplatDelegation.createdAt)} – revoked ${formatDecVCPlatDelegationDate(decvcplatDelegation.revokedAt)}`
+                            : `Since ${formatDecVCPlatDelegationDate(decvcplatDelegation.createdAt)}`}
+                        />
+                        <Chip
+                          label={decvcplatDelegation.status}
+                          size="small"
+                          color={decvcplatDelegation.status === 'Active' ? 'success' : 'default'}
+                          variant="outlined"
+                        />
+                      </ListItem>
+                    );
+                  })}
+                </List>
+              )}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} md={8}>
+            <Typography variant="h6" fontWeight={600} gutterBottom>
+              Luminary Delegates
+            </Typography>
+            {decvcplatAvailablePower === 0 && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Stake DVCP for voting before delegating. Power you have already delegated cannot be delegated again.
+              </Alert>
+            )}
+            <Grid container spacing={2}>
+              {decvcplatDelegates.map((decvcplatDelegate) => {
+                const decvcplatIsSelf = decvcplatDelegate.userId === decvcplatUserId;
+                return (
+                  <Grid item xs={12} sm={6} key={decvcplatDelegate.userId}>
+                    <Card elevation={1} sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+                      <CardContent sx={{ flexGrow: 1 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                          <Avatar>{decvcplatDelegate.fullName.charAt(0)}</Avatar>
+                          <Box>
+                            <Typography variant="subtitle1" fontWeight={600}>{decvcplatDelegate.fullName}</Typography>
+                            <Typography variant="caption" color="text.secondary">@{decvcplatDelegate.userName}</Typography>
+                          </Box>
+                        </Box>
+                        {decvcplatDelegate.bio && (
+                          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                            {decvcplatDelegate.bio}
+                          </Typography>
+                        )}
+                        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                          <Chip size="small" label={`${decvcplatDelegate.receivedPower.toLocaleString()} DVCP delegated`} />
+                          <Chip size="small" label={`${decvcplatDelegate.delegatorCount} delegator${decvcplatDelegate.delegatorCount === 1 ? '' : 's'}`} />
+                          <Chip size="small" icon={<HowToVote />} label={`${decvcplatDelegate.votesCast} votes cast`} />
+                        </Box>
+                      </CardContent>
+                      <CardActions>
+                        <Button
+                          size="small"
+                          startIcon={<GroupAdd />}
+                          disabled={decvcplatIsSelf || decvcplatAvailablePower === 0}
+                          onClick={() => handleDecVCPlatDelegateClick(decvcplatDelegate)}
+                        >
+                          {decvcplatIsSelf ? 'This is you' : 'Delegate'}
+                        </Button>
+                      </CardActions>
+                    </Card>
+                  </Grid>
+                );
+              })}
+            </Grid>
+          </Grid>
+        </Grid>
+
+        <Dialog open={!!decvcplatSelectedDelegate} onClose={() => setDecVCPlatSelectedDelegate(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>Delegate to {decvcplatSelectedDelegate?.fullName}</DialogTitle>
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              Delegated power is added to every ballot {decvcplatSelectedDelegate?.fullName} casts and you are notified when they vote.
+              You cannot use it yourself until you revoke.
+            </Typography>
+            <TextField
+              fullWidth
+              type="number"
+              label="Amount"
+              value={decvcplatDelegateAmount}
+              onChange={(e) => setDecVCPlatDelegateAmount(e.target.value)}
+              error={decvcplatAmountInvalid}
+              helperText={`${decvcplatAvailablePower.toLocaleString()} DVCP available to delegate`}
+              InputProps={{
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Button size="small" onClick={() => setDecVCPlatDelegateAmount(String(decvcplatAvailablePower))}>
+                      Max
+                    </Button>
+                  </InputAdornment>
+                ),
+              }}
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              fullWidth
+              multiline
+              rows={2}
+              label="Reason (optional)"
+              value={decvcplatDelegateReason}
+              onChange={(e) => setDecVCPlatDelegateReason(e.target.value)}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDecVCPlatSelectedDelegate(null)}>Cancel</Button>
+            <Button
+              variant="contained"
+              onClick={handleDecVCPlatDelegateSubmit}
+              disabled={decvcplatDelegating || decvcplatDelegateAmount === '' || decvcplatAmountInvalid}
+            >
+              {decvcplatDelegating ? 'Delegating...' : 'Delegate Voting Power'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Container>
+    </>
+  );
+};
+
+export default DelegationPage;
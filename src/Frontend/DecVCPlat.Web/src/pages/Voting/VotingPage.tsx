@@ -1,13 +1,18 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import React, { useEffect, useState } from 'react';
-import { Container, Grid, Box, Typography, Button, TextField, FormControl, InputLabel, Select, MenuItem, Pagination, Dialog, DialogTitle, DialogContent, DialogActions, Slider, useTheme, Paper } from '@mui/material';
-import { Add, FilterList, Search, HowToVote, AccountBalanceWallet } from '@mui/icons-material';
-import { Link as RouterLink } from 'react-router-dom';
+import { Container, Grid, Box, Typography, Button, TextField, FormControl, InputLabel, Select, MenuItem, Pagination, Dialog, DialogTitle, DialogContent, DialogActions, Slider, useTheme, Paper, Alert, FormControlLabel, Switch } from '@mui/material';
+import { Add, FilterList, Search, HowToVote, AccountBalanceWallet, Security, GroupAdd } from '@mui/icons-material';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
-import { fetchProposals, setFilters, setPagination, castVote } from '../../store/slices/votingSlice';
+import { fetchProposals, setFilters, setPagination, castVote, castSignedVote, changeVote, withdrawVote, fetchUserVotes, executeProposal, syncOnChainProposalTallies, applyOnChainProposalTally, getOnChainProposalTally, fetchUserVotingStats } from '../../store/slices/votingSlice';
 import ProposalCard from '../../components/Voting/ProposalCard';
+import VotingPowerBreakdown from '../../components/Voting/VotingPowerBreakdown';
+import { evaluateDecVCPlatProposal, findDecVCPlatCurrentBallot, getDecVCPlatRevoteBlocker, decvcplatVoteRevisionUnavailableMessage } from '../../services/blockchain/DecVCPlatProposalLifecycle';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import { getDecVCPlatProposalVotingStrategy } from '../../services/blockchain/DecVCPlatVotingStrategy';
+import StakingFlowDialog from '../../components/Wallet/StakingFlowDialog';
 import LoadingSpinner from '../../components/Common/LoadingSpinner';
 import { toast } from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
@@ -16,14 +21,20 @@ const VotingPage: React.FC = () => {
   const decvcplatTheme = useTheme();
   const decvcplatAuth = useAuth();
   const decvcplatDispatch = useAppDispatch();
+  const decvcplatNavigate = useNavigate();
   
   const { 
     proposals: decvcplatProposalList, 
     isLoading: decvcplatVotingLoading,
     isVoting: decvcplatCastingVote,
+    executingProposalId: decvcplatExecutingProposalId,
     filters: decvcplatCurrentFilters, 
-    pagination: decvcplatPaginationState 
+    pagination: decvcplatPaginationState,
+    onChainTallies: decvcplatOnChainTallies,
+    votingPower: decvcplatVotingPower,
+    userVotes: decvcplatUserVotes,
   } = useAppSelector(state => state.voting);
+  const decvcplatWalletConnection = useAppSelector(state => state.wallet.walletConnection);
   
   const [decvcplatSearchInput, setDecVCPlatSearchInput] = useState(decvcplatCurrentFilters.search);
   const [decvcplatShowFilters, setDecVCPlatShowFilters] = useState(false);
@@ -32,6 +43,22 @@ const VotingPage: React.FC = () => {
   const [decvcplatSelectedVoteChoice, setDecVCPlatSelectedVoteChoice] = useState<'For' | 'Against' | 'Abstain'>('For');
   const [decvcplatStakeAmount, setDecVCPlatStakeAmount] = useState<number>(1000);
   const [decvcplatVoteComment, setDecVCPlatVoteComment] = useState('');
+  const [decvcplatStakeDialogOpen, setDecVCPlatStakeDialogOpen] = useState(false);
+  const [decvcplatSignBallot, setDecVCPlatSignBallot] = useState(true);
+  // Re-renders the cards so statuses and countdowns follow the clock
+  const [, setDecVCPlatLifecycleTick] = useState(0);
+
+  // Without a known stake the slider keeps its old fixed range
+  const decvcplatMaxBallotStake = decvcplatVotingPower ? Math.floor(decvcplatVotingPower.availableToStake) : 50000;
+  // Governance proposals accept gasless EIP-712 ballots from the connected wallet
+  const decvcplatSelectedProposalEntry = decvcplatProposalList
+    .find(decvcplatProposal => decvcplatProposal.id === decvcplatSelectedProposal);
+  const decvcplatGaslessAvailable = decvcplatSelectedProposalEntry?.proposalType === 'Governance';
+  const decvcplatUseSignedBallot = decvcplatGaslessAvailable && decvcplatSignBallot && !!decvcplatWalletConnection?.connected;
+  // With a ballot already counting, submitting the dialog changes it instead
+  const decvcplatCurrentBallot = decvcplatSelectedProposal
+    ? findDecVCPlatCurrentBallot(decvcplatUserVotes, decvcplatSelectedProposal)
+    : undefined;
 
   useEffect(() => {
     decvcplatDispatch(fetchProposals({
@@ -39,9 +66,32 @@ const VotingPage: React.FC = () => {
       pageSize: decvcplatPaginationState.pageSize,
       status: decvcplatCurrentFilters.status,
       type: decvcplatCurrentFilters.type,
+      search: decvcplatCurrentFilters.search,
     }));
   }, [decvcplatDispatch, decvcplatPaginationState.page, decvcplatCurrentFilters]);
 
+  useEffect(() => {
+    const decvcplatTimer = setInterval(() => setDecVCPlatLifecycleTick(decvcplatTick => decvcplatTick + 1), 60000);
+    return () => clearInterval(decvcplatTimer);
+  }, []);
+
+  useEffect(() => {
+    decvcplatDispatch(syncOnChainProposalTallies());
+  }, [decvcplatDispatch, decvcplatWalletConnection?.networkId]);
+
+  useEffect(() => {
+    if (decvcplatAuth.isAuthenticated) {
+      decvcplatDispatch(fetchUserVotingStats());
+    }
+  }, [decvcplatDispatch, decvcplatAuth.isAuthenticated, decvcplatWalletConnection?.address, decvcplatWalletConnection?.networkId]);
+
+  const decvcplatCanVote = decvcplatAuth.canVoteOnProposals();
+  useEffect(() => {
+    if (decvcplatAuth.isAuthenticated && decvcplatCanVote) {
+      decvcplatDispatch(fetchUserVotes());
+    }
+  }, [decvcplatDispatch, decvcplatAuth.isAuthenticated, decvcplatAuth.user?.id, decvcplatCanVote]);
+
   const handleDecVCPlatSearch = () => {
     decvcplatDispatch(setFilters({ search: decvcplatSearchInput }));
     decvcplatDispatch(setPagination({ page: 1 }));
@@ -61,12 +111,60 @@ const VotingPage: React.FC = () => {
       toast.error('You do not have permission to vote on DecVCPlat proposals');
       return;
     }
+    const decvcplatProposal = decvcplatProposalList.find(decvcplatEntry => decvcplatEntry.id === decvcplatProposalId);
+    if (decvcplatProposal && !evaluateDecVCPlatProposal(decvcplatProposal).votingOpen) {
+      toast.error('Voting is not open on this DecVCPlat proposal');
+      return;
+    }
+    const decvcplatExistingBallot = findDecVCPlatCurrentBallot(decvcplatUserVotes, decvcplatProposalId);
+    const decvcplatRevoteBlocker = !decvcplatProposal || !decvcplatExistingBallot
+      ? null
+      : decvcplatApiService.supportsDecVCPlatVoteRevision()
+        ? getDecVCPlatRevoteBlocker(decvcplatProposal, !!getOnChainProposalTally(decvcplatProposal, decvcplatOnChainTallies))
+        : decvcplatVoteRevisionUnavailableMessage;
+    if (decvcplatRevoteBlocker) {
+      toast.error(decvcplatRevoteBlocker);
+      return;
+    }
 
     setDecVCPlatSelectedProposal(decvcplatProposalId);
     setDecVCPlatSelectedVoteChoice(decvcplatVoteChoice);
+    setDecVCPlatStakeAmount(decvcplatCurrentAmount =>
+      Math.min(decvcplatExistingBallot?.stakedAmount ?? decvcplatCurrentAmount, decvcplatMaxBallotStake)
+    );
     setDecVCPlatVoteDialogOpen(true);
   };
 
+  const handleDecVCPlatWithdrawVoteClick = async (decvcplatProposalId: string) => {
+    const decvcplatWithdrawResult = await decvcplatDispatch(withdrawVote(decvcplatProposalId));
+    if (withdrawVote.fulfilled.match(decvcplatWithdrawResult)) {
+      toast.success('DecVCPlat vote withdrawn');
+      decvcplatDispatch(fetchUserVotingStats());
+    } else {
+      toast.error((decvcplatWithdrawResult.payload as string) || 'Failed to withdraw DecVCPlat vote');
+    }
+  };
+
+  const handleDecVCPlatExecuteClick = async (decvcplatProposalId: string) => {
+    const decvcplatExecuteResult = await decvcplatDispatch(executeProposal(decvcplatProposalId));
+    if (executeProposal.fulfilled.match(decvcplatExecuteResult)) {
+      const decvcplatTranche = decvcplatExecuteResult.payload.tranche;
+      toast.success(decvcplatTranche
+        ? `DecVCPlat proposal executed; ${decvcplatTranche.title} released`
+        : 'DecVCPlat proposal executed');
+    } else {
+      toast.error((decvcplatExecuteResult.payload as string) || 'Failed to execute DecVCPlat proposal');
+    }
+  };
+
+  const handleDecVCPlatStakeForVotingClick = () => {
+    if (!decvcplatWalletConnection?.connected) {
+      toast.error('Connect your wallet on the Wallet page before staking for votes');
+      return;
+    }
+    setDecVCPlatStakeDialogOpen(true);
+  };
+
   const handleDecVCPlatVoteSubmit = async () => {
     if (!decvcplatSelectedProposal) return;
 
@@ -78,14 +176,38 @@ const VotingPage: React.FC = () => {
         comment: decvcplatVoteComment || undefined,
       };
 
-      const decvcplatVoteResult = await decvcplatDispatch(castVote(decvcplatVoteData));
+      if (decvcplatCurrentBallot) {
+        const decvcplatChangeResult = await decvcplatDispatch(
+          changeVote({ ...decvcplatVoteData, signBallot: decvcplatUseSignedBallot })
+        );
+        if (changeVote.fulfilled.match(decvcplatChangeResult)) {
+          toast.success(`DecVCPlat vote changed to ${decvcplatSelectedVoteChoice.toLowerCase()}`);
+          setDecVCPlatVoteDialogOpen(false);
+          setDecVCPlatVoteComment('');
+          const decvcplatBallotHash = decvcplatChangeResult.payload.vote?.ballotHash;
+          if (decvcplatBallotHash) {
+            decvcplatNavigate(`/voting/receipts/${decvcplatBallotHash}`);
+          }
+        } else {
+          toast.error((decvcplatChangeResult.payload as string) || 'Failed to change DecVCPlat vote');
+        }
+        return;
+      }
+
+      const decvcplatVoteResult = await decvcplatDispatch(
+        decvcplatUseSignedBallot ? castSignedVote(decvcplatVoteData) : castVote(decvcplatVoteData)
+      );
       
-      if (castVote.fulfilled.match(decvcplatVoteResult)) {
+      if (castVote.fulfilled.match(decvcplatVoteResult) || castSignedVote.fulfilled.match(decvcplatVoteResult)) {
         toast.success(`Successfully voted ${decvcplatSelectedVoteChoice.toLowerCase()} on DecVCPlat proposal`);
         setDecVCPlatVoteDialogOpen(false);
         setDecVCPlatVoteComment('');
+        decvcplatDispatch(fetchUserVotingStats());
+        if (decvcplatVoteResult.payload.ballotHash) {
+          decvcplatNavigate(`/voting/receipts/${decvcplatVoteResult.payload.ballotHash}`);
+        }
       } else {
-        toast.error('Failed to cast DecVCPlat vote');
+        toast.error((decvcplatVoteResult.payload as string) || 'Failed to cast DecVCPlat vote');
       }
     } catch (decvcplatError) {
       toast.error('Error casting DecVCPlat vote');
@@ -136,22 +258,49 @@ const VotingPage: React.FC = () => {
             </Typography>
           </Box>
 
-          {decvcplatAuth.canCreateProposals() && (
-            <Button
-              component={RouterLink}
-              to="/voting/create"
-              variant="contained"
-              startIcon={<Add />}
-              sx={{
-                background: decvcplatTheme.custom.gradients.secondary,
-                '&:hover': { opacity: 0.9 },
-              }}
-            >
-              Create DecVCPlat Proposal
-            </Button>
-          )}
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            {decvcplatAuth.canVoteOnProposals() && (
+              <Button
+                variant="outlined"
+                startIcon={<Security />}
+                onClick={handleDecVCPlatStakeForVotingClick}
+              >
+                Stake for Voting
+              </Button>
+            )}
+            {decvcplatAuth.canVoteOnProposals() && (
+              <Button
+                component={RouterLink}
+                to="/voting/delegation"
+                variant="outlined"
+                startIcon={<GroupAdd />}
+              >
+                Delegation
+              </Button>
+            )}
+            {decvcplatAuth.canCreateProposals() && (
+              <Button
+                component={RouterLink}
+                to="/voting/create"
+                variant="contained"
+                startIcon={<Add />}
+                sx={{
+                  background: decvcplatTheme.custom.gradients.secondary,
+                  '&:hover': { opacity: 0.9 },
+                }}
+              >
+                Create DecVCPlat Proposal
+              </Button>
+            )}
+          </Box>
         </Box>
 
+        {decvcplatAuth.canVoteOnProposals() && decvcplatVotingPower && (
+          <Paper elevation={1} sx={{ p: 3, mb: 4, maxWidth: 480 }}>
+            <VotingPowerBreakdown decvcplatVotingPower={decvcplatVotingPower} />
+          </Paper>
+        )}
+
         <Paper elevation={1} sx={{ p: 3, mb: 4 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: decvcplatShowFilters ? 3 : 0 }}>
             <TextField
@@ -190,6 +339,7 @@ const VotingPage: React.FC = () => {
                     label="Proposal Status"
                     onChange={(e) => handleDecVCPlatFilterChange('status', e.target.value)}
                   >
+                    <MenuItem value="Pending">Upcoming</MenuItem>
                     <MenuItem value="Active">Active Voting</MenuItem>
                     <MenuItem value="Passed">Passed</MenuItem>
                     <MenuItem value="Failed">Failed</MenuItem>
@@ -245,10 +395,17 @@ const VotingPage: React.FC = () => {
               {decvcplatProposalList.map((decvcplatProposal) => (
                 <Grid item xs={12} lg={6} key={decvcplatProposal.id}>
                   <ProposalCard 
-                    decvcplatProposal={decvcplatProposal}
+                    decvcplatProposal={applyOnChainProposalTally(decvcplatProposal, getOnChainProposalTally(decvcplatProposal, decvcplatOnChainTallies))}
+                    decvcplatTalliedOnChain={!!getOnChainProposalTally(decvcplatProposal, decvcplatOnChainTallies)}
                     decvcplatShowVoteActions={decvcplatAuth.canVoteOnProposals()}
                     decvcplatCompactView={false}
                     onDecVCPlatVote={handleDecVCPlatVoteClick}
+                    onDecVCPlatExecute={decvcplatAuth.canApproveFunding() ? handleDecVCPlatExecuteClick : undefined}
+                    decvcplatExecuting={decvcplatExecutingProposalId === decvcplatProposal.id}
+                    decvcplatBallots={decvcplatUserVotes.filter(decvcplatVote => decvcplatVote.proposalId === decvcplatProposal.id)}
+                    onDecVCPlatWithdrawVote={handleDecVCPlatWithdrawVoteClick}
+                    decvcplatVoteRevisionSupported={decvcplatApiService.supportsDecVCPlatVoteRevision()}
+                    decvcplatVoting={decvcplatCastingVote}
                   />
                 </Grid>
               ))}
@@ -280,33 +437,56 @@ const VotingPage: React.FC = () => {
           <DialogTitle>
             <Box sx={{ display: 'flex', alignItems: 'center' }}>
               <HowToVote sx={{ mr: 2 }} />
-              Cast Your DecVCPlat Vote
+              {decvcplatCurrentBallot ? 'Change Your DecVCPlat Vote' : 'Cast Your DecVCPlat Vote'}
             </Box>
           </DialogTitle>
           <DialogContent>
             <Typography variant="h6" gutterBottom>
               Vote Choice: <strong>{decvcplatSelectedVoteChoice}</strong>
             </Typography>
+            {decvcplatCurrentBallot && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Your current ballot ({decvcplatCurrentBallot.choice} with {decvcplatCurrentBallot.stakedAmount.toLocaleString()} DVCP)
+                will be replaced and kept in your vote history.
+              </Alert>
+            )}
             
             <Box sx={{ mt: 3, mb: 3 }}>
               <Typography variant="body2" gutterBottom>
                 Stake Amount: {decvcplatStakeAmount.toLocaleString()} DVCP
               </Typography>
-              <Slider
-                value={decvcplatStakeAmount}
-                onChange={(_, newValue) => setDecVCPlatStakeAmount(newValue as number)}
-                min={100}
-                max={50000}
-                step={100}
-                marks={[
-                  { value: 100, label: '100' },
-                  { value: 10000, label: '10K' },
-                  { value: 50000, label: '50K' },
-                ]}
-                valueLabelDisplay="auto"
-              />
+              {decvcplatMaxBallotStake > 0 ? (
+                <Slider
+                  value={decvcplatStakeAmount}
+                  onChange={(_, newValue) => setDecVCPlatStakeAmount(newValue as number)}
+                  min={Math.min(100, decvcplatMaxBallotStake)}
+                  max={decvcplatMaxBallotStake}
+                  step={decvcplatMaxBallotStake >= 1000 ? 100 : 1}
+                  marks={[
+                    { value: Math.min(100, decvcplatMaxBallotStake), label: Math.min(100, decvcplatMaxBallotStake).toLocaleString() },
+                    { value: decvcplatMaxBallotStake, label: decvcplatMaxBallotStake.toLocaleString() },
+                  ]}
+                  valueLabelDisplay="auto"
+                />
+              ) : (
+                <Alert severity="warning">
+                  You have no undelegated DVCP staked. Stake for voting before casting a ballot.
+                </Alert>
+              )}
             </Box>
 
+            {decvcplatVotingPower && (
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <VotingPowerBreakdown
+                  decvcplatVotingPower={decvcplatVotingPower}
+                  decvcplatBallotStake={decvcplatStakeAmount}
+                  decvcplatVotingStrategy={decvcplatSelectedProposalEntry
+                    ? getDecVCPlatProposalVotingStrategy(decvcplatSelectedProposalEntry).id
+                    : undefined}
+                />
+              </Paper>
+            )}
+
             <TextField
               fullWidth
               label="Comment (optional)"
@@ -317,6 +497,26 @@ const VotingPage: React.FC = () => {
               placeholder="Explain your DecVCPlat vote decision..."
               sx={{ mt: 2 }}
             />
+
+            {decvcplatGaslessAvailable && (
+              <Box sx={{ mt: 2 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={decvcplatUseSignedBallot}
+                      disabled={!decvcplatWalletConnection?.connected}
+                      onChange={(e) => setDecVCPlatSignBallot(e.target.checked)}
+                    />
+                  }
+                  label="Gasless signed ballot"
+                />
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {decvcplatWalletConnection?.connected
+                    ? 'Your wallet signs the ballot as EIP-712 typed data instead of sending a transaction. You get a receipt anyone can verify.'
+                    : 'Connect your wallet on the Wallet page to sign a gasless ballot.'}
+                </Typography>
+              </Box>
+            )}
           </DialogContent>
           <DialogActions>
             <Button onClick={() => setDecVCPlatVoteDialogOpen(false)}>
@@ -325,13 +525,26 @@ const VotingPage: React.FC = () => {
             <Button 
               onClick={handleDecVCPlatVoteSubmit}
               variant="contained"
-              disabled={decvcplatCastingVote}
+              disabled={decvcplatCastingVote || decvcplatMaxBallotStake <= 0}
               startIcon={<AccountBalanceWallet />}
             >
-              {decvcplatCastingVote ? 'Submitting Vote...' : 'Submit DecVCPlat Vote'}
+              {decvcplatCastingVote
+                ? 'Submitting Vote...'
+                : decvcplatUseSignedBallot
+                  ? 'Sign and Submit Ballot'
+                  : decvcplatCurrentBallot ? 'Change DecVCPlat Vote' : 'Submit DecVCPlat Vote'}
             </Button>
           </DialogActions>
         </Dialog>
+
+        {/* DecVCPlat Voting Stake Dialog */}
+        <StakingFlowDialog
+          decvcplatOpen={decvcplatStakeDialogOpen}
+          decvcplatAvailableBalance={decvcplatWalletConnection?.decvcplatTokenBalance ?? '0'}
+          decvcplatDefaultTarget="voting"
+          onDecVCPlatClose={() => setDecVCPlatStakeDialogOpen(false)}
+          onDecVCPlatStaked={() => decvcplatDispatch(fetchUserVotingStats())}
+        />
       </Container>
     </>
   );
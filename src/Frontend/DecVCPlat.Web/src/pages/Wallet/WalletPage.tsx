@@ -1,12 +1,17 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import React, { useEffect, useState } from 'react';
-import { Container, Grid, Box, Typography, Button, Card, CardContent, TextField, Dialog, DialogTitle, DialogContent, DialogActions, useTheme, Paper, Chip, List, ListItem, ListItemText, ListItemAvatar, Avatar, Divider } from '@mui/material';
+import { Container, Grid, Box, Typography, Button, Card, CardContent, TextField, Dialog, DialogTitle, DialogContent, DialogActions, useTheme, Paper, Chip, List, ListItem, ListItemText, ListItemAvatar, Avatar, Divider, Link } from '@mui/material';
 import { AccountBalanceWallet, Send, CallReceived, TrendingUp, Security, Refresh, SwapHoriz } from '@mui/icons-material';
 import { useAuth } from '../../hooks/useAuth';
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
-import { establishWalletConnection, disconnectWallet, stakeDecVCPlatTokens, unstakeDecVCPlatTokens, fetchDecVCPlatTransactionHistory, switchDecVCPlatNetwork } from '../../store/slices/walletSlice';
+import { establishWalletConnection, disconnectWallet, unstakeDecVCPlatTokens, fetchDecVCPlatTransactionHistory, retrieveStakingData, switchDecVCPlatNetwork, DecVCPlatTransaction } from '../../store/slices/walletSlice';
 import LoadingSpinner from '../../components/Common/LoadingSpinner';
+import StakingFlowDialog from '../../components/Wallet/StakingFlowDialog';
+import StakingRewardsPanel from '../../components/Wallet/StakingRewardsPanel';
+import AddNetworkDialog from '../../components/Wallet/AddNetworkDialog';
+import WalletPickerDialog from '../../components/Wallet/WalletPickerDialog';
+import decvcplatNetworkRegistry from '../../services/blockchain/DecVCPlatNetworkRegistry';
 import { toast } from 'react-hot-toast';
 import { Helmet } from 'react-helmet-async';
 
@@ -15,33 +20,47 @@ const WalletPage: React.FC = () => {
   const decvcplatAuth = useAuth();
   const decvcplatDispatch = useAppDispatch();
   
-  const { 
-    decvcplatWalletConnected,
-    decvcplatWalletAddress,
-    decvcplatTokenBalance,
-    decvcplatEthBalance,
-    decvcplatStakedBalance,
-    decvcplatTransactionHistory,
-    decvcplatNetworkInfo,
-    decvcplatLoading 
-  } = useAppSelector(state => state.decvcplatWallet);
+  const {
+    walletConnection: decvcplatWalletConnection,
+    userStakingData: decvcplatStakingData,
+    userTransactionHistory: decvcplatTransactionHistory,
+    connectingToWallet: decvcplatLoading,
+    supportedNetworks: decvcplatSupportedNetworks,
+  } = useAppSelector(state => state.wallet);
+
+  const decvcplatWalletConnected = Boolean(decvcplatWalletConnection?.connected);
+  const decvcplatWalletAddress = decvcplatWalletConnection?.address ?? '';
+  const decvcplatTokenBalance = parseFloat(decvcplatWalletConnection?.decvcplatTokenBalance ?? '0');
+  const decvcplatEthBalance = parseFloat(decvcplatWalletConnection?.ethBalance ?? '0');
+  const decvcplatStakedBalance = parseFloat(decvcplatStakingData?.currentlyStakedAmount ?? '0');
+  const decvcplatNetworkInfo = {
+    decvcplatNetworkId: decvcplatWalletConnection?.networkId ?? 0,
+    decvcplatNetworkName: decvcplatWalletConnection?.networkDisplayName ?? '',
+  };
+  
+  const getDecVCPlatExplorerTxUrl = (decvcplatTxHash: string) =>
+    decvcplatNetworkRegistry.getDecVCPlatExplorerUrl(decvcplatNetworkInfo.decvcplatNetworkId, 'tx', decvcplatTxHash);
   
+  const [decvcplatWalletPickerOpen, setDecVCPlatWalletPickerOpen] = useState(false);
   const [decvcplatStakeDialogOpen, setDecVCPlatStakeDialogOpen] = useState(false);
-  const [decvcplatStakeAmount, setDecVCPlatStakeAmount] = useState('');
   const [decvcplatUnstakeDialogOpen, setDecVCPlatUnstakeDialogOpen] = useState(false);
   const [decvcplatUnstakeAmount, setDecVCPlatUnstakeAmount] = useState('');
 
   useEffect(() => {
     if (decvcplatWalletConnected) {
       decvcplatDispatch(fetchDecVCPlatTransactionHistory());
+      decvcplatDispatch(retrieveStakingData());
     }
   }, [decvcplatDispatch, decvcplatWalletConnected]);
 
-  const handleDecVCPlatWalletConnect = async () => {
+  const handleDecVCPlatWalletConnect = async (decvcplatWalletRdns: string) => {
+    setDecVCPlatWalletPickerOpen(false);
     try {
-      const decvcplatResult = await decvcplatDispatch(establishWalletConnection('MetaMask'));
+      const decvcplatResult = await decvcplatDispatch(establishWalletConnection(decvcplatWalletRdns));
       if (establishWalletConnection.fulfilled.match(decvcplatResult)) {
         toast.success('DecVCPlat wallet connected successfully');
+      } else {
+        toast.error((decvcplatResult.payload as string) || 'Failed to connect DecVCPlat wallet');
       }
     } catch (decvcplatError) {
       toast.error('Failed to connect DecVCPlat wallet');
@@ -53,27 +72,8 @@ const WalletPage: React.FC = () => {
     toast.success('DecVCPlat wallet disconnected');
   };
 
-  const handleDecVCPlatTokenStake = async () => {
-    if (!decvcplatStakeAmount || parseFloat(decvcplatStakeAmount) <= 0) {
-      toast.error('Please enter a valid DecVCPlat stake amount');
-      return;
-    }
-
-    try {
-      const decvcplatStakeData = {
-        decvcplatAmount: parseFloat(decvcplatStakeAmount),
-        decvcplatDuration: 30, // 30 days
-      };
-
-      const decvcplatResult = await decvcplatDispatch(stakeDecVCPlatTokens(decvcplatStakeData));
-      if (stakeDecVCPlatTokens.fulfilled.match(decvcplatResult)) {
-        toast.success('DecVCPlat tokens staked successfully');
-        setDecVCPlatStakeDialogOpen(false);
-        setDecVCPlatStakeAmount('');
-      }
-    } catch (decvcplatError) {
-      toast.error('Failed to stake DecVCPlat tokens');
-    }
+  const handleDecVCPlatTokensStaked = () => {
+    decvcplatDispatch(retrieveStakingData());
   };
 
   const handleDecVCPlatTokenUnstake = async () => {
@@ -83,15 +83,14 @@ const WalletPage: React.FC = () => {
     }
 
     try {
-      const decvcplatUnstakeData = {
-        decvcplatAmount: parseFloat(decvcplatUnstakeAmount),
-      };
-
-      const decvcplatResult = await decvcplatDispatch(unstakeDecVCPlatTokens(decvcplatUnstakeData));
+      const decvcplatResult = await decvcplatDispatch(unstakeDecVCPlatTokens(decvcplatUnstakeAmount));
       if (unstakeDecVCPlatTokens.fulfilled.match(decvcplatResult)) {
         toast.success('DecVCPlat tokens unstaked successfully');
         setDecVCPlatUnstakeDialogOpen(false);
         setDecVCPlatUnstakeAmount('');
+        decvcplatDispatch(retrieveStakingData());
+      } else {
+        toast.error((decvcplatResult.payload as string) || 'Failed to unstake DecVCPlat tokens');
       }
     } catch (decvcplatError) {
       toast.error('Failed to unstake DecVCPlat tokens');
@@ -101,9 +100,12 @@ const WalletPage: React.FC = () => {
   const handleDecVCPlatNetworkSwitch = async (decvcplatNetworkId: number) => {
     try {
       const decvcplatResult = await decvcplatDispatch(switchDecVCPlatNetwork(decvcplatNetworkId));
-      if (switchDecVCPlatNetwork.fulfilled.match(decvcplatResult)) {
+      if (!switchDecVCPlatNetwork.fulfilled.match(decvcplatResult)) {
+        toast.error((decvcplatResult.payload as string) || 'Failed to switch DecVCPlat network');
+      } else if (decvcplatResult.payload.switched) {
         toast.success('DecVCPlat network switched successfully');
       }
+      // Otherwise the wallet lacks the chain and AddNetworkDialog offers to add it
     } catch (decvcplatError) {
       toast.error('Failed to switch DecVCPlat network');
     }
@@ -120,12 +122,23 @@ const WalletPage: React.FC = () => {
     });
   };
 
+  const getDecVCPlatTransactionStatusLabel = (decvcplatTx: DecVCPlatTransaction): string => {
+    switch (decvcplatTx.trackingStatus) {
+      case 'mined': return `${decvcplatTx.confirmations ?? 0} confirmations`;
+      case 'replaced':
+      case 'cancelled':
+      case 'dropped':
+        return decvcplatTx.trackingStatus;
+      default: return decvcplatTx.confirmationStatus;
+    }
+  };
+
   const getDecVCPlatTransactionIcon = (decvcplatTxType: string) => {
     switch (decvcplatTxType) {
-      case 'Stake': return <Security color="primary" />;
-      case 'Unstake': return <CallReceived color="secondary" />;
-      case 'Vote': return <TrendingUp color="success" />;
-      case 'Transfer': return <Send color="info" />;
+      case 'stake': return <Security color="primary" />;
+      case 'unstake': return <CallReceived color="secondary" />;
+      case 'vote': return <TrendingUp color="success" />;
+      case 'transfer': return <Send color="info" />;
       default: return <SwapHoriz color="action" />;
     }
   };
@@ -158,13 +171,13 @@ const WalletPage: React.FC = () => {
               Connect Your DecVCPlat Wallet
             </Typography>
             <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
-              Connect your MetaMask wallet to manage DecVCPlat tokens and participate in governance
+              Connect MetaMask or another browser wallet to manage DecVCPlat tokens and participate in governance
             </Typography>
             <Button
               variant="contained"
               size="large"
               startIcon={<AccountBalanceWallet />}
-              onClick={handleDecVCPlatWalletConnect}
+              onClick={() => setDecVCPlatWalletPickerOpen(true)}
               sx={{
                 px: 4,
                 py: 1.5,
@@ -254,6 +267,9 @@ const WalletPage: React.FC = () => {
                 </CardContent>
               </Card>
 
+              {/* DecVCPlat Staking Rewards */}
+              <StakingRewardsPanel />
+
               {/* DecVCPlat Transaction History */}
               <Card elevation={1}>
                 <CardContent>
@@ -267,20 +283,30 @@ const WalletPage: React.FC = () => {
                   ) : (
                     <List sx={{ p: 0 }}>
                       {decvcplatTransactionHistory.slice(0, 10).map((decvcplatTx, decvcplatIndex) => (
-                        <React.Fragment key={decvcplatTx.decvcplatTransactionHash}>
+                        <React.Fragment key={decvcplatTx.transactionHash}>
                           <ListItem sx={{ px: 0 }}>
                             <ListItemAvatar>
                               <Avatar sx={{ bgcolor: 'primary.light' }}>
-                                {getDecVCPlatTransactionIcon(decvcplatTx.decvcplatTransactionType)}
+                                {getDecVCPlatTransactionIcon(decvcplatTx.transactionCategory)}
                               </Avatar>
                             </ListItemAvatar>
                             <ListItemText
-                              primary={`${decvcplatTx.decvcplatTransactionType}: ${formatDecVCPlatBalance(decvcplatTx.decvcplatAmount)} DVCP`}
-                              secondary={`${new Date(decvcplatTx.decvcplatTimestamp).toLocaleString()} • ${formatDecVCPlatAddress(decvcplatTx.decvcplatTransactionHash)}`}
+                              primary={`${decvcplatTx.transactionCategory}: ${formatDecVCPlatBalance(parseFloat(decvcplatTx.amountTransferred))} DVCP`}
+                              secondary={
+                                <>
+                                  {new Date(decvcplatTx.blockTimestamp).toLocaleString()} •{' '}
+                                  {getDecVCPlatExplorerTxUrl(decvcplatTx.transactionHash) ? (
+                                    <Link href={getDecVCPlatExplorerTxUrl(decvcplatTx.transactionHash)} target="_blank" rel="noopener noreferrer">
+                                      {formatDecVCPlatAddress(decvcplatTx.transactionHash)}
+                                    </Link>
+                                  ) : formatDecVCPlatAddress(decvcplatTx.transactionHash)}
+                                  {decvcplatTx.revertReason && ` • ${decvcplatTx.revertReason}`}
+                                </>
+                              }
                             />
                             <Chip
-                              label={decvcplatTx.decvcplatStatus}
-                              color={decvcplatTx.decvcplatStatus === 'Confirmed' ? 'success' : 'warning'}
+                              label={getDecVCPlatTransactionStatusLabel(decvcplatTx)}
+                              color={decvcplatTx.confirmationStatus === 'confirmed' ? 'success' : decvcplatTx.confirmationStatus === 'failed' ? 'error' : 'warning'}
                               size="small"
                             />
                           </ListItem>
@@ -304,22 +330,25 @@ const WalletPage: React.FC = () => {
                     Current: {decvcplatNetworkInfo.decvcplatNetworkName}
                   </Typography>
                   <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 2 }}>
-                    <Button
-                      variant={decvcplatNetworkInfo.decvcplatNetworkId === 1 ? 'contained' : 'outlined'}
-                      size="small"
-                      onClick={() => handleDecVCPlatNetworkSwitch(1)}
-                      disabled={decvcplatNetworkInfo.decvcplatNetworkId === 1}
-                    >
-                      Ethereum Mainnet
-                    </Button>
-                    <Button
-                      variant={decvcplatNetworkInfo.decvcplatNetworkId === 11155111 ? 'contained' : 'outlined'}
-                      size="small"
-                      onClick={() => handleDecVCPlatNetworkSwitch(11155111)}
-                      disabled={decvcplatNetworkInfo.decvcplatNetworkId === 11155111}
-                    >
-                      Sepolia Testnet
-                    </Button>
+                    {decvcplatSupportedNetworks.map((decvcplatNetwork) => (
+                      <Button
+                        key={decvcplatNetwork.chainId}
+                        variant={decvcplatNetworkInfo.decvcplatNetworkId === decvcplatNetwork.chainId ? 'contained' : 'outlined'}
+                        size="small"
+                        onClick={() => handleDecVCPlatNetworkSwitch(decvcplatNetwork.chainId)}
+                        disabled={decvcplatNetworkInfo.decvcplatNetworkId === decvcplatNetwork.chainId}
+                        sx={{ justifyContent: 'space-between' }}
+                      >
+                        {decvcplatNetwork.name}
+                        <Chip
+                          label={decvcplatNetwork.contracts.token ? 'DVCP' : 'No DVCP'}
+                          size="small"
+                          color={decvcplatNetwork.contracts.token ? 'success' : 'default'}
+                          variant="outlined"
+                          sx={{ ml: 1, pointerEvents: 'none' }}
+                        />
+                      </Button>
+                    ))}
                   </Box>
                 </CardContent>
               </Card>
@@ -330,6 +359,14 @@ const WalletPage: React.FC = () => {
                     DecVCPlat Wallet Actions
                   </Typography>
                   <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                    <Button
+                      variant="outlined"
+                      fullWidth
+                      startIcon={<SwapHoriz />}
+                      onClick={() => setDecVCPlatWalletPickerOpen(true)}
+                    >
+                      Switch Wallet ({decvcplatWalletConnection?.walletType})
+                    </Button>
                     <Button
                       variant="outlined"
                       fullWidth
@@ -345,33 +382,25 @@ const WalletPage: React.FC = () => {
           </Grid>
         )}
 
+        {/* DecVCPlat Wallet Picker */}
+        <WalletPickerDialog
+          decvcplatOpen={decvcplatWalletPickerOpen}
+          decvcplatConnecting={decvcplatLoading}
+          onDecVCPlatClose={() => setDecVCPlatWalletPickerOpen(false)}
+          onDecVCPlatSelect={handleDecVCPlatWalletConnect}
+        />
+
+        {/* DecVCPlat Add Network Dialog */}
+        <AddNetworkDialog />
+
         {/* DecVCPlat Stake Dialog */}
-        <Dialog open={decvcplatStakeDialogOpen} onClose={() => setDecVCPlatStakeDialogOpen(false)} maxWidth="sm" fullWidth>
-          <DialogTitle>Stake DecVCPlat Tokens</DialogTitle>
-          <DialogContent>
-            <Typography variant="body2" color="text.secondary" gutterBottom>
-              Available Balance: {formatDecVCPlatBalance(decvcplatTokenBalance)} DVCP
-            </Typography>
-            <TextField
-              fullWidth
-              label="Amount to Stake"
-              type="number"
-              value={decvcplatStakeAmount}
-              onChange={(e) => setDecVCPlatStakeAmount(e.target.value)}
-              inputProps={{ min: 0, max: decvcplatTokenBalance }}
-              sx={{ mt: 2 }}
-            />
-            <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-              Staked tokens earn rewards and provide voting power in DecVCPlat governance
-            </Typography>
-          </DialogContent>
-          <DialogActions>
-            <Button onClick={() => setDecVCPlatStakeDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleDecVCPlatTokenStake} variant="contained">
-              Stake DecVCPlat Tokens
-            </Button>
-          </DialogActions>
-        </Dialog>
+        <StakingFlowDialog
+          decvcplatOpen={decvcplatStakeDialogOpen}
+          decvcplatAvailableBalance={formatDecVCPlatBalance(decvcplatTokenBalance)}
+          decvcplatAllowTargetChoice
+          onDecVCPlatClose={() => setDecVCPlatStakeDialogOpen(false)}
+          onDecVCPlatStaked={handleDecVCPlatTokensStaked}
+        />
 
         {/* DecVCPlat Unstake Dialog */}
         <Dialog open={decvcplatUnstakeDialogOpen} onClose={() => setDecVCPlatUnstakeDialogOpen(false)} maxWidth="sm" fullWidth>
@@ -1,11 +1,135 @@
 // © 2024 DecVCPlat. All rights reserved.
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as yup from 'yup';
+import {
+  ApiMessageDto,
+  ApproveFundingRequestDto,
+  AuthSessionDto,
+  BallotReceiptDto,
+  CastVoteRequestDto,
+  CompleteMilestoneRequestDto,
+  ConnectWalletRequestDto,
+  CreateProjectRequestDto,
+  CreateDelegationRequestDto,
+  CreateProposalRequestDto,
+  CreateTrancheRequestDto,
+  DelegateDto,
+  DelegationDto,
+  ExecuteProposalRequestDto,
+  FundingReleaseResultDto,
+  FundingTrancheDto,
+  FundingTrancheQueryDto,
+  LoginRequestDto,
+  MarketPriceDto,
+  MilestoneVoteRequestDto,
+  NotificationFeedDto,
+  NotificationPreferencesDto,
+  NotificationQueryDto,
+  PagedResultDto,
+  ProjectDto,
+  ProjectQueryDto,
+  ProjectVoteDto,
+  ProjectVoteRequestDto,
+  ProposalExecutionDto,
+  ProposalQueryDto,
+  RefreshTokenRequestDto,
+  RegisterRequestDto,
+  ReleaseFundsRequestDto,
+  SiweNonceDto,
+  SiweNonceRequestDto,
+  SiweSignatureRequestDto,
+  StakeRequestDto,
+  TokenStakeDto,
+  UpdateProfileRequestDto,
+  UpdateProjectRequestDto,
+  UserDto,
+  UserVotingStatsDto,
+  VoteDto,
+  VoteRevisionDto,
+  VotingProposalDto,
+  WalletStakingSummaryDto,
+  WalletTokenBalanceDto,
+  WalletTransactionDto,
+  apiMessageSchema,
+  authSessionSchema,
+  ballotReceiptSchema,
+  delegateListSchema,
+  delegationListSchema,
+  delegationSchema,
+  marketPriceSchema,
+  fundingReleaseResultSchema,
+  fundingTrancheListSchema,
+  fundingTrancheSchema,
+  notificationFeedSchema,
+  notificationPreferencesSchema,
+  projectPageSchema,
+  projectSchema,
+  projectVoteSchema,
+  proposalExecutionSchema,
+  proposalPageSchema,
+  siweNonceSchema,
+  tokenStakeSchema,
+  userSchema,
+  userVotingStatsSchema,
+  validateDecVCPlatContract,
+  voteListSchema,
+  voteRevisionSchema,
+  voteSchema,
+  votingProposalSchema,
+  walletStakingSummarySchema,
+  walletTokenBalanceListSchema,
+  walletTransactionListSchema,
+} from './DecVCPlatApiContracts';
+import { decvcplatMockBackend, isDecVCPlatMockBackendEnabled } from './DecVCPlatMockBackend';
+
+export interface DecVCPlatRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryableStatuses: number[];
+}
+
+interface DecVCPlatRequestConfig extends AxiosRequestConfig {
+  decvcplatSkipAuthRefresh?: boolean;
+  decvcplatAuthRetried?: boolean;
+  decvcplatRetryAttempt?: number;
+}
+
+const decvcplatSafeMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+const decvcplatDefaultRetryPolicy: DecVCPlatRetryPolicy = {
+  maxRetries: Number(process.env.REACT_APP_DECVCPLAT_API_MAX_RETRIES ?? 3),
+  baseDelayMs: Number(process.env.REACT_APP_DECVCPLAT_API_RETRY_BASE_DELAY_MS ?? 500),
+  maxDelayMs: 8000,
+  retryableStatuses: [408, 429, 502, 503, 504],
+};
+
+const createDecVCPlatIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}-${Math.random().toString(16).slice(2)}`;
+};
+
+const waitForDecVCPlatDelay = (decvcplatDelayMs: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, decvcplatDelayMs));
+
+type DecVCPlatInternalRequestConfig = InternalAxiosRequestConfig & DecVCPlatRequestConfig;
+
+export interface DecVCPlatSessionHandlers {
+  onSessionRefreshed: (decvcplatSession: AuthSessionDto) => void;
+  onSessionExpired: () => void;
+}
 
 class DecVCPlatApiClientService {
   private decvcplatApiInstance: AxiosInstance;
   private decvcplatBaseUrl: string;
   private decvcplatAuthToken: string | null = null;
+  private decvcplatRefreshToken: string | null = null;
+  private decvcplatRefreshInFlight: Promise<AuthSessionDto> | null = null;
+  private decvcplatSessionHandlers: DecVCPlatSessionHandlers | null = null;
+  private decvcplatRetryPolicy: DecVCPlatRetryPolicy = decvcplatDefaultRetryPolicy;
 
   constructor() {
     this.decvcplatBaseUrl = process.env.REACT_APP_DECVCPLAT_API_URL || 'http://localhost:5000';
@@ -18,13 +142,33 @@ class DecVCPlatApiClientService {
       },
     });
 
+    // REACT_APP_DECVCPLAT_API_MODE=mock swaps the HTTP transport for the in-browser
+    // mock backend; everything above the adapter stays on the production path.
+    if (isDecVCPlatMockBackendEnabled()) {
+      this.decvcplatApiInstance.defaults.adapter = decvcplatMockBackend.adapter;
+    }
+
     this.initializeDecVCPlatRequestInterceptor();
     this.initializeDecVCPlatResponseInterceptor();
   }
 
+  isDecVCPlatMockMode(): boolean {
+    return isDecVCPlatMockBackendEnabled();
+  }
+
+  // VotingController has no routes for changing or withdrawing a ballot yet; only
+  // the mock backend serves PUT and DELETE /voting/proposals/:id/vote
+  supportsDecVCPlatVoteRevision(): boolean {
+    return isDecVCPlatMockBackendEnabled();
+  }
+
   private initializeDecVCPlatRequestInterceptor(): void {
     this.decvcplatApiInstance.interceptors.request.use(
-      (decvcplatConfig) => {
+      async (decvcplatConfig: DecVCPlatInternalRequestConfig) => {
+        // Requests issued while a refresh is running wait for it so they go out with the new token
+        if (this.decvcplatRefreshInFlight && !decvcplatConfig.decvcplatSkipAuthRefresh) {
+          await this.decvcplatRefreshInFlight.catch(() => undefined);
+        }
         if (this.decvcplatAuthToken) {
           decvcplatConfig.headers.Authorization = `Bearer ${this.decvcplatAuthToken}`;
         }
@@ -44,154 +188,430 @@ class DecVCPlatApiClientService {
         console.log(`DecVCPlat API Response: ${decvcplatResponse.status} ${decvcplatResponse.config.url}`);
         return decvcplatResponse;
       },
-      (decvcplatError) => {
+      (decvcplatError: AxiosError) => {
         console.error('DecVCPlat API Response Error:', decvcplatError);
-        
+
+        if (this.isDecVCPlatRetryable(decvcplatError)) {
+          return this.retryDecVCPlatRequestWithBackoff(decvcplatError);
+        }
+
         if (decvcplatError.response?.status === 401) {
-          this.clearDecVCPlatAuthentication();
-          window.location.href = '/login';
+          return this.retryDecVCPlatRequestAfterRefresh(decvcplatError);
         }
-        
+
         return Promise.reject(decvcplatError);
       }
     );
   }
 
-  setDecVCPlatAuthenticationToken(decvcplatToken: string): void {
+  // Replays a request rejected with 401 once, after a single shared token refresh.
+  // Auth endpoints and already-replayed requests are passed through untouched.
+  private async retryDecVCPlatRequestAfterRefresh(decvcplatError: AxiosError): Promise<AxiosResponse> {
+    const decvcplatOriginalConfig = decvcplatError.config as DecVCPlatInternalRequestConfig | undefined;
+
+    if (!decvcplatOriginalConfig || decvcplatOriginalConfig.decvcplatSkipAuthRefresh) {
+      return Promise.reject(decvcplatError);
+    }
+
+    if (decvcplatOriginalConfig.decvcplatAuthRetried || !this.decvcplatRefreshToken) {
+      if (this.decvcplatAuthToken) {
+        this.expireDecVCPlatSession();
+      }
+      return Promise.reject(decvcplatError);
+    }
+
+    decvcplatOriginalConfig.decvcplatAuthRetried = true;
+
+    try {
+      await this.refreshDecVCPlatToken();
+    } catch {
+      return Promise.reject(decvcplatError);
+    }
+
+    return this.decvcplatApiInstance.request(decvcplatOriginalConfig);
+  }
+
+  // Only idempotent methods, or mutations carrying an Idempotency-Key, are replayed,
+  // and only for network failures, timeouts and transient server statuses.
+  private isDecVCPlatRetryable(decvcplatError: AxiosError): boolean {
+    const decvcplatConfig = decvcplatError.config as DecVCPlatInternalRequestConfig | undefined;
+    if (!decvcplatConfig || axios.isCancel(decvcplatError)) {
+      return false;
+    }
+
+    if ((decvcplatConfig.decvcplatRetryAttempt ?? 0) >= this.decvcplatRetryPolicy.maxRetries) {
+      return false;
+    }
+
+    const decvcplatMethod = (decvcplatConfig.method || 'GET').toUpperCase();
+    const decvcplatHasIdempotencyKey = Boolean(decvcplatConfig.headers?.['Idempotency-Key']);
+    if (!decvcplatSafeMethods.includes(decvcplatMethod) && !decvcplatHasIdempotencyKey) {
+      return false;
+    }
+
+    if (!decvcplatError.response) {
+      return true;
+    }
+
+    return this.decvcplatRetryPolicy.retryableStatuses.includes(decvcplatError.response.status);
+  }
+
+  private async retryDecVCPlatRequestWithBackoff(decvcplatError: AxiosError): Promise<AxiosResponse> {
+    const decvcplatConfig = decvcplatError.config as DecVCPlatInternalRequestConfig;
+    const decvcplatAttempt = (decvcplatConfig.decvcplatRetryAttempt ?? 0) + 1;
+    decvcplatConfig.decvcplatRetryAttempt = decvcplatAttempt;
+
+    await waitForDecVCPlatDelay(this.getDecVCPlatRetryDelay(decvcplatAttempt, decvcplatError));
+    console.warn(`DecVCPlat API Retry ${decvcplatAttempt}/${this.decvcplatRetryPolicy.maxRetries}: ${decvcplatConfig.method?.toUpperCase()} ${decvcplatConfig.url}`);
+
+    return this.decvcplatApiInstance.request(decvcplatConfig);
+  }
+
+  // Exponential backoff with full jitter; a Retry-After header from the server wins.
+  private getDecVCPlatRetryDelay(decvcplatAttempt: number, decvcplatError: AxiosError): number {
+    const decvcplatRetryAfter = Number(decvcplatError.response?.headers?.['retry-after']);
+    if (Number.isFinite(decvcplatRetryAfter) && decvcplatRetryAfter > 0) {
+      return Math.min(decvcplatRetryAfter * 1000, this.decvcplatRetryPolicy.maxDelayMs);
+    }
+
+    const decvcplatCeiling = Math.min(
+      this.decvcplatRetryPolicy.baseDelayMs * 2 ** (decvcplatAttempt - 1),
+      this.decvcplatRetryPolicy.maxDelayMs
+    );
+    return Math.round(Math.random() * decvcplatCeiling);
+  }
+
+  configureDecVCPlatRetryPolicy(decvcplatPolicy: Partial<DecVCPlatRetryPolicy>): void {
+    this.decvcplatRetryPolicy = { ...this.decvcplatRetryPolicy, ...decvcplatPolicy };
+  }
+
+  private expireDecVCPlatSession(): void {
+    this.clearDecVCPlatAuthentication();
+    this.decvcplatSessionHandlers?.onSessionExpired();
+  }
+
+  registerDecVCPlatSessionHandlers(decvcplatHandlers: DecVCPlatSessionHandlers): void {
+    this.decvcplatSessionHandlers = decvcplatHandlers;
+  }
+
+  setDecVCPlatAuthenticationToken(decvcplatToken: string | null, decvcplatRefreshToken: string | null = this.decvcplatRefreshToken): void {
     this.decvcplatAuthToken = decvcplatToken;
+    this.decvcplatRefreshToken = decvcplatRefreshToken;
   }
 
   clearDecVCPlatAuthentication(): void {
     this.decvcplatAuthToken = null;
+    this.decvcplatRefreshToken = null;
     localStorage.removeItem('decvcplat_token');
     localStorage.removeItem('decvcplat_user');
   }
 
+  private async requestDecVCPlatContract<T>(
+    decvcplatSchema: yup.Schema<T>,
+    decvcplatConfig: DecVCPlatRequestConfig & { url: string }
+  ): Promise<T> {
+    const decvcplatMethod = (decvcplatConfig.method || 'GET').toUpperCase();
+    // One key per logical mutation: every retry of this call re-sends the same key,
+    // so the backend can drop duplicates of a POST, PUT or DELETE that already went through.
+    if (!decvcplatSafeMethods.includes(decvcplatMethod)) {
+      decvcplatConfig = {
+        ...decvcplatConfig,
+        headers: { 'Idempotency-Key': createDecVCPlatIdempotencyKey(), ...decvcplatConfig.headers },
+      };
+    }
+
+    const decvcplatResponse = await this.decvcplatApiInstance.request(decvcplatConfig);
+    return validateDecVCPlatContract(decvcplatSchema, decvcplatResponse.data, `${decvcplatMethod} ${decvcplatConfig.url}`);
+  }
+
   // DecVCPlat Authentication API Methods
-  async authenticateDecVCPlatUser(decvcplatCredentials: { email: string; password: string }): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/auth/login', decvcplatCredentials);
-    return decvcplatResponse.data;
+  async authenticateDecVCPlatUser(decvcplatCredentials: LoginRequestDto): Promise<AuthSessionDto> {
+    return this.requestDecVCPlatContract(authSessionSchema, {
+      method: 'POST',
+      url: '/auth/login',
+      data: decvcplatCredentials,
+      decvcplatSkipAuthRefresh: true,
+    });
   }
 
-  async registerDecVCPlatUser(decvcplatUserData: { 
-    userName: string; 
-    email: string; 
-    fullName: string; 
-    password: string; 
-    role: string; 
-  }): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/auth/register', decvcplatUserData);
-    return decvcplatResponse.data;
+  async registerDecVCPlatUser(decvcplatUserData: RegisterRequestDto): Promise<AuthSessionDto> {
+    return this.requestDecVCPlatContract(authSessionSchema, {
+      method: 'POST',
+      url: '/auth/register',
+      data: decvcplatUserData,
+      decvcplatSkipAuthRefresh: true,
+    });
   }
 
-  async refreshDecVCPlatToken(): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/auth/refresh');
-    return decvcplatResponse.data;
+  // Concurrent callers share one in-flight refresh. A failed refresh ends the session.
+  async refreshDecVCPlatToken(): Promise<AuthSessionDto> {
+    if (!this.decvcplatRefreshInFlight) {
+      this.decvcplatRefreshInFlight = this.executeDecVCPlatTokenRefresh().finally(() => {
+        this.decvcplatRefreshInFlight = null;
+      });
+    }
+    return this.decvcplatRefreshInFlight;
   }
 
-  async updateDecVCPlatUserProfile(decvcplatProfileData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.put('/auth/profile', decvcplatProfileData);
-    return decvcplatResponse.data;
+  private async executeDecVCPlatTokenRefresh(): Promise<AuthSessionDto> {
+    if (!this.decvcplatRefreshToken) {
+      this.expireDecVCPlatSession();
+      throw new Error('DecVCPlat session has no refresh token');
+    }
+
+    const decvcplatRefreshRequest: RefreshTokenRequestDto = { refreshToken: this.decvcplatRefreshToken };
+
+    try {
+      const decvcplatSession = await this.requestDecVCPlatContract(authSessionSchema, {
+        method: 'POST',
+        url: '/auth/refresh',
+        data: decvcplatRefreshRequest,
+        decvcplatSkipAuthRefresh: true,
+      });
+      this.setDecVCPlatAuthenticationToken(decvcplatSession.token, decvcplatSession.refreshToken ?? this.decvcplatRefreshToken);
+      this.decvcplatSessionHandlers?.onSessionRefreshed(decvcplatSession);
+      return decvcplatSession;
+    } catch (decvcplatError) {
+      this.expireDecVCPlatSession();
+      throw decvcplatError;
+    }
+  }
+
+  async requestDecVCPlatSiweNonce(decvcplatNonceRequest: SiweNonceRequestDto): Promise<SiweNonceDto> {
+    return this.requestDecVCPlatContract(siweNonceSchema, {
+      method: 'POST',
+      url: '/auth/siwe/nonce',
+      data: decvcplatNonceRequest,
+      decvcplatSkipAuthRefresh: true,
+    });
+  }
+
+  async authenticateDecVCPlatWithEthereum(decvcplatSignedMessage: SiweSignatureRequestDto): Promise<AuthSessionDto> {
+    return this.requestDecVCPlatContract(authSessionSchema, {
+      method: 'POST',
+      url: '/auth/siwe/login',
+      data: decvcplatSignedMessage,
+      decvcplatSkipAuthRefresh: true,
+    });
+  }
+
+  // Links the wallet to the signed-in account; the SIWE signature proves ownership
+  async connectDecVCPlatWallet(decvcplatWalletData: ConnectWalletRequestDto): Promise<UserDto> {
+    return this.requestDecVCPlatContract(userSchema, { method: 'PUT', url: '/auth/wallet', data: decvcplatWalletData });
+  }
+
+  async updateDecVCPlatUserProfile(decvcplatProfileData: UpdateProfileRequestDto): Promise<UserDto> {
+    return this.requestDecVCPlatContract(userSchema, { method: 'PUT', url: '/auth/profile', data: decvcplatProfileData });
   }
 
   // DecVCPlat Project API Methods
-  async fetchDecVCPlatProjects(decvcplatQueryParams?: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get('/projects', { params: decvcplatQueryParams });
-    return decvcplatResponse.data;
+  async fetchDecVCPlatProjects(decvcplatQueryParams?: ProjectQueryDto): Promise<PagedResultDto<ProjectDto>> {
+    return this.requestDecVCPlatContract(projectPageSchema, { method: 'GET', url: '/projects', params: decvcplatQueryParams });
   }
 
-  async fetchDecVCPlatProjectById(decvcplatProjectId: string): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get(`/projects/${decvcplatProjectId}`);
-    return decvcplatResponse.data;
+  async fetchDecVCPlatProjectById(decvcplatProjectId: string): Promise<ProjectDto> {
+    return this.requestDecVCPlatContract(projectSchema, { method: 'GET', url: `/projects/${decvcplatProjectId}` });
   }
 
-  async createDecVCPlatProject(decvcplatProjectData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/projects', decvcplatProjectData);
-    return decvcplatResponse.data;
+  async createDecVCPlatProject(decvcplatProjectData: CreateProjectRequestDto): Promise<ProjectDto> {
+    return this.requestDecVCPlatContract(projectSchema, { method: 'POST', url: '/projects', data: decvcplatProjectData });
   }
 
-  async updateDecVCPlatProject(decvcplatProjectId: string, decvcplatUpdateData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.put(`/projects/${decvcplatProjectId}`, decvcplatUpdateData);
-    return decvcplatResponse.data;
+  async updateDecVCPlatProject(decvcplatProjectId: string, decvcplatUpdateData: UpdateProjectRequestDto): Promise<ProjectDto> {
+    return this.requestDecVCPlatContract(projectSchema, { method: 'PUT', url: `/projects/${decvcplatProjectId}`, data: decvcplatUpdateData });
   }
 
-  async voteOnDecVCPlatProject(decvcplatProjectId: string, decvcplatVoteData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post(`/projects/${decvcplatProjectId}/vote`, decvcplatVoteData);
-    return decvcplatResponse.data;
+  async voteOnDecVCPlatProject(decvcplatProjectId: string, decvcplatVoteData: ProjectVoteRequestDto): Promise<ProjectVoteDto> {
+    return this.requestDecVCPlatContract(projectVoteSchema, { method: 'POST', url: `/projects/${decvcplatProjectId}/vote`, data: decvcplatVoteData });
+  }
+
+  // Milestone calls return the whole project, as an approval also moves its funding
+  async completeDecVCPlatMilestone(
+    decvcplatProjectId: string,
+    decvcplatMilestoneId: string,
+    decvcplatCompletionData: CompleteMilestoneRequestDto
+  ): Promise<ProjectDto> {
+    return this.requestDecVCPlatContract(projectSchema, {
+      method: 'POST',
+      url: `/projects/${decvcplatProjectId}/milestones/${decvcplatMilestoneId}/complete`,
+      data: decvcplatCompletionData,
+    });
+  }
+
+  async voteOnDecVCPlatMilestone(
+    decvcplatProjectId: string,
+    decvcplatMilestoneId: string,
+    decvcplatVoteData: MilestoneVoteRequestDto
+  ): Promise<ProjectDto> {
+    return this.requestDecVCPlatContract(projectSchema, {
+      method: 'POST',
+      url: `/projects/${decvcplatProjectId}/milestones/${decvcplatMilestoneId}/votes`,
+      data: decvcplatVoteData,
+    });
   }
 
   // DecVCPlat Voting API Methods
-  async fetchDecVCPlatProposals(decvcplatQueryParams?: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get('/voting/proposals', { params: decvcplatQueryParams });
-    return decvcplatResponse.data;
+  async fetchDecVCPlatProposals(decvcplatQueryParams?: ProposalQueryDto): Promise<PagedResultDto<VotingProposalDto>> {
+    return this.requestDecVCPlatContract(proposalPageSchema, { method: 'GET', url: '/voting/proposals', params: decvcplatQueryParams });
+  }
+
+  async fetchDecVCPlatProposalById(decvcplatProposalId: string): Promise<VotingProposalDto> {
+    return this.requestDecVCPlatContract(votingProposalSchema, { method: 'GET', url: `/voting/proposals/${decvcplatProposalId}` });
+  }
+
+  async createDecVCPlatProposal(decvcplatProposalData: CreateProposalRequestDto): Promise<VotingProposalDto> {
+    return this.requestDecVCPlatContract(votingProposalSchema, { method: 'POST', url: '/voting/proposals', data: decvcplatProposalData });
+  }
+
+  async executeDecVCPlatProposal(
+    decvcplatProposalId: string,
+    decvcplatExecutionData: ExecuteProposalRequestDto = {}
+  ): Promise<ProposalExecutionDto> {
+    return this.requestDecVCPlatContract(proposalExecutionSchema, {
+      method: 'POST',
+      url: `/voting/proposals/${decvcplatProposalId}/execute`,
+      data: decvcplatExecutionData,
+    });
+  }
+
+  async stakeDecVCPlatTokens(decvcplatStakeData: StakeRequestDto): Promise<TokenStakeDto> {
+    return this.requestDecVCPlatContract(tokenStakeSchema, { method: 'POST', url: '/voting/stake', data: decvcplatStakeData });
   }
 
-  async fetchDecVCPlatProposalById(decvcplatProposalId: string): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get(`/voting/proposals/${decvcplatProposalId}`);
-    return decvcplatResponse.data;
+  async castDecVCPlatVote(decvcplatVoteData: CastVoteRequestDto): Promise<VoteDto> {
+    return this.requestDecVCPlatContract(voteSchema, { method: 'POST', url: '/voting/vote', data: decvcplatVoteData });
   }
 
-  async createDecVCPlatProposal(decvcplatProposalData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/voting/proposals', decvcplatProposalData);
-    return decvcplatResponse.data;
+  // Replaces the current user's ballot on a proposal that is still Active
+  async changeDecVCPlatVote(decvcplatVoteData: CastVoteRequestDto): Promise<VoteRevisionDto> {
+    const { proposalId, ...decvcplatBallotData } = decvcplatVoteData;
+    return this.requestDecVCPlatContract(voteRevisionSchema, {
+      method: 'PUT',
+      url: `/voting/proposals/${proposalId}/vote`,
+      data: decvcplatBallotData,
+    });
   }
 
-  async stakeDecVCPlatTokens(decvcplatStakeData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/voting/stake', decvcplatStakeData);
-    return decvcplatResponse.data;
+  async withdrawDecVCPlatVote(decvcplatProposalId: string): Promise<VoteRevisionDto> {
+    return this.requestDecVCPlatContract(voteRevisionSchema, { method: 'DELETE', url: `/voting/proposals/${decvcplatProposalId}/vote` });
   }
 
-  async castDecVCPlatVote(decvcplatVoteData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/voting/vote', decvcplatVoteData);
-    return decvcplatResponse.data;
+  // The current user's ballots, newest first, including replaced and withdrawn ones
+  async fetchDecVCPlatUserVotes(): Promise<VoteDto[]> {
+    return this.requestDecVCPlatContract(voteListSchema, { method: 'GET', url: '/voting/votes' });
+  }
+
+  // Public so anyone holding a receipt link can re-check the ballot
+  async fetchDecVCPlatBallotReceipt(decvcplatBallotHash: string): Promise<BallotReceiptDto> {
+    return this.requestDecVCPlatContract(ballotReceiptSchema, { method: 'GET', url: `/voting/ballots/${decvcplatBallotHash}` });
+  }
+
+  async fetchDecVCPlatUserVotingStats(): Promise<UserVotingStatsDto> {
+    return this.requestDecVCPlatContract(userVotingStatsSchema, { method: 'GET', url: '/voting/stats' });
+  }
+
+  async fetchDecVCPlatDelegates(): Promise<DelegateDto[]> {
+    return this.requestDecVCPlatContract(delegateListSchema, { method: 'GET', url: '/voting/delegates' });
+  }
+
+  // Delegations the current user gave or received, revoked ones included
+  async fetchDecVCPlatDelegations(): Promise<DelegationDto[]> {
+    return this.requestDecVCPlatContract(delegationListSchema, { method: 'GET', url: '/voting/delegations' });
+  }
+
+  async createDecVCPlatDelegation(decvcplatDelegationData: CreateDelegationRequestDto): Promise<DelegationDto> {
+    return this.requestDecVCPlatContract(delegationSchema, { method: 'POST', url: '/voting/delegations', data: decvcplatDelegationData });
+  }
+
+  async revokeDecVCPlatDelegation(decvcplatDelegationId: string): Promise<DelegationDto> {
+    return this.requestDecVCPlatContract(delegationSchema, { method: 'POST', url: `/voting/delegations/${decvcplatDelegationId}/revoke` });
   }
 
   // DecVCPlat Funding API Methods
-  async fetchDecVCPlatFundingTranches(decvcplatQueryParams?: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get('/funding/tranches', { params: decvcplatQueryParams });
-    return decvcplatResponse.data;
+  async fetchDecVCPlatFundingTranches(decvcplatQueryParams?: FundingTrancheQueryDto): Promise<FundingTrancheDto[]> {
+    return this.requestDecVCPlatContract(fundingTrancheListSchema, { method: 'GET', url: '/funding/tranches', params: decvcplatQueryParams });
   }
 
-  async createDecVCPlatFundingTranche(decvcplatTrancheData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/funding/tranches', decvcplatTrancheData);
-    return decvcplatResponse.data;
+  async createDecVCPlatFundingTranche(decvcplatTrancheData: CreateTrancheRequestDto): Promise<FundingTrancheDto> {
+    return this.requestDecVCPlatContract(fundingTrancheSchema, { method: 'POST', url: '/funding/tranches', data: decvcplatTrancheData });
   }
 
-  async releaseDecVCPlatFunds(decvcplatReleaseData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/funding/release', decvcplatReleaseData);
-    return decvcplatResponse.data;
+  async releaseDecVCPlatFunds(decvcplatReleaseData: ReleaseFundsRequestDto): Promise<FundingReleaseResultDto> {
+    return this.requestDecVCPlatContract(fundingReleaseResultSchema, { method: 'POST', url: '/funding/release', data: decvcplatReleaseData });
   }
 
-  async approveDecVCPlatFundingRelease(decvcplatApprovalData: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/funding/approve', decvcplatApprovalData);
-    return decvcplatResponse.data;
+  async approveDecVCPlatFundingRelease(decvcplatApprovalData: ApproveFundingRequestDto): Promise<FundingTrancheDto> {
+    return this.requestDecVCPlatContract(fundingTrancheSchema, { method: 'POST', url: '/funding/approve', data: decvcplatApprovalData });
   }
 
   // DecVCPlat Notification API Methods
-  async fetchDecVCPlatNotifications(decvcplatQueryParams?: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.get('/notifications', { params: decvcplatQueryParams });
-    return decvcplatResponse.data;
+  async fetchDecVCPlatNotifications(decvcplatQueryParams?: NotificationQueryDto): Promise<NotificationFeedDto> {
+    return this.requestDecVCPlatContract(notificationFeedSchema, { method: 'GET', url: '/notifications', params: decvcplatQueryParams });
+  }
+
+  async markDecVCPlatNotificationsAsRead(decvcplatNotificationIds: string[]): Promise<ApiMessageDto> {
+    return this.requestDecVCPlatContract(apiMessageSchema, {
+      method: 'POST',
+      url: '/notifications/mark-read',
+      data: { notificationIds: decvcplatNotificationIds },
+    });
+  }
+
+  async markAllDecVCPlatNotificationsAsRead(): Promise<ApiMessageDto> {
+    return this.requestDecVCPlatContract(apiMessageSchema, { method: 'PUT', url: '/notifications/read-all' });
   }
 
-  async markDecVCPlatNotificationsAsRead(decvcplatNotificationIds: string[]): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.post('/notifications/mark-read', { notificationIds: decvcplatNotificationIds });
-    return decvcplatResponse.data;
+  async archiveDecVCPlatNotifications(decvcplatNotificationIds: string[]): Promise<ApiMessageDto> {
+    return this.requestDecVCPlatContract(apiMessageSchema, {
+      method: 'POST',
+      url: '/notifications/archive',
+      data: { notificationIds: decvcplatNotificationIds },
+    });
+  }
+
+  async fetchDecVCPlatNotificationPreferences(): Promise<NotificationPreferencesDto> {
+    return this.requestDecVCPlatContract(notificationPreferencesSchema, { method: 'GET', url: '/notifications/preferences' });
+  }
+
+  async updateDecVCPlatNotificationPreferences(decvcplatPreferences: Partial<NotificationPreferencesDto>): Promise<NotificationPreferencesDto> {
+    return this.requestDecVCPlatContract(notificationPreferencesSchema, {
+      method: 'PUT',
+      url: '/notifications/preferences',
+      data: decvcplatPreferences,
+    });
+  }
+
+  // DecVCPlat Wallet API Methods
+  async fetchDecVCPlatWalletBalances(decvcplatWalletAddress: string): Promise<WalletTokenBalanceDto[]> {
+    return this.requestDecVCPlatContract(walletTokenBalanceListSchema, { method: 'GET', url: `/wallet/${decvcplatWalletAddress}/balances` });
+  }
+
+  async fetchDecVCPlatWalletTransactions(decvcplatWalletAddress: string): Promise<WalletTransactionDto[]> {
+    return this.requestDecVCPlatContract(walletTransactionListSchema, { method: 'GET', url: `/wallet/${decvcplatWalletAddress}/transactions` });
   }
 
-  async updateDecVCPlatNotificationPreferences(decvcplatPreferences: any): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.put('/notifications/preferences', decvcplatPreferences);
-    return decvcplatResponse.data;
+  async fetchDecVCPlatWalletStakingSummary(decvcplatWalletAddress: string): Promise<WalletStakingSummaryDto> {
+    return this.requestDecVCPlatContract(walletStakingSummarySchema, { method: 'GET', url: `/wallet/${decvcplatWalletAddress}/staking` });
+  }
+
+  async fetchDecVCPlatMarketPrice(decvcplatSymbol: string): Promise<MarketPriceDto> {
+    return this.requestDecVCPlatContract(marketPriceSchema, { method: 'GET', url: `/market/prices/${decvcplatSymbol}` });
   }
 
   // DecVCPlat Generic API Method
-  async makeDecVCPlatApiCall(decvcplatMethod: 'GET' | 'POST' | 'PUT' | 'DELETE', decvcplatEndpoint: string, decvcplatData?: any, decvcplatConfig?: AxiosRequestConfig): Promise<any> {
-    const decvcplatResponse = await this.decvcplatApiInstance.request({
+  async makeDecVCPlatApiCall<T>(
+    decvcplatMethod: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    decvcplatEndpoint: string,
+    decvcplatSchema: yup.Schema<T>,
+    decvcplatData?: unknown,
+    decvcplatConfig?: AxiosRequestConfig
+  ): Promise<T> {
+    return this.requestDecVCPlatContract(decvcplatSchema, {
+      ...decvcplatConfig,
       method: decvcplatMethod,
       url: decvcplatEndpoint,
       data: decvcplatData,
-      ...decvcplatConfig,
     });
-    return decvcplatResponse.data;
   }
 }
 
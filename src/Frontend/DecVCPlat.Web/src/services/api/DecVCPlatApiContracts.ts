@@ -0,0 +1,1042 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import * as yup from 'yup';
+
+// DecVCPlat Contract Errors
+export class DecVCPlatApiContractError extends Error {
+  readonly decvcplatEndpoint: string;
+  readonly decvcplatIssues: string[];
+
+  constructor(decvcplatEndpoint: string, decvcplatIssues: string[]) {
+    super(`DecVCPlat API returned an unexpected payload for ${decvcplatEndpoint}`);
+    this.name = 'DecVCPlatApiContractError';
+    this.decvcplatEndpoint = decvcplatEndpoint;
+    this.decvcplatIssues = decvcplatIssues;
+  }
+}
+
+export const isDecVCPlatApiContractError = (decvcplatError: unknown): decvcplatError is DecVCPlatApiContractError =>
+  decvcplatError instanceof DecVCPlatApiContractError;
+
+// Validates a response body against its contract schema. Unknown extra fields are
+// kept so newer backends stay compatible; missing or mistyped fields are rejected.
+export const validateDecVCPlatContract = <T>(decvcplatSchema: yup.Schema<T>, decvcplatPayload: unknown, decvcplatEndpoint: string): T => {
+  try {
+    return decvcplatSchema.validateSync(decvcplatPayload, { abortEarly: false, strict: true });
+  } catch (decvcplatError) {
+    if (decvcplatError instanceof yup.ValidationError) {
+      throw new DecVCPlatApiContractError(decvcplatEndpoint, decvcplatError.errors);
+    }
+    throw decvcplatError;
+  }
+};
+
+// DecVCPlat Problem Contracts
+export interface DecVCPlatApiProblem {
+  message: string;
+  status?: number;
+  fieldErrors: Record<string, string>;
+}
+
+// 'Milestones[0].FundingAmount' and '$.fundingGoal' both become the form path
+// used by the pages, e.g. 'milestones[0].fundingAmount' and 'fundingGoal'.
+const toDecVCPlatFieldPath = (decvcplatKey: string): string =>
+  decvcplatKey
+    .replace(/^\$\./, '')
+    .split('.')
+    .map((decvcplatSegment) => decvcplatSegment.charAt(0).toLowerCase() + decvcplatSegment.slice(1))
+    .join('.');
+
+// The parts of a failed response the client reads: the platform's { message } body
+// and ASP.NET (Validation)ProblemDetails
+interface DecVCPlatErrorResponse {
+  status?: number;
+  data?: {
+    message?: string;
+    title?: string;
+    errors?: Record<string, string[] | string> | null;
+  } | null;
+}
+
+// Normalises a failed request, including ASP.NET ValidationProblemDetails bodies,
+// into a message plus the first error reported for each field.
+export const toDecVCPlatApiProblem = (decvcplatError: unknown, decvcplatFallbackMessage: string): DecVCPlatApiProblem => {
+  if (isDecVCPlatApiContractError(decvcplatError)) {
+    return { message: decvcplatError.message, fieldErrors: {} };
+  }
+
+  const decvcplatResponse = typeof decvcplatError === 'object' && decvcplatError !== null
+    ? (decvcplatError as { response?: DecVCPlatErrorResponse }).response
+    : undefined;
+  const decvcplatBody = decvcplatResponse?.data;
+  const decvcplatFieldErrors: Record<string, string> = {};
+
+  if (decvcplatBody?.errors && typeof decvcplatBody.errors === 'object') {
+    Object.entries(decvcplatBody.errors).forEach(([decvcplatKey, decvcplatMessages]) => {
+      const decvcplatMessage = Array.isArray(decvcplatMessages) ? decvcplatMessages[0] : decvcplatMessages;
+      if (decvcplatMessage) {
+        decvcplatFieldErrors[toDecVCPlatFieldPath(decvcplatKey)] = decvcplatMessage;
+      }
+    });
+  }
+
+  return {
+    message: decvcplatBody?.message || decvcplatBody?.title || decvcplatFallbackMessage,
+    status: decvcplatResponse?.status,
+    fieldErrors: decvcplatFieldErrors,
+  };
+};
+
+// DecVCPlat Shared Contracts
+export interface PagedResultDto<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface ApiMessageDto {
+  message: string;
+}
+
+const createPagedResultSchema = <T>(decvcplatItemSchema: yup.Schema<T>) =>
+  yup.object({
+    items: yup.array(decvcplatItemSchema).required(),
+    totalCount: yup.number().required(),
+    page: yup.number().required(),
+    pageSize: yup.number().required(),
+    totalPages: yup.number().required(),
+  }) as unknown as yup.Schema<PagedResultDto<T>>;
+
+export const apiMessageSchema: yup.ObjectSchema<ApiMessageDto> = yup.object({
+  message: yup.string().defined(),
+});
+
+// DecVCPlat Authentication Contracts
+export type UserRole = 'Founder' | 'Investor' | 'Luminary';
+
+export interface UserDto {
+  id: string;
+  userName: string;
+  email: string;
+  fullName: string;
+  role: UserRole;
+  walletAddress?: string | null;
+  isWalletVerified: boolean;
+  profilePictureUrl?: string | null;
+  bio?: string | null;
+  linkedInUrl?: string | null;
+  twitterUrl?: string | null;
+  websiteUrl?: string | null;
+  createdAt: string;
+}
+
+export interface LoginRequestDto {
+  email: string;
+  password: string;
+}
+
+export interface RegisterRequestDto {
+  userName: string;
+  email: string;
+  fullName: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface AuthSessionDto {
+  token: string;
+  refreshToken?: string | null;
+  tokenExpiration?: string | null;
+  user: UserDto;
+}
+
+// Sign-In with Ethereum: the backend issues a single-use nonce, the wallet signs an
+// EIP-4361 message containing it, and the signed message proves the address.
+export interface SiweNonceRequestDto {
+  walletAddress: string;
+}
+
+export interface SiweNonceDto {
+  nonce: string;
+  expiresAt: string;
+}
+
+export interface SiweSignatureRequestDto {
+  message: string;
+  signature: string;
+}
+
+export interface ConnectWalletRequestDto extends SiweSignatureRequestDto {
+  walletAddress: string;
+}
+
+export interface RefreshTokenRequestDto {
+  refreshToken: string;
+}
+
+export type UpdateProfileRequestDto = Partial<Omit<UserDto, 'id' | 'role' | 'isWalletVerified' | 'createdAt'>>;
+
+export const userSchema: yup.ObjectSchema<UserDto> = yup.object({
+  id: yup.string().required(),
+  userName: yup.string().required(),
+  email: yup.string().required(),
+  fullName: yup.string().defined(),
+  role: yup.mixed<UserRole>().oneOf(['Founder', 'Investor', 'Luminary']).required(),
+  walletAddress: yup.string().nullable().optional(),
+  isWalletVerified: yup.boolean().required(),
+  profilePictureUrl: yup.string().nullable().optional(),
+  bio: yup.string().nullable().optional(),
+  linkedInUrl: yup.string().nullable().optional(),
+  twitterUrl: yup.string().nullable().optional(),
+  websiteUrl: yup.string().nullable().optional(),
+  createdAt: yup.string().required(),
+});
+
+export const siweNonceSchema: yup.ObjectSchema<SiweNonceDto> = yup.object({
+  nonce: yup.string().required(),
+  expiresAt: yup.string().required(),
+});
+
+export const authSessionSchema: yup.ObjectSchema<AuthSessionDto> = yup.object({
+  token: yup.string().required(),
+  refreshToken: yup.string().nullable().optional(),
+  tokenExpiration: yup.string().nullable().optional(),
+  user: userSchema.required(),
+});
+
+// DecVCPlat Project Contracts
+export type ProjectStatus = 'Draft' | 'Submitted' | 'UnderReview' | 'Approved' | 'Rejected' | 'Funded' | 'Completed';
+export type MilestoneStatus = 'Pending' | 'InProgress' | 'Completed' | 'Approved' | 'Rejected' | 'FundingReleased';
+export type ProjectVoteType = 'Approve' | 'Reject';
+
+export interface ProjectDocumentDto {
+  id: string;
+  fileName: string;
+  fileUrl: string;
+  fileType: string;
+  fileSize?: number | null;
+  description?: string | null;
+  uploadedAt: string;
+}
+
+export interface ProjectMilestoneDto {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string;
+  fundingAmount: number;
+  dueDate: string;
+  status: MilestoneStatus;
+  completedAt?: string | null;
+  evidenceUrl?: string | null;
+  // Set when the founder marks the milestone complete, which opens the approval vote
+  completionEvidence?: string | null;
+  voteEndTime?: string | null;
+  approvalVotes?: number | null;
+  rejectionVotes?: number | null;
+  votes?: MilestoneVoteDto[] | null;
+  // DecVCPlatGovernance milestone ID, when the milestone was created on-chain
+  onChainMilestoneId?: string | null;
+  fundingReleasedAt?: string | null;
+  fundingTransactionHash?: string | null;
+}
+
+export interface MilestoneVoteDto {
+  id: string;
+  milestoneId: string;
+  userId: string;
+  userName: string;
+  approve: boolean;
+  votingPower: number;
+  timestamp: string;
+  transactionHash?: string | null;
+}
+
+// transactionHash is set when the call was already sent to DecVCPlatGovernance
+export interface CompleteMilestoneRequestDto {
+  evidence: string;
+  evidenceUrl?: string;
+  transactionHash?: string;
+}
+
+export interface MilestoneVoteRequestDto {
+  approve: boolean;
+  transactionHash?: string;
+}
+
+export interface ProjectVoteDto {
+  id: string;
+  projectId: string;
+  userId: string;
+  userName: string;
+  voteType: ProjectVoteType;
+  stakedTokens: number;
+  comment?: string | null;
+  createdAt: string;
+}
+
+export interface ProjectDto {
+  id: string;
+  title: string;
+  description: string;
+  fundingGoal: number;
+  currentFunding: number;
+  founderId: string;
+  founderName: string;
+  category: string;
+  status: ProjectStatus;
+  tags: string[];
+  documents: ProjectDocumentDto[];
+  milestones: ProjectMilestoneDto[];
+  votes: ProjectVoteDto[];
+  createdAt: string;
+  updatedAt: string;
+  submittedAt?: string | null;
+  approvedAt?: string | null;
+  fundingDeadline?: string | null;
+  imageUrl?: string | null;
+  websiteUrl?: string | null;
+  githubUrl?: string | null;
+  pitchDeckUrl?: string | null;
+}
+
+export interface ProjectQueryDto {
+  page?: number;
+  pageSize?: number;
+  status?: string;
+  category?: string;
+  search?: string;
+}
+
+export interface CreateMilestoneRequestDto {
+  title: string;
+  description: string;
+  fundingAmount: number;
+  dueDate: string;
+}
+
+export interface CreateProjectRequestDto {
+  title: string;
+  description: string;
+  category: string;
+  fundingGoal: number;
+  tags: string[];
+  milestones: CreateMilestoneRequestDto[];
+  fundingDeadline?: string;
+  imageUrl?: string;
+  websiteUrl?: string;
+  githubUrl?: string;
+  pitchDeckUrl?: string;
+}
+
+export type UpdateProjectRequestDto = Partial<CreateProjectRequestDto>;
+
+export interface ProjectVoteRequestDto {
+  voteType: ProjectVoteType;
+  stakedTokens: number;
+  comment?: string;
+}
+
+export const projectDocumentSchema: yup.ObjectSchema<ProjectDocumentDto> = yup.object({
+  id: yup.string().required(),
+  fileName: yup.string().required(),
+  fileUrl: yup.string().required(),
+  fileType: yup.string().defined(),
+  fileSize: yup.number().nullable().optional(),
+  description: yup.string().nullable().optional(),
+  uploadedAt: yup.string().required(),
+});
+
+export const milestoneVoteSchema: yup.ObjectSchema<MilestoneVoteDto> = yup.object({
+  id: yup.string().required(),
+  milestoneId: yup.string().required(),
+  userId: yup.string().required(),
+  userName: yup.string().defined(),
+  approve: yup.boolean().required(),
+  votingPower: yup.number().required(),
+  timestamp: yup.string().required(),
+  transactionHash: yup.string().nullable().optional(),
+});
+
+export const projectMilestoneSchema: yup.ObjectSchema<ProjectMilestoneDto> = yup.object({
+  id: yup.string().required(),
+  projectId: yup.string().required(),
+  title: yup.string().required(),
+  description: yup.string().defined(),
+  fundingAmount: yup.number().required(),
+  dueDate: yup.string().required(),
+  status: yup
+    .mixed<MilestoneStatus>()
+    .oneOf(['Pending', 'InProgress', 'Completed', 'Approved', 'Rejected', 'FundingReleased'])
+    .required(),
+  completedAt: yup.string().nullable().optional(),
+  evidenceUrl: yup.string().nullable().optional(),
+  completionEvidence: yup.string().nullable().optional(),
+  voteEndTime: yup.string().nullable().optional(),
+  approvalVotes: yup.number().nullable().optional(),
+  rejectionVotes: yup.number().nullable().optional(),
+  votes: yup.array(milestoneVoteSchema).nullable().optional(),
+  onChainMilestoneId: yup.string().nullable().optional(),
+  fundingReleasedAt: yup.string().nullable().optional(),
+  fundingTransactionHash: yup.string().nullable().optional(),
+});
+
+export const projectVoteSchema: yup.ObjectSchema<ProjectVoteDto> = yup.object({
+  id: yup.string().required(),
+  projectId: yup.string().required(),
+  userId: yup.string().required(),
+  userName: yup.string().defined(),
+  voteType: yup.mixed<ProjectVoteType>().oneOf(['Approve', 'Reject']).required(),
+  stakedTokens: yup.number().required(),
+  comment: yup.string().nullable().optional(),
+  createdAt: yup.string().required(),
+});
+
+export const projectSchema: yup.ObjectSchema<ProjectDto> = yup.object({
+  id: yup.string().required(),
+  title: yup.string().required(),
+  description: yup.string().defined(),
+  fundingGoal: yup.number().required(),
+  currentFunding: yup.number().required(),
+  founderId: yup.string().required(),
+  founderName: yup.string().defined(),
+  category: yup.string().defined(),
+  status: yup
+    .mixed<ProjectStatus>()
+    .oneOf(['Draft', 'Submitted', 'UnderReview', 'Approved', 'Rejected', 'Funded', 'Completed'])
+    .required(),
+  tags: yup.array(yup.string().required()).required(),
+  documents: yup.array(projectDocumentSchema).required(),
+  milestones: yup.array(projectMilestoneSchema).required(),
+  votes: yup.array(projectVoteSchema).required(),
+  createdAt: yup.string().required(),
+  updatedAt: yup.string().required(),
+  submittedAt: yup.string().nullable().optional(),
+  approvedAt: yup.string().nullable().optional(),
+  fundingDeadline: yup.string().nullable().optional(),
+  imageUrl: yup.string().nullable().optional(),
+  websiteUrl: yup.string().nullable().optional(),
+  githubUrl: yup.string().nullable().optional(),
+  pitchDeckUrl: yup.string().nullable().optional(),
+});
+
+export const projectPageSchema = createPagedResultSchema(projectSchema);
+
+// DecVCPlat Voting Contracts
+export type ProposalType = 'ProjectApproval' | 'FundingRelease' | 'Governance' | 'MilestoneApproval';
+export type ProposalStatus = 'Pending' | 'Active' | 'Passed' | 'Failed' | 'Executed' | 'Cancelled';
+export type VoteChoice = 'For' | 'Against' | 'Abstain';
+// How a ballot's voting power becomes weight in the tallies; chosen per proposal
+// type when the proposal is created
+export type VotingStrategy = 'Linear' | 'Quadratic' | 'Conviction';
+
+export interface VotingProposalDto {
+  id: string;
+  title: string;
+  description: string;
+  proposerId: string;
+  proposerName: string;
+  projectId?: string | null;
+  proposalType: ProposalType;
+  status: ProposalStatus;
+  startTime: string;
+  endTime: string;
+  quorumThreshold: number;
+  approvalThreshold: number;
+  totalStaked: number;
+  // Tallies are in the proposal's strategy weight; linear when votingStrategy is unset
+  votingStrategy?: VotingStrategy | null;
+  forVotes: number;
+  againstVotes: number;
+  abstainVotes: number;
+  // Unweighted voting power behind the tallies, which quorum is measured against.
+  // Equal to the tallies' sum under linear voting, so it may be omitted there.
+  participation?: number | null;
+  executionData?: string | null;
+  // DecVCPlatGovernance proposal ID, when the proposal was created on-chain; the API
+  // ID is a Guid and never doubles as the contract's uint256
+  onChainProposalId?: string | null;
+  // Set once a passed proposal is executed; FundingRelease proposals also name the
+  // tranche the ProposalExecuted event released
+  executedAt?: string | null;
+  executionTransactionHash?: string | null;
+  executedTrancheId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TokenStakeDto {
+  id: string;
+  userId: string;
+  proposalId: string;
+  amount: number;
+  lockPeriod: number;
+  stakedAt: string;
+  unstakedAt?: string | null;
+  rewardsClaimed: number;
+  isActive: boolean;
+}
+
+export interface VoteDto {
+  id: string;
+  proposalId: string;
+  userId: string;
+  userName: string;
+  choice: VoteChoice;
+  votingPower: number;
+  // What the ballot adds to the tallies under the proposal's voting strategy
+  weight?: number | null;
+  stakedAmount: number;
+  comment?: string | null;
+  timestamp: string;
+  delegatedTo?: string | null;
+  delegatedFrom?: string | null;
+  // Present on off-chain ballots; ballotHash is the EIP-712 digest the voter signed
+  signedBallot?: SignedBallotDto | null;
+  ballotHash?: string | null;
+  // Ballots stop counting when the voter changes or withdraws their vote, but are
+  // kept as history. Only a ballot with neither set counts toward the tallies.
+  replacedAt?: string | null;
+  replacedByVoteId?: string | null;
+  withdrawnAt?: string | null;
+}
+
+// The parts of an EIP-712 ballot not already on the vote (proposalId, choice and
+// stakedAmount). issuedAt is in unix seconds.
+export interface SignedBallotDto {
+  voter: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: number;
+  signature: string;
+}
+
+// Everything needed to check a ballot without trusting the server: the ballot
+// itself, the proposal it was counted on and every signed ballot published for it
+export interface BallotReceiptDto {
+  vote: VoteDto;
+  proposal: VotingProposalDto;
+  ballots: VoteDto[];
+}
+
+// Result of changing or withdrawing a vote: the re-tallied proposal, the ballot
+// that stopped counting and, unless the vote was withdrawn, the one replacing it
+export interface VoteRevisionDto {
+  proposal: VotingProposalDto;
+  previousVote: VoteDto;
+  vote?: VoteDto | null;
+}
+
+export interface UserVotingStatsDto {
+  totalStaked: number;
+  totalVotingPower: number;
+  activeProposals: number;
+  votesCast: number;
+  proposalsCreated: number;
+  rewardsEarned: number;
+  delegatedPower: number;
+  receivedPower: number;
+  // Stake-weighted days the user's active stakes have been locked (conviction voting)
+  stakeAgeDays?: number | null;
+}
+
+export interface ProposalQueryDto {
+  page?: number;
+  pageSize?: number;
+  status?: string;
+  type?: string;
+  search?: string;
+}
+
+export interface CreateProposalRequestDto {
+  title: string;
+  description: string;
+  proposalType: ProposalType;
+  projectId?: string;
+  executionData?: string;
+  votingPeriod?: number;
+}
+
+export interface StakeRequestDto {
+  proposalId?: string;
+  amount: number;
+  lockPeriod?: number;
+}
+
+export interface CastVoteRequestDto {
+  proposalId: string;
+  choice: VoteChoice;
+  stakedAmount: number;
+  comment?: string;
+  // Gasless voting on Governance proposals
+  signedBallot?: SignedBallotDto;
+}
+
+// Delegation hands part of a member's staked voting power to a Luminary, whose
+// ballots then carry it until the delegator revokes. Revoked delegations are kept
+// as history.
+export type DelegationStatus = 'Active' | 'Revoked';
+
+export interface DelegateDto {
+  userId: string;
+  fullName: string;
+  userName: string;
+  walletAddress?: string | null;
+  bio?: string | null;
+  delegatorCount: number;
+  receivedPower: number;
+  votesCast: number;
+}
+
+export interface DelegationDto {
+  id: string;
+  delegatorId: string;
+  delegatorName: string;
+  delegateId: string;
+  delegateName: string;
+  amount: number;
+  status: DelegationStatus;
+  reason?: string | null;
+  createdAt: string;
+  revokedAt?: string | null;
+}
+
+// transactionHash is the executeProposal transaction when it was sent from the
+// wallet; without one the backend executes the proposal itself.
+export interface ExecuteProposalRequestDto {
+  transactionHash?: string;
+  chainId?: number;
+  blockNumber?: number;
+}
+
+export interface ProposalExecutionDto {
+  proposal: VotingProposalDto;
+  tranche?: FundingTrancheDto | null;
+}
+
+export interface CreateDelegationRequestDto {
+  delegateId: string;
+  amount: number;
+  reason?: string;
+}
+
+export const votingProposalSchema: yup.ObjectSchema<VotingProposalDto> = yup.object({
+  id: yup.string().required(),
+  title: yup.string().required(),
+  description: yup.string().defined(),
+  proposerId: yup.string().required(),
+  proposerName: yup.string().defined(),
+  projectId: yup.string().nullable().optional(),
+  proposalType: yup
+    .mixed<ProposalType>()
+    .oneOf(['ProjectApproval', 'FundingRelease', 'Governance', 'MilestoneApproval'])
+    .required(),
+  status: yup.mixed<ProposalStatus>().oneOf(['Pending', 'Active', 'Passed', 'Failed', 'Executed', 'Cancelled']).required(),
+  startTime: yup.string().required(),
+  endTime: yup.string().required(),
+  quorumThreshold: yup.number().required(),
+  approvalThreshold: yup.number().required(),
+  totalStaked: yup.number().required(),
+  votingStrategy: yup.mixed<VotingStrategy>().oneOf(['Linear', 'Quadratic', 'Conviction']).nullable().optional(),
+  forVotes: yup.number().required(),
+  againstVotes: yup.number().required(),
+  abstainVotes: yup.number().required(),
+  participation: yup.number().nullable().optional(),
+  executionData: yup.string().nullable().optional(),
+  onChainProposalId: yup.string().nullable().optional(),
+  executedAt: yup.string().nullable().optional(),
+  executionTransactionHash: yup.string().nullable().optional(),
+  executedTrancheId: yup.string().nullable().optional(),
+  createdAt: yup.string().required(),
+  updatedAt: yup.string().required(),
+});
+
+export const tokenStakeSchema: yup.ObjectSchema<TokenStakeDto> = yup.object({
+  id: yup.string().required(),
+  userId: yup.string().required(),
+  proposalId: yup.string().required(),
+  amount: yup.number().required(),
+  lockPeriod: yup.number().required(),
+  stakedAt: yup.string().required(),
+  unstakedAt: yup.string().nullable().optional(),
+  rewardsClaimed: yup.number().required(),
+  isActive: yup.boolean().required(),
+});
+
+export const signedBallotSchema: yup.ObjectSchema<SignedBallotDto> = yup.object({
+  voter: yup.string().required(),
+  chainId: yup.number().required(),
+  nonce: yup.string().required(),
+  issuedAt: yup.number().required(),
+  signature: yup.string().required(),
+});
+
+export const voteSchema: yup.ObjectSchema<VoteDto> = yup.object({
+  id: yup.string().required(),
+  proposalId: yup.string().required(),
+  userId: yup.string().required(),
+  userName: yup.string().defined(),
+  choice: yup.mixed<VoteChoice>().oneOf(['For', 'Against', 'Abstain']).required(),
+  votingPower: yup.number().required(),
+  weight: yup.number().nullable().optional(),
+  stakedAmount: yup.number().required(),
+  comment: yup.string().nullable().optional(),
+  timestamp: yup.string().required(),
+  delegatedTo: yup.string().nullable().optional(),
+  delegatedFrom: yup.string().nullable().optional(),
+  signedBallot: signedBallotSchema.nullable().default(undefined),
+  ballotHash: yup.string().nullable().optional(),
+  replacedAt: yup.string().nullable().optional(),
+  replacedByVoteId: yup.string().nullable().optional(),
+  withdrawnAt: yup.string().nullable().optional(),
+});
+
+export const voteListSchema = yup.array(voteSchema).required() as unknown as yup.Schema<VoteDto[]>;
+
+export const voteRevisionSchema: yup.ObjectSchema<VoteRevisionDto> = yup.object({
+  proposal: votingProposalSchema.required(),
+  previousVote: voteSchema.required(),
+  vote: voteSchema.nullable().default(undefined),
+});
+
+export const userVotingStatsSchema: yup.ObjectSchema<UserVotingStatsDto> = yup.object({
+  totalStaked: yup.number().required(),
+  totalVotingPower: yup.number().required(),
+  activeProposals: yup.number().required(),
+  votesCast: yup.number().required(),
+  proposalsCreated: yup.number().required(),
+  rewardsEarned: yup.number().required(),
+  delegatedPower: yup.number().required(),
+  receivedPower: yup.number().required(),
+  stakeAgeDays: yup.number().nullable().optional(),
+});
+
+export const proposalPageSchema = createPagedResultSchema(votingProposalSchema);
+
+export const ballotReceiptSchema: yup.ObjectSchema<BallotReceiptDto> = yup.object({
+  vote: voteSchema.required(),
+  proposal: votingProposalSchema.required(),
+  ballots: yup.array(voteSchema).required(),
+});
+
+export const delegateSchema: yup.ObjectSchema<DelegateDto> = yup.object({
+  userId: yup.string().required(),
+  fullName: yup.string().defined(),
+  userName: yup.string().defined(),
+  walletAddress: yup.string().nullable().optional(),
+  bio: yup.string().nullable().optional(),
+  delegatorCount: yup.number().required(),
+  receivedPower: yup.number().required(),
+  votesCast: yup.number().required(),
+});
+
+export const delegateListSchema = yup.array(delegateSchema).required() as unknown as yup.Schema<DelegateDto[]>;
+
+export const delegationSchema: yup.ObjectSchema<DelegationDto> = yup.object({
+  id: yup.string().required(),
+  delegatorId: yup.string().required(),
+  delegatorName: yup.string().defined(),
+  delegateId: yup.string().required(),
+  delegateName: yup.string().defined(),
+  amount: yup.number().required(),
+  status: yup.mixed<DelegationStatus>().oneOf(['Active', 'Revoked']).required(),
+  reason: yup.string().nullable().optional(),
+  createdAt: yup.string().required(),
+  revokedAt: yup.string().nullable().optional(),
+});
+
+export const delegationListSchema = yup.array(delegationSchema).required() as unknown as yup.Schema<DelegationDto[]>;
+
+// DecVCPlat Funding Contracts
+export type TrancheStatus =
+  | 'Pending'
+  | 'InEscrow'
+  | 'AwaitingApproval'
+  | 'Approved'
+  | 'Released'
+  | 'Disputed'
+  | 'Cancelled'
+  | 'Failed';
+
+export interface FundingTrancheDto {
+  id: string;
+  projectId: string;
+  milestoneId: string;
+  title: string;
+  description: string;
+  amount: number;
+  trancheNumber: number;
+  status: TrancheStatus;
+  scheduledReleaseDate: string;
+  actualReleaseDate?: string | null;
+  isMilestoneCompleted: boolean;
+  isLuminaryApproved: boolean;
+  releaseTransactionHash?: string | null;
+}
+
+export interface FundingTrancheQueryDto {
+  projectId?: string;
+  status?: string;
+}
+
+export interface CreateTrancheRequestDto {
+  projectId: string;
+  milestoneId: string;
+  title: string;
+  description: string;
+  amount: number;
+  trancheNumber: number;
+  scheduledReleaseDate: string;
+}
+
+export interface ReleaseFundsRequestDto {
+  trancheId: string;
+  amount: number;
+  recipientWalletAddress: string;
+  processingNotes?: string;
+}
+
+export interface ApproveFundingRequestDto {
+  trancheId: string;
+  isApproved: boolean;
+  milestoneEvidenceUrl?: string;
+  approvalNotes?: string;
+}
+
+export interface FundingReleaseResultDto {
+  message: string;
+  trancheId: string;
+  status: TrancheStatus;
+  transactionHash?: string | null;
+}
+
+const trancheStatusSchema = yup
+  .mixed<TrancheStatus>()
+  .oneOf(['Pending', 'InEscrow', 'AwaitingApproval', 'Approved', 'Released', 'Disputed', 'Cancelled', 'Failed']);
+
+export const fundingTrancheSchema: yup.ObjectSchema<FundingTrancheDto> = yup.object({
+  id: yup.string().required(),
+  projectId: yup.string().required(),
+  milestoneId: yup.string().required(),
+  title: yup.string().required(),
+  description: yup.string().defined(),
+  amount: yup.number().required(),
+  trancheNumber: yup.number().required(),
+  status: trancheStatusSchema.required(),
+  scheduledReleaseDate: yup.string().required(),
+  actualReleaseDate: yup.string().nullable().optional(),
+  isMilestoneCompleted: yup.boolean().required(),
+  isLuminaryApproved: yup.boolean().required(),
+  releaseTransactionHash: yup.string().nullable().optional(),
+});
+
+export const fundingTrancheListSchema = yup.array(fundingTrancheSchema).required() as unknown as yup.Schema<FundingTrancheDto[]>;
+
+export const proposalExecutionSchema: yup.ObjectSchema<ProposalExecutionDto> = yup.object({
+  proposal: votingProposalSchema.required(),
+  tranche: fundingTrancheSchema.nullable().default(undefined),
+});
+
+export const fundingReleaseResultSchema: yup.ObjectSchema<FundingReleaseResultDto> = yup.object({
+  message: yup.string().defined(),
+  trancheId: yup.string().required(),
+  status: trancheStatusSchema.required(),
+  transactionHash: yup.string().nullable().optional(),
+});
+
+// DecVCPlat Notification Contracts
+export type NotificationType =
+  | 'ProjectUpdate'
+  | 'VotingResult'
+  | 'FundingRelease'
+  | 'MilestoneComplete'
+  | 'System'
+  | 'Warning'
+  | 'Success';
+export type NotificationPriority = 'Low' | 'Normal' | 'High' | 'Critical';
+
+export interface NotificationDto {
+  id: string;
+  userId: string;
+  title: string;
+  message: string;
+  type: NotificationType;
+  priority: NotificationPriority;
+  isRead: boolean;
+  isArchived: boolean;
+  actionUrl?: string | null;
+  actionText?: string | null;
+  metadata?: Record<string, unknown> | null;
+  createdAt: string;
+  readAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface NotificationPreferencesDto {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  inAppNotifications: boolean;
+  smsNotifications: boolean;
+  projectUpdates: boolean;
+  votingResults: boolean;
+  fundingReleases: boolean;
+  milestoneUpdates: boolean;
+  systemAlerts: boolean;
+  marketingEmails: boolean;
+  weeklyDigest: boolean;
+  instantAlerts: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+}
+
+export interface NotificationQueryDto {
+  page?: number;
+  pageSize?: number;
+  type?: string;
+  priority?: string;
+  isRead?: boolean;
+}
+
+export interface NotificationFeedDto extends PagedResultDto<NotificationDto> {
+  unreadCount: number;
+}
+
+export const notificationSchema: yup.ObjectSchema<NotificationDto> = yup.object({
+  id: yup.string().required(),
+  userId: yup.string().required(),
+  title: yup.string().required(),
+  message: yup.string().defined(),
+  type: yup
+    .mixed<NotificationType>()
+    .oneOf(['ProjectUpdate', 'VotingResult', 'FundingRelease', 'MilestoneComplete', 'System', 'Warning', 'Success'])
+    .required(),
+  priority: yup.mixed<NotificationPriority>().oneOf(['Low', 'Normal', 'High', 'Critical']).required(),
+  isRead: yup.boolean().required(),
+  isArchived: yup.boolean().required(),
+  actionUrl: yup.string().nullable().optional(),
+  actionText: yup.string().nullable().optional(),
+  metadata: yup.object().nullable().optional() as yup.Schema<Record<string, unknown> | null | undefined>,
+  createdAt: yup.string().required(),
+  readAt: yup.string().nullable().optional(),
+  expiresAt: yup.string().nullable().optional(),
+});
+
+export const notificationPreferencesSchema: yup.ObjectSchema<NotificationPreferencesDto> = yup.object({
+  emailNotifications: yup.boolean().required(),
+  pushNotifications: yup.boolean().required(),
+  inAppNotifications: yup.boolean().required(),
+  smsNotifications: yup.boolean().required(),
+  projectUpdates: yup.boolean().required(),
+  votingResults: yup.boolean().required(),
+  fundingReleases: yup.boolean().required(),
+  milestoneUpdates: yup.boolean().required(),
+  systemAlerts: yup.boolean().required(),
+  marketingEmails: yup.boolean().required(),
+  weeklyDigest: yup.boolean().required(),
+  instantAlerts: yup.boolean().required(),
+  quietHoursEnabled: yup.boolean().required(),
+  quietHoursStart: yup.string().nullable().optional(),
+  quietHoursEnd: yup.string().nullable().optional(),
+});
+
+export const notificationFeedSchema = yup.object({
+  items: yup.array(notificationSchema).required(),
+  totalCount: yup.number().required(),
+  page: yup.number().required(),
+  pageSize: yup.number().required(),
+  totalPages: yup.number().required(),
+  unreadCount: yup.number().required(),
+}) as unknown as yup.Schema<NotificationFeedDto>;
+
+// DecVCPlat Wallet Contracts
+export type WalletTransactionStatus = 'pending' | 'confirmed' | 'failed';
+export type WalletTransactionCategory = 'stake' | 'unstake' | 'approval' | 'vote' | 'transfer' | 'funding' | 'reward';
+
+export interface WalletTokenBalanceDto {
+  tokenSymbol: string;
+  tokenName: string;
+  contractAddress: string;
+  userBalance: string;
+  tokenDecimals: number;
+  tokenIconUrl?: string | null;
+  usdEquivalent?: number | null;
+}
+
+export interface WalletTransactionDto {
+  transactionHash: string;
+  fromAddress: string;
+  toAddress: string;
+  amountTransferred: string;
+  gasConsumed: string;
+  gasCostInGwei: string;
+  blockTimestamp: string;
+  confirmationStatus: WalletTransactionStatus;
+  transactionCategory: WalletTransactionCategory;
+  transactionNote?: string | null;
+  blockHeight?: number | null;
+}
+
+// Spot price used to show fees and balances in USD
+export interface MarketPriceDto {
+  symbol: string;
+  usdPrice: number;
+  updatedAt: string;
+}
+
+export interface WalletStakingSummaryDto {
+  currentlyStakedAmount: string;
+  availableForStaking: string;
+  earnedStakingRewards: string;
+  unstakingWaitPeriod: number;
+  nextRewardDistribution?: string | null;
+  annualPercentageYield: number;
+}
+
+export const walletTokenBalanceSchema: yup.ObjectSchema<WalletTokenBalanceDto> = yup.object({
+  tokenSymbol: yup.string().required(),
+  tokenName: yup.string().defined(),
+  contractAddress: yup.string().required(),
+  userBalance: yup.string().required(),
+  tokenDecimals: yup.number().required(),
+  tokenIconUrl: yup.string().nullable().optional(),
+  usdEquivalent: yup.number().nullable().optional(),
+});
+
+export const walletTokenBalanceListSchema = yup.array(walletTokenBalanceSchema).required() as unknown as yup.Schema<WalletTokenBalanceDto[]>;
+
+export const walletTransactionSchema: yup.ObjectSchema<WalletTransactionDto> = yup.object({
+  transactionHash: yup.string().required(),
+  fromAddress: yup.string().required(),
+  toAddress: yup.string().required(),
+  amountTransferred: yup.string().required(),
+  gasConsumed: yup.string().defined(),
+  gasCostInGwei: yup.string().defined(),
+  blockTimestamp: yup.string().required(),
+  confirmationStatus: yup.mixed<WalletTransactionStatus>().oneOf(['pending', 'confirmed', 'failed']).required(),
+  transactionCategory: yup
+    .mixed<WalletTransactionCategory>()
+    .oneOf(['stake', 'unstake', 'approval', 'vote', 'transfer', 'funding', 'reward'])
+    .required(),
+  transactionNote: yup.string().nullable().optional(),
+  blockHeight: yup.number().nullable().optional(),
+});
+
+export const walletTransactionListSchema = yup.array(walletTransactionSchema).required() as unknown as yup.Schema<WalletTransactionDto[]>;
+
+export const walletStakingSummarySchema: yup.ObjectSchema<WalletStakingSummaryDto> = yup.object({
+  currentlyStakedAmount: yup.string().required(),
+  availableForStaking: yup.string().required(),
+  earnedStakingRewards: yup.string().required(),
+  unstakingWaitPeriod: yup.number().required(),
+  nextRewardDistribution: yup.string().nullable().optional(),
+  annualPercentageYield: yup.number().required(),
+});
+
+export const marketPriceSchema: yup.ObjectSchema<MarketPriceDto> = yup.object({
+  symbol: yup.string().required(),
+  usdPrice: yup.number().required(),
+  updatedAt: yup.string().required(),
+});
@@ -0,0 +1,1563 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { randomBytes, verifyMessage } from 'ethers';
+import type {
+  AuthSessionDto,
+  CastVoteRequestDto,
+  CompleteMilestoneRequestDto,
+  CreateDelegationRequestDto,
+  CreateProjectRequestDto,
+  CreateProposalRequestDto,
+  CreateTrancheRequestDto,
+  DelegateDto,
+  DelegationDto,
+  ExecuteProposalRequestDto,
+  FundingTrancheDto,
+  MilestoneVoteRequestDto,
+  NotificationDto,
+  NotificationPreferencesDto,
+  PagedResultDto,
+  ProjectDto,
+  ProjectMilestoneDto,
+  ProjectVoteRequestDto,
+  RegisterRequestDto,
+  SignedBallotDto,
+  SiweSignatureRequestDto,
+  StakeRequestDto,
+  UserDto,
+  UserRole,
+  VoteDto,
+  VotingProposalDto,
+  WalletStakingSummaryDto,
+  WalletTokenBalanceDto,
+  WalletTransactionDto,
+} from './DecVCPlatApiContracts';
+import { createDecVCPlatMockFixtures, DecVCPlatMockFixtures } from './DecVCPlatMockFixtures';
+import { parseDecVCPlatSiweMessage } from '../blockchain/DecVCPlatSiweMessage';
+import { fromDecVCPlatSignedVote, verifyDecVCPlatSignedBallot } from '../blockchain/DecVCPlatSignedBallot';
+import {
+  evaluateDecVCPlatProposal,
+  findDecVCPlatCurrentBallot,
+  getDecVCPlatExecutionBlocker,
+  isDecVCPlatBallotCounted,
+} from '../blockchain/DecVCPlatProposalLifecycle';
+import { evaluateDecVCPlatMilestoneVote, getDecVCPlatMilestoneVoteEndTime } from '../blockchain/DecVCPlatMilestoneVoting';
+import {
+  calculateDecVCPlatStrategyWeight,
+  decvcplatProposalTypeVotingStrategies,
+} from '../blockchain/DecVCPlatVotingStrategy';
+
+interface DecVCPlatMockRequest {
+  params: Record<string, string>;
+  query: Record<string, any>;
+  body: any;
+  user: UserDto | null;
+}
+
+type DecVCPlatMockHandler = (decvcplatRequest: DecVCPlatMockRequest) => unknown;
+
+interface DecVCPlatMockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: DecVCPlatMockHandler;
+}
+
+class DecVCPlatMockHttpError extends Error {
+  readonly status: number;
+  readonly body: Record<string, unknown>;
+
+  constructor(status: number, message: string, extra: Record<string, unknown> = {}) {
+    super(message);
+    this.status = status;
+    this.body = { message, status, ...extra };
+  }
+}
+
+const decvcplatAccessTokenLifetimeMs = 15 * 60 * 1000;
+const decvcplatSiweNonceLifetimeMs = 5 * 60 * 1000;
+const decvcplatMockLatencyMs = Number(process.env.REACT_APP_DECVCPLAT_MOCK_LATENCY_MS ?? 250);
+// Outcomes that depend on the caller's session or on load rather than on the request;
+// the client retries these with the same Idempotency-Key, so they must not be replayed.
+const decvcplatUnreplayableStatuses = [401, 403, 408, 429];
+const decvcplatCompletedTrancheStatuses: FundingTrancheDto['status'][] = ['Released', 'Cancelled', 'Failed'];
+
+const encodeDecVCPlatBase64Url = (decvcplatValue: object): string =>
+  btoa(JSON.stringify(decvcplatValue)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeDecVCPlatBase64Url = (decvcplatValue: string): any =>
+  JSON.parse(atob(decvcplatValue.replace(/-/g, '+').replace(/_/g, '/')));
+
+const paginateDecVCPlatItems = <T>(decvcplatItems: T[], decvcplatQuery: Record<string, any>): PagedResultDto<T> => {
+  const page = Math.max(Number(decvcplatQuery.page) || 1, 1);
+  const pageSize = Math.max(Number(decvcplatQuery.pageSize) || 10, 1);
+  return {
+    items: decvcplatItems.slice((page - 1) * pageSize, page * pageSize),
+    totalCount: decvcplatItems.length,
+    page,
+    pageSize,
+    totalPages: Math.ceil(decvcplatItems.length / pageSize),
+  };
+};
+
+const isDecVCPlatFilterSet = (decvcplatValue: unknown): decvcplatValue is string =>
+  typeof decvcplatValue === 'string' && decvcplatValue !== '' && decvcplatValue !== 'All';
+
+const matchesDecVCPlatSearch = (decvcplatSearch: unknown, ...decvcplatFields: Array<string | undefined>): boolean => {
+  if (typeof decvcplatSearch !== 'string' || decvcplatSearch.trim() === '') {
+    return true;
+  }
+  const decvcplatNeedle = decvcplatSearch.trim().toLowerCase();
+  return decvcplatFields.some((decvcplatField) => decvcplatField?.toLowerCase().includes(decvcplatNeedle));
+};
+
+// In-browser stand-in for the DecVCPlat services. It plugs into axios as an adapter,
+// so requests still pass through the client's interceptors, retries and contract
+// validation exactly as they would against the real gateway.
+export class DecVCPlatMockBackend {
+  private decvcplatData: DecVCPlatMockFixtures = createDecVCPlatMockFixtures();
+  private decvcplatRefreshTokens = new Map<string, string>();
+  private decvcplatNotifications = new Map<string, NotificationDto[]>();
+  private decvcplatPreferences = new Map<string, NotificationPreferencesDto>();
+  private decvcplatWallets = new Map<string, {
+    balances: WalletTokenBalanceDto[];
+    transactions: WalletTransactionDto[];
+    staking: WalletStakingSummaryDto;
+  }>();
+  private decvcplatIdempotentResponses = new Map<string, { status: number; body: unknown }>();
+  private decvcplatSiweNonces = new Map<string, { address: string; expiresAt: number }>();
+  private decvcplatRoutes: DecVCPlatMockRoute[] = [];
+  private decvcplatSequence = 0;
+
+  constructor(private readonly decvcplatLatencyMs: number = decvcplatMockLatencyMs) {
+    this.registerDecVCPlatRoutes();
+  }
+
+  reset(decvcplatNow: Date = new Date()): void {
+    this.decvcplatData = createDecVCPlatMockFixtures(decvcplatNow);
+    this.decvcplatRefreshTokens.clear();
+    this.decvcplatNotifications.clear();
+    this.decvcplatPreferences.clear();
+    this.decvcplatWallets.clear();
+    this.decvcplatIdempotentResponses.clear();
+    this.decvcplatSiweNonces.clear();
+    this.decvcplatSequence = 0;
+  }
+
+  readonly adapter: AxiosAdapter = async (decvcplatConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    if (this.decvcplatLatencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.decvcplatLatencyMs));
+    }
+
+    const decvcplatMethod = (decvcplatConfig.method || 'get').toUpperCase();
+    const decvcplatPath = (decvcplatConfig.url || '').split('?')[0];
+    const decvcplatIdempotencyKey = decvcplatConfig.headers?.['Idempotency-Key'] as string | undefined;
+    const decvcplatReplayKey = decvcplatIdempotencyKey ? `${decvcplatMethod} ${decvcplatPath} ${decvcplatIdempotencyKey}` : null;
+
+    let decvcplatResult: { status: number; body: unknown };
+    const decvcplatReplay = decvcplatReplayKey ? this.decvcplatIdempotentResponses.get(decvcplatReplayKey) : undefined;
+
+    if (decvcplatReplay) {
+      decvcplatResult = decvcplatReplay;
+    } else {
+      decvcplatResult = this.dispatchDecVCPlatRequest(decvcplatMethod, decvcplatPath, decvcplatConfig);
+      if (
+        decvcplatReplayKey
+        && decvcplatResult.status < 500
+        && !decvcplatUnreplayableStatuses.includes(decvcplatResult.status)
+      ) {
+        this.decvcplatIdempotentResponses.set(decvcplatReplayKey, decvcplatResult);
+      }
+    }
+
+    const decvcplatResponse: AxiosResponse = {
+      data: JSON.stringify(decvcplatResult.body),
+      status: decvcplatResult.status,
+      statusText: decvcplatResult.status < 400 ? 'OK' : 'Error',
+      headers: { 'content-type': 'application/json' },
+      config: decvcplatConfig,
+      request: {},
+    };
+
+    if (decvcplatResult.status >= 400) {
+      const decvcplatParsedResponse = { ...decvcplatResponse, data: decvcplatResult.body };
+      throw new AxiosError(
+        `Request failed with status code ${decvcplatResult.status}`,
+        decvcplatResult.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        decvcplatConfig,
+        {},
+        decvcplatParsedResponse
+      );
+    }
+
+    return decvcplatResponse;
+  };
+
+  private dispatchDecVCPlatRequest(
+    decvcplatMethod: string,
+    decvcplatPath: string,
+    decvcplatConfig: InternalAxiosRequestConfig
+  ): { status: number; body: unknown } {
+    try {
+      for (const decvcplatRoute of this.decvcplatRoutes) {
+        const decvcplatMatch = decvcplatRoute.method === decvcplatMethod ? decvcplatRoute.pattern.exec(decvcplatPath) : null;
+        if (!decvcplatMatch) {
+          continue;
+        }
+
+        const params = Object.fromEntries(
+          decvcplatRoute.paramNames.map((decvcplatName, decvcplatIndex) => [decvcplatName, decodeURIComponent(decvcplatMatch[decvcplatIndex + 1])])
+        );
+        const body = typeof decvcplatConfig.data === 'string' && decvcplatConfig.data !== '' ? JSON.parse(decvcplatConfig.data) : decvcplatConfig.data ?? {};
+        const user = this.resolveDecVCPlatUser(decvcplatConfig.headers?.Authorization as string | undefined);
+
+        const decvcplatBody = decvcplatRoute.handler({ params, query: decvcplatConfig.params || {}, body, user });
+        // Snapshot the result so later state changes cannot leak into stored idempotent replays
+        return { status: 200, body: JSON.parse(JSON.stringify(decvcplatBody ?? null)) };
+      }
+
+      throw new DecVCPlatMockHttpError(404, `No mock route for ${decvcplatMethod} ${decvcplatPath}`);
+    } catch (decvcplatError) {
+      if (decvcplatError instanceof DecVCPlatMockHttpError) {
+        return { status: decvcplatError.status, body: decvcplatError.body };
+      }
+      console.error('DecVCPlat mock backend error:', decvcplatError);
+      return { status: 500, body: { message: 'Mock backend failure', status: 500 } };
+    }
+  }
+
+  private route(decvcplatMethod: string, decvcplatPath: string, decvcplatHandler: DecVCPlatMockHandler): void {
+    const paramNames: string[] = [];
+    const decvcplatSource = decvcplatPath.replace(/:([A-Za-z]+)/g, (_, decvcplatName: string) => {
+      paramNames.push(decvcplatName);
+      return '([^/]+)';
+    });
+    this.decvcplatRoutes.push({
+      method: decvcplatMethod,
+      pattern: new RegExp(`^${decvcplatSource}/?$`),
+      paramNames,
+      handler: decvcplatHandler,
+    });
+  }
+
+  private registerDecVCPlatRoutes(): void {
+    // DecVCPlat Authentication Routes
+    this.route('POST', '/auth/login', ({ body }) => {
+      const decvcplatUser = this.decvcplatData.users.find(
+        (candidate) => candidate.email.toLowerCase() === String(body.email || '').toLowerCase()
+      );
+      if (!decvcplatUser || this.decvcplatData.passwords[decvcplatUser.id] !== body.password) {
+        throw new DecVCPlatMockHttpError(401, 'Invalid email or password');
+      }
+      return this.issueDecVCPlatSession(decvcplatUser);
+    });
+
+    this.route('POST', '/auth/register', ({ body }) => {
+      const decvcplatRequest = body as RegisterRequestDto;
+      const decvcplatErrors: Record<string, string[]> = {};
+      if (!decvcplatRequest.email) decvcplatErrors.Email = ['Email is required'];
+      if (!decvcplatRequest.userName) decvcplatErrors.UserName = ['Username is required'];
+      if (!decvcplatRequest.password || decvcplatRequest.password.length < 8) {
+        decvcplatErrors.Password = ['Password must be at least 8 characters'];
+      }
+      if (this.decvcplatData.users.some((candidate) => candidate.email.toLowerCase() === decvcplatRequest.email?.toLowerCase())) {
+        decvcplatErrors.Email = ['Email is already registered'];
+      }
+      this.assertDecVCPlatValid(decvcplatErrors);
+
+      const decvcplatUser: UserDto = {
+        id: this.nextDecVCPlatId('user'),
+        userName: decvcplatRequest.userName,
+        email: decvcplatRequest.email,
+        fullName: decvcplatRequest.fullName,
+        role: decvcplatRequest.role,
+        isWalletVerified: false,
+        createdAt: new Date().toISOString(),
+      };
+      this.decvcplatData.users.push(decvcplatUser);
+      this.decvcplatData.passwords[decvcplatUser.id] = decvcplatRequest.password;
+      return this.issueDecVCPlatSession(decvcplatUser);
+    });
+
+    this.route('POST', '/auth/refresh', ({ body }) => {
+      const decvcplatUserId = this.decvcplatRefreshTokens.get(body.refreshToken);
+      const decvcplatUser = this.decvcplatData.users.find((candidate) => candidate.id === decvcplatUserId);
+      if (!decvcplatUser) {
+        throw new DecVCPlatMockHttpError(401, 'Refresh token is invalid or expired');
+      }
+      this.decvcplatRefreshTokens.delete(body.refreshToken);
+      return this.issueDecVCPlatSession(decvcplatUser);
+    });
+
+    this.route('PUT', '/auth/profile', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      const { id, role, isWalletVerified, createdAt, ...decvcplatChanges } = request.body as Partial<UserDto>;
+      Object.assign(decvcplatUser, decvcplatChanges);
+      return decvcplatUser;
+    });
+
+    this.route('POST', '/auth/siwe/nonce', ({ body }) => {
+      if (!/^0x[0-9a-fA-F]{40}$/.test(String(body.walletAddress || ''))) {
+        this.assertDecVCPlatValid({ WalletAddress: ['Wallet address is not a valid Ethereum address'] });
+      }
+      const decvcplatNonce = Array.from(randomBytes(12), (decvcplatByte) => decvcplatByte.toString(36).padStart(2, '0')).join('');
+      const decvcplatExpiresAt = Date.now() + decvcplatSiweNonceLifetimeMs;
+      this.decvcplatSiweNonces.set(decvcplatNonce, { address: String(body.walletAddress).toLowerCase(), expiresAt: decvcplatExpiresAt });
+      return { nonce: decvcplatNonce, expiresAt: new Date(decvcplatExpiresAt).toISOString() };
+    });
+
+    this.route('POST', '/auth/siwe/login', ({ body }) => {
+      const decvcplatAddress = this.verifyDecVCPlatSiweSignature(body as SiweSignatureRequestDto);
+      const decvcplatUser = this.decvcplatData.users.find(
+        (candidate) => candidate.isWalletVerified && candidate.walletAddress?.toLowerCase() === decvcplatAddress.toLowerCase()
+      );
+      if (!decvcplatUser) {
+        throw new DecVCPlatMockHttpError(401, 'No DecVCPlat account is linked to this wallet');
+      }
+      return this.issueDecVCPlatSession(decvcplatUser);
+    });
+
+    this.route('PUT', '/auth/wallet', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      if (!/^0x[0-9a-fA-F]{40}$/.test(String(request.body.walletAddress || ''))) {
+        this.assertDecVCPlatValid({ WalletAddress: ['Wallet address is not a valid Ethereum address'] });
+      }
+      const decvcplatAddress = this.verifyDecVCPlatSiweSignature(request.body as SiweSignatureRequestDto);
+      if (decvcplatAddress.toLowerCase() !== String(request.body.walletAddress).toLowerCase()) {
+        throw new DecVCPlatMockHttpError(400, 'The signed message does not match the wallet address');
+      }
+      decvcplatUser.walletAddress = decvcplatAddress;
+      decvcplatUser.isWalletVerified = true;
+      return decvcplatUser;
+    });
+
+    // DecVCPlat Project Routes
+    this.route('GET', '/projects', ({ query }) => {
+      this.settleDecVCPlatMilestones();
+      const decvcplatProjects = this.decvcplatData.projects
+        .filter((project) => !isDecVCPlatFilterSet(query.status) || project.status === query.status)
+        .filter((project) => !isDecVCPlatFilterSet(query.category) || project.category === query.category)
+        .filter((project) => matchesDecVCPlatSearch(query.search, project.title, project.description, ...project.tags))
+        .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+      return paginateDecVCPlatItems(decvcplatProjects, query);
+    });
+
+    this.route('GET', '/projects/:id', ({ params }) => {
+      this.settleDecVCPlatMilestones();
+      return this.findDecVCPlatProject(params.id);
+    });
+
+    this.route('POST', '/projects', (request) => {
+      const decvcplatFounder = this.requireDecVCPlatUser(request, ['Founder']);
+      const decvcplatRequest = request.body as CreateProjectRequestDto;
+      this.assertDecVCPlatValid(this.validateDecVCPlatProject(decvcplatRequest));
+
+      const decvcplatNow = new Date().toISOString();
+      const decvcplatProjectId = this.nextDecVCPlatId('project');
+      const decvcplatProject: ProjectDto = {
+        id: decvcplatProjectId,
+        title: decvcplatRequest.title,
+        description: decvcplatRequest.description,
+        fundingGoal: decvcplatRequest.fundingGoal,
+        currentFunding: 0,
+        founderId: decvcplatFounder.id,
+        founderName: decvcplatFounder.fullName,
+        category: decvcplatRequest.category,
+        status: 'Draft',
+        tags: decvcplatRequest.tags || [],
+        documents: [],
+        milestones: this.buildDecVCPlatMilestones(decvcplatProjectId, decvcplatRequest.milestones || []),
+        votes: [],
+        createdAt: decvcplatNow,
+        updatedAt: decvcplatNow,
+        fundingDeadline: decvcplatRequest.fundingDeadline,
+        imageUrl: decvcplatRequest.imageUrl,
+        websiteUrl: decvcplatRequest.websiteUrl,
+        githubUrl: decvcplatRequest.githubUrl,
+        pitchDeckUrl: decvcplatRequest.pitchDeckUrl,
+      };
+      this.decvcplatData.projects.unshift(decvcplatProject);
+      return decvcplatProject;
+    });
+
+    this.route('PUT', '/projects/:id', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request, ['Founder']);
+      const decvcplatProject = this.findDecVCPlatProject(request.params.id);
+      if (decvcplatProject.founderId !== decvcplatUser.id) {
+        throw new DecVCPlatMockHttpError(403, 'Only the project founder can update this project');
+      }
+
+      const decvcplatRequest = request.body as Partial<CreateProjectRequestDto>;
+      this.assertDecVCPlatValid(this.validateDecVCPlatProject({ ...decvcplatProject, ...decvcplatRequest } as CreateProjectRequestDto));
+
+      const { milestones, ...decvcplatChanges } = decvcplatRequest;
+      Object.assign(decvcplatProject, decvcplatChanges, { updatedAt: new Date().toISOString() });
+      if (milestones) {
+        decvcplatProject.milestones = this.buildDecVCPlatMilestones(decvcplatProject.id, milestones);
+      }
+      return decvcplatProject;
+    });
+
+    this.route('POST', '/projects/:id/vote', (request) => {
+      const decvcplatVoter = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatProject = this.findDecVCPlatProject(request.params.id);
+      const decvcplatRequest = request.body as ProjectVoteRequestDto;
+
+      if (!['Submitted', 'UnderReview'].includes(decvcplatProject.status)) {
+        throw new DecVCPlatMockHttpError(400, 'Project is not open for voting');
+      }
+      if (decvcplatProject.votes.some((vote) => vote.userId === decvcplatVoter.id)) {
+        throw new DecVCPlatMockHttpError(400, 'You have already voted on this project');
+      }
+
+      const decvcplatVote = {
+        id: this.nextDecVCPlatId('project-vote'),
+        projectId: decvcplatProject.id,
+        userId: decvcplatVoter.id,
+        userName: decvcplatVoter.fullName,
+        voteType: decvcplatRequest.voteType,
+        stakedTokens: decvcplatRequest.stakedTokens || 0,
+        comment: decvcplatRequest.comment,
+        createdAt: new Date().toISOString(),
+      };
+      decvcplatProject.votes.push(decvcplatVote);
+      return decvcplatVote;
+    });
+
+    // Mirrors DecVCPlatGovernance.completeMilestone: only the founder can mark a
+    // milestone complete, which opens its 3-day approval vote
+    this.route('POST', '/projects/:id/milestones/:milestoneId/complete', (request) => {
+      const decvcplatFounder = this.requireDecVCPlatUser(request, ['Founder']);
+      const decvcplatRequest = request.body as CompleteMilestoneRequestDto;
+      this.settleDecVCPlatMilestones();
+      const decvcplatProject = this.findDecVCPlatProject(request.params.id);
+      const decvcplatMilestone = this.findDecVCPlatMilestone(decvcplatProject, request.params.milestoneId);
+
+      if (decvcplatProject.founderId !== decvcplatFounder.id) {
+        throw new DecVCPlatMockHttpError(403, 'Only the project founder can complete its milestones');
+      }
+      if (decvcplatMilestone.voteEndTime || !['Pending', 'InProgress'].includes(decvcplatMilestone.status)) {
+        throw new DecVCPlatMockHttpError(400, 'Milestone has already been marked complete');
+      }
+      if (!decvcplatRequest.evidence || decvcplatRequest.evidence.trim().length < 20) {
+        this.assertDecVCPlatValid({ Evidence: ['Describe the completion evidence in at least 20 characters'] });
+      }
+
+      const decvcplatNow = new Date();
+      decvcplatMilestone.status = 'Completed';
+      decvcplatMilestone.completedAt = decvcplatNow.toISOString();
+      decvcplatMilestone.completionEvidence = decvcplatRequest.evidence.trim();
+      decvcplatMilestone.evidenceUrl = decvcplatRequest.evidenceUrl || decvcplatMilestone.evidenceUrl;
+      decvcplatMilestone.voteEndTime = getDecVCPlatMilestoneVoteEndTime(decvcplatNow).toISOString();
+      decvcplatMilestone.approvalVotes = 0;
+      decvcplatMilestone.rejectionVotes = 0;
+      decvcplatMilestone.votes = [];
+      decvcplatProject.updatedAt = decvcplatNow.toISOString();
+
+      this.decvcplatData.tranches
+        .filter((tranche) => tranche.milestoneId === decvcplatMilestone.id && !decvcplatCompletedTrancheStatuses.includes(tranche.status))
+        .forEach((tranche) => {
+          tranche.isMilestoneCompleted = true;
+          tranche.status = 'AwaitingApproval';
+        });
+
+      this.decvcplatData.users
+        .filter((user) => user.role === 'Investor' || user.role === 'Luminary')
+        .forEach((user) => this.notifyDecVCPlatUser(user.id, {
+          title: 'Milestone ready for approval',
+          message: `${decvcplatProject.title} marked "${decvcplatMilestone.title}" complete. Approve or reject it before ${new Date(decvcplatMilestone.voteEndTime!).toLocaleDateString()}.`,
+          type: 'MilestoneComplete',
+          actionUrl: `/projects/${decvcplatProject.id}`,
+          actionText: 'Review Milestone',
+          metadata: { projectId: decvcplatProject.id, milestoneId: decvcplatMilestone.id },
+        }));
+      return decvcplatProject;
+    });
+
+    // Mirrors DecVCPlatGovernance.voteOnMilestone: one ballot per staker, weighted by
+    // their own stake, and funding is released as soon as approvals lead
+    this.route('POST', '/projects/:id/milestones/:milestoneId/votes', (request) => {
+      const decvcplatVoter = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatRequest = request.body as MilestoneVoteRequestDto;
+      this.settleDecVCPlatMilestones();
+      const decvcplatProject = this.findDecVCPlatProject(request.params.id);
+      const decvcplatMilestone = this.findDecVCPlatMilestone(decvcplatProject, request.params.milestoneId);
+
+      const decvcplatEvaluation = evaluateDecVCPlatMilestoneVote(decvcplatMilestone);
+      if (!decvcplatEvaluation.votingStarted) {
+        throw new DecVCPlatMockHttpError(400, 'Milestone has not been marked complete yet');
+      }
+      if (!decvcplatEvaluation.votingOpen) {
+        throw new DecVCPlatMockHttpError(400, 'Milestone voting period has ended');
+      }
+      if ((decvcplatMilestone.votes || []).some((vote) => vote.userId === decvcplatVoter.id)) {
+        throw new DecVCPlatMockHttpError(400, 'You have already voted on this milestone');
+      }
+      const decvcplatStaked = this.getDecVCPlatVotingPower(decvcplatVoter.id).staked;
+      if (!(decvcplatStaked > 0)) {
+        throw new DecVCPlatMockHttpError(400, 'Stake DVCP for voting before voting on milestones');
+      }
+
+      const decvcplatNow = new Date().toISOString();
+      decvcplatMilestone.votes = [...(decvcplatMilestone.votes || []), {
+        id: this.nextDecVCPlatId('milestone-vote'),
+        milestoneId: decvcplatMilestone.id,
+        userId: decvcplatVoter.id,
+        userName: decvcplatVoter.fullName,
+        approve: Boolean(decvcplatRequest.approve),
+        votingPower: decvcplatStaked,
+        timestamp: decvcplatNow,
+        transactionHash: decvcplatRequest.transactionHash,
+      }];
+      if (decvcplatRequest.approve) {
+        decvcplatMilestone.approvalVotes = (decvcplatMilestone.approvalVotes ?? 0) + decvcplatStaked;
+      } else {
+        decvcplatMilestone.rejectionVotes = (decvcplatMilestone.rejectionVotes ?? 0) + decvcplatStaked;
+      }
+      decvcplatProject.updatedAt = decvcplatNow;
+
+      if (decvcplatMilestone.status === 'Completed' && evaluateDecVCPlatMilestoneVote(decvcplatMilestone).approvalLeading) {
+        this.releaseDecVCPlatMilestoneFunding(decvcplatProject, decvcplatMilestone, decvcplatRequest.transactionHash);
+      }
+      return decvcplatProject;
+    });
+
+    // DecVCPlat Voting Routes
+    this.route('GET', '/voting/proposals', ({ query }) => {
+      this.settleDecVCPlatProposals();
+      const decvcplatProposals = this.decvcplatData.proposals
+        .filter((proposal) => !isDecVCPlatFilterSet(query.status) || proposal.status === query.status)
+        .filter((proposal) => !isDecVCPlatFilterSet(query.type) || proposal.proposalType === query.type)
+        .filter((proposal) => matchesDecVCPlatSearch(query.search, proposal.title, proposal.description))
+        .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+      return paginateDecVCPlatItems(decvcplatProposals, query);
+    });
+
+    this.route('GET', '/voting/proposals/:id', ({ params }) => {
+      this.settleDecVCPlatProposals();
+      return this.findDecVCPlatProposal(params.id);
+    });
+
+    this.route('POST', '/voting/proposals', (request) => {
+      const decvcplatProposer = this.requireDecVCPlatUser(request, ['Luminary']);
+      const decvcplatRequest = request.body as CreateProposalRequestDto;
+      const decvcplatErrors: Record<string, string[]> = {};
+      if (!decvcplatRequest.title || decvcplatRequest.title.trim().length < 5) {
+        decvcplatErrors.Title = ['Title must be at least 5 characters'];
+      }
+      if (!decvcplatRequest.description || decvcplatRequest.description.trim().length < 20) {
+        decvcplatErrors.Description = ['Description must be at least 20 characters'];
+      }
+      this.assertDecVCPlatValid(decvcplatErrors);
+
+      const decvcplatNow = new Date();
+      const decvcplatEndTime = new Date(decvcplatNow.getTime() + (decvcplatRequest.votingPeriod || 7) * 24 * 60 * 60 * 1000);
+      const decvcplatProposal: VotingProposalDto = {
+        id: this.nextDecVCPlatId('proposal'),
+        title: decvcplatRequest.title,
+        description: decvcplatRequest.description,
+        proposerId: decvcplatProposer.id,
+        proposerName: decvcplatProposer.fullName,
+        projectId: decvcplatRequest.projectId,
+        proposalType: decvcplatRequest.proposalType,
+        status: 'Active',
+        startTime: decvcplatNow.toISOString(),
+        endTime: decvcplatEndTime.toISOString(),
+        quorumThreshold: 10000,
+        approvalThreshold: 51,
+        totalStaked: 0,
+        votingStrategy: decvcplatProposalTypeVotingStrategies[decvcplatRequest.proposalType] ?? 'Linear',
+        forVotes: 0,
+        againstVotes: 0,
+        abstainVotes: 0,
+        participation: 0,
+        executionData: decvcplatRequest.executionData,
+        createdAt: decvcplatNow.toISOString(),
+        updatedAt: decvcplatNow.toISOString(),
+      };
+      this.decvcplatData.proposals.unshift(decvcplatProposal);
+      return decvcplatProposal;
+    });
+
+    // Records an execution sent from the wallet, or executes off-chain when no
+    // transaction hash is given. A FundingRelease proposal releases its tranche.
+    this.route('POST', '/voting/proposals/:id/execute', (request) => {
+      const decvcplatExecutor = this.requireDecVCPlatUser(request, ['Luminary']);
+      const decvcplatRequest = request.body as ExecuteProposalRequestDto;
+      this.settleDecVCPlatProposals();
+      const decvcplatProposal = this.findDecVCPlatProposal(request.params.id);
+
+      const decvcplatBlocker = getDecVCPlatExecutionBlocker(decvcplatProposal);
+      if (decvcplatBlocker) {
+        throw new DecVCPlatMockHttpError(400, decvcplatBlocker);
+      }
+      if (decvcplatRequest.transactionHash !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(decvcplatRequest.transactionHash)) {
+        this.assertDecVCPlatValid({ TransactionHash: ['Transaction hash must be a 32-byte hex string'] });
+      }
+
+      const decvcplatTranche = decvcplatProposal.proposalType === 'FundingRelease' && decvcplatProposal.projectId
+        ? this.findDecVCPlatReleasableTranche(decvcplatProposal.projectId, decvcplatProposal.executionData ?? undefined)
+        : undefined;
+      const decvcplatNow = new Date().toISOString();
+      const decvcplatTransactionHash = decvcplatRequest.transactionHash ?? this.createDecVCPlatMockTransactionHash();
+
+      if (decvcplatTranche) {
+        decvcplatTranche.status = 'Released';
+        decvcplatTranche.isLuminaryApproved = true;
+        decvcplatTranche.actualReleaseDate = decvcplatNow;
+        decvcplatTranche.releaseTransactionHash = decvcplatTransactionHash;
+        this.updateDecVCPlatMilestoneStatus(decvcplatTranche, 'FundingReleased');
+        this.findDecVCPlatProject(decvcplatTranche.projectId).currentFunding += decvcplatTranche.amount;
+      }
+
+      decvcplatProposal.status = 'Executed';
+      decvcplatProposal.executedAt = decvcplatNow;
+      decvcplatProposal.executionTransactionHash = decvcplatTransactionHash;
+      decvcplatProposal.executedTrancheId = decvcplatTranche?.id;
+      decvcplatProposal.updatedAt = decvcplatNow;
+
+      const decvcplatRecipients = new Set([
+        decvcplatProposal.proposerId,
+        ...this.decvcplatData.votes
+          .filter((vote) => vote.proposalId === decvcplatProposal.id && isDecVCPlatBallotCounted(vote))
+          .map((vote) => vote.userId),
+      ]);
+      decvcplatRecipients.delete(decvcplatExecutor.id);
+      decvcplatRecipients.forEach((decvcplatUserId) => this.notifyDecVCPlatUser(decvcplatUserId, {
+        title: 'Proposal Executed',
+        message: decvcplatTranche
+          ? `"${decvcplatProposal.title}" was executed by ${decvcplatExecutor.fullName}, releasing ${decvcplatTranche.title} ($${decvcplatTranche.amount.toLocaleString()}).`
+          : `"${decvcplatProposal.title}" was executed by ${decvcplatExecutor.fullName}.`,
+        type: decvcplatTranche ? 'FundingRelease' : 'VotingResult',
+        actionUrl: '/voting',
+        actionText: 'View Proposal',
+        metadata: {
+          proposalId: decvcplatProposal.id,
+          transactionHash: decvcplatTransactionHash,
+          ...(decvcplatTranche ? { trancheId: decvcplatTranche.id } : {}),
+        },
+      }));
+
+      return { proposal: decvcplatProposal, tranche: decvcplatTranche };
+    });
+
+    this.route('POST', '/voting/stake', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      const decvcplatRequest = request.body as StakeRequestDto;
+      if (!(decvcplatRequest.amount > 0)) {
+        this.assertDecVCPlatValid({ Amount: ['Stake amount must be greater than zero'] });
+      }
+
+      const decvcplatStake = {
+        id: this.nextDecVCPlatId('stake'),
+        userId: decvcplatUser.id,
+        proposalId: decvcplatRequest.proposalId || 'general',
+        amount: decvcplatRequest.amount,
+        lockPeriod: decvcplatRequest.lockPeriod || 30,
+        stakedAt: new Date().toISOString(),
+        rewardsClaimed: 0,
+        isActive: true,
+      };
+      this.decvcplatData.stakes.push(decvcplatStake);
+      return decvcplatStake;
+    });
+
+    this.route('POST', '/voting/vote', (request) => {
+      const decvcplatVoter = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatRequest = request.body as CastVoteRequestDto;
+      const decvcplatProposal = this.findDecVCPlatOpenProposal(decvcplatRequest.proposalId);
+
+      if (this.findDecVCPlatCurrentVote(decvcplatProposal.id, decvcplatVoter.id)) {
+        throw new DecVCPlatMockHttpError(400, 'You have already voted on this proposal');
+      }
+
+      const decvcplatVote = this.createDecVCPlatVote(decvcplatVoter, decvcplatProposal, decvcplatRequest);
+      this.decvcplatData.votes.push(decvcplatVote);
+      this.tallyDecVCPlatVote(decvcplatProposal, decvcplatVote, 1);
+      this.notifyDecVCPlatDelegators(decvcplatVoter, decvcplatProposal, `voted ${decvcplatVote.choice} on`, decvcplatVote.choice);
+      return decvcplatVote;
+    });
+
+    // Changing a vote replaces the current ballot rather than adding a second one:
+    // the old ballot leaves the tallies but is kept, linked to its replacement
+    this.route('PUT', '/voting/proposals/:id/vote', (request) => {
+      const decvcplatVoter = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatRequest = { ...(request.body as CastVoteRequestDto), proposalId: request.params.id };
+      const decvcplatProposal = this.findDecVCPlatOpenProposal(decvcplatRequest.proposalId);
+
+      const decvcplatPreviousVote = this.findDecVCPlatCurrentVote(decvcplatProposal.id, decvcplatVoter.id);
+      if (!decvcplatPreviousVote) {
+        throw new DecVCPlatMockHttpError(400, 'You have not voted on this proposal yet');
+      }
+      if (decvcplatRequest.signedBallot && this.decvcplatData.votes.some(
+        (vote) => vote.signedBallot?.signature === decvcplatRequest.signedBallot!.signature
+      )) {
+        throw new DecVCPlatMockHttpError(400, 'This signed ballot has already been submitted');
+      }
+
+      // Lift the old ballot out first so its stake is free to back the new one
+      this.tallyDecVCPlatVote(decvcplatProposal, decvcplatPreviousVote, -1);
+      let decvcplatVote: VoteDto;
+      try {
+        decvcplatVote = this.createDecVCPlatVote(decvcplatVoter, decvcplatProposal, decvcplatRequest);
+      } catch (decvcplatError) {
+        this.tallyDecVCPlatVote(decvcplatProposal, decvcplatPreviousVote, 1);
+        throw decvcplatError;
+      }
+      decvcplatPreviousVote.replacedAt = decvcplatVote.timestamp;
+      decvcplatPreviousVote.replacedByVoteId = decvcplatVote.id;
+      this.decvcplatData.votes.push(decvcplatVote);
+      this.tallyDecVCPlatVote(decvcplatProposal, decvcplatVote, 1);
+      this.notifyDecVCPlatDelegators(
+        decvcplatVoter,
+        decvcplatProposal,
+        `changed their vote from ${decvcplatPreviousVote.choice} to ${decvcplatVote.choice} on`,
+        decvcplatVote.choice
+      );
+      return { proposal: decvcplatProposal, previousVote: decvcplatPreviousVote, vote: decvcplatVote };
+    });
+
+    this.route('DELETE', '/voting/proposals/:id/vote', (request) => {
+      const decvcplatVoter = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatProposal = this.findDecVCPlatOpenProposal(request.params.id);
+
+      const decvcplatPreviousVote = this.findDecVCPlatCurrentVote(decvcplatProposal.id, decvcplatVoter.id);
+      if (!decvcplatPreviousVote) {
+        throw new DecVCPlatMockHttpError(400, 'You have not voted on this proposal yet');
+      }
+
+      decvcplatPreviousVote.withdrawnAt = new Date().toISOString();
+      this.tallyDecVCPlatVote(decvcplatProposal, decvcplatPreviousVote, -1);
+      this.notifyDecVCPlatDelegators(decvcplatVoter, decvcplatProposal, 'withdrew their vote on');
+      return { proposal: decvcplatProposal, previousVote: decvcplatPreviousVote };
+    });
+
+    this.route('GET', '/voting/votes', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      return this.decvcplatData.votes
+        .filter((vote) => vote.userId === decvcplatUser.id)
+        .sort((left, right) => right.timestamp.localeCompare(left.timestamp));
+    });
+
+    // Public: a receipt is meant to be checked by anyone, signed in or not
+    this.route('GET', '/voting/ballots/:ballotHash', ({ params }) => {
+      this.settleDecVCPlatProposals();
+      const decvcplatVote = this.decvcplatData.votes.find(
+        (vote) => vote.ballotHash?.toLowerCase() === params.ballotHash.toLowerCase()
+      );
+      if (!decvcplatVote) {
+        throw new DecVCPlatMockHttpError(404, 'Ballot not found');
+      }
+      return {
+        vote: decvcplatVote,
+        proposal: this.findDecVCPlatProposal(decvcplatVote.proposalId),
+        ballots: this.decvcplatData.votes.filter((vote) => vote.proposalId === decvcplatVote.proposalId && vote.signedBallot),
+      };
+    });
+
+    this.route('GET', '/voting/stats', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      this.settleDecVCPlatProposals();
+      const decvcplatStakes = this.decvcplatData.stakes.filter((stake) => stake.userId === decvcplatUser.id);
+      const decvcplatPower = this.getDecVCPlatVotingPower(decvcplatUser.id);
+
+      return {
+        totalStaked: decvcplatPower.staked,
+        totalVotingPower: decvcplatPower.staked - decvcplatPower.delegated + decvcplatPower.received,
+        activeProposals: this.decvcplatData.proposals.filter((proposal) => proposal.status === 'Active').length,
+        votesCast: this.decvcplatData.votes.filter((vote) => vote.userId === decvcplatUser.id && isDecVCPlatBallotCounted(vote)).length,
+        proposalsCreated: this.decvcplatData.proposals.filter((proposal) => proposal.proposerId === decvcplatUser.id).length,
+        rewardsEarned: decvcplatStakes.reduce((decvcplatTotal, stake) => decvcplatTotal + stake.rewardsClaimed, 0),
+        delegatedPower: decvcplatPower.delegated,
+        receivedPower: decvcplatPower.received,
+        stakeAgeDays: this.getDecVCPlatStakeAgeDays(decvcplatUser.id),
+      };
+    });
+
+    this.route('GET', '/voting/delegates', (request) => {
+      this.requireDecVCPlatUser(request);
+      return this.decvcplatData.users
+        .filter((user) => user.role === 'Luminary')
+        .map((user): DelegateDto => {
+          const decvcplatReceived = this.getDecVCPlatActiveDelegations({ delegateId: user.id });
+          return {
+            userId: user.id,
+            fullName: user.fullName,
+            userName: user.userName,
+            walletAddress: user.walletAddress,
+            bio: user.bio,
+            delegatorCount: new Set(decvcplatReceived.map((delegation) => delegation.delegatorId)).size,
+            receivedPower: decvcplatReceived.reduce((decvcplatTotal, delegation) => decvcplatTotal + delegation.amount, 0),
+            votesCast: this.decvcplatData.votes.filter((vote) => vote.userId === user.id && isDecVCPlatBallotCounted(vote)).length,
+          };
+        });
+    });
+
+    this.route('GET', '/voting/delegations', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      return this.decvcplatData.delegations
+        .filter((delegation) => delegation.delegatorId === decvcplatUser.id || delegation.delegateId === decvcplatUser.id)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    });
+
+    this.route('POST', '/voting/delegations', (request) => {
+      const decvcplatDelegator = this.requireDecVCPlatUser(request, ['Investor', 'Luminary']);
+      const decvcplatRequest = request.body as CreateDelegationRequestDto;
+      const decvcplatDelegate = this.decvcplatData.users.find((user) => user.id === decvcplatRequest.delegateId);
+      const decvcplatPower = this.getDecVCPlatVotingPower(decvcplatDelegator.id);
+      // Stake already backing the delegator's ballot on an open proposal would count
+      // again on the delegate's ballot there, so it cannot be handed over until then
+      const decvcplatCommitted = Math.max(
+        0,
+        ...this.getDecVCPlatOpenBallots(decvcplatDelegator.id).map(({ vote }) => vote.stakedAmount)
+      );
+      const decvcplatAvailable = Math.max(decvcplatPower.staked - decvcplatPower.delegated - decvcplatCommitted, 0);
+
+      const decvcplatErrors: Record<string, string[]> = {};
+      if (!decvcplatDelegate || decvcplatDelegate.role !== 'Luminary') {
+        decvcplatErrors.DelegateId = ['Voting power can only be delegated to a Luminary'];
+      } else if (decvcplatDelegate.id === decvcplatDelegator.id) {
+        decvcplatErrors.DelegateId = ['You cannot delegate voting power to yourself'];
+      }
+      if (!(decvcplatRequest.amount > 0)) {
+        decvcplatErrors.Amount = ['Delegated amount must be greater than zero'];
+      } else if (decvcplatRequest.amount > decvcplatAvailable) {
+        decvcplatErrors.Amount = [decvcplatCommitted > 0
+          ? `Only ${decvcplatAvailable.toLocaleString()} DVCP is available to delegate; ${decvcplatCommitted.toLocaleString()} DVCP backs your ballots on open proposals`
+          : `Only ${decvcplatAvailable.toLocaleString()} DVCP of staked voting power is available to delegate`];
+      }
+      this.assertDecVCPlatValid(decvcplatErrors);
+
+      const decvcplatDelegation: DelegationDto = {
+        id: this.nextDecVCPlatId('delegation'),
+        delegatorId: decvcplatDelegator.id,
+        delegatorName: decvcplatDelegator.fullName,
+        delegateId: decvcplatDelegate!.id,
+        delegateName: decvcplatDelegate!.fullName,
+        amount: decvcplatRequest.amount,
+        status: 'Active',
+        reason: decvcplatRequest.reason,
+        createdAt: new Date().toISOString(),
+      };
+      this.decvcplatData.delegations.unshift(decvcplatDelegation);
+      this.retallyDecVCPlatDelegateBallots(decvcplatDelegation.delegateId);
+      return decvcplatDelegation;
+    });
+
+    this.route('POST', '/voting/delegations/:id/revoke', (request) => {
+      const decvcplatUser = this.requireDecVCPlatUser(request);
+      const decvcplatDelegation = this.decvcplatData.delegations.find((delegation) => delegation.id === request.params.id);
+      if (!decvcplatDelegation) {
+        throw new DecVCPlatMockHttpError(404, 'Delegation not found');
+      }
+      if (decvcplatDelegation.delegatorId !== decvcplatUser.id) {
+        throw new DecVCPlatMockHttpError(403, 'Only the delegator can revoke a delegation');
+      }
+      if (decvcplatDelegation.status === 'Revoked') {
+        throw new DecVCPlatMockHttpError(400, 'Delegation is already revoked');
+      }
+
+      decvcplatDelegation.status = 'Revoked';
+      decvcplatDelegation.revokedAt = new Date().toISOString();
+      this.retallyDecVCPlatDelegateBallots(decvcplatDelegation.delegateId);
+      return decvcplatDelegation;
+    });
+
+    // DecVCPlat Funding Routes
+    this.route('GET', '/funding/tranches', ({ query }) =>
+      this.decvcplatData.tranches
+        .filter((tranche) => !isDecVCPlatFilterSet(query.projectId) || tranche.projectId === query.projectId)
+        .filter((tranche) => !isDecVCPlatFilterSet(query.status) || tranche.status === query.status)
+        .sort((left, right) => left.projectId.localeCompare(right.projectId) || left.trancheNumber - right.trancheNumber)
+    );
+
+    this.route('POST', '/funding/tranches', (request) => {
+      this.requireDecVCPlatUser(request, ['Founder', 'Luminary']);
+      const decvcplatRequest = request.body as CreateTrancheRequestDto;
+      this.findDecVCPlatProject(decvcplatRequest.projectId);
+      if (!(decvcplatRequest.amount > 0)) {
+        this.assertDecVCPlatValid({ Amount: ['Tranche amount must be greater than zero'] });
+      }
+
+      const decvcplatTranche: FundingTrancheDto = {
+        id: this.nextDecVCPlatId('tranche'),
+        ...decvcplatRequest,
+        status: 'Pending',
+        isMilestoneCompleted: false,
+        isLuminaryApproved: false,
+      };
+      this.decvcplatData.tranches.push(decvcplatTranche);
+      return decvcplatTranche;
+    });
+
+    this.route('POST', '/funding/approve', (request) => {
+      this.requireDecVCPlatUser(request, ['Luminary']);
+      const decvcplatTranche = this.findDecVCPlatTranche(request.body.trancheId);
+      if (decvcplatCompletedTrancheStatuses.includes(decvcplatTranche.status) || decvcplatTranche.status === 'Approved') {
+        throw new DecVCPlatMockHttpError(400, `Tranche is already ${decvcplatTranche.status}`);
+      }
+
+      decvcplatTranche.isLuminaryApproved = Boolean(request.body.isApproved);
+      decvcplatTranche.status = request.body.isApproved ? 'Approved' : 'Disputed';
+      this.updateDecVCPlatMilestoneStatus(decvcplatTranche, request.body.isApproved ? 'Approved' : 'Rejected');
+      return decvcplatTranche;
+    });
+
+    this.route('POST', '/funding/release', (request) => {
+      this.requireDecVCPlatUser(request, ['Luminary']);
+      const decvcplatTranche = this.findDecVCPlatTranche(request.body.trancheId);
+      if (decvcplatTranche.status !== 'Approved') {
+        throw new DecVCPlatMockHttpError(400, 'Tranche must be approved before funds can be released');
+      }
+
+      decvcplatTranche.status = 'Released';
+      decvcplatTranche.actualReleaseDate = new Date().toISOString();
+      decvcplatTranche.releaseTransactionHash = this.createDecVCPlatMockTransactionHash();
+      this.updateDecVCPlatMilestoneStatus(decvcplatTranche, 'FundingReleased');
+      this.findDecVCPlatProject(decvcplatTranche.projectId).currentFunding += decvcplatTranche.amount;
+
+      return {
+        message: 'Funds released successfully',
+        trancheId: decvcplatTranche.id,
+        status: decvcplatTranche.status,
+        transactionHash: decvcplatTranche.releaseTransactionHash,
+      };
+    });
+
+    // DecVCPlat Notification Routes
+    this.route('GET', '/notifications', (request) => {
+      const decvcplatNotifications = this.getDecVCPlatNotifications(this.requireDecVCPlatUser(request));
+      const { query } = request;
+      const decvcplatFiltered = decvcplatNotifications
+        .filter((notification) => !notification.isArchived)
+        .filter((notification) => !isDecVCPlatFilterSet(query.type) || notification.type === query.type)
+        .filter((notification) => !isDecVCPlatFilterSet(query.priority) || notification.priority === query.priority)
+        .filter((notification) => query.isRead === undefined || notification.isRead === (query.isRead === true || query.isRead === 'true'));
+
+      return {
+        ...paginateDecVCPlatItems(decvcplatFiltered, { pageSize: 20, ...query }),
+        unreadCount: decvcplatNotifications.filter((notification) => !notification.isRead && !notification.isArchived).length,
+      };
+    });
+
+    this.route('POST', '/notifications/mark-read', (request) => {
+      const decvcplatReadAt = new Date().toISOString();
+      this.getDecVCPlatNotifications(this.requireDecVCPlatUser(request))
+        .filter((notification) => (request.body.notificationIds || []).includes(notification.id) && !notification.isRead)
+        .forEach((notification) => {
+          notification.isRead = true;
+          notification.readAt = decvcplatReadAt;
+        });
+      return { message: 'Notifications marked as read' };
+    });
+
+    this.route('PUT', '/notifications/read-all', (request) => {
+      const decvcplatReadAt = new Date().toISOString();
+      this.getDecVCPlatNotifications(this.requireDecVCPlatUser(request))
+        .filter((notification) => !notification.isRead)
+        .forEach((notification) => {
+          notification.isRead = true;
+          notification.readAt = decvcplatReadAt;
+        });
+      return { message: 'All notifications marked as read' };
+    });
+
+    this.route('POST', '/notifications/archive', (request) => {
+      this.getDecVCPlatNotifications(this.requireDecVCPlatUser(request))
+        .filter((notification) => (request.body.notificationIds || []).includes(notification.id))
+        .forEach((notification) => {
+          notification.isArchived = true;
+        });
+      return { message: 'Notifications archived' };
+    });
+
+    this.route('GET', '/notifications/preferences', (request) =>
+      this.getDecVCPlatPreferences(this.requireDecVCPlatUser(request))
+    );
+
+    this.route('PUT', '/notifications/preferences', (request) => {
+      const decvcplatPreferences = this.getDecVCPlatPreferences(this.requireDecVCPlatUser(request));
+      Object.assign(decvcplatPreferences, request.body);
+      return decvcplatPreferences;
+    });
+
+    // DecVCPlat Wallet Routes
+    this.route('GET', '/wallet/:address/balances', ({ params }) => this.getDecVCPlatWallet(params.address).balances);
+    this.route('GET', '/wallet/:address/transactions', ({ params }) => this.getDecVCPlatWallet(params.address).transactions);
+    this.route('GET', '/wallet/:address/staking', ({ params }) => this.getDecVCPlatWallet(params.address).staking);
+
+    // DecVCPlat Market Routes
+    this.route('GET', '/market/prices/:symbol', ({ params }) => {
+      const decvcplatPrice = this.decvcplatData.marketPrices.find(
+        (price) => price.symbol.toUpperCase() === params.symbol.toUpperCase()
+      );
+      if (!decvcplatPrice) {
+        throw new DecVCPlatMockHttpError(404, `No market price for ${params.symbol}`);
+      }
+      return decvcplatPrice;
+    });
+  }
+
+  private issueDecVCPlatSession(decvcplatUser: UserDto): AuthSessionDto {
+    const decvcplatExpiry = Date.now() + decvcplatAccessTokenLifetimeMs;
+    const token = [
+      encodeDecVCPlatBase64Url({ alg: 'none', typ: 'JWT' }),
+      encodeDecVCPlatBase64Url({
+        sub: decvcplatUser.id,
+        user_id: decvcplatUser.id,
+        email: decvcplatUser.email,
+        role: decvcplatUser.role,
+        wallet_verified: decvcplatUser.isWalletVerified,
+        exp: Math.floor(decvcplatExpiry / 1000),
+      }),
+      'mock',
+    ].join('.');
+    const refreshToken = this.nextDecVCPlatId('refresh');
+    this.decvcplatRefreshTokens.set(refreshToken, decvcplatUser.id);
+
+    return {
+      token,
+      refreshToken,
+      tokenExpiration: new Date(decvcplatExpiry).toISOString(),
+      user: decvcplatUser,
+    };
+  }
+
+  // Returns the checksummed signer once the message, signature and nonce all hold;
+  // the nonce is consumed either way so a captured signature cannot be replayed.
+  private verifyDecVCPlatSiweSignature(decvcplatRequest: SiweSignatureRequestDto): string {
+    let decvcplatFields: ReturnType<typeof parseDecVCPlatSiweMessage>;
+    try {
+      decvcplatFields = parseDecVCPlatSiweMessage(String(decvcplatRequest.message || ''));
+    } catch {
+      throw new DecVCPlatMockHttpError(400, 'Sign-in message is not a valid EIP-4361 message');
+    }
+
+    const decvcplatNonce = this.decvcplatSiweNonces.get(decvcplatFields.nonce);
+    this.decvcplatSiweNonces.delete(decvcplatFields.nonce);
+    if (!decvcplatNonce || decvcplatNonce.expiresAt <= Date.now() || decvcplatNonce.address !== decvcplatFields.address.toLowerCase()) {
+      throw new DecVCPlatMockHttpError(401, 'Sign-in nonce is invalid or expired');
+    }
+    if (decvcplatFields.expirationTime && new Date(decvcplatFields.expirationTime).getTime() <= Date.now()) {
+      throw new DecVCPlatMockHttpError(401, 'Sign-in message has expired');
+    }
+
+    let decvcplatSigner: string;
+    try {
+      decvcplatSigner = verifyMessage(decvcplatRequest.message, decvcplatRequest.signature);
+    } catch {
+      throw new DecVCPlatMockHttpError(401, 'Signature could not be verified');
+    }
+    if (decvcplatSigner !== decvcplatFields.address) {
+      throw new DecVCPlatMockHttpError(401, 'Signature was not produced by the wallet in the message');
+    }
+    return decvcplatSigner;
+  }
+
+  // Expired or malformed tokens resolve to no user, which protected routes turn into
+  // a 401 so the client's refresh flow runs just as it would against the gateway.
+  private resolveDecVCPlatUser(decvcplatAuthorization?: string): UserDto | null {
+    const decvcplatToken = decvcplatAuthorization?.replace(/^Bearer\s+/i, '');
+    if (!decvcplatToken) {
+      return null;
+    }
+
+    try {
+      const decvcplatPayload = decodeDecVCPlatBase64Url(decvcplatToken.split('.')[1]);
+      if (decvcplatPayload.exp * 1000 <= Date.now()) {
+        return null;
+      }
+      return this.decvcplatData.users.find((candidate) => candidate.id === decvcplatPayload.user_id) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Checks an off-chain ballot against the request it came with and returns its EIP-712 hash
+  private verifyDecVCPlatBallotSignature(
+    decvcplatVoter: UserDto,
+    decvcplatProposal: VotingProposalDto,
+    decvcplatRequest: CastVoteRequestDto,
+    decvcplatSignedBallot: SignedBallotDto
+  ): string {
+    if (decvcplatProposal.proposalType !== 'Governance') {
+      throw new DecVCPlatMockHttpError(400, 'Signed ballots are only accepted on Governance proposals');
+    }
+    if (!decvcplatVoter.walletAddress || decvcplatVoter.walletAddress.toLowerCase() !== String(decvcplatSignedBallot.voter).toLowerCase()) {
+      throw new DecVCPlatMockHttpError(400, 'Ballot must be signed by the wallet linked to your account');
+    }
+
+    let decvcplatVerification: ReturnType<typeof verifyDecVCPlatSignedBallot>;
+    try {
+      decvcplatVerification = verifyDecVCPlatSignedBallot(
+        fromDecVCPlatSignedVote({ ...decvcplatRequest, signedBallot: decvcplatSignedBallot })!,
+        decvcplatSignedBallot
+      );
+    } catch {
+      throw new DecVCPlatMockHttpError(400, 'Ballot is malformed');
+    }
+    if (!decvcplatVerification.signatureValid) {
+      throw new DecVCPlatMockHttpError(400, 'Ballot signature was not produced by the voter');
+    }
+    return decvcplatVerification.ballotHash;
+  }
+
+  private requireDecVCPlatUser(decvcplatRequest: DecVCPlatMockRequest, decvcplatRoles?: UserRole[]): UserDto {
+    if (!decvcplatRequest.user) {
+      throw new DecVCPlatMockHttpError(401, 'Authentication required');
+    }
+    if (decvcplatRoles && !decvcplatRoles.includes(decvcplatRequest.user.role)) {
+      throw new DecVCPlatMockHttpError(403, `This action requires one of the roles: ${decvcplatRoles.join(', ')}`);
+    }
+    return decvcplatRequest.user;
+  }
+
+  // Mirrors ASP.NET Core's ValidationProblemDetails so field errors look the same in both modes.
+  private assertDecVCPlatValid(decvcplatErrors: Record<string, string[]>): void {
+    if (Object.keys(decvcplatErrors).length > 0) {
+      throw new DecVCPlatMockHttpError(400, 'One or more validation errors occurred.', {
+        title: 'One or more validation errors occurred.',
+        errors: decvcplatErrors,
+      });
+    }
+  }
+
+  private validateDecVCPlatProject(decvcplatRequest: CreateProjectRequestDto): Record<string, string[]> {
+    const decvcplatErrors: Record<string, string[]> = {};
+    if (!decvcplatRequest.title || decvcplatRequest.title.trim().length < 5) {
+      decvcplatErrors.Title = ['Title must be at least 5 characters'];
+    }
+    if (!decvcplatRequest.description || decvcplatRequest.description.trim().length < 50) {
+      decvcplatErrors.Description = ['Description must be at least 50 characters'];
+    }
+    if (!decvcplatRequest.category) {
+      decvcplatErrors.Category = ['Category is required'];
+    }
+    if (!(decvcplatRequest.fundingGoal > 0)) {
+      decvcplatErrors.FundingGoal = ['Funding goal must be greater than zero'];
+    }
+
+    const decvcplatMilestones = decvcplatRequest.milestones || [];
+    decvcplatMilestones.forEach((milestone, decvcplatIndex) => {
+      if (!milestone.title) {
+        decvcplatErrors[`Milestones[${decvcplatIndex}].Title`] = ['Milestone title is required'];
+      }
+      if (!(milestone.fundingAmount > 0)) {
+        decvcplatErrors[`Milestones[${decvcplatIndex}].FundingAmount`] = ['Milestone funding must be greater than zero'];
+      }
+      if (!milestone.dueDate) {
+        decvcplatErrors[`Milestones[${decvcplatIndex}].DueDate`] = ['Milestone due date is required'];
+      }
+    });
+
+    const decvcplatMilestoneTotal = decvcplatMilestones.reduce((decvcplatTotal, milestone) => decvcplatTotal + (milestone.fundingAmount || 0), 0);
+    if (decvcplatMilestoneTotal > decvcplatRequest.fundingGoal) {
+      decvcplatErrors.Milestones = ['Milestone funding cannot exceed the funding goal'];
+    }
+    return decvcplatErrors;
+  }
+
+  private buildDecVCPlatMilestones(
+    decvcplatProjectId: string,
+    decvcplatMilestones: CreateProjectRequestDto['milestones']
+  ): ProjectMilestoneDto[] {
+    return decvcplatMilestones.map((milestone) => ({
+      id: this.nextDecVCPlatId('milestone'),
+      projectId: decvcplatProjectId,
+      title: milestone.title,
+      description: milestone.description,
+      fundingAmount: milestone.fundingAmount,
+      dueDate: milestone.dueDate,
+      status: 'Pending',
+    }));
+  }
+
+  private updateDecVCPlatMilestoneStatus(decvcplatTranche: FundingTrancheDto, decvcplatStatus: ProjectMilestoneDto['status']): void {
+    const decvcplatProject = this.decvcplatData.projects.find((project) => project.id === decvcplatTranche.projectId);
+    const decvcplatMilestone = decvcplatProject?.milestones.find((milestone) => milestone.id === decvcplatTranche.milestoneId);
+    if (decvcplatMilestone) {
+      decvcplatMilestone.status = decvcplatStatus;
+    }
+  }
+
+  private findDecVCPlatProject(decvcplatProjectId: string): ProjectDto {
+    const decvcplatProject = this.decvcplatData.projects.find((project) => project.id === decvcplatProjectId);
+    if (!decvcplatProject) {
+      throw new DecVCPlatMockHttpError(404, 'Project not found');
+    }
+    return decvcplatProject;
+  }
+
+  private findDecVCPlatProposal(decvcplatProposalId: string): VotingProposalDto {
+    const decvcplatProposal = this.decvcplatData.proposals.find((proposal) => proposal.id === decvcplatProposalId);
+    if (!decvcplatProposal) {
+      throw new DecVCPlatMockHttpError(404, 'Proposal not found');
+    }
+    return decvcplatProposal;
+  }
+
+  private findDecVCPlatMilestone(decvcplatProject: ProjectDto, decvcplatMilestoneId: string): ProjectMilestoneDto {
+    const decvcplatMilestone = decvcplatProject.milestones.find((milestone) => milestone.id === decvcplatMilestoneId);
+    if (!decvcplatMilestone) {
+      throw new DecVCPlatMockHttpError(404, 'Milestone not found');
+    }
+    return decvcplatMilestone;
+  }
+
+  // The MilestoneApproved side of the contract: the milestone's tranche is released
+  // and the project's funding goes up by the milestone amount
+  private releaseDecVCPlatMilestoneFunding(
+    decvcplatProject: ProjectDto,
+    decvcplatMilestone: ProjectMilestoneDto,
+    decvcplatTransactionHash?: string
+  ): void {
+    const decvcplatNow = new Date().toISOString();
+    const decvcplatHash = decvcplatTransactionHash ?? this.createDecVCPlatMockTransactionHash();
+    decvcplatMilestone.status = 'FundingReleased';
+    decvcplatMilestone.fundingReleasedAt = decvcplatNow;
+    decvcplatMilestone.fundingTransactionHash = decvcplatHash;
+    decvcplatProject.currentFunding += decvcplatMilestone.fundingAmount;
+
+    this.decvcplatData.tranches
+      .filter((tranche) => tranche.milestoneId === decvcplatMilestone.id && !decvcplatCompletedTrancheStatuses.includes(tranche.status))
+      .forEach((tranche) => {
+        tranche.status = 'Released';
+        tranche.isMilestoneCompleted = true;
+        tranche.actualReleaseDate = decvcplatNow;
+        tranche.releaseTransactionHash = decvcplatHash;
+      });
+
+    this.notifyDecVCPlatUser(decvcplatProject.founderId, {
+      title: 'Milestone approved',
+      message: `"${decvcplatMilestone.title}" was approved and $${decvcplatMilestone.fundingAmount.toLocaleString()} was released to ${decvcplatProject.title}.`,
+      type: 'FundingRelease',
+      actionUrl: `/projects/${decvcplatProject.id}`,
+      actionText: 'View Project',
+      metadata: { projectId: decvcplatProject.id, milestoneId: decvcplatMilestone.id, transactionHash: decvcplatHash },
+    });
+  }
+
+  // Milestones whose window closed without approvals leading are rejected, and
+  // their tranche is held as disputed
+  private settleDecVCPlatMilestones(decvcplatNow: Date = new Date()): void {
+    this.decvcplatData.projects.forEach((project) => {
+      project.milestones.forEach((milestone) => {
+        if (milestone.status !== 'Completed' || !milestone.voteEndTime) {
+          return;
+        }
+        const decvcplatEvaluation = evaluateDecVCPlatMilestoneVote(milestone, decvcplatNow);
+        if (decvcplatEvaluation.votingOpen) {
+          return;
+        }
+
+        milestone.status = 'Rejected';
+        this.decvcplatData.tranches
+          .filter((tranche) => tranche.milestoneId === milestone.id && !decvcplatCompletedTrancheStatuses.includes(tranche.status))
+          .forEach((tranche) => {
+            tranche.status = 'Disputed';
+          });
+        this.notifyDecVCPlatUser(project.founderId, {
+          title: 'Milestone rejected',
+          message: `"${milestone.title}" closed with ${decvcplatEvaluation.approvalVotes.toLocaleString()} DVCP approving and ${decvcplatEvaluation.rejectionVotes.toLocaleString()} DVCP rejecting, so its funding stays in escrow.`,
+          type: 'MilestoneComplete',
+          actionUrl: `/projects/${project.id}`,
+          actionText: 'View Project',
+          metadata: { projectId: project.id, milestoneId: milestone.id },
+        });
+      });
+    });
+  }
+
+  private findDecVCPlatTranche(decvcplatTrancheId: string): FundingTrancheDto {
+    const decvcplatTranche = this.decvcplatData.tranches.find((tranche) => tranche.id === decvcplatTrancheId);
+    if (!decvcplatTranche) {
+      throw new DecVCPlatMockHttpError(404, 'Funding tranche not found');
+    }
+    return decvcplatTranche;
+  }
+
+  // The tranche named in the proposal's execution data, otherwise the project's
+  // earliest tranche that is still open for release
+  private findDecVCPlatReleasableTranche(decvcplatProjectId: string, decvcplatTrancheId?: string): FundingTrancheDto {
+    const decvcplatCandidates = this.decvcplatData.tranches
+      .filter((tranche) => tranche.projectId === decvcplatProjectId)
+      .filter((tranche) => !decvcplatCompletedTrancheStatuses.includes(tranche.status) && tranche.status !== 'Disputed')
+      .sort((left, right) => left.trancheNumber - right.trancheNumber);
+    const decvcplatTranche = decvcplatCandidates.find((tranche) => tranche.id === decvcplatTrancheId) ?? decvcplatCandidates[0];
+    if (!decvcplatTranche) {
+      throw new DecVCPlatMockHttpError(400, 'Project has no funding tranche left to release');
+    }
+    return decvcplatTranche;
+  }
+
+  private createDecVCPlatMockTransactionHash(): string {
+    return `0x${Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+  }
+
+  // Settles first, so a proposal whose voting period just ended is rejected here
+  private findDecVCPlatOpenProposal(decvcplatProposalId: string): VotingProposalDto {
+    this.settleDecVCPlatProposals();
+    const decvcplatProposal = this.findDecVCPlatProposal(decvcplatProposalId);
+    if (decvcplatProposal.status === 'Pending') {
+      throw new DecVCPlatMockHttpError(400, 'Voting has not opened for this proposal yet');
+    }
+    if (!evaluateDecVCPlatProposal(decvcplatProposal).votingOpen) {
+      throw new DecVCPlatMockHttpError(400, 'Voting period has ended for this proposal');
+    }
+    return decvcplatProposal;
+  }
+
+  private findDecVCPlatCurrentVote(decvcplatProposalId: string, decvcplatUserId: string): VoteDto | undefined {
+    return findDecVCPlatCurrentBallot(this.decvcplatData.votes, decvcplatProposalId, decvcplatUserId);
+  }
+
+  // Validates the stake against the voter's undelegated power and checks any
+  // signed ballot; the caller decides whether the ballot is new or a replacement
+  private createDecVCPlatVote(
+    decvcplatVoter: UserDto,
+    decvcplatProposal: VotingProposalDto,
+    decvcplatRequest: CastVoteRequestDto
+  ): VoteDto {
+    if (!(decvcplatRequest.stakedAmount > 0)) {
+      this.assertDecVCPlatValid({ StakedAmount: ['Staked amount must be greater than zero'] });
+    }
+    const decvcplatPower = this.getDecVCPlatVotingPower(decvcplatVoter.id);
+    if (decvcplatRequest.stakedAmount > decvcplatPower.staked - decvcplatPower.delegated) {
+      this.assertDecVCPlatValid({ StakedAmount: ['Staked amount exceeds the voting power you have not delegated'] });
+    }
+
+    const decvcplatBallotHash = decvcplatRequest.signedBallot
+      ? this.verifyDecVCPlatBallotSignature(decvcplatVoter, decvcplatProposal, decvcplatRequest, decvcplatRequest.signedBallot)
+      : undefined;
+
+    const decvcplatTimestamp = new Date();
+    return {
+      id: this.nextDecVCPlatId('vote'),
+      proposalId: decvcplatProposal.id,
+      userId: decvcplatVoter.id,
+      userName: decvcplatVoter.fullName,
+      choice: decvcplatRequest.choice,
+      ...this.weighDecVCPlatBallot(decvcplatVoter.id, decvcplatProposal, decvcplatRequest.stakedAmount, decvcplatTimestamp),
+      stakedAmount: decvcplatRequest.stakedAmount,
+      comment: decvcplatRequest.comment,
+      timestamp: decvcplatTimestamp.toISOString(),
+      signedBallot: decvcplatRequest.signedBallot,
+      ballotHash: decvcplatBallotHash,
+    };
+  }
+
+  // Power received from active delegations rides along with the delegate's ballot.
+  // Conviction is measured when the ballot was cast, so a re-tally keeps it.
+  private weighDecVCPlatBallot(
+    decvcplatVoterId: string,
+    decvcplatProposal: VotingProposalDto,
+    decvcplatStakedAmount: number,
+    decvcplatCastAt: Date
+  ): Pick<VoteDto, 'votingPower' | 'weight' | 'delegatedFrom'> {
+    const decvcplatDelegations = this.getDecVCPlatActiveDelegations({ delegateId: decvcplatVoterId });
+    const decvcplatReceived = decvcplatDelegations.reduce((decvcplatTotal, delegation) => decvcplatTotal + delegation.amount, 0);
+    return {
+      votingPower: decvcplatStakedAmount + decvcplatReceived,
+      weight: calculateDecVCPlatStrategyWeight(decvcplatProposal.votingStrategy ?? 'Linear', {
+        stakedAmount: decvcplatStakedAmount,
+        receivedPower: decvcplatReceived,
+        stakeAgeDays: this.getDecVCPlatStakeAgeDays(decvcplatVoterId, decvcplatCastAt),
+      }),
+      delegatedFrom: decvcplatDelegations.length > 0
+        ? decvcplatDelegations.map((delegation) => delegation.delegatorName).join(', ')
+        : undefined,
+    };
+  }
+
+  // Counted ballots the user has on proposals still open for voting
+  private getDecVCPlatOpenBallots(decvcplatUserId: string): Array<{ vote: VoteDto; proposal: VotingProposalDto }> {
+    this.settleDecVCPlatProposals();
+    return this.decvcplatData.votes
+      .filter((vote) => vote.userId === decvcplatUserId && isDecVCPlatBallotCounted(vote))
+      .flatMap((vote) => {
+        const decvcplatProposal = this.decvcplatData.proposals.find((proposal) => proposal.id === vote.proposalId);
+        return decvcplatProposal && evaluateDecVCPlatProposal(decvcplatProposal).votingOpen
+          ? [{ vote, proposal: decvcplatProposal }]
+          : [];
+      });
+  }
+
+  // A delegate's ballots on open proposals carry the delegations active now: when
+  // one is created or revoked they are re-tallied, so revoked power stops counting
+  // there before the delegator can vote with it themselves. Closed tallies are final.
+  private retallyDecVCPlatDelegateBallots(decvcplatDelegateId: string): void {
+    this.getDecVCPlatOpenBallots(decvcplatDelegateId).forEach(({ vote, proposal }) => {
+      this.tallyDecVCPlatVote(proposal, vote, -1);
+      Object.assign(vote, this.weighDecVCPlatBallot(decvcplatDelegateId, proposal, vote.stakedAmount, new Date(vote.timestamp)));
+      this.tallyDecVCPlatVote(proposal, vote, 1);
+    });
+  }
+
+  // Adds a ballot to the proposal's tallies, or takes it back out with -1. Tallies
+  // move by the ballot's strategy weight, participation by its unweighted power.
+  private tallyDecVCPlatVote(decvcplatProposal: VotingProposalDto, decvcplatVote: VoteDto, decvcplatDirection: 1 | -1): void {
+    const decvcplatWeight = decvcplatDirection * (decvcplatVote.weight ?? decvcplatVote.votingPower);
+    decvcplatProposal.participation = (
+      decvcplatProposal.participation
+      ?? decvcplatProposal.forVotes + decvcplatProposal.againstVotes + decvcplatProposal.abstainVotes
+    ) + decvcplatDirection * decvcplatVote.votingPower;
+    decvcplatProposal.totalStaked += decvcplatDirection * decvcplatVote.stakedAmount;
+    if (decvcplatVote.choice === 'For') {
+      decvcplatProposal.forVotes += decvcplatWeight;
+    } else if (decvcplatVote.choice === 'Against') {
+      decvcplatProposal.againstVotes += decvcplatWeight;
+    } else {
+      decvcplatProposal.abstainVotes += decvcplatWeight;
+    }
+    decvcplatProposal.updatedAt = new Date().toISOString();
+  }
+
+  private notifyDecVCPlatDelegators(
+    decvcplatDelegate: UserDto,
+    decvcplatProposal: VotingProposalDto,
+    decvcplatAction: string,
+    decvcplatChoice?: VoteDto['choice']
+  ): void {
+    this.getDecVCPlatActiveDelegations({ delegateId: decvcplatDelegate.id }).forEach((delegation) => {
+      this.notifyDecVCPlatUser(delegation.delegatorId, {
+        title: decvcplatChoice ? 'Your delegate voted' : 'Your delegate withdrew their vote',
+        message: `${decvcplatDelegate.fullName} ${decvcplatAction} "${decvcplatProposal.title}" with ${delegation.amount.toLocaleString()} DVCP of your delegated power.`,
+        type: 'VotingResult',
+        actionUrl: '/voting',
+        actionText: 'View Proposal',
+        metadata: { proposalId: decvcplatProposal.id, delegationId: delegation.id, choice: decvcplatChoice },
+      });
+    });
+  }
+
+  private getDecVCPlatActiveDelegations(decvcplatFilter: { delegatorId?: string; delegateId?: string }): DelegationDto[] {
+    return this.decvcplatData.delegations.filter((delegation) =>
+      delegation.status === 'Active'
+      && (!decvcplatFilter.delegatorId || delegation.delegatorId === decvcplatFilter.delegatorId)
+      && (!decvcplatFilter.delegateId || delegation.delegateId === decvcplatFilter.delegateId)
+    );
+  }
+
+  // Own active stake, the part of it handed to delegates, and what others handed to this user
+  private getDecVCPlatVotingPower(decvcplatUserId: string): { staked: number; delegated: number; received: number } {
+    const decvcplatSum = (decvcplatDelegations: DelegationDto[]) =>
+      decvcplatDelegations.reduce((decvcplatTotal, delegation) => decvcplatTotal + delegation.amount, 0);
+    return {
+      staked: this.decvcplatData.stakes
+        .filter((stake) => stake.userId === decvcplatUserId && stake.isActive)
+        .reduce((decvcplatTotal, stake) => decvcplatTotal + stake.amount, 0),
+      delegated: decvcplatSum(this.getDecVCPlatActiveDelegations({ delegatorId: decvcplatUserId })),
+      received: decvcplatSum(this.getDecVCPlatActiveDelegations({ delegateId: decvcplatUserId })),
+    };
+  }
+
+  // Stake-weighted age of the user's active stakes at the given time, in days
+  private getDecVCPlatStakeAgeDays(decvcplatUserId: string, decvcplatNow: Date = new Date()): number {
+    const decvcplatStakes = this.decvcplatData.stakes.filter((stake) =>
+      stake.userId === decvcplatUserId && stake.isActive && new Date(stake.stakedAt).getTime() <= decvcplatNow.getTime()
+    );
+    const decvcplatTotal = decvcplatStakes.reduce((decvcplatSum, stake) => decvcplatSum + stake.amount, 0);
+    if (decvcplatTotal <= 0) {
+      return 0;
+    }
+    const decvcplatWeightedMs = decvcplatStakes.reduce(
+      (decvcplatSum, stake) => decvcplatSum + stake.amount * Math.max(decvcplatNow.getTime() - new Date(stake.stakedAt).getTime(), 0),
+      0
+    );
+    return Math.round((decvcplatWeightedMs / decvcplatTotal / (24 * 60 * 60 * 1000)) * 100) / 100;
+  }
+
+  // Moves proposals along their lifecycle as time passes and tells the proposer and
+  // every voter how a closed vote turned out
+  private settleDecVCPlatProposals(decvcplatNow: Date = new Date()): void {
+    this.decvcplatData.proposals.forEach((proposal) => {
+      const decvcplatEvaluation = evaluateDecVCPlatProposal(proposal, decvcplatNow);
+      if (decvcplatEvaluation.status === proposal.status) {
+        return;
+      }
+
+      proposal.status = decvcplatEvaluation.status;
+      proposal.updatedAt = decvcplatNow.toISOString();
+      if (proposal.status !== 'Passed' && proposal.status !== 'Failed') {
+        return;
+      }
+
+      const decvcplatRecipients = new Set([
+        proposal.proposerId,
+        ...this.decvcplatData.votes
+          .filter((vote) => vote.proposalId === proposal.id && isDecVCPlatBallotCounted(vote))
+          .map((vote) => vote.userId),
+      ]);
+      decvcplatRecipients.forEach((decvcplatUserId) => this.notifyDecVCPlatUser(decvcplatUserId, {
+        title: `Proposal ${proposal.status}`,
+        message: `"${proposal.title}" ${proposal.status === 'Passed' ? 'passed' : 'failed'} with ${decvcplatEvaluation.approvalPercent.toFixed(1)}% approval and ${decvcplatEvaluation.participation.toLocaleString()} DVCP of ${proposal.quorumThreshold.toLocaleString()} DVCP quorum.`,
+        type: 'VotingResult',
+        actionUrl: '/voting',
+        actionText: 'View Results',
+        metadata: { proposalId: proposal.id, status: proposal.status },
+      }));
+    });
+  }
+
+  private notifyDecVCPlatUser(
+    decvcplatUserId: string,
+    decvcplatNotification: Pick<NotificationDto, 'title' | 'message' | 'type'> & Partial<NotificationDto>
+  ): void {
+    const decvcplatUser = this.decvcplatData.users.find((user) => user.id === decvcplatUserId);
+    if (!decvcplatUser) {
+      return;
+    }
+    this.getDecVCPlatNotifications(decvcplatUser).unshift({
+      id: this.nextDecVCPlatId('notification'),
+      userId: decvcplatUser.id,
+      priority: 'Normal',
+      isRead: false,
+      isArchived: false,
+      createdAt: new Date().toISOString(),
+      ...decvcplatNotification,
+    });
+  }
+
+  private getDecVCPlatNotifications(decvcplatUser: UserDto): NotificationDto[] {
+    if (!this.decvcplatNotifications.has(decvcplatUser.id)) {
+      this.decvcplatNotifications.set(
+        decvcplatUser.id,
+        this.decvcplatData.notificationTemplates.map((template) => ({ ...template, userId: decvcplatUser.id }))
+      );
+    }
+    return this.decvcplatNotifications.get(decvcplatUser.id)!;
+  }
+
+  private getDecVCPlatPreferences(decvcplatUser: UserDto): NotificationPreferencesDto {
+    if (!this.decvcplatPreferences.has(decvcplatUser.id)) {
+      this.decvcplatPreferences.set(decvcplatUser.id, { ...this.decvcplatData.notificationPreferences });
+    }
+    return this.decvcplatPreferences.get(decvcplatUser.id)!;
+  }
+
+  private getDecVCPlatWallet(decvcplatAddress: string) {
+    const decvcplatKey = decvcplatAddress.toLowerCase();
+    if (!this.decvcplatWallets.has(decvcplatKey)) {
+      this.decvcplatWallets.set(decvcplatKey, {
+        balances: this.decvcplatData.walletBalances.map((balance) => ({ ...balance })),
+        transactions: this.decvcplatData.walletTransactions.map((transaction) => ({
+          ...transaction,
+          fromAddress: transaction.fromAddress.replace('{wallet}', decvcplatAddress),
+          toAddress: transaction.toAddress.replace('{wallet}', decvcplatAddress),
+        })),
+        staking: { ...this.decvcplatData.walletStaking },
+      });
+    }
+    return this.decvcplatWallets.get(decvcplatKey)!;
+  }
+
+  private nextDecVCPlatId(decvcplatPrefix: string): string {
+    this.decvcplatSequence += 1;
+    return `${decvcplatPrefix}-${Date.now().toString(36)}-${this.decvcplatSequence}`;
+  }
+}
+
+export const decvcplatMockBackend = new DecVCPlatMockBackend();
+
+export const isDecVCPlatMockBackendEnabled = (): boolean => process.env.REACT_APP_DECVCPLAT_API_MODE === 'mock';
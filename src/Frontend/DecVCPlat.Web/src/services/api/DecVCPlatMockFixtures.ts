@@ -0,0 +1,636 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import type {
+  DelegationDto,
+  FundingTrancheDto,
+  MarketPriceDto,
+  NotificationDto,
+  NotificationPreferencesDto,
+  ProjectDto,
+  TokenStakeDto,
+  UserDto,
+  VoteDto,
+  VotingProposalDto,
+  WalletStakingSummaryDto,
+  WalletTokenBalanceDto,
+  WalletTransactionDto,
+} from './DecVCPlatApiContracts';
+
+export const decvcplatMockPassword = 'DecVCPlat2024!';
+
+export interface DecVCPlatMockFixtures {
+  users: UserDto[];
+  passwords: Record<string, string>;
+  projects: ProjectDto[];
+  proposals: VotingProposalDto[];
+  stakes: TokenStakeDto[];
+  votes: VoteDto[];
+  delegations: DelegationDto[];
+  tranches: FundingTrancheDto[];
+  notificationTemplates: Array<Omit<NotificationDto, 'userId'>>;
+  notificationPreferences: NotificationPreferencesDto;
+  walletBalances: WalletTokenBalanceDto[];
+  walletTransactions: WalletTransactionDto[];
+  walletStaking: WalletStakingSummaryDto;
+  marketPrices: MarketPriceDto[];
+}
+
+const decvcplatDaysFrom = (decvcplatNow: Date, decvcplatDays: number): string =>
+  new Date(decvcplatNow.getTime() + decvcplatDays * 24 * 60 * 60 * 1000).toISOString();
+
+// Builds a fresh copy of the demo data set. Dates that drive voting windows and
+// tranche schedules are relative to `decvcplatNow` so the demo never goes stale.
+export const createDecVCPlatMockFixtures = (decvcplatNow: Date = new Date()): DecVCPlatMockFixtures => {
+  const daysFromNow = (decvcplatDays: number) => decvcplatDaysFrom(decvcplatNow, decvcplatDays);
+
+  const users: UserDto[] = [
+    {
+      id: 'founder1',
+      userName: 'jsmith',
+      email: 'founder@decvcplat.com',
+      fullName: 'John Smith',
+      role: 'Founder',
+      walletAddress: '0x1111111111111111111111111111111111111111',
+      isWalletVerified: true,
+      bio: 'Serial founder building AI tooling for healthcare.',
+      createdAt: '2024-01-02T09:00:00Z',
+    },
+    {
+      id: 'founder2',
+      userName: 'sjohnson',
+      email: 'sarah@decvcplat.com',
+      fullName: 'Sarah Johnson',
+      role: 'Founder',
+      isWalletVerified: false,
+      createdAt: '2024-01-04T09:00:00Z',
+    },
+    {
+      id: 'investor1',
+      userName: 'edavis',
+      email: 'investor@decvcplat.com',
+      fullName: 'Emma Davis',
+      role: 'Investor',
+      walletAddress: '0x2222222222222222222222222222222222222222',
+      isWalletVerified: true,
+      createdAt: '2024-01-05T09:00:00Z',
+    },
+    {
+      id: 'luminary1',
+      userName: 'ajohnson',
+      email: 'luminary@decvcplat.com',
+      fullName: 'Alice Johnson',
+      role: 'Luminary',
+      walletAddress: '0x3333333333333333333333333333333333333333',
+      isWalletVerified: true,
+      bio: 'Former fund partner reviewing healthcare and climate deals.',
+      createdAt: '2024-01-03T09:00:00Z',
+    },
+    {
+      id: 'luminary2',
+      userName: 'mchen',
+      email: 'marcus@decvcplat.com',
+      fullName: 'Marcus Chen',
+      role: 'Luminary',
+      walletAddress: '0x4444444444444444444444444444444444444444',
+      isWalletVerified: true,
+      bio: 'Protocol engineer focused on treasury and governance design.',
+      createdAt: '2024-01-06T09:00:00Z',
+    },
+  ];
+
+  const projects: ProjectDto[] = [
+    {
+      id: '1',
+      title: 'AI-Powered Healthcare Platform',
+      description: 'Revolutionary AI platform for early disease detection and personalized treatment recommendations.',
+      fundingGoal: 1000000,
+      currentFunding: 250000,
+      founderId: 'founder1',
+      founderName: 'John Smith',
+      category: 'Healthcare',
+      status: 'Approved',
+      tags: ['AI', 'Healthcare', 'Machine Learning'],
+      documents: [
+        {
+          id: 'doc1',
+          fileName: 'pitch-deck.pdf',
+          fileUrl: '/documents/pitch-deck.pdf',
+          fileType: 'application/pdf',
+          fileSize: 2457600,
+          description: 'Investor pitch deck',
+          uploadedAt: '2024-01-15T10:00:00Z',
+        },
+      ],
+      milestones: [
+        {
+          id: 'm1',
+          projectId: '1',
+          title: 'MVP Development',
+          description: 'Complete minimum viable product',
+          fundingAmount: 300000,
+          dueDate: daysFromNow(-30),
+          status: 'FundingReleased',
+          completedAt: daysFromNow(-35),
+        },
+        {
+          id: 'm2',
+          projectId: '1',
+          title: 'Clinical Pilot',
+          description: 'Run a pilot with two partner clinics',
+          fundingAmount: 400000,
+          dueDate: daysFromNow(20),
+          status: 'Completed',
+          completedAt: daysFromNow(-2),
+          evidenceUrl: '/documents/pilot-report.pdf',
+          completionEvidence: 'Pilot ran for six weeks at both partner clinics; the report covers uptime and clinician feedback.',
+          voteEndTime: daysFromNow(1),
+          approvalVotes: 0,
+          rejectionVotes: 0,
+          votes: [],
+        },
+        {
+          id: 'm3',
+          projectId: '1',
+          title: 'Regulatory Submission',
+          description: 'Submit for regulatory clearance',
+          fundingAmount: 300000,
+          dueDate: daysFromNow(90),
+          status: 'Pending',
+        },
+      ],
+      votes: [
+        {
+          id: 'pv1',
+          projectId: '1',
+          userId: 'luminary1',
+          userName: 'Alice Johnson',
+          voteType: 'Approve',
+          stakedTokens: 5000,
+          comment: 'Strong team and a clear path to market.',
+          createdAt: '2024-01-18T12:00:00Z',
+        },
+      ],
+      createdAt: '2024-01-15T10:00:00Z',
+      updatedAt: '2024-01-20T15:30:00Z',
+      submittedAt: '2024-01-16T10:00:00Z',
+      approvedAt: '2024-01-20T15:30:00Z',
+      websiteUrl: 'https://healthcare.decvcplat.com',
+    },
+    {
+      id: '2',
+      title: 'Sustainable Energy Storage',
+      description: 'Next-generation battery technology for renewable energy storage solutions.',
+      fundingGoal: 2000000,
+      currentFunding: 500000,
+      founderId: 'founder2',
+      founderName: 'Sarah Johnson',
+      category: 'Energy',
+      status: 'Funded',
+      tags: ['Energy', 'Sustainability', 'Battery Tech'],
+      documents: [],
+      milestones: [
+        {
+          id: 'm4',
+          projectId: '2',
+          title: 'Prototype Cell',
+          description: 'Build and benchmark the first prototype cell',
+          fundingAmount: 500000,
+          dueDate: daysFromNow(-10),
+          status: 'Approved',
+          completedAt: daysFromNow(-12),
+        },
+      ],
+      votes: [],
+      createdAt: '2024-01-10T08:00:00Z',
+      updatedAt: '2024-01-25T12:00:00Z',
+    },
+    {
+      id: '3',
+      title: 'Decentralized Supply Chain Ledger',
+      description: 'Track provenance of goods end to end with verifiable on-chain records.',
+      fundingGoal: 750000,
+      currentFunding: 0,
+      founderId: 'founder1',
+      founderName: 'John Smith',
+      category: 'Blockchain',
+      status: 'UnderReview',
+      tags: ['Blockchain', 'Logistics'],
+      documents: [],
+      milestones: [],
+      votes: [
+        {
+          id: 'pv2',
+          projectId: '3',
+          userId: 'investor1',
+          userName: 'Emma Davis',
+          voteType: 'Reject',
+          stakedTokens: 1000,
+          comment: 'Go-to-market plan needs more detail.',
+          createdAt: daysFromNow(-1),
+        },
+      ],
+      createdAt: daysFromNow(-6),
+      updatedAt: daysFromNow(-1),
+      submittedAt: daysFromNow(-5),
+    },
+    {
+      id: '4',
+      title: 'Adaptive Learning for Schools',
+      description: 'Personalised curricula for secondary schools driven by learning analytics.',
+      fundingGoal: 400000,
+      currentFunding: 0,
+      founderId: 'founder2',
+      founderName: 'Sarah Johnson',
+      category: 'Education',
+      status: 'Submitted',
+      tags: ['EdTech', 'Analytics'],
+      documents: [],
+      milestones: [],
+      votes: [],
+      createdAt: daysFromNow(-3),
+      updatedAt: daysFromNow(-3),
+      submittedAt: daysFromNow(-3),
+    },
+  ];
+
+  const proposals: VotingProposalDto[] = [
+    {
+      id: '1',
+      title: 'Approve AI Healthcare Platform Funding',
+      description: 'Vote to approve initial funding for the AI-powered healthcare platform project.',
+      proposerId: 'luminary1',
+      proposerName: 'Alice Johnson',
+      projectId: '1',
+      proposalType: 'ProjectApproval',
+      status: 'Active',
+      startTime: daysFromNow(-2),
+      endTime: daysFromNow(5),
+      quorumThreshold: 10000,
+      approvalThreshold: 51,
+      totalStaked: 15000,
+      forVotes: 9000,
+      againstVotes: 3000,
+      abstainVotes: 3000,
+      createdAt: daysFromNow(-2),
+      updatedAt: daysFromNow(-1),
+    },
+    {
+      id: '2',
+      title: 'Release Milestone Funding - Energy Storage',
+      description: 'Vote to release next tranche of funding upon completion of prototype milestone.',
+      proposerId: 'luminary1',
+      proposerName: 'Alice Johnson',
+      projectId: '2',
+      proposalType: 'FundingRelease',
+      status: 'Passed',
+      startTime: daysFromNow(-14),
+      endTime: daysFromNow(-7),
+      quorumThreshold: 8000,
+      approvalThreshold: 60,
+      totalStaked: 12000,
+      forVotes: 8500,
+      againstVotes: 2000,
+      abstainVotes: 1500,
+      createdAt: daysFromNow(-14),
+      updatedAt: daysFromNow(-7),
+    },
+    {
+      id: '3',
+      title: 'Approve Clinical Pilot Milestone',
+      description: 'The healthcare platform has submitted evidence for its clinical pilot milestone.',
+      proposerId: 'founder1',
+      proposerName: 'John Smith',
+      projectId: '1',
+      proposalType: 'MilestoneApproval',
+      status: 'Active',
+      startTime: daysFromNow(-1),
+      endTime: daysFromNow(2),
+      quorumThreshold: 5000,
+      approvalThreshold: 51,
+      totalStaked: 2000,
+      forVotes: 2000,
+      againstVotes: 0,
+      abstainVotes: 0,
+      createdAt: daysFromNow(-1),
+      updatedAt: daysFromNow(-1),
+    },
+    {
+      id: '4',
+      title: 'Lower Minimum Proposal Stake',
+      description: 'Reduce the minimum stake required to open a governance proposal from 1,000 to 500 DVCP.',
+      proposerId: 'luminary1',
+      proposerName: 'Alice Johnson',
+      proposalType: 'Governance',
+      status: 'Failed',
+      startTime: daysFromNow(-30),
+      endTime: daysFromNow(-23),
+      quorumThreshold: 10000,
+      approvalThreshold: 51,
+      totalStaked: 6000,
+      forVotes: 2500,
+      againstVotes: 3500,
+      abstainVotes: 0,
+      createdAt: daysFromNow(-30),
+      updatedAt: daysFromNow(-23),
+    },
+    {
+      id: '5',
+      title: 'Publish Quarterly Treasury Reports',
+      description: 'Require the treasury multisig to publish a signed quarterly report of holdings and disbursements.',
+      proposerId: 'luminary1',
+      proposerName: 'Alice Johnson',
+      proposalType: 'Governance',
+      status: 'Active',
+      startTime: daysFromNow(-1),
+      endTime: daysFromNow(6),
+      quorumThreshold: 10000,
+      approvalThreshold: 51,
+      totalStaked: 0,
+      votingStrategy: 'Quadratic',
+      forVotes: 0,
+      againstVotes: 0,
+      abstainVotes: 0,
+      participation: 0,
+      createdAt: daysFromNow(-1),
+      updatedAt: daysFromNow(-1),
+    },
+  ];
+
+  const stakes: TokenStakeDto[] = [
+    {
+      id: 'stake1',
+      userId: 'investor1',
+      proposalId: 'general',
+      amount: 50000,
+      lockPeriod: 30,
+      stakedAt: daysFromNow(-20),
+      rewardsClaimed: 2500,
+      isActive: true,
+    },
+    {
+      id: 'stake2',
+      userId: 'luminary1',
+      proposalId: 'general',
+      amount: 20000,
+      lockPeriod: 30,
+      stakedAt: daysFromNow(-15),
+      rewardsClaimed: 0,
+      isActive: true,
+    },
+  ];
+
+  const votes: VoteDto[] = [
+    {
+      id: 'vote1',
+      proposalId: '2',
+      userId: 'investor1',
+      userName: 'Emma Davis',
+      choice: 'For',
+      votingPower: 5000,
+      stakedAmount: 5000,
+      timestamp: daysFromNow(-10),
+    },
+    {
+      id: 'vote2',
+      proposalId: '3',
+      userId: 'luminary1',
+      userName: 'Alice Johnson',
+      choice: 'For',
+      votingPower: 2000,
+      stakedAmount: 2000,
+      timestamp: daysFromNow(-1),
+    },
+  ];
+
+  const delegations: DelegationDto[] = [
+    {
+      id: 'delegation1',
+      delegatorId: 'investor1',
+      delegatorName: 'Emma Davis',
+      delegateId: 'luminary2',
+      delegateName: 'Marcus Chen',
+      amount: 10000,
+      status: 'Revoked',
+      reason: 'Treasury vote last quarter',
+      createdAt: daysFromNow(-60),
+      revokedAt: daysFromNow(-30),
+    },
+  ];
+
+  const tranches: FundingTrancheDto[] = [
+    {
+      id: 't1',
+      projectId: '1',
+      milestoneId: 'm1',
+      title: 'Tranche 1 - MVP',
+      description: 'Release on MVP delivery',
+      amount: 300000,
+      trancheNumber: 1,
+      status: 'Released',
+      scheduledReleaseDate: daysFromNow(-30),
+      actualReleaseDate: daysFromNow(-29),
+      isMilestoneCompleted: true,
+      isLuminaryApproved: true,
+      releaseTransactionHash: '0x8f3c1a5e9b7d2c4f6a8e0b1d3c5f7a9e2b4d6f8a0c2e4b6d8f0a2c4e6b8d0f2a',
+    },
+    {
+      id: 't2',
+      projectId: '1',
+      milestoneId: 'm2',
+      title: 'Tranche 2 - Clinical Pilot',
+      description: 'Release on pilot completion',
+      amount: 400000,
+      trancheNumber: 2,
+      status: 'AwaitingApproval',
+      scheduledReleaseDate: daysFromNow(20),
+      isMilestoneCompleted: true,
+      isLuminaryApproved: false,
+    },
+    {
+      id: 't3',
+      projectId: '1',
+      milestoneId: 'm3',
+      title: 'Tranche 3 - Regulatory',
+      description: 'Release on regulatory submission',
+      amount: 300000,
+      trancheNumber: 3,
+      status: 'Pending',
+      scheduledReleaseDate: daysFromNow(90),
+      isMilestoneCompleted: false,
+      isLuminaryApproved: false,
+    },
+    {
+      id: 't4',
+      projectId: '2',
+      milestoneId: 'm4',
+      title: 'Tranche 1 - Prototype',
+      description: 'Release on prototype benchmark',
+      amount: 500000,
+      trancheNumber: 1,
+      status: 'Approved',
+      scheduledReleaseDate: daysFromNow(-10),
+      isMilestoneCompleted: true,
+      isLuminaryApproved: true,
+    },
+  ];
+
+  const notificationTemplates: Array<Omit<NotificationDto, 'userId'>> = [
+    {
+      id: '1',
+      title: 'Project Approved for Funding',
+      message: 'Your project "AI Healthcare Platform" has been approved for initial funding of $300,000.',
+      type: 'ProjectUpdate',
+      priority: 'High',
+      isRead: false,
+      isArchived: false,
+      actionUrl: '/projects/1',
+      actionText: 'View Project',
+      createdAt: daysFromNow(-1),
+    },
+    {
+      id: '2',
+      title: 'Voting Period Ended',
+      message: 'Voting has ended for proposal "Energy Storage Funding". The proposal passed with 85% approval.',
+      type: 'VotingResult',
+      priority: 'Normal',
+      isRead: false,
+      isArchived: false,
+      actionUrl: '/voting/2',
+      actionText: 'View Results',
+      createdAt: daysFromNow(-2),
+    },
+    {
+      id: '3',
+      title: 'Milestone Completed',
+      message: 'Milestone "Clinical Pilot" has been completed and is awaiting community approval.',
+      type: 'MilestoneComplete',
+      priority: 'Normal',
+      isRead: true,
+      isArchived: false,
+      actionUrl: '/projects/1',
+      actionText: 'Review Milestone',
+      createdAt: daysFromNow(-3),
+      readAt: daysFromNow(-3),
+    },
+    {
+      id: '4',
+      title: 'System Maintenance Scheduled',
+      message: 'Scheduled maintenance will occur this weekend from 2:00 AM to 4:00 AM UTC.',
+      type: 'System',
+      priority: 'Low',
+      isRead: true,
+      isArchived: false,
+      createdAt: daysFromNow(-4),
+      readAt: daysFromNow(-4),
+    },
+    {
+      id: '5',
+      title: 'Funds Released Successfully',
+      message: 'Tranche 1 funding of $300,000 has been released to your wallet.',
+      type: 'FundingRelease',
+      priority: 'High',
+      isRead: false,
+      isArchived: false,
+      actionUrl: '/wallet',
+      actionText: 'View Wallet',
+      createdAt: daysFromNow(-5),
+    },
+  ];
+
+  return {
+    users,
+    passwords: Object.fromEntries(users.map((decvcplatUser) => [decvcplatUser.id, decvcplatMockPassword])),
+    projects,
+    proposals,
+    stakes,
+    votes,
+    delegations,
+    tranches,
+    notificationTemplates,
+    notificationPreferences: {
+      emailNotifications: true,
+      pushNotifications: true,
+      inAppNotifications: true,
+      smsNotifications: false,
+      projectUpdates: true,
+      votingResults: true,
+      fundingReleases: true,
+      milestoneUpdates: true,
+      systemAlerts: true,
+      marketingEmails: false,
+      weeklyDigest: true,
+      instantAlerts: true,
+      quietHoursEnabled: false,
+      quietHoursStart: '22:00',
+      quietHoursEnd: '08:00',
+    },
+    walletBalances: [
+      {
+        tokenSymbol: 'ETH',
+        tokenName: 'Ethereum',
+        contractAddress: '0x0000000000000000000000000000000000000000',
+        userBalance: '2.1234',
+        tokenDecimals: 18,
+        usdEquivalent: 4800.56,
+      },
+      {
+        tokenSymbol: 'DVCP',
+        tokenName: 'DecVCPlat Token',
+        contractAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        userBalance: '75000.0',
+        tokenDecimals: 18,
+        usdEquivalent: 37500.0,
+      },
+      {
+        tokenSymbol: 'USDC',
+        tokenName: 'USD Coin',
+        contractAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        userBalance: '5000.0',
+        tokenDecimals: 6,
+        usdEquivalent: 5000.0,
+      },
+    ],
+    walletTransactions: [
+      {
+        transactionHash: '0x3a1f5c7e9b2d4f6a8c0e2b4d6f8a1c3e5b7d9f2a4c6e8b0d2f4a6c8e1b3d5f7a',
+        fromAddress: '{wallet}',
+        toAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        amountTransferred: '10000.0',
+        gasConsumed: '45000',
+        gasCostInGwei: '25',
+        blockTimestamp: daysFromNow(-7),
+        confirmationStatus: 'confirmed',
+        transactionCategory: 'stake',
+        transactionNote: 'DecVCPlat governance token staking',
+        blockHeight: 19456789,
+      },
+      {
+        transactionHash: '0x7b9d1f3a5c7e9b2d4f6a8c0e2b4d6f8a1c3e5b7d9f2a4c6e8b0d2f4a6c8e1b3d',
+        fromAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        toAddress: '{wallet}',
+        amountTransferred: '750.0',
+        gasConsumed: '21000',
+        gasCostInGwei: '20',
+        blockTimestamp: daysFromNow(-8),
+        confirmationStatus: 'confirmed',
+        transactionCategory: 'reward',
+        transactionNote: 'DecVCPlat staking rewards distribution',
+        blockHeight: 19456700,
+      },
+    ],
+    walletStaking: {
+      currentlyStakedAmount: '50000.0',
+      availableForStaking: '25000.0',
+      earnedStakingRewards: '2750.0',
+      unstakingWaitPeriod: 7,
+      nextRewardDistribution: daysFromNow(7),
+      annualPercentageYield: 5.0,
+    },
+    marketPrices: [
+      { symbol: 'ETH', usdPrice: 2260.75, updatedAt: decvcplatNow.toISOString() },
+      { symbol: 'POL', usdPrice: 0.52, updatedAt: decvcplatNow.toISOString() },
+      { symbol: 'DVCP', usdPrice: 0.5, updatedAt: decvcplatNow.toISOString() },
+      { symbol: 'USDC', usdPrice: 1, updatedAt: decvcplatNow.toISOString() },
+    ],
+  };
+};
@@ -0,0 +1,96 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+// Human-readable ABIs for the contracts in src/SmartContracts. Each fragment mirrors
+// the Solidity signature exactly (enums are uint8, public struct getters omit
+// mappings and arrays), so keep this file in step with any contract change.
+
+// DecVCPlat Governance ABI (DecVCPlatGovernance.sol)
+export const decvcplatGovernanceAbi = [
+  // Configuration
+  'function dvcpToken() view returns (address)',
+  'function VOTING_PERIOD() view returns (uint256)',
+  'function MILESTONE_VOTING_PERIOD() view returns (uint256)',
+  'function QUORUM_PERCENTAGE() view returns (uint256)',
+  'function APPROVAL_THRESHOLD() view returns (uint256)',
+  'function MIN_PROPOSAL_STAKE() view returns (uint256)',
+
+  // State
+  'function proposalCount() view returns (uint256)',
+  'function milestoneCount() view returns (uint256)',
+  'function proposals(uint256) view returns (uint256 id, address proposer, string title, string description, uint256 fundingAmount, uint256 startTime, uint256 endTime, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, uint256 totalStaked, uint8 state, bool executed)',
+  'function milestones(uint256) view returns (uint256 proposalId, string description, uint256 fundingAmount, bool completed, bool approved, uint256 approvalVotes, uint256 rejectionVotes, uint256 voteEndTime)',
+  'function stakedForVoting(address) view returns (uint256)',
+  'function paused() view returns (bool)',
+  'function owner() view returns (address)',
+
+  // Proposals and voting
+  'function createProposal(string title, string description, uint256 fundingAmount)',
+  'function stakeForVoting(uint256 amount)',
+  'function unstakeFromVoting(uint256 amount)',
+  'function castVote(uint256 proposalId, uint8 choice, uint256 stakeAmount)',
+  'function executeProposal(uint256 proposalId)',
+
+  // Milestones
+  'function createMilestone(uint256 proposalId, string description, uint256 fundingAmount)',
+  'function completeMilestone(uint256 milestoneId)',
+  'function voteOnMilestone(uint256 milestoneId, bool approve)',
+
+  // Views
+  'function getProposal(uint256 proposalId) view returns (uint256 id, address proposer, string title, string description, uint256 fundingAmount, uint256 startTime, uint256 endTime, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, uint8 state)',
+  'function getVote(uint256 proposalId, address voter) view returns (bool hasVoted, uint8 choice, uint256 votingPower, uint256 stakedAmount)',
+  'function proposalExists(uint256 proposalId) view returns (bool)',
+  'function milestoneExists(uint256 milestoneId) view returns (bool)',
+
+  // Events
+  'event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string title, uint256 fundingAmount)',
+  'event VoteCast(address indexed voter, uint256 indexed proposalId, uint8 choice, uint256 votingPower, uint256 stakedAmount)',
+  'event ProposalExecuted(uint256 indexed proposalId, uint256 fundingAmount)',
+  'event StakeForVoting(address indexed user, uint256 amount)',
+  'event UnstakeFromVoting(address indexed user, uint256 amount)',
+  'event MilestoneCreated(uint256 indexed milestoneId, uint256 indexed proposalId, string description, uint256 fundingAmount)',
+  'event MilestoneCompleted(uint256 indexed milestoneId)',
+  'event MilestoneApproved(uint256 indexed milestoneId, uint256 fundingReleased)',
+] as const;
+
+// DecVCPlat Token ABI (DecVCPlatToken.sol, including the inherited ERC20 surface)
+export const decvcplatTokenAbi = [
+  // ERC20
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+
+  // Configuration
+  'function INITIAL_SUPPLY() view returns (uint256)',
+  'function MAX_SUPPLY() view returns (uint256)',
+  'function REWARD_RATE_PRECISION() view returns (uint256)',
+  'function MIN_STAKING_PERIOD() view returns (uint256)',
+  'function SECONDS_PER_YEAR() view returns (uint256)',
+  'function stakingRewardRate() view returns (uint256)',
+
+  // Staking
+  'function stakes(address) view returns (uint256 amount, uint256 stakingTime, uint256 lastRewardTime, bool isActive)',
+  'function totalStaked(address) view returns (uint256)',
+  'function totalStakedTokens() view returns (uint256)',
+  'function totalRewardsDistributed() view returns (uint256)',
+  'function stakeTokens(uint256 amount)',
+  'function unstakeTokens(uint256 amount)',
+  'function claimStakingRewards()',
+  'function getPendingRewards(address user) view returns (uint256)',
+  'function getStakeInfo(address user) view returns (uint256 amount, uint256 stakingTime, uint256 lastRewardTime, bool isActive, uint256 pendingRewards)',
+  'function getVotingPower(address user) view returns (uint256)',
+  'function paused() view returns (bool)',
+
+  // Events
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'event TokensStaked(address indexed user, uint256 amount)',
+  'event TokensUnstaked(address indexed user, uint256 amount, uint256 rewards)',
+  'event RewardsDistributed(address indexed user, uint256 amount)',
+  'event StakingRewardRateUpdated(uint256 oldRate, uint256 newRate)',
+] as const;
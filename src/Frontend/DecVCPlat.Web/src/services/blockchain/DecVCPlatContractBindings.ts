@@ -0,0 +1,543 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { AbiCoder, BigNumberish, Interface, Result, formatUnits, getAddress, parseUnits } from 'ethers';
+import { decvcplatGovernanceAbi, decvcplatTokenAbi } from './DecVCPlatContractAbis';
+
+// DecVCPlat Provider Contracts
+export interface DecVCPlatEip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>;
+}
+
+// Plain JSON-RPC over HTTP for chain reads when no wallet is on the chain being
+// read. RPC errors are rethrown as received so revert data stays decodable.
+export const createDecVCPlatJsonRpcProvider = (decvcplatRpcUrl: string): DecVCPlatEip1193Provider => {
+  let decvcplatRequestId = 0;
+  return {
+    request: async ({ method, params }) => {
+      const decvcplatResponse = await fetch(decvcplatRpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++decvcplatRequestId, method, params: params ?? [] }),
+      });
+      if (!decvcplatResponse.ok) {
+        throw new Error(`DecVCPlat RPC request ${method} failed with status ${decvcplatResponse.status}`);
+      }
+      const decvcplatPayload = await decvcplatResponse.json();
+      if (decvcplatPayload.error) {
+        throw decvcplatPayload.error;
+      }
+      return decvcplatPayload.result;
+    },
+  };
+};
+
+export interface DecVCPlatContractCall {
+  to: string;
+  data: string;
+  from?: string;
+}
+
+// Gas and fee fields are hex quantities, as eth_sendTransaction expects them
+export interface DecVCPlatTransactionRequest extends DecVCPlatContractCall {
+  gas?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+// Runs just before a write is handed to the wallet, e.g. to fill in gas and fees
+// after the user has confirmed them; throwing aborts the write.
+export type DecVCPlatTransactionPreparer = (
+  decvcplatCall: DecVCPlatContractCall,
+  decvcplatFunctionName: string
+) => Promise<DecVCPlatTransactionRequest>;
+
+// DecVCPlat Token Amounts
+// DVCP uses 18 decimals; amounts stay bigint wei end to end and are only turned
+// into decimal strings at the UI boundary.
+export const decvcplatTokenDecimals = 18;
+
+export const parseDecVCPlatTokenAmount = (decvcplatAmount: string): bigint =>
+  parseUnits(decvcplatAmount.trim() || '0', decvcplatTokenDecimals);
+
+export const formatDecVCPlatTokenAmount = (decvcplatAmountWei: bigint): string =>
+  formatUnits(decvcplatAmountWei, decvcplatTokenDecimals);
+
+// DecVCPlat On-Chain Types
+// Solidity enums are encoded as uint8; the arrays below are indexed by that value.
+export type DecVCPlatOnChainProposalState = 'Pending' | 'Active' | 'Succeeded' | 'Failed' | 'Executed' | 'Cancelled';
+export type DecVCPlatOnChainVoteChoice = 'Against' | 'For' | 'Abstain';
+
+export const decvcplatOnChainProposalStates: DecVCPlatOnChainProposalState[] = ['Pending', 'Active', 'Succeeded', 'Failed', 'Executed', 'Cancelled'];
+export const decvcplatOnChainVoteChoices: DecVCPlatOnChainVoteChoice[] = ['Against', 'For', 'Abstain'];
+
+export interface DecVCPlatOnChainProposal {
+  id: bigint;
+  proposer: string;
+  title: string;
+  description: string;
+  fundingAmount: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+  state: DecVCPlatOnChainProposalState;
+}
+
+export interface DecVCPlatOnChainVote {
+  hasVoted: boolean;
+  choice: DecVCPlatOnChainVoteChoice;
+  votingPower: bigint;
+  stakedAmount: bigint;
+}
+
+// Decoded from the ProposalExecuted log of an executeProposal receipt
+export interface DecVCPlatOnChainProposalExecution {
+  proposalId: bigint;
+  fundingAmount: bigint;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+// Decoded from the MilestoneApproved log of a voteOnMilestone receipt
+export interface DecVCPlatOnChainMilestoneApproval {
+  milestoneId: bigint;
+  fundingReleased: bigint;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface DecVCPlatOnChainMilestone {
+  proposalId: bigint;
+  description: string;
+  fundingAmount: bigint;
+  completed: boolean;
+  approved: boolean;
+  approvalVotes: bigint;
+  rejectionVotes: bigint;
+  voteEndTime: bigint;
+}
+
+export interface DecVCPlatOnChainStakeInfo {
+  amount: bigint;
+  stakingTime: bigint;
+  lastRewardTime: bigint;
+  isActive: boolean;
+  pendingRewards: bigint;
+}
+
+// Inputs to the token's reward formula: amount * rate / precision per secondsPerYear
+export interface DecVCPlatOnChainRewardConfig {
+  stakingRewardRate: bigint;
+  rewardRatePrecision: bigint;
+  secondsPerYear: bigint;
+  minStakingPeriod: bigint;
+}
+
+export const decvcplatGovernanceInterface = new Interface(decvcplatGovernanceAbi);
+export const decvcplatTokenInterface = new Interface(decvcplatTokenAbi);
+
+// DecVCPlat Revert Reasons
+// The contracts revert with require strings (Error(string)); arithmetic and
+// assertion failures surface as Panic(uint256).
+const decvcplatErrorSelector = '0x08c379a0';
+const decvcplatPanicSelector = '0x4e487b71';
+
+const decvcplatPanicReasons: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+};
+
+// Custom errors are decoded when the contract's interface declares them, and
+// rendered as ErrorName(arg, ...).
+export const decodeDecVCPlatRevertReason = (decvcplatRevertData: string, decvcplatInterface?: Interface): string => {
+  if (!decvcplatRevertData || decvcplatRevertData === '0x') {
+    return 'Transaction reverted without a reason';
+  }
+
+  const decvcplatSelector = decvcplatRevertData.slice(0, 10).toLowerCase();
+  const decvcplatPayload = `0x${decvcplatRevertData.slice(10)}`;
+
+  try {
+    if (decvcplatSelector === decvcplatErrorSelector) {
+      return AbiCoder.defaultAbiCoder().decode(['string'], decvcplatPayload)[0] as string;
+    }
+    if (decvcplatSelector === decvcplatPanicSelector) {
+      const decvcplatCode = Number(AbiCoder.defaultAbiCoder().decode(['uint256'], decvcplatPayload)[0]);
+      return `Panic 0x${decvcplatCode.toString(16)}: ${decvcplatPanicReasons[decvcplatCode] || 'unknown panic code'}`;
+    }
+    const decvcplatCustomError = decvcplatInterface?.parseError(decvcplatRevertData);
+    if (decvcplatCustomError) {
+      return `${decvcplatCustomError.name}(${decvcplatCustomError.args.map(decvcplatArg => String(decvcplatArg)).join(', ')})`;
+    }
+  } catch {
+    // Malformed payload; fall through to the raw selector
+  }
+
+  return `Transaction reverted with unrecognised error ${decvcplatSelector}`;
+};
+
+// Wallets nest the revert payload differently (MetaMask under data.originalError,
+// Hardhat under data, some RPCs under error.data); take the first hex string found.
+export const extractDecVCPlatRevertData = (decvcplatError: any): string | null => {
+  const decvcplatCandidates = [
+    decvcplatError?.data,
+    decvcplatError?.data?.data,
+    decvcplatError?.data?.originalError?.data,
+    decvcplatError?.error?.data,
+    decvcplatError?.error?.data?.data,
+  ];
+  const decvcplatRevertData = decvcplatCandidates.find(
+    (decvcplatCandidate) => typeof decvcplatCandidate === 'string' && decvcplatCandidate.startsWith('0x')
+  );
+  return decvcplatRevertData ?? null;
+};
+
+// What the user should be told for the require strings they can actually run into;
+// anything else is shown as the contract wrote it.
+const decvcplatRevertExplanations: Record<string, string> = {
+  'DecVCPlat: proposal does not exist': 'This proposal does not exist on chain.',
+  'DecVCPlat: proposal not active': 'This proposal is not open for voting.',
+  'DecVCPlat: voting period ended': 'The voting period has already ended.',
+  'DecVCPlat: voting period not ended': 'The voting period has not ended yet, so the proposal cannot be executed.',
+  'DecVCPlat: already voted': 'You have already voted on this.',
+  'DecVCPlat: must stake tokens to vote': 'Enter an amount of DVCP to stake behind your vote.',
+  'DecVCPlat: insufficient staked tokens': 'You have not staked enough DVCP for voting to cover this vote.',
+  'DecVCPlat: proposal already executed': 'This proposal has already been executed.',
+  'DecVCPlat: insufficient balance for proposal': 'Your DVCP balance is below the minimum needed to create a proposal.',
+  'DecVCPlat: insufficient balance': 'Your DVCP balance is too low for this amount.',
+  'DecVCPlat: insufficient staked amount': 'You are trying to unstake more DVCP than you have staked.',
+  'DecVCPlat: no active stake': 'You have no active DVCP stake.',
+  'DecVCPlat: minimum staking period not met': 'Your stake is still inside the minimum staking period.',
+  'DecVCPlat: not authorized': 'Only the proposer or the contract owner can do this.',
+  'DecVCPlat: must have staked tokens': 'Stake DVCP for voting before voting on milestones.',
+  'DecVCPlat: milestone does not exist': 'This milestone does not exist on chain.',
+  'DecVCPlat: milestone not completed': 'The milestone has not been marked complete yet.',
+  'DecVCPlat: milestone already completed': 'The milestone has already been marked complete.',
+  'Pausable: paused': 'DecVCPlat contracts are paused; try again later.',
+  'Ownable: caller is not the owner': 'Only the DecVCPlat contract owner can do this.',
+  'ERC20: insufficient allowance': 'The DVCP spending allowance is too low; approve a larger amount first.',
+  'ERC20: transfer amount exceeds balance': 'Your DVCP balance is too low for this amount.',
+};
+
+export const explainDecVCPlatRevertReason = (decvcplatReason: string): string =>
+  decvcplatRevertExplanations[decvcplatReason] ?? decvcplatReason;
+
+// DecVCPlat Transaction Simulation
+// Raised when a write is replayed with eth_call first and would revert, so the
+// wallet is never asked to sign a transaction that can only fail.
+export class DecVCPlatSimulationError extends Error {
+  readonly decvcplatFunctionName: string;
+  readonly decvcplatRevertReason: string;
+
+  constructor(decvcplatFunctionName: string, decvcplatRevertReason: string) {
+    super(explainDecVCPlatRevertReason(decvcplatRevertReason));
+    this.name = 'DecVCPlatSimulationError';
+    this.decvcplatFunctionName = decvcplatFunctionName;
+    this.decvcplatRevertReason = decvcplatRevertReason;
+  }
+}
+
+export const isDecVCPlatSimulationError = (decvcplatError: unknown): decvcplatError is DecVCPlatSimulationError =>
+  decvcplatError instanceof DecVCPlatSimulationError;
+
+// Shared encode/call/send plumbing. Reads go through eth_call against 'latest';
+// writes are first simulated the same way, then handed to the wallet with
+// eth_sendTransaction after the optional preparer has priced them, and resolve to
+// the transaction hash.
+abstract class DecVCPlatContractBinding {
+  readonly decvcplatAddress: string;
+
+  constructor(
+    decvcplatAddress: string,
+    protected readonly decvcplatInterface: Interface,
+    protected readonly decvcplatProvider: DecVCPlatEip1193Provider,
+    protected readonly decvcplatFromAddress?: string,
+    protected readonly decvcplatPrepareTransaction?: DecVCPlatTransactionPreparer
+  ) {
+    this.decvcplatAddress = getAddress(decvcplatAddress);
+  }
+
+  encodeDecVCPlatCall(decvcplatFunctionName: string, decvcplatArgs: unknown[] = []): DecVCPlatContractCall {
+    return {
+      to: this.decvcplatAddress,
+      data: this.decvcplatInterface.encodeFunctionData(decvcplatFunctionName, decvcplatArgs),
+      ...(this.decvcplatFromAddress ? { from: this.decvcplatFromAddress } : {}),
+    };
+  }
+
+  protected async readDecVCPlatContract(decvcplatFunctionName: string, decvcplatArgs: unknown[] = []): Promise<Result> {
+    const decvcplatCall = this.encodeDecVCPlatCall(decvcplatFunctionName, decvcplatArgs);
+    const decvcplatRawResult: string = await this.decvcplatProvider.request({
+      method: 'eth_call',
+      params: [decvcplatCall, 'latest'],
+    });
+    return this.decvcplatInterface.decodeFunctionResult(decvcplatFunctionName, decvcplatRawResult);
+  }
+
+  protected async writeDecVCPlatContract(decvcplatFunctionName: string, decvcplatArgs: unknown[] = []): Promise<string> {
+    if (!this.decvcplatFromAddress) {
+      throw new Error('DecVCPlat wallet not connected');
+    }
+    const decvcplatCall = this.encodeDecVCPlatCall(decvcplatFunctionName, decvcplatArgs);
+    await this.simulateDecVCPlatContractCall(decvcplatCall, decvcplatFunctionName);
+    const decvcplatTransaction = this.decvcplatPrepareTransaction
+      ? await this.decvcplatPrepareTransaction(decvcplatCall, decvcplatFunctionName)
+      : decvcplatCall;
+    return this.decvcplatProvider.request({
+      method: 'eth_sendTransaction',
+      params: [decvcplatTransaction],
+    });
+  }
+
+  // Errors that are not reverts (RPC outages, rate limits) are passed through as-is
+  private async simulateDecVCPlatContractCall(decvcplatCall: DecVCPlatContractCall, decvcplatFunctionName: string): Promise<void> {
+    try {
+      await this.decvcplatProvider.request({ method: 'eth_call', params: [decvcplatCall, 'latest'] });
+    } catch (decvcplatError: any) {
+      const decvcplatRevertData = extractDecVCPlatRevertData(decvcplatError);
+      if (decvcplatRevertData !== null) {
+        throw new DecVCPlatSimulationError(decvcplatFunctionName, decodeDecVCPlatRevertReason(decvcplatRevertData, this.decvcplatInterface));
+      }
+      const decvcplatMessage: string = decvcplatError?.message ?? '';
+      const decvcplatReasonMatch = decvcplatMessage.match(/execution reverted(?::\s*(.+))?/i);
+      if (decvcplatReasonMatch) {
+        throw new DecVCPlatSimulationError(decvcplatFunctionName, decvcplatReasonMatch[1]?.trim() || 'Transaction reverted without a reason');
+      }
+      throw decvcplatError;
+    }
+  }
+}
+
+// DecVCPlat Governance Binding
+export class DecVCPlatGovernanceContract extends DecVCPlatContractBinding {
+  constructor(
+    decvcplatAddress: string,
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatFromAddress?: string,
+    decvcplatPrepareTransaction?: DecVCPlatTransactionPreparer
+  ) {
+    super(decvcplatAddress, decvcplatGovernanceInterface, decvcplatProvider, decvcplatFromAddress, decvcplatPrepareTransaction);
+  }
+
+  // Transactions
+  createProposal(decvcplatTitle: string, decvcplatDescription: string, decvcplatFundingAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('createProposal', [decvcplatTitle, decvcplatDescription, decvcplatFundingAmount]);
+  }
+
+  stakeForVoting(decvcplatAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('stakeForVoting', [decvcplatAmount]);
+  }
+
+  unstakeFromVoting(decvcplatAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('unstakeFromVoting', [decvcplatAmount]);
+  }
+
+  castVote(decvcplatProposalId: BigNumberish, decvcplatChoice: DecVCPlatOnChainVoteChoice, decvcplatStakeAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('castVote', [
+      decvcplatProposalId,
+      decvcplatOnChainVoteChoices.indexOf(decvcplatChoice),
+      decvcplatStakeAmount,
+    ]);
+  }
+
+  executeProposal(decvcplatProposalId: BigNumberish): Promise<string> {
+    return this.writeDecVCPlatContract('executeProposal', [decvcplatProposalId]);
+  }
+
+  completeMilestone(decvcplatMilestoneId: BigNumberish): Promise<string> {
+    return this.writeDecVCPlatContract('completeMilestone', [decvcplatMilestoneId]);
+  }
+
+  voteOnMilestone(decvcplatMilestoneId: BigNumberish, decvcplatApprove: boolean): Promise<string> {
+    return this.writeDecVCPlatContract('voteOnMilestone', [decvcplatMilestoneId, decvcplatApprove]);
+  }
+
+  // Views
+  async getProposal(decvcplatProposalId: BigNumberish): Promise<DecVCPlatOnChainProposal> {
+    const decvcplatResult = await this.readDecVCPlatContract('getProposal', [decvcplatProposalId]);
+    return {
+      id: decvcplatResult.id,
+      proposer: decvcplatResult.proposer,
+      title: decvcplatResult.title,
+      description: decvcplatResult.description,
+      fundingAmount: decvcplatResult.fundingAmount,
+      startTime: decvcplatResult.startTime,
+      endTime: decvcplatResult.endTime,
+      forVotes: decvcplatResult.forVotes,
+      againstVotes: decvcplatResult.againstVotes,
+      abstainVotes: decvcplatResult.abstainVotes,
+      state: decvcplatOnChainProposalStates[Number(decvcplatResult.state)],
+    };
+  }
+
+  async getVote(decvcplatProposalId: BigNumberish, decvcplatVoter: string): Promise<DecVCPlatOnChainVote> {
+    const decvcplatResult = await this.readDecVCPlatContract('getVote', [decvcplatProposalId, decvcplatVoter]);
+    return {
+      hasVoted: decvcplatResult.hasVoted,
+      choice: decvcplatOnChainVoteChoices[Number(decvcplatResult.choice)],
+      votingPower: decvcplatResult.votingPower,
+      stakedAmount: decvcplatResult.stakedAmount,
+    };
+  }
+
+  async getMilestone(decvcplatMilestoneId: BigNumberish): Promise<DecVCPlatOnChainMilestone> {
+    const decvcplatResult = await this.readDecVCPlatContract('milestones', [decvcplatMilestoneId]);
+    return {
+      proposalId: decvcplatResult.proposalId,
+      description: decvcplatResult.description,
+      fundingAmount: decvcplatResult.fundingAmount,
+      completed: decvcplatResult.completed,
+      approved: decvcplatResult.approved,
+      approvalVotes: decvcplatResult.approvalVotes,
+      rejectionVotes: decvcplatResult.rejectionVotes,
+      voteEndTime: decvcplatResult.voteEndTime,
+    };
+  }
+
+  async getStakedForVoting(decvcplatAccount: string): Promise<bigint> {
+    const [decvcplatStaked] = await this.readDecVCPlatContract('stakedForVoting', [decvcplatAccount]);
+    return decvcplatStaked;
+  }
+
+  async getProposalCount(): Promise<bigint> {
+    const [decvcplatCount] = await this.readDecVCPlatContract('proposalCount');
+    return decvcplatCount;
+  }
+
+  async getMinProposalStake(): Promise<bigint> {
+    const [decvcplatStake] = await this.readDecVCPlatContract('MIN_PROPOSAL_STAKE');
+    return decvcplatStake;
+  }
+
+  async getQuorumPercentage(): Promise<bigint> {
+    const [decvcplatPercentage] = await this.readDecVCPlatContract('QUORUM_PERCENTAGE');
+    return decvcplatPercentage;
+  }
+
+  // executeProposal marks a proposal Failed instead of reverting when the vote falls
+  // short, so a mined transaction only means success if this event is in its logs.
+  async getProposalExecution(decvcplatTxHash: string): Promise<DecVCPlatOnChainProposalExecution | null> {
+    const decvcplatEvent = await this.findDecVCPlatReceiptEvent(decvcplatTxHash, 'ProposalExecuted');
+    return decvcplatEvent && {
+      proposalId: decvcplatEvent.args.proposalId,
+      fundingAmount: decvcplatEvent.args.fundingAmount,
+      transactionHash: decvcplatEvent.transactionHash,
+      blockNumber: decvcplatEvent.blockNumber,
+    };
+  }
+
+  // Only the ballot that tips approvals ahead of rejections emits MilestoneApproved
+  async getMilestoneApproval(decvcplatTxHash: string): Promise<DecVCPlatOnChainMilestoneApproval | null> {
+    const decvcplatEvent = await this.findDecVCPlatReceiptEvent(decvcplatTxHash, 'MilestoneApproved');
+    return decvcplatEvent && {
+      milestoneId: decvcplatEvent.args.milestoneId,
+      fundingReleased: decvcplatEvent.args.fundingReleased,
+      transactionHash: decvcplatEvent.transactionHash,
+      blockNumber: decvcplatEvent.blockNumber,
+    };
+  }
+
+  private async findDecVCPlatReceiptEvent(
+    decvcplatTxHash: string,
+    decvcplatEventName: string
+  ): Promise<{ args: Result; transactionHash: string; blockNumber: number } | null> {
+    const decvcplatReceipt = await this.decvcplatProvider.request({
+      method: 'eth_getTransactionReceipt',
+      params: [decvcplatTxHash],
+    });
+    const decvcplatTopic = this.decvcplatInterface.getEvent(decvcplatEventName)!.topicHash;
+    const decvcplatLog = (decvcplatReceipt?.logs ?? []).find((decvcplatCandidate: { address: string; topics: string[] }) =>
+      getAddress(decvcplatCandidate.address) === this.decvcplatAddress && decvcplatCandidate.topics[0] === decvcplatTopic
+    );
+    if (!decvcplatLog) {
+      return null;
+    }
+    return {
+      args: this.decvcplatInterface.parseLog(decvcplatLog)!.args,
+      transactionHash: decvcplatReceipt.transactionHash,
+      blockNumber: Number(decvcplatReceipt.blockNumber),
+    };
+  }
+}
+
+// DecVCPlat Token Binding
+export class DecVCPlatTokenContract extends DecVCPlatContractBinding {
+  constructor(
+    decvcplatAddress: string,
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatFromAddress?: string,
+    decvcplatPrepareTransaction?: DecVCPlatTransactionPreparer
+  ) {
+    super(decvcplatAddress, decvcplatTokenInterface, decvcplatProvider, decvcplatFromAddress, decvcplatPrepareTransaction);
+  }
+
+  // Transactions
+  approve(decvcplatSpender: string, decvcplatAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('approve', [decvcplatSpender, decvcplatAmount]);
+  }
+
+  stakeTokens(decvcplatAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('stakeTokens', [decvcplatAmount]);
+  }
+
+  unstakeTokens(decvcplatAmount: bigint): Promise<string> {
+    return this.writeDecVCPlatContract('unstakeTokens', [decvcplatAmount]);
+  }
+
+  claimStakingRewards(): Promise<string> {
+    return this.writeDecVCPlatContract('claimStakingRewards');
+  }
+
+  // Views
+  async totalSupply(): Promise<bigint> {
+    const [decvcplatSupply] = await this.readDecVCPlatContract('totalSupply');
+    return decvcplatSupply;
+  }
+
+  async balanceOf(decvcplatAccount: string): Promise<bigint> {
+    const [decvcplatBalance] = await this.readDecVCPlatContract('balanceOf', [decvcplatAccount]);
+    return decvcplatBalance;
+  }
+
+  async allowance(decvcplatOwner: string, decvcplatSpender: string): Promise<bigint> {
+    const [decvcplatAllowance] = await this.readDecVCPlatContract('allowance', [decvcplatOwner, decvcplatSpender]);
+    return decvcplatAllowance;
+  }
+
+  async getStakeInfo(decvcplatAccount: string): Promise<DecVCPlatOnChainStakeInfo> {
+    const decvcplatResult = await this.readDecVCPlatContract('getStakeInfo', [decvcplatAccount]);
+    return {
+      amount: decvcplatResult.amount,
+      stakingTime: decvcplatResult.stakingTime,
+      lastRewardTime: decvcplatResult.lastRewardTime,
+      isActive: decvcplatResult.isActive,
+      pendingRewards: decvcplatResult.pendingRewards,
+    };
+  }
+
+  async getRewardConfig(): Promise<DecVCPlatOnChainRewardConfig> {
+    const [[stakingRewardRate], [rewardRatePrecision], [secondsPerYear], [minStakingPeriod]] = await Promise.all([
+      this.readDecVCPlatContract('stakingRewardRate'),
+      this.readDecVCPlatContract('REWARD_RATE_PRECISION'),
+      this.readDecVCPlatContract('SECONDS_PER_YEAR'),
+      this.readDecVCPlatContract('MIN_STAKING_PERIOD'),
+    ]);
+    return { stakingRewardRate, rewardRatePrecision, secondsPerYear, minStakingPeriod };
+  }
+
+  async getPendingRewards(decvcplatAccount: string): Promise<bigint> {
+    const [decvcplatRewards] = await this.readDecVCPlatContract('getPendingRewards', [decvcplatAccount]);
+    return decvcplatRewards;
+  }
+
+  async getVotingPower(decvcplatAccount: string): Promise<bigint> {
+    const [decvcplatPower] = await this.readDecVCPlatContract('getVotingPower', [decvcplatAccount]);
+    return decvcplatPower;
+  }
+}
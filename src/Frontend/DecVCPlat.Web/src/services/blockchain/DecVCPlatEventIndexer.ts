@@ -0,0 +1,621 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { Interface, getAddress, toQuantity } from 'ethers';
+import type { WalletTransactionCategory, WalletTransactionDto } from '../api/DecVCPlatApiContracts';
+import {
+  DecVCPlatEip1193Provider,
+  createDecVCPlatJsonRpcProvider,
+  decvcplatGovernanceInterface,
+  decvcplatOnChainVoteChoices,
+  decvcplatTokenInterface,
+  formatDecVCPlatTokenAmount,
+} from './DecVCPlatContractBindings';
+import decvcplatNetworkRegistry, { DecVCPlatContractName } from './DecVCPlatNetworkRegistry';
+import decvcplatWalletService from './DecVCPlatWalletService';
+
+// DecVCPlat Event Indexer
+// Reads DecVCPlat contract logs with eth_getLogs in block-range chunks and caches
+// them per chain. The checkpoint only ever advances to `confirmations` blocks
+// behind the head and remembers that block's hash; logs above it are deleted and
+// read again on every sync, so a short reorg cannot leave orphaned entries behind.
+// If the checkpoint block itself was reorged out, the index rewinds further.
+export type DecVCPlatIndexedEventName =
+  | 'ProposalCreated'
+  | 'VoteCast'
+  | 'ProposalExecuted'
+  | 'StakeForVoting'
+  | 'UnstakeFromVoting'
+  | 'MilestoneApproved'
+  | 'TokensStaked'
+  | 'TokensUnstaked'
+  | 'RewardsDistributed';
+
+type DecVCPlatIndexedContract = Extract<DecVCPlatContractName, 'governance' | 'token'>;
+
+const decvcplatIndexedEvents: Record<DecVCPlatIndexedContract, { interface: Interface; events: DecVCPlatIndexedEventName[] }> = {
+  governance: {
+    interface: decvcplatGovernanceInterface,
+    events: ['ProposalCreated', 'VoteCast', 'ProposalExecuted', 'StakeForVoting', 'UnstakeFromVoting', 'MilestoneApproved'],
+  },
+  token: {
+    interface: decvcplatTokenInterface,
+    events: ['TokensStaked', 'TokensUnstaked', 'RewardsDistributed'],
+  },
+};
+
+export const decvcplatIndexedEventNames: DecVCPlatIndexedEventName[] = [
+  ...decvcplatIndexedEvents.governance.events,
+  ...decvcplatIndexedEvents.token.events,
+];
+
+// Arguments are kept as strings (decimal for integers, checksummed for addresses)
+// so records survive IndexedDB and Redux unchanged.
+export interface DecVCPlatIndexedEvent {
+  id: string;
+  chainId: number;
+  contractAddress: string;
+  name: DecVCPlatIndexedEventName;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  // Lower-cased proposer, voter or staker, when the event has one
+  account?: string;
+  proposalId?: string;
+  milestoneId?: string;
+  amount: string;
+  args: Record<string, string>;
+}
+
+export interface DecVCPlatIndexerCheckpoint {
+  key: string;
+  chainId: number;
+  contractAddress: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface DecVCPlatProposalTally {
+  proposalId: string;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  voterCount: number;
+  executed: boolean;
+}
+
+// DecVCPlat Indexer Storage
+export interface DecVCPlatIndexerStore {
+  getCheckpoint(decvcplatKey: string): Promise<DecVCPlatIndexerCheckpoint | undefined>;
+  putCheckpoint(decvcplatCheckpoint: DecVCPlatIndexerCheckpoint): Promise<void>;
+  getEvents(decvcplatChainId: number): Promise<DecVCPlatIndexedEvent[]>;
+  putEvents(decvcplatEvents: DecVCPlatIndexedEvent[]): Promise<void>;
+  deleteEventsFrom(decvcplatChainId: number, decvcplatContractAddress: string, decvcplatFromBlock: number): Promise<void>;
+}
+
+const isDecVCPlatEventAtOrAfter = (
+  decvcplatEvent: DecVCPlatIndexedEvent,
+  decvcplatChainId: number,
+  decvcplatContractAddress: string,
+  decvcplatFromBlock: number
+): boolean =>
+  decvcplatEvent.chainId === decvcplatChainId
+  && decvcplatEvent.contractAddress === decvcplatContractAddress
+  && decvcplatEvent.blockNumber >= decvcplatFromBlock;
+
+// Used where IndexedDB is unavailable (private browsing in some browsers, tests);
+// the index is then rebuilt on every page load.
+export class DecVCPlatMemoryIndexerStore implements DecVCPlatIndexerStore {
+  private readonly decvcplatCheckpoints = new Map<string, DecVCPlatIndexerCheckpoint>();
+  private readonly decvcplatEvents = new Map<string, DecVCPlatIndexedEvent>();
+
+  async getCheckpoint(decvcplatKey: string): Promise<DecVCPlatIndexerCheckpoint | undefined> {
+    return this.decvcplatCheckpoints.get(decvcplatKey);
+  }
+
+  async putCheckpoint(decvcplatCheckpoint: DecVCPlatIndexerCheckpoint): Promise<void> {
+    this.decvcplatCheckpoints.set(decvcplatCheckpoint.key, decvcplatCheckpoint);
+  }
+
+  async getEvents(decvcplatChainId: number): Promise<DecVCPlatIndexedEvent[]> {
+    return Array.from(this.decvcplatEvents.values()).filter(decvcplatEvent => decvcplatEvent.chainId === decvcplatChainId);
+  }
+
+  async putEvents(decvcplatEvents: DecVCPlatIndexedEvent[]): Promise<void> {
+    decvcplatEvents.forEach(decvcplatEvent => this.decvcplatEvents.set(decvcplatEvent.id, decvcplatEvent));
+  }
+
+  async deleteEventsFrom(decvcplatChainId: number, decvcplatContractAddress: string, decvcplatFromBlock: number): Promise<void> {
+    this.decvcplatEvents.forEach((decvcplatEvent, decvcplatId) => {
+      if (isDecVCPlatEventAtOrAfter(decvcplatEvent, decvcplatChainId, decvcplatContractAddress, decvcplatFromBlock)) {
+        this.decvcplatEvents.delete(decvcplatId);
+      }
+    });
+  }
+}
+
+const decvcplatIndexedDbName = 'decvcplat_event_index';
+const decvcplatIndexedDbVersion = 1;
+
+const awaitDecVCPlatIdbRequest = <T>(decvcplatRequest: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    decvcplatRequest.onsuccess = () => resolve(decvcplatRequest.result);
+    decvcplatRequest.onerror = () => reject(decvcplatRequest.error);
+  });
+
+const awaitDecVCPlatIdbTransaction = (decvcplatTransaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    decvcplatTransaction.oncomplete = () => resolve();
+    decvcplatTransaction.onerror = () => reject(decvcplatTransaction.error);
+    decvcplatTransaction.onabort = () => reject(decvcplatTransaction.error);
+  });
+
+export class DecVCPlatIndexedDbStore implements DecVCPlatIndexerStore {
+  private decvcplatDatabase: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly decvcplatFactory: IDBFactory = indexedDB) {}
+
+  async getCheckpoint(decvcplatKey: string): Promise<DecVCPlatIndexerCheckpoint | undefined> {
+    const decvcplatDatabase = await this.openDecVCPlatDatabase();
+    return awaitDecVCPlatIdbRequest(decvcplatDatabase.transaction('checkpoints').objectStore('checkpoints').get(decvcplatKey));
+  }
+
+  async putCheckpoint(decvcplatCheckpoint: DecVCPlatIndexerCheckpoint): Promise<void> {
+    const decvcplatDatabase = await this.openDecVCPlatDatabase();
+    const decvcplatTransaction = decvcplatDatabase.transaction('checkpoints', 'readwrite');
+    decvcplatTransaction.objectStore('checkpoints').put(decvcplatCheckpoint);
+    return awaitDecVCPlatIdbTransaction(decvcplatTransaction);
+  }
+
+  async getEvents(decvcplatChainId: number): Promise<DecVCPlatIndexedEvent[]> {
+    const decvcplatDatabase = await this.openDecVCPlatDatabase();
+    return awaitDecVCPlatIdbRequest(
+      decvcplatDatabase.transaction('events').objectStore('events').index('chainId').getAll(decvcplatChainId)
+    );
+  }
+
+  async putEvents(decvcplatEvents: DecVCPlatIndexedEvent[]): Promise<void> {
+    if (decvcplatEvents.length === 0) {
+      return;
+    }
+    const decvcplatDatabase = await this.openDecVCPlatDatabase();
+    const decvcplatTransaction = decvcplatDatabase.transaction('events', 'readwrite');
+    const decvcplatObjectStore = decvcplatTransaction.objectStore('events');
+    decvcplatEvents.forEach(decvcplatEvent => decvcplatObjectStore.put(decvcplatEvent));
+    return awaitDecVCPlatIdbTransaction(decvcplatTransaction);
+  }
+
+  async deleteEventsFrom(decvcplatChainId: number, decvcplatContractAddress: string, decvcplatFromBlock: number): Promise<void> {
+    const decvcplatDatabase = await this.openDecVCPlatDatabase();
+    const decvcplatTransaction = decvcplatDatabase.transaction('events', 'readwrite');
+    const decvcplatCursorRequest = decvcplatTransaction.objectStore('events').index('chainId').openCursor(decvcplatChainId);
+    decvcplatCursorRequest.onsuccess = () => {
+      const decvcplatCursor = decvcplatCursorRequest.result;
+      if (!decvcplatCursor) {
+        return;
+      }
+      if (isDecVCPlatEventAtOrAfter(decvcplatCursor.value, decvcplatChainId, decvcplatContractAddress, decvcplatFromBlock)) {
+        decvcplatCursor.delete();
+      }
+      decvcplatCursor.continue();
+    };
+    return awaitDecVCPlatIdbTransaction(decvcplatTransaction);
+  }
+
+  private openDecVCPlatDatabase(): Promise<IDBDatabase> {
+    if (!this.decvcplatDatabase) {
+      const decvcplatOpenRequest = this.decvcplatFactory.open(decvcplatIndexedDbName, decvcplatIndexedDbVersion);
+      decvcplatOpenRequest.onupgradeneeded = () => {
+        const decvcplatDatabase = decvcplatOpenRequest.result;
+        decvcplatDatabase.createObjectStore('checkpoints', { keyPath: 'key' });
+        decvcplatDatabase.createObjectStore('events', { keyPath: 'id' }).createIndex('chainId', 'chainId');
+      };
+      this.decvcplatDatabase = awaitDecVCPlatIdbRequest(decvcplatOpenRequest);
+      // Let a later sync try again instead of caching the failure
+      this.decvcplatDatabase.catch(() => {
+        this.decvcplatDatabase = null;
+      });
+    }
+    return this.decvcplatDatabase;
+  }
+}
+
+// DecVCPlat Event Decoding
+const decvcplatEventAccountArgs: Partial<Record<DecVCPlatIndexedEventName, string>> = {
+  ProposalCreated: 'proposer',
+  VoteCast: 'voter',
+  StakeForVoting: 'user',
+  UnstakeFromVoting: 'user',
+  TokensStaked: 'user',
+  TokensUnstaked: 'user',
+  RewardsDistributed: 'user',
+};
+
+const decvcplatEventAmountArgs: Record<DecVCPlatIndexedEventName, string> = {
+  ProposalCreated: 'fundingAmount',
+  VoteCast: 'votingPower',
+  ProposalExecuted: 'fundingAmount',
+  StakeForVoting: 'amount',
+  UnstakeFromVoting: 'amount',
+  MilestoneApproved: 'fundingReleased',
+  TokensStaked: 'amount',
+  TokensUnstaked: 'amount',
+  RewardsDistributed: 'amount',
+};
+
+interface DecVCPlatRawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+const decodeDecVCPlatLog = (
+  decvcplatChainId: number,
+  decvcplatInterface: Interface,
+  decvcplatLog: DecVCPlatRawLog,
+  decvcplatBlockTimestamp: number
+): DecVCPlatIndexedEvent | null => {
+  const decvcplatParsed = decvcplatInterface.parseLog({ topics: decvcplatLog.topics, data: decvcplatLog.data });
+  if (!decvcplatParsed || !decvcplatIndexedEventNames.includes(decvcplatParsed.name as DecVCPlatIndexedEventName)) {
+    return null;
+  }
+
+  const decvcplatName = decvcplatParsed.name as DecVCPlatIndexedEventName;
+  const decvcplatArgs: Record<string, string> = {};
+  decvcplatParsed.fragment.inputs.forEach((decvcplatInput, decvcplatIndex) => {
+    const decvcplatValue = decvcplatParsed.args[decvcplatIndex];
+    decvcplatArgs[decvcplatInput.name] = decvcplatInput.type === 'address' ? getAddress(decvcplatValue) : String(decvcplatValue);
+  });
+
+  const decvcplatAccountArg = decvcplatEventAccountArgs[decvcplatName];
+  const decvcplatTransactionHash = decvcplatLog.transactionHash.toLowerCase();
+  const decvcplatLogIndex = Number(decvcplatLog.logIndex);
+  return {
+    id: `${decvcplatChainId}:${decvcplatTransactionHash}:${decvcplatLogIndex}`,
+    chainId: decvcplatChainId,
+    contractAddress: getAddress(decvcplatLog.address),
+    name: decvcplatName,
+    blockNumber: Number(decvcplatLog.blockNumber),
+    blockHash: decvcplatLog.blockHash,
+    blockTimestamp: decvcplatBlockTimestamp,
+    transactionHash: decvcplatTransactionHash,
+    logIndex: decvcplatLogIndex,
+    account: decvcplatAccountArg ? decvcplatArgs[decvcplatAccountArg].toLowerCase() : undefined,
+    proposalId: decvcplatArgs.proposalId,
+    milestoneId: decvcplatArgs.milestoneId,
+    amount: decvcplatArgs[decvcplatEventAmountArgs[decvcplatName]],
+    args: decvcplatArgs,
+  };
+};
+
+const compareDecVCPlatEventsNewestFirst = (decvcplatLeft: DecVCPlatIndexedEvent, decvcplatRight: DecVCPlatIndexedEvent): number =>
+  decvcplatRight.blockNumber - decvcplatLeft.blockNumber || decvcplatRight.logIndex - decvcplatLeft.logIndex;
+
+// DecVCPlat Wallet History
+const decvcplatEventCategories: Record<DecVCPlatIndexedEventName, WalletTransactionCategory> = {
+  ProposalCreated: 'funding',
+  VoteCast: 'vote',
+  ProposalExecuted: 'funding',
+  StakeForVoting: 'stake',
+  UnstakeFromVoting: 'unstake',
+  MilestoneApproved: 'funding',
+  TokensStaked: 'stake',
+  TokensUnstaked: 'unstake',
+  RewardsDistributed: 'reward',
+};
+
+const describeDecVCPlatIndexedEvent = (decvcplatEvent: DecVCPlatIndexedEvent): string => {
+  const { args: decvcplatArgs } = decvcplatEvent;
+  switch (decvcplatEvent.name) {
+    case 'ProposalCreated':
+      return `Created proposal #${decvcplatArgs.proposalId}: ${decvcplatArgs.title}`;
+    case 'VoteCast':
+      return `Voted ${decvcplatOnChainVoteChoices[Number(decvcplatArgs.choice)]} on proposal #${decvcplatArgs.proposalId}`;
+    case 'ProposalExecuted':
+      return `Proposal #${decvcplatArgs.proposalId} executed`;
+    case 'StakeForVoting':
+      return 'Staked for voting';
+    case 'UnstakeFromVoting':
+      return 'Unstaked from voting';
+    case 'MilestoneApproved':
+      return `Milestone #${decvcplatArgs.milestoneId} approved`;
+    case 'TokensStaked':
+      return 'Staked for rewards';
+    case 'TokensUnstaked':
+      return `Unstaked with ${formatDecVCPlatTokenAmount(BigInt(decvcplatArgs.rewards))} DVCP rewards`;
+    case 'RewardsDistributed':
+      return 'Staking rewards paid out';
+  }
+};
+
+const toDecVCPlatWalletTransaction = (decvcplatEvent: DecVCPlatIndexedEvent, decvcplatConfirmedBlock: number): WalletTransactionDto => ({
+  transactionHash: decvcplatEvent.transactionHash,
+  fromAddress: decvcplatEvent.args[decvcplatEventAccountArgs[decvcplatEvent.name] ?? ''] ?? decvcplatEvent.contractAddress,
+  toAddress: decvcplatEvent.contractAddress,
+  amountTransferred: formatDecVCPlatTokenAmount(BigInt(decvcplatEvent.amount)),
+  // Logs carry no gas data; receipts would cost one request per row
+  gasConsumed: '0',
+  gasCostInGwei: '0',
+  blockTimestamp: new Date(decvcplatEvent.blockTimestamp * 1000).toISOString(),
+  confirmationStatus: decvcplatEvent.blockNumber <= decvcplatConfirmedBlock ? 'confirmed' : 'pending',
+  transactionCategory: decvcplatEventCategories[decvcplatEvent.name],
+  transactionNote: describeDecVCPlatIndexedEvent(decvcplatEvent),
+  blockHeight: decvcplatEvent.blockNumber,
+});
+
+// DecVCPlat Indexer
+export interface DecVCPlatEventIndexerOptions {
+  getProvider: (decvcplatChainId: number) => DecVCPlatEip1193Provider | null;
+  store: DecVCPlatIndexerStore;
+  // Depth below the head at which logs count as final
+  confirmations?: number;
+  chunkSize?: number;
+  // How far to rewind when the checkpoint block is no longer on the chain
+  reorgRewindBlocks?: number;
+}
+
+export type DecVCPlatEventIndexerListener = (decvcplatChainId: number) => void;
+
+// Providers word range and result-size limits differently; these cover the common ones
+const isDecVCPlatLogRangeError = (decvcplatError: any): boolean =>
+  decvcplatError?.code === -32005
+  || /range|limit|too many|exceed|response size/i.test(decvcplatError?.message ?? '');
+
+export class DecVCPlatEventIndexer {
+  private readonly decvcplatListeners = new Set<DecVCPlatEventIndexerListener>();
+  private readonly decvcplatSyncs = new Map<number, Promise<void>>();
+  private readonly decvcplatConfirmations: number;
+  private readonly decvcplatChunkSize: number;
+  private readonly decvcplatReorgRewindBlocks: number;
+
+  constructor(private readonly decvcplatOptions: DecVCPlatEventIndexerOptions) {
+    this.decvcplatConfirmations = Math.max(decvcplatOptions.confirmations ?? 12, 0);
+    this.decvcplatChunkSize = Math.max(decvcplatOptions.chunkSize ?? 2000, 1);
+    this.decvcplatReorgRewindBlocks = Math.max(decvcplatOptions.reorgRewindBlocks ?? 128, 1);
+  }
+
+  subscribe(decvcplatListener: DecVCPlatEventIndexerListener): () => void {
+    this.decvcplatListeners.add(decvcplatListener);
+    return () => {
+      this.decvcplatListeners.delete(decvcplatListener);
+    };
+  }
+
+  isDecVCPlatChainIndexed(decvcplatChainId: number): boolean {
+    return this.getDecVCPlatIndexedContracts(decvcplatChainId).length > 0;
+  }
+
+  // Concurrent callers for the same chain share one sync
+  syncDecVCPlatEvents(decvcplatChainId: number): Promise<void> {
+    const decvcplatRunning = this.decvcplatSyncs.get(decvcplatChainId);
+    if (decvcplatRunning) {
+      return decvcplatRunning;
+    }
+
+    const decvcplatSync = this.runDecVCPlatSync(decvcplatChainId).finally(() => {
+      this.decvcplatSyncs.delete(decvcplatChainId);
+    });
+    this.decvcplatSyncs.set(decvcplatChainId, decvcplatSync);
+    return decvcplatSync;
+  }
+
+  async getDecVCPlatAccountEvents(decvcplatChainId: number, decvcplatAccount: string): Promise<DecVCPlatIndexedEvent[]> {
+    const decvcplatEvents = await this.decvcplatOptions.store.getEvents(decvcplatChainId);
+    return decvcplatEvents
+      .filter(decvcplatEvent => decvcplatEvent.account === decvcplatAccount.toLowerCase())
+      .sort(compareDecVCPlatEventsNewestFirst);
+  }
+
+  async getDecVCPlatWalletHistory(decvcplatChainId: number, decvcplatAccount: string): Promise<WalletTransactionDto[]> {
+    const decvcplatEvents = await this.getDecVCPlatAccountEvents(decvcplatChainId, decvcplatAccount);
+    const decvcplatConfirmedBlocks = new Map<string, number>();
+    for (const decvcplatEvent of decvcplatEvents) {
+      if (!decvcplatConfirmedBlocks.has(decvcplatEvent.contractAddress)) {
+        const decvcplatCheckpoint = await this.decvcplatOptions.store.getCheckpoint(
+          this.getDecVCPlatCheckpointKey(decvcplatChainId, decvcplatEvent.contractAddress)
+        );
+        decvcplatConfirmedBlocks.set(decvcplatEvent.contractAddress, decvcplatCheckpoint?.blockNumber ?? -1);
+      }
+    }
+    return decvcplatEvents.map(decvcplatEvent =>
+      toDecVCPlatWalletTransaction(decvcplatEvent, decvcplatConfirmedBlocks.get(decvcplatEvent.contractAddress)!)
+    );
+  }
+
+  async getDecVCPlatProposalTallies(decvcplatChainId: number): Promise<Record<string, DecVCPlatProposalTally>> {
+    const decvcplatTallies: Record<string, DecVCPlatProposalTally> = {};
+    const ensureTally = (decvcplatProposalId: string): DecVCPlatProposalTally => {
+      if (!decvcplatTallies[decvcplatProposalId]) {
+        decvcplatTallies[decvcplatProposalId] = {
+          proposalId: decvcplatProposalId,
+          forVotes: '0',
+          againstVotes: '0',
+          abstainVotes: '0',
+          voterCount: 0,
+          executed: false,
+        };
+      }
+      return decvcplatTallies[decvcplatProposalId];
+    };
+
+    const decvcplatEvents = await this.decvcplatOptions.store.getEvents(decvcplatChainId);
+    decvcplatEvents.forEach((decvcplatEvent) => {
+      if (!decvcplatEvent.proposalId) {
+        return;
+      }
+      const decvcplatTally = ensureTally(decvcplatEvent.proposalId);
+      if (decvcplatEvent.name === 'ProposalExecuted') {
+        decvcplatTally.executed = true;
+      } else if (decvcplatEvent.name === 'VoteCast') {
+        const decvcplatField = (['againstVotes', 'forVotes', 'abstainVotes'] as const)[Number(decvcplatEvent.args.choice)];
+        decvcplatTally[decvcplatField] = (BigInt(decvcplatTally[decvcplatField]) + BigInt(decvcplatEvent.amount)).toString();
+        decvcplatTally.voterCount += 1;
+      }
+    });
+    return decvcplatTallies;
+  }
+
+  private getDecVCPlatIndexedContracts(decvcplatChainId: number): Array<{ address: string; interface: Interface; events: DecVCPlatIndexedEventName[] }> {
+    const decvcplatNetwork = decvcplatNetworkRegistry.getDecVCPlatNetwork(decvcplatChainId);
+    return (Object.keys(decvcplatIndexedEvents) as DecVCPlatIndexedContract[])
+      .filter(decvcplatContract => !!decvcplatNetwork?.contracts[decvcplatContract])
+      .map(decvcplatContract => ({
+        address: getAddress(decvcplatNetwork!.contracts[decvcplatContract]!),
+        ...decvcplatIndexedEvents[decvcplatContract],
+      }));
+  }
+
+  private getDecVCPlatCheckpointKey(decvcplatChainId: number, decvcplatContractAddress: string): string {
+    return `${decvcplatChainId}:${decvcplatContractAddress.toLowerCase()}`;
+  }
+
+  private async runDecVCPlatSync(decvcplatChainId: number): Promise<void> {
+    const decvcplatProvider = this.decvcplatOptions.getProvider(decvcplatChainId);
+    if (!decvcplatProvider) {
+      throw new Error(`DecVCPlat indexer has no provider for ${decvcplatNetworkRegistry.getDecVCPlatNetworkName(decvcplatChainId)}`);
+    }
+
+    // Logs from the wrong chain would be cached under this chain's key
+    const decvcplatProviderChainId = Number(await decvcplatProvider.request({ method: 'eth_chainId' }));
+    if (decvcplatProviderChainId !== decvcplatChainId) {
+      throw new Error(`DecVCPlat indexer provider is on chain ${decvcplatProviderChainId}, expected ${decvcplatChainId}`);
+    }
+
+    const decvcplatHead = Number(await decvcplatProvider.request({ method: 'eth_blockNumber' }));
+    const decvcplatStartBlock = decvcplatNetworkRegistry.getDecVCPlatNetwork(decvcplatChainId)?.deploymentBlock ?? 0;
+    const decvcplatTimestamps = new Map<number, number>();
+
+    for (const decvcplatContract of this.getDecVCPlatIndexedContracts(decvcplatChainId)) {
+      await this.syncDecVCPlatContract(decvcplatProvider, decvcplatChainId, decvcplatContract, decvcplatStartBlock, decvcplatHead, decvcplatTimestamps);
+    }
+
+    this.decvcplatListeners.forEach((decvcplatListener) => {
+      try {
+        decvcplatListener(decvcplatChainId);
+      } catch (decvcplatError) {
+        console.error('DecVCPlat indexer listener error:', decvcplatError);
+      }
+    });
+  }
+
+  private async syncDecVCPlatContract(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatChainId: number,
+    decvcplatContract: { address: string; interface: Interface; events: DecVCPlatIndexedEventName[] },
+    decvcplatStartBlock: number,
+    decvcplatHead: number,
+    decvcplatTimestamps: Map<number, number>
+  ): Promise<void> {
+    const { store } = this.decvcplatOptions;
+    const decvcplatKey = this.getDecVCPlatCheckpointKey(decvcplatChainId, decvcplatContract.address);
+    const decvcplatCheckpoint = await store.getCheckpoint(decvcplatKey);
+
+    let decvcplatFromBlock = decvcplatStartBlock;
+    if (decvcplatCheckpoint) {
+      const decvcplatCheckpointBlock = await this.readDecVCPlatBlock(decvcplatProvider, decvcplatCheckpoint.blockNumber);
+      decvcplatFromBlock = decvcplatCheckpointBlock?.hash === decvcplatCheckpoint.blockHash
+        ? decvcplatCheckpoint.blockNumber + 1
+        : Math.max(decvcplatStartBlock, decvcplatCheckpoint.blockNumber - this.decvcplatReorgRewindBlocks + 1);
+    }
+
+    await store.deleteEventsFrom(decvcplatChainId, decvcplatContract.address, decvcplatFromBlock);
+
+    const decvcplatLogs = await this.fetchDecVCPlatLogs(decvcplatProvider, decvcplatContract, decvcplatFromBlock, decvcplatHead);
+    const decvcplatEvents: DecVCPlatIndexedEvent[] = [];
+    for (const decvcplatLog of decvcplatLogs) {
+      if (decvcplatLog.removed) {
+        continue;
+      }
+      const decvcplatBlockNumber = Number(decvcplatLog.blockNumber);
+      if (!decvcplatTimestamps.has(decvcplatBlockNumber)) {
+        const decvcplatBlock = await this.readDecVCPlatBlock(decvcplatProvider, decvcplatBlockNumber);
+        decvcplatTimestamps.set(decvcplatBlockNumber, decvcplatBlock ? Number(decvcplatBlock.timestamp) : 0);
+      }
+      const decvcplatEvent = decodeDecVCPlatLog(decvcplatChainId, decvcplatContract.interface, decvcplatLog, decvcplatTimestamps.get(decvcplatBlockNumber)!);
+      if (decvcplatEvent) {
+        decvcplatEvents.push(decvcplatEvent);
+      }
+    }
+    await store.putEvents(decvcplatEvents);
+
+    const decvcplatSafeBlock = decvcplatHead - this.decvcplatConfirmations;
+    if (decvcplatSafeBlock >= decvcplatFromBlock - 1 && decvcplatSafeBlock >= decvcplatStartBlock) {
+      const decvcplatSafeBlockHeader = await this.readDecVCPlatBlock(decvcplatProvider, decvcplatSafeBlock);
+      if (decvcplatSafeBlockHeader) {
+        await store.putCheckpoint({
+          key: decvcplatKey,
+          chainId: decvcplatChainId,
+          contractAddress: decvcplatContract.address,
+          blockNumber: decvcplatSafeBlock,
+          blockHash: decvcplatSafeBlockHeader.hash,
+        });
+      }
+    }
+  }
+
+  // Halves the block range whenever the node refuses one as too large
+  private async fetchDecVCPlatLogs(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatContract: { address: string; interface: Interface; events: DecVCPlatIndexedEventName[] },
+    decvcplatFromBlock: number,
+    decvcplatToBlock: number
+  ): Promise<DecVCPlatRawLog[]> {
+    const decvcplatTopics = decvcplatContract.events.map(decvcplatName => decvcplatContract.interface.getEvent(decvcplatName)!.topicHash);
+    const decvcplatLogs: DecVCPlatRawLog[] = [];
+    let decvcplatChunkSize = this.decvcplatChunkSize;
+
+    for (let decvcplatChunkStart = decvcplatFromBlock; decvcplatChunkStart <= decvcplatToBlock;) {
+      const decvcplatChunkEnd = Math.min(decvcplatChunkStart + decvcplatChunkSize - 1, decvcplatToBlock);
+      try {
+        const decvcplatChunkLogs: DecVCPlatRawLog[] = await decvcplatProvider.request({
+          method: 'eth_getLogs',
+          params: [{
+            address: decvcplatContract.address,
+            fromBlock: toQuantity(decvcplatChunkStart),
+            toBlock: toQuantity(decvcplatChunkEnd),
+            topics: [decvcplatTopics],
+          }],
+        });
+        decvcplatLogs.push(...decvcplatChunkLogs);
+        decvcplatChunkStart = decvcplatChunkEnd + 1;
+      } catch (decvcplatError) {
+        if (decvcplatChunkSize === 1 || !isDecVCPlatLogRangeError(decvcplatError)) {
+          throw decvcplatError;
+        }
+        decvcplatChunkSize = Math.max(Math.floor(decvcplatChunkSize / 2), 1);
+      }
+    }
+    return decvcplatLogs;
+  }
+
+  private readDecVCPlatBlock(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatBlockNumber: number
+  ): Promise<{ hash: string; timestamp: string } | null> {
+    return decvcplatProvider.request({ method: 'eth_getBlockByNumber', params: [toQuantity(decvcplatBlockNumber), false] });
+  }
+}
+
+// Reads go through the wallet when it is on the chain being indexed, otherwise
+// through the registry's public RPC endpoint.
+const getDecVCPlatIndexerProvider = (decvcplatChainId: number): DecVCPlatEip1193Provider | null => {
+  const decvcplatWalletProvider = decvcplatWalletService.getDecVCPlatReadProvider();
+  if (decvcplatWalletProvider && decvcplatWalletService.getDecVCPlatCurrentNetwork() === decvcplatChainId) {
+    return decvcplatWalletProvider;
+  }
+  const decvcplatRpcUrl = decvcplatNetworkRegistry.getDecVCPlatNetwork(decvcplatChainId)?.rpcUrl;
+  return decvcplatRpcUrl ? createDecVCPlatJsonRpcProvider(decvcplatRpcUrl) : null;
+};
+
+export const decvcplatEventIndexer = new DecVCPlatEventIndexer({
+  getProvider: getDecVCPlatIndexerProvider,
+  store: typeof indexedDB !== 'undefined' ? new DecVCPlatIndexedDbStore() : new DecVCPlatMemoryIndexerStore(),
+});
+
+export default decvcplatEventIndexer;
@@ -0,0 +1,169 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { parseUnits, toQuantity } from 'ethers';
+import {
+  DecVCPlatContractCall,
+  DecVCPlatEip1193Provider,
+  DecVCPlatTransactionRequest,
+  decodeDecVCPlatRevertReason,
+  extractDecVCPlatRevertData,
+} from './DecVCPlatContractBindings';
+
+// DecVCPlat Fee Estimation
+// Gas comes from eth_estimateGas plus a margin, since state can change between the
+// estimate and inclusion. Fees follow EIP-1559: the next block's base fee from
+// eth_feeHistory scaled for headroom, plus a priority fee taken from what recent
+// blocks actually paid at the 10th/50th/90th percentile. Chains without a base fee
+// fall back to eth_gasPrice.
+export type DecVCPlatFeeSpeed = 'slow' | 'normal' | 'fast';
+
+export const decvcplatFeeSpeeds: DecVCPlatFeeSpeed[] = ['slow', 'normal', 'fast'];
+
+export interface DecVCPlatFeeSuggestion {
+  speed: DecVCPlatFeeSpeed;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+  // What the transaction should cost at the current base fee, and the most it can cost
+  estimatedCostWei: bigint;
+  maxCostWei: bigint;
+}
+
+export interface DecVCPlatTransactionFeeQuote {
+  gasEstimate: bigint;
+  gasLimit: bigint;
+  baseFeePerGas: bigint | null;
+  suggestions: Record<DecVCPlatFeeSpeed, DecVCPlatFeeSuggestion>;
+}
+
+export const decvcplatGasSafetyMarginPercent = 20;
+
+const decvcplatFeeHistoryBlocks = 10;
+const decvcplatRewardPercentiles = [10, 50, 90];
+// Headroom over the next base fee; 12.5% is one full block of base fee increase
+const decvcplatBaseFeeMultiplierBps: Record<DecVCPlatFeeSpeed, bigint> = { slow: BigInt(11250), normal: BigInt(15000), fast: BigInt(20000) };
+const decvcplatGasPriceMultiplierBps: Record<DecVCPlatFeeSpeed, bigint> = { slow: BigInt(9000), normal: BigInt(10000), fast: BigInt(12500) };
+// Used when recent blocks were empty (local chains) and paid no priority fees
+const decvcplatFallbackPriorityFees: Record<DecVCPlatFeeSpeed, bigint> = {
+  slow: parseUnits('1', 'gwei'),
+  normal: parseUnits('1.5', 'gwei'),
+  fast: parseUnits('2', 'gwei'),
+};
+
+const applyDecVCPlatBps = (decvcplatValue: bigint, decvcplatBps: bigint): bigint => (decvcplatValue * decvcplatBps) / BigInt(10000);
+
+const medianDecVCPlatValue = (decvcplatValues: bigint[]): bigint => {
+  const decvcplatSorted = [...decvcplatValues].sort((decvcplatLeft, decvcplatRight) => (decvcplatLeft < decvcplatRight ? -1 : decvcplatLeft > decvcplatRight ? 1 : 0));
+  return decvcplatSorted[Math.floor(decvcplatSorted.length / 2)];
+};
+
+// A failed estimate almost always means the call would revert; surface the reason
+// rather than letting the wallet fall back to a guess that then runs out of gas.
+export const estimateDecVCPlatGasLimit = async (
+  decvcplatProvider: DecVCPlatEip1193Provider,
+  decvcplatCall: DecVCPlatContractCall
+): Promise<{ gasEstimate: bigint; gasLimit: bigint }> => {
+  let decvcplatEstimateHex: string;
+  try {
+    decvcplatEstimateHex = await decvcplatProvider.request({ method: 'eth_estimateGas', params: [decvcplatCall] });
+  } catch (decvcplatError: any) {
+    const decvcplatRevertData = extractDecVCPlatRevertData(decvcplatError);
+    throw new Error(decvcplatRevertData
+      ? decodeDecVCPlatRevertReason(decvcplatRevertData)
+      : `DecVCPlat gas estimation failed: ${decvcplatError?.message ?? decvcplatError}`);
+  }
+
+  const decvcplatGasEstimate = BigInt(decvcplatEstimateHex);
+  return {
+    gasEstimate: decvcplatGasEstimate,
+    gasLimit: (decvcplatGasEstimate * BigInt(100 + decvcplatGasSafetyMarginPercent)) / BigInt(100),
+  };
+};
+
+const suggestDecVCPlatEip1559Fees = async (
+  decvcplatProvider: DecVCPlatEip1193Provider
+): Promise<{ baseFeePerGas: bigint; priorityFees: Record<DecVCPlatFeeSpeed, bigint> } | null> => {
+  let decvcplatHistory: { baseFeePerGas?: string[]; gasUsedRatio?: number[]; reward?: string[][] };
+  try {
+    decvcplatHistory = await decvcplatProvider.request({
+      method: 'eth_feeHistory',
+      params: [toQuantity(decvcplatFeeHistoryBlocks), 'latest', decvcplatRewardPercentiles],
+    });
+  } catch {
+    return null;
+  }
+
+  // The last entry is the base fee of the block after the newest one
+  const decvcplatNextBaseFee = decvcplatHistory?.baseFeePerGas?.[decvcplatHistory.baseFeePerGas.length - 1];
+  if (!decvcplatNextBaseFee) {
+    return null;
+  }
+
+  const decvcplatRewards = (decvcplatHistory.reward ?? []).filter(
+    (_, decvcplatIndex) => (decvcplatHistory.gasUsedRatio?.[decvcplatIndex] ?? 0) > 0
+  );
+  const priorityFees = Object.fromEntries(decvcplatFeeSpeeds.map((decvcplatSpeed, decvcplatIndex) => [
+    decvcplatSpeed,
+    decvcplatRewards.length > 0
+      ? medianDecVCPlatValue(decvcplatRewards.map(decvcplatBlockRewards => BigInt(decvcplatBlockRewards[decvcplatIndex])))
+      : decvcplatFallbackPriorityFees[decvcplatSpeed],
+  ])) as Record<DecVCPlatFeeSpeed, bigint>;
+
+  return { baseFeePerGas: BigInt(decvcplatNextBaseFee), priorityFees };
+};
+
+export const quoteDecVCPlatTransactionFees = async (
+  decvcplatProvider: DecVCPlatEip1193Provider,
+  decvcplatCall: DecVCPlatContractCall
+): Promise<DecVCPlatTransactionFeeQuote> => {
+  const [{ gasEstimate, gasLimit }, decvcplatEip1559Fees] = await Promise.all([
+    estimateDecVCPlatGasLimit(decvcplatProvider, decvcplatCall),
+    suggestDecVCPlatEip1559Fees(decvcplatProvider),
+  ]);
+
+  if (decvcplatEip1559Fees) {
+    const { baseFeePerGas, priorityFees } = decvcplatEip1559Fees;
+    const suggestions = Object.fromEntries(decvcplatFeeSpeeds.map((decvcplatSpeed) => {
+      const maxPriorityFeePerGas = priorityFees[decvcplatSpeed];
+      const maxFeePerGas = applyDecVCPlatBps(baseFeePerGas, decvcplatBaseFeeMultiplierBps[decvcplatSpeed]) + maxPriorityFeePerGas;
+      return [decvcplatSpeed, {
+        speed: decvcplatSpeed,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        estimatedCostWei: gasEstimate * (baseFeePerGas + maxPriorityFeePerGas),
+        maxCostWei: gasLimit * maxFeePerGas,
+      }];
+    })) as Record<DecVCPlatFeeSpeed, DecVCPlatFeeSuggestion>;
+    return { gasEstimate, gasLimit, baseFeePerGas, suggestions };
+  }
+
+  const decvcplatGasPrice = BigInt(await decvcplatProvider.request({ method: 'eth_gasPrice' }));
+  const suggestions = Object.fromEntries(decvcplatFeeSpeeds.map((decvcplatSpeed) => {
+    const gasPrice = applyDecVCPlatBps(decvcplatGasPrice, decvcplatGasPriceMultiplierBps[decvcplatSpeed]);
+    return [decvcplatSpeed, {
+      speed: decvcplatSpeed,
+      gasPrice,
+      estimatedCostWei: gasEstimate * gasPrice,
+      maxCostWei: gasLimit * gasPrice,
+    }];
+  })) as Record<DecVCPlatFeeSpeed, DecVCPlatFeeSuggestion>;
+  return { gasEstimate, gasLimit, baseFeePerGas: null, suggestions };
+};
+
+export const applyDecVCPlatFeeSuggestion = (
+  decvcplatCall: DecVCPlatContractCall,
+  decvcplatQuote: DecVCPlatTransactionFeeQuote,
+  decvcplatSpeed: DecVCPlatFeeSpeed
+): DecVCPlatTransactionRequest => {
+  const decvcplatSuggestion = decvcplatQuote.suggestions[decvcplatSpeed];
+  return {
+    ...decvcplatCall,
+    gas: toQuantity(decvcplatQuote.gasLimit),
+    ...(decvcplatSuggestion.gasPrice !== undefined
+      ? { gasPrice: toQuantity(decvcplatSuggestion.gasPrice) }
+      : {
+        maxFeePerGas: toQuantity(decvcplatSuggestion.maxFeePerGas!),
+        maxPriorityFeePerGas: toQuantity(decvcplatSuggestion.maxPriorityFeePerGas!),
+      }),
+  };
+};
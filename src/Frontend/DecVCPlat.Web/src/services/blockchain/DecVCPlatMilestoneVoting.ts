@@ -0,0 +1,82 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import type { ProjectMilestoneDto } from '../api/DecVCPlatApiContracts';
+import type { DecVCPlatOnChainMilestone } from './DecVCPlatContractBindings';
+
+// DecVCPlat Milestone Voting
+// Mirrors DecVCPlatGovernance: completeMilestone opens a 3-day window, each staker
+// votes once with their whole voting stake, and a milestone is approved (and its
+// funding released) the moment approvals outweigh rejections. Ballots are still
+// accepted until the window closes, but an approval is never taken back. A window
+// that closes without approval leaves the milestone rejected.
+export const decvcplatMilestoneVotingPeriodMs = 3 * 24 * 60 * 60 * 1000;
+
+export type DecVCPlatMilestoneVotingMilestone = Pick<
+  ProjectMilestoneDto,
+  'status' | 'voteEndTime' | 'approvalVotes' | 'rejectionVotes'
+>;
+
+export interface DecVCPlatMilestoneVoteEvaluation {
+  // False until the founder marks the milestone complete
+  votingStarted: boolean;
+  votingOpen: boolean;
+  approvalVotes: number;
+  rejectionVotes: number;
+  totalVotes: number;
+  // Approvals / all votes, 0 before anyone has voted
+  approvalPercent: number;
+  // Approvals currently outweigh rejections
+  approvalLeading: boolean;
+  // Milliseconds until the window closes, otherwise 0
+  msRemaining: number;
+}
+
+export const getDecVCPlatMilestoneVoteEndTime = (decvcplatCompletedAt: Date): Date =>
+  new Date(decvcplatCompletedAt.getTime() + decvcplatMilestoneVotingPeriodMs);
+
+export const evaluateDecVCPlatMilestoneVote = (
+  decvcplatMilestone: DecVCPlatMilestoneVotingMilestone,
+  decvcplatNow: Date = new Date()
+): DecVCPlatMilestoneVoteEvaluation => {
+  const approvalVotes = decvcplatMilestone.approvalVotes ?? 0;
+  const rejectionVotes = decvcplatMilestone.rejectionVotes ?? 0;
+  const totalVotes = approvalVotes + rejectionVotes;
+  const decvcplatEndMs = decvcplatMilestone.voteEndTime ? new Date(decvcplatMilestone.voteEndTime).getTime() : null;
+  // Like voteOnMilestone, ballots are accepted up to and including voteEndTime
+  const votingOpen = decvcplatEndMs !== null && decvcplatNow.getTime() <= decvcplatEndMs;
+
+  return {
+    votingStarted: decvcplatEndMs !== null,
+    votingOpen,
+    approvalVotes,
+    rejectionVotes,
+    totalVotes,
+    approvalPercent: totalVotes > 0 ? (approvalVotes / totalVotes) * 100 : 0,
+    approvalLeading: approvalVotes > rejectionVotes,
+    msRemaining: votingOpen ? decvcplatEndMs! - decvcplatNow.getTime() : 0,
+  };
+};
+
+// Checks run against the contract's record before sending a transaction, so the
+// wallet is not asked to sign something that is bound to revert.
+export const getDecVCPlatOnChainMilestoneCompletionBlocker = (
+  decvcplatMilestone: Pick<DecVCPlatOnChainMilestone, 'completed'>
+): string | null =>
+  decvcplatMilestone.completed ? 'Milestone is already complete on-chain' : null;
+
+export const getDecVCPlatOnChainMilestoneVoteBlocker = (
+  decvcplatMilestone: Pick<DecVCPlatOnChainMilestone, 'completed' | 'voteEndTime'>,
+  decvcplatStakedForVoting: bigint,
+  decvcplatNow: Date = new Date()
+): string | null => {
+  if (!decvcplatMilestone.completed) {
+    return 'Milestone has not been marked complete on-chain';
+  }
+  if (BigInt(Math.floor(decvcplatNow.getTime() / 1000)) > decvcplatMilestone.voteEndTime) {
+    return 'On-chain milestone voting has closed';
+  }
+  if (decvcplatStakedForVoting <= BigInt(0)) {
+    return 'Stake DVCP for voting before voting on milestones';
+  }
+  return null;
+};
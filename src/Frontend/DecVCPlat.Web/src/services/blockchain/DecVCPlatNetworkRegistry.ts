@@ -0,0 +1,210 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { getAddress, isAddress } from 'ethers';
+
+// DecVCPlat Network Registry
+// One source for the chains the app offers and where the DecVCPlat contracts live on
+// each of them. Built-in defaults cover the public chains and a local Hardhat node;
+// deployments are layered on top from REACT_APP_DECVCPLAT_DEPLOYMENTS and, when
+// REACT_APP_DECVCPLAT_DEPLOYMENTS_URL is set, from a manifest fetched at startup.
+export type DecVCPlatContractName = 'token' | 'governance' | 'staking';
+
+export interface DecVCPlatNativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface DecVCPlatNetworkConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  blockExplorerUrl?: string;
+  nativeCurrency: DecVCPlatNativeCurrency;
+  isTestnet: boolean;
+  contracts: Partial<Record<DecVCPlatContractName, string>>;
+  // First block the event indexer scans; nothing DecVCPlat emitted exists before it
+  deploymentBlock?: number;
+}
+
+// Keyed by chain ID; every field is optional so a manifest can carry contract
+// addresses only, or describe a chain the defaults do not know about.
+export type DecVCPlatDeploymentManifest = Record<string, Partial<Omit<DecVCPlatNetworkConfig, 'chainId'>>>;
+
+export const decvcplatLocalChainId = 31337;
+
+const decvcplatEther: DecVCPlatNativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+// The local addresses are what a fresh Hardhat node assigns when the default account
+// deploys DecVCPlatToken and then DecVCPlatGovernance. The token contract also runs
+// plain staking, so no separate staking contract is listed.
+const decvcplatDefaultNetworks: DecVCPlatNetworkConfig[] = [
+  {
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    blockExplorerUrl: 'https://etherscan.io',
+    nativeCurrency: decvcplatEther,
+    isTestnet: false,
+    contracts: {},
+  },
+  {
+    chainId: 11155111,
+    name: 'Sepolia Testnet',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    blockExplorerUrl: 'https://sepolia.etherscan.io',
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    isTestnet: true,
+    contracts: {},
+  },
+  {
+    chainId: 137,
+    name: 'Polygon Mainnet',
+    rpcUrl: 'https://polygon-rpc.com',
+    blockExplorerUrl: 'https://polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    isTestnet: false,
+    contracts: {},
+  },
+  {
+    chainId: decvcplatLocalChainId,
+    name: 'Hardhat Local',
+    rpcUrl: 'http://127.0.0.1:8545',
+    nativeCurrency: decvcplatEther,
+    isTestnet: true,
+    contracts: {
+      token: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      governance: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    },
+    deploymentBlock: 0,
+  },
+];
+
+const parseDecVCPlatChainIdList = (decvcplatValue?: string): number[] | null => {
+  if (!decvcplatValue) {
+    return null;
+  }
+  return decvcplatValue.split(',').map(decvcplatPart => Number(decvcplatPart.trim())).filter(Number.isInteger);
+};
+
+export class DecVCPlatNetworkRegistry {
+  private readonly decvcplatNetworks = new Map<number, DecVCPlatNetworkConfig>();
+  private readonly decvcplatListeners = new Set<() => void>();
+
+  // enabledChainIds limits what the network selector offers; every known chain can
+  // still be named and resolved, since the wallet may already be on one of them.
+  constructor(
+    decvcplatNetworks: DecVCPlatNetworkConfig[] = decvcplatDefaultNetworks,
+    private readonly decvcplatEnabledChainIds: number[] | null = null
+  ) {
+    decvcplatNetworks.forEach(decvcplatNetwork =>
+      this.decvcplatNetworks.set(decvcplatNetwork.chainId, { ...decvcplatNetwork, contracts: { ...decvcplatNetwork.contracts } })
+    );
+  }
+
+  subscribe(decvcplatListener: () => void): () => void {
+    this.decvcplatListeners.add(decvcplatListener);
+    return () => {
+      this.decvcplatListeners.delete(decvcplatListener);
+    };
+  }
+
+  // Invalid chain IDs or addresses throw instead of being skipped: a typo in a
+  // contract address would otherwise send approvals and stakes to the wrong place.
+  applyDecVCPlatDeploymentManifest(decvcplatManifest: DecVCPlatDeploymentManifest): void {
+    Object.entries(decvcplatManifest).forEach(([decvcplatChainKey, decvcplatEntry]) => {
+      const decvcplatChainId = Number(decvcplatChainKey);
+      if (!Number.isInteger(decvcplatChainId) || decvcplatChainId <= 0) {
+        throw new Error(`DecVCPlat deployment manifest has an invalid chain ID: ${decvcplatChainKey}`);
+      }
+
+      const decvcplatContracts: DecVCPlatNetworkConfig['contracts'] = {};
+      Object.entries(decvcplatEntry.contracts ?? {}).forEach(([decvcplatName, decvcplatAddress]) => {
+        if (!decvcplatAddress || !isAddress(decvcplatAddress)) {
+          throw new Error(`DecVCPlat deployment manifest has an invalid ${decvcplatName} address for chain ${decvcplatChainId}`);
+        }
+        decvcplatContracts[decvcplatName as DecVCPlatContractName] = getAddress(decvcplatAddress);
+      });
+
+      if (decvcplatEntry.deploymentBlock !== undefined && (!Number.isInteger(decvcplatEntry.deploymentBlock) || decvcplatEntry.deploymentBlock < 0)) {
+        throw new Error(`DecVCPlat deployment manifest has an invalid deployment block for chain ${decvcplatChainId}`);
+      }
+
+      const decvcplatExisting = this.decvcplatNetworks.get(decvcplatChainId);
+      if (!decvcplatExisting && (!decvcplatEntry.name || !decvcplatEntry.rpcUrl)) {
+        throw new Error(`DecVCPlat deployment manifest needs a name and rpcUrl for unknown chain ${decvcplatChainId}`);
+      }
+
+      this.decvcplatNetworks.set(decvcplatChainId, {
+        chainId: decvcplatChainId,
+        name: decvcplatEntry.name ?? decvcplatExisting!.name,
+        rpcUrl: decvcplatEntry.rpcUrl ?? decvcplatExisting!.rpcUrl,
+        blockExplorerUrl: decvcplatEntry.blockExplorerUrl ?? decvcplatExisting?.blockExplorerUrl,
+        nativeCurrency: decvcplatEntry.nativeCurrency ?? decvcplatExisting?.nativeCurrency ?? decvcplatEther,
+        isTestnet: decvcplatEntry.isTestnet ?? decvcplatExisting?.isTestnet ?? true,
+        contracts: { ...decvcplatExisting?.contracts, ...decvcplatContracts },
+        deploymentBlock: decvcplatEntry.deploymentBlock ?? decvcplatExisting?.deploymentBlock,
+      });
+    });
+
+    this.decvcplatListeners.forEach(decvcplatListener => decvcplatListener());
+  }
+
+  async loadDecVCPlatDeploymentManifest(decvcplatUrl: string): Promise<void> {
+    const decvcplatResponse = await fetch(decvcplatUrl, { cache: 'no-store' });
+    if (!decvcplatResponse.ok) {
+      throw new Error(`DecVCPlat deployment manifest request failed with status ${decvcplatResponse.status}`);
+    }
+    this.applyDecVCPlatDeploymentManifest(await decvcplatResponse.json());
+  }
+
+  getDecVCPlatNetworks(): DecVCPlatNetworkConfig[] {
+    return Array.from(this.decvcplatNetworks.values()).filter(decvcplatNetwork =>
+      !this.decvcplatEnabledChainIds || this.decvcplatEnabledChainIds.includes(decvcplatNetwork.chainId)
+    );
+  }
+
+  getDecVCPlatNetwork(decvcplatChainId: number): DecVCPlatNetworkConfig | undefined {
+    return this.decvcplatNetworks.get(decvcplatChainId);
+  }
+
+  getDecVCPlatNetworkName(decvcplatChainId: number): string {
+    return this.decvcplatNetworks.get(decvcplatChainId)?.name ?? `Unknown Network (${decvcplatChainId})`;
+  }
+
+  // Staking falls back to the token, which handles plain staking itself
+  getDecVCPlatContractAddress(decvcplatChainId: number, decvcplatContract: DecVCPlatContractName): string | undefined {
+    const decvcplatContracts = this.decvcplatNetworks.get(decvcplatChainId)?.contracts;
+    if (decvcplatContract === 'staking') {
+      return decvcplatContracts?.staking ?? decvcplatContracts?.token;
+    }
+    return decvcplatContracts?.[decvcplatContract];
+  }
+
+  requireDecVCPlatContractAddress(decvcplatChainId: number, decvcplatContract: DecVCPlatContractName): string {
+    const decvcplatAddress = this.getDecVCPlatContractAddress(decvcplatChainId, decvcplatContract);
+    if (!decvcplatAddress) {
+      throw new Error(`DecVCPlat ${decvcplatContract} contract is not deployed on ${this.getDecVCPlatNetworkName(decvcplatChainId)}`);
+    }
+    return decvcplatAddress;
+  }
+
+  getDecVCPlatExplorerUrl(decvcplatChainId: number, decvcplatKind: 'tx' | 'address', decvcplatValue: string): string | undefined {
+    const decvcplatExplorer = this.decvcplatNetworks.get(decvcplatChainId)?.blockExplorerUrl;
+    return decvcplatExplorer ? `${decvcplatExplorer.replace(/\/$/, '')}/${decvcplatKind}/${decvcplatValue}` : undefined;
+  }
+}
+
+const createDecVCPlatNetworkRegistry = (): DecVCPlatNetworkRegistry => {
+  const decvcplatRegistry = new DecVCPlatNetworkRegistry(
+    decvcplatDefaultNetworks,
+    parseDecVCPlatChainIdList(process.env.REACT_APP_DECVCPLAT_NETWORKS)
+  );
+  if (process.env.REACT_APP_DECVCPLAT_DEPLOYMENTS) {
+    decvcplatRegistry.applyDecVCPlatDeploymentManifest(JSON.parse(process.env.REACT_APP_DECVCPLAT_DEPLOYMENTS));
+  }
+  return decvcplatRegistry;
+};
+
+export const decvcplatNetworkRegistry = createDecVCPlatNetworkRegistry();
+export default decvcplatNetworkRegistry;
@@ -0,0 +1,196 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import type { ProposalStatus, VoteDto, VotingProposalDto } from '../api/DecVCPlatApiContracts';
+import type { DecVCPlatOnChainProposal } from './DecVCPlatContractBindings';
+
+// DecVCPlat Proposal Lifecycle
+// Mirrors DecVCPlatGovernance: ballots are accepted up to and including endTime,
+// and once it has passed a proposal succeeds only if every vote (abstentions
+// included) reaches quorum and For strictly beats Against. The platform's
+// approvalThreshold is applied on top, as the For share of For + Against, so
+// abstentions count toward turnout but never toward approval. Turnout is the
+// unweighted participation, so quorum is unaffected by the proposal's voting
+// strategy while approval follows its weighted tallies.
+// Only Pending and Active are derived from the clock; later statuses are kept as
+// the backend recorded them.
+export const decvcplatProposalTransitions: Record<ProposalStatus, ProposalStatus[]> = {
+  Pending: ['Active', 'Cancelled'],
+  Active: ['Passed', 'Failed', 'Cancelled'],
+  Passed: ['Executed'],
+  Failed: [],
+  Executed: [],
+  Cancelled: [],
+};
+
+export type DecVCPlatLifecycleProposal = Pick<
+  VotingProposalDto,
+  'status' | 'startTime' | 'endTime' | 'quorumThreshold' | 'approvalThreshold' | 'forVotes' | 'againstVotes' | 'abstainVotes'
+> & Partial<Pick<VotingProposalDto, 'participation'>>;
+
+export interface DecVCPlatProposalEvaluation {
+  status: ProposalStatus;
+  votingOpen: boolean;
+  // Weighted For + Against + Abstain
+  totalVotes: number;
+  // Unweighted power behind the ballots, which quorum is measured against
+  participation: number;
+  quorumReached: boolean;
+  // Share of the quorum reached so far; can exceed 100
+  quorumPercent: number;
+  // For / (For + Against), 0 when nobody has voted either way
+  approvalPercent: number;
+  approvalReached: boolean;
+  // What the proposal would settle as if voting closed with the current tallies
+  projectedOutcome: 'Passed' | 'Failed';
+  // Milliseconds until voting opens (Pending) or closes (Active), otherwise 0
+  msRemaining: number;
+}
+
+export const canDecVCPlatProposalTransition = (decvcplatFrom: ProposalStatus, decvcplatTo: ProposalStatus): boolean =>
+  decvcplatProposalTransitions[decvcplatFrom].includes(decvcplatTo);
+
+export const isDecVCPlatProposalFinal = (decvcplatStatus: ProposalStatus): boolean =>
+  decvcplatProposalTransitions[decvcplatStatus].length === 0;
+
+export const evaluateDecVCPlatProposal = (
+  decvcplatProposal: DecVCPlatLifecycleProposal,
+  decvcplatNow: Date = new Date()
+): DecVCPlatProposalEvaluation => {
+  const { forVotes, againstVotes, abstainVotes, quorumThreshold, approvalThreshold } = decvcplatProposal;
+  const decvcplatNowMs = decvcplatNow.getTime();
+  const decvcplatStartMs = new Date(decvcplatProposal.startTime).getTime();
+  const decvcplatEndMs = new Date(decvcplatProposal.endTime).getTime();
+
+  const totalVotes = forVotes + againstVotes + abstainVotes;
+  const participation = decvcplatProposal.participation ?? totalVotes;
+  const quorumReached = participation >= quorumThreshold;
+  const decvcplatDecisiveVotes = forVotes + againstVotes;
+  const approvalPercent = decvcplatDecisiveVotes > 0 ? (forVotes / decvcplatDecisiveVotes) * 100 : 0;
+  // Integer comparison avoids rounding at the boundary
+  const approvalReached = forVotes > againstVotes && forVotes * 100 >= approvalThreshold * decvcplatDecisiveVotes;
+  const projectedOutcome = quorumReached && approvalReached ? 'Passed' : 'Failed';
+
+  let status = decvcplatProposal.status;
+  if (status === 'Pending' || status === 'Active') {
+    if (decvcplatNowMs < decvcplatStartMs) {
+      status = 'Pending';
+    } else if (decvcplatNowMs <= decvcplatEndMs) {
+      status = 'Active';
+    } else {
+      status = projectedOutcome;
+    }
+  }
+
+  return {
+    status,
+    votingOpen: status === 'Active',
+    totalVotes,
+    participation,
+    quorumReached,
+    quorumPercent: quorumThreshold > 0 ? (participation / quorumThreshold) * 100 : 100,
+    approvalPercent,
+    approvalReached,
+    projectedOutcome,
+    msRemaining: status === 'Pending'
+      ? decvcplatStartMs - decvcplatNowMs
+      : status === 'Active' ? decvcplatEndMs - decvcplatNowMs : 0,
+  };
+};
+
+// Returns the same object when nothing changes so memoised lists stay stable
+export const applyDecVCPlatProposalLifecycle = <T extends DecVCPlatLifecycleProposal>(
+  decvcplatProposal: T,
+  decvcplatNow: Date = new Date()
+): T => {
+  const decvcplatStatus = evaluateDecVCPlatProposal(decvcplatProposal, decvcplatNow).status;
+  return decvcplatStatus === decvcplatProposal.status ? decvcplatProposal : { ...decvcplatProposal, status: decvcplatStatus };
+};
+
+// A replaced or withdrawn ballot is kept as history but no longer counts
+export const isDecVCPlatBallotCounted = (decvcplatVote: Pick<VoteDto, 'replacedAt' | 'withdrawnAt'>): boolean =>
+  !decvcplatVote.replacedAt && !decvcplatVote.withdrawnAt;
+
+// The ballot currently counting for a voter on a proposal, if any
+export const findDecVCPlatCurrentBallot = (
+  decvcplatVotes: VoteDto[],
+  decvcplatProposalId: string,
+  decvcplatUserId?: string
+): VoteDto | undefined =>
+  decvcplatVotes.find((decvcplatVote) =>
+    decvcplatVote.proposalId === decvcplatProposalId
+    && (decvcplatUserId === undefined || decvcplatVote.userId === decvcplatUserId)
+    && isDecVCPlatBallotCounted(decvcplatVote)
+  );
+
+// Shown instead of the blockers below while the voting service cannot revise ballots
+export const decvcplatVoteRevisionUnavailableMessage = 'Changing or withdrawing a vote is not available yet';
+
+// Why an existing ballot cannot be changed or withdrawn, or null when it can.
+// Off-chain ballots can be revised until voting closes; castVote on the
+// governance contract records a ballot once, so on-chain votes are final.
+export const getDecVCPlatRevoteBlocker = (
+  decvcplatProposal: DecVCPlatLifecycleProposal,
+  decvcplatTalliedOnChain: boolean,
+  decvcplatNow: Date = new Date()
+): string | null => {
+  if (!evaluateDecVCPlatProposal(decvcplatProposal, decvcplatNow).votingOpen) {
+    return 'Votes can only be changed while the proposal is Active';
+  }
+  if (decvcplatTalliedOnChain) {
+    return 'On-chain votes cannot be changed once cast';
+  }
+  return null;
+};
+
+// Why a proposal cannot be executed yet, or null when it can. executeProposal
+// reverts before endTime, and a Passed status alone is not trusted: the tallies
+// must still clear quorum and approval, as the contract re-checks them.
+export const getDecVCPlatExecutionBlocker = (
+  decvcplatProposal: DecVCPlatLifecycleProposal,
+  decvcplatNow: Date = new Date()
+): string | null => {
+  const decvcplatEvaluation = evaluateDecVCPlatProposal(decvcplatProposal, decvcplatNow);
+  if (decvcplatEvaluation.status === 'Executed') {
+    return 'Proposal has already been executed';
+  }
+  if (decvcplatEvaluation.status === 'Pending' || decvcplatEvaluation.status === 'Active') {
+    return 'Voting has not closed on this proposal yet';
+  }
+  if (!canDecVCPlatProposalTransition(decvcplatEvaluation.status, 'Executed')) {
+    return 'Only passed proposals can be executed';
+  }
+  if (!decvcplatEvaluation.quorumReached) {
+    return 'Proposal did not reach quorum';
+  }
+  if (!decvcplatEvaluation.approvalReached) {
+    return 'Proposal did not reach the approval threshold';
+  }
+  return null;
+};
+
+// The same checks against the contract's own record, run before sending
+// executeProposal. The contract's quorum is a share of the token's total supply.
+export const getDecVCPlatOnChainExecutionBlocker = (
+  decvcplatProposal: Pick<DecVCPlatOnChainProposal, 'state' | 'endTime' | 'forVotes' | 'againstVotes' | 'abstainVotes'>,
+  decvcplatTotalSupply: bigint,
+  decvcplatQuorumPercentage: bigint,
+  decvcplatNow: Date = new Date()
+): string | null => {
+  if (decvcplatProposal.state === 'Succeeded' || decvcplatProposal.state === 'Executed') {
+    return 'Proposal has already been executed on-chain';
+  }
+  if (decvcplatProposal.state !== 'Active') {
+    return `Proposal is ${decvcplatProposal.state} on-chain`;
+  }
+  if (BigInt(Math.floor(decvcplatNow.getTime() / 1000)) <= decvcplatProposal.endTime) {
+    return 'On-chain voting period has not ended yet';
+  }
+  const decvcplatTotalVotes = decvcplatProposal.forVotes + decvcplatProposal.againstVotes + decvcplatProposal.abstainVotes;
+  if (decvcplatTotalVotes < (decvcplatTotalSupply * decvcplatQuorumPercentage) / BigInt(100)) {
+    return 'Proposal did not reach the on-chain quorum';
+  }
+  if (decvcplatProposal.forVotes <= decvcplatProposal.againstVotes) {
+    return 'Proposal did not win the on-chain vote';
+  }
+  return null;
+};
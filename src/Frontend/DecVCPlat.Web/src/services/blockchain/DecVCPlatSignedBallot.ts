@@ -0,0 +1,154 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { TypedDataDomain, TypedDataEncoder, TypedDataField, getAddress, hexlify, randomBytes, verifyTypedData } from 'ethers';
+import type { BallotReceiptDto, SignedBallotDto, VoteChoice, VoteDto } from '../api/DecVCPlatApiContracts';
+import { isDecVCPlatBallotCounted } from './DecVCPlatProposalLifecycle';
+
+// DecVCPlat Signed Ballots (EIP-712)
+// Governance proposals can be voted on without a transaction: the voter signs the
+// ballot as typed data and the backend counts it after recovering the signer.
+// The domain carries no verifyingContract because nothing on-chain consumes the
+// signature; the chain ID still keeps a ballot from being replayed elsewhere.
+export interface DecVCPlatBallot {
+  proposalId: string;
+  choice: VoteChoice;
+  // Whole DVCP, so wallets show the same figure as the voting dialog
+  stakedAmount: number;
+  voter: string;
+  nonce: string;
+  issuedAt: number;
+}
+
+export interface DecVCPlatBallotVerification {
+  ballotHash: string;
+  signer: string | null;
+  signatureValid: boolean;
+}
+
+// Result of checking a receipt in the browser. The ballot must appear unchanged, and
+// still counting, among the proposal's published ballots, and every published
+// ballot is re-verified too.
+export interface DecVCPlatBallotReceiptVerification extends DecVCPlatBallotVerification {
+  includedInProposal: boolean;
+  publishedBallots: number;
+  invalidPublishedBallots: number;
+}
+
+export const decvcplatBallotDomainName = 'DecVCPlat Governance';
+export const decvcplatBallotDomainVersion = '1';
+
+export const decvcplatBallotTypes: Record<string, TypedDataField[]> = {
+  Ballot: [
+    { name: 'proposalId', type: 'string' },
+    { name: 'choice', type: 'string' },
+    { name: 'stakedAmount', type: 'uint256' },
+    { name: 'voter', type: 'address' },
+    { name: 'nonce', type: 'string' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+};
+
+export const getDecVCPlatBallotDomain = (decvcplatChainId: number): TypedDataDomain => ({
+  name: decvcplatBallotDomainName,
+  version: decvcplatBallotDomainVersion,
+  chainId: decvcplatChainId,
+});
+
+export const createDecVCPlatBallot = (
+  decvcplatFields: Pick<DecVCPlatBallot, 'proposalId' | 'choice' | 'stakedAmount' | 'voter'>,
+  decvcplatNow: Date = new Date()
+): DecVCPlatBallot => {
+  if (!Number.isInteger(decvcplatFields.stakedAmount) || decvcplatFields.stakedAmount <= 0) {
+    throw new Error('DecVCPlat ballot stake must be a positive whole number of DVCP');
+  }
+  return {
+    ...decvcplatFields,
+    voter: getAddress(decvcplatFields.voter),
+    nonce: hexlify(randomBytes(16)),
+    issuedAt: Math.floor(decvcplatNow.getTime() / 1000),
+  };
+};
+
+// The JSON document eth_signTypedData_v4 expects, EIP712Domain type included
+export const buildDecVCPlatBallotTypedData = (decvcplatBallot: DecVCPlatBallot, decvcplatChainId: number) =>
+  TypedDataEncoder.getPayload(getDecVCPlatBallotDomain(decvcplatChainId), decvcplatBallotTypes, decvcplatBallot);
+
+export const hashDecVCPlatBallot = (decvcplatBallot: DecVCPlatBallot, decvcplatChainId: number): string =>
+  TypedDataEncoder.hash(getDecVCPlatBallotDomain(decvcplatChainId), decvcplatBallotTypes, decvcplatBallot);
+
+export const toDecVCPlatSignedBallot = (
+  decvcplatBallot: DecVCPlatBallot,
+  decvcplatChainId: number,
+  decvcplatSignature: string
+): SignedBallotDto => ({
+  voter: decvcplatBallot.voter,
+  chainId: decvcplatChainId,
+  nonce: decvcplatBallot.nonce,
+  issuedAt: decvcplatBallot.issuedAt,
+  signature: decvcplatSignature,
+});
+
+// Rebuilds the signed ballot from a vote record, or null for votes cast without one
+export const fromDecVCPlatSignedVote = (
+  decvcplatVote: Pick<VoteDto, 'proposalId' | 'choice' | 'stakedAmount' | 'signedBallot'>
+): DecVCPlatBallot | null =>
+  decvcplatVote.signedBallot
+    ? {
+      proposalId: decvcplatVote.proposalId,
+      choice: decvcplatVote.choice,
+      stakedAmount: decvcplatVote.stakedAmount,
+      voter: decvcplatVote.signedBallot.voter,
+      nonce: decvcplatVote.signedBallot.nonce,
+      issuedAt: decvcplatVote.signedBallot.issuedAt,
+    }
+    : null;
+
+// A malformed signature counts as invalid rather than throwing, so one bad ballot
+// cannot stop a receipt from rendering.
+export const verifyDecVCPlatSignedBallot = (
+  decvcplatBallot: DecVCPlatBallot,
+  decvcplatSignedBallot: Pick<SignedBallotDto, 'chainId' | 'signature'>
+): DecVCPlatBallotVerification => {
+  const ballotHash = hashDecVCPlatBallot(decvcplatBallot, decvcplatSignedBallot.chainId);
+  let signer: string | null = null;
+  try {
+    signer = verifyTypedData(
+      getDecVCPlatBallotDomain(decvcplatSignedBallot.chainId),
+      decvcplatBallotTypes,
+      decvcplatBallot,
+      decvcplatSignedBallot.signature
+    );
+  } catch {
+    signer = null;
+  }
+  return { ballotHash, signer, signatureValid: signer !== null && signer === getAddress(decvcplatBallot.voter) };
+};
+
+export const verifyDecVCPlatBallotReceipt = (decvcplatReceipt: BallotReceiptDto): DecVCPlatBallotReceiptVerification => {
+  const decvcplatBallot = fromDecVCPlatSignedVote(decvcplatReceipt.vote);
+  if (!decvcplatBallot || !decvcplatReceipt.vote.signedBallot) {
+    throw new Error('DecVCPlat vote was not cast with a signed ballot');
+  }
+
+  const decvcplatVerification = verifyDecVCPlatSignedBallot(decvcplatBallot, decvcplatReceipt.vote.signedBallot);
+  const decvcplatPublished = decvcplatReceipt.ballots.filter(
+    (decvcplatVote) => decvcplatVote.proposalId === decvcplatReceipt.proposal.id
+  );
+  const invalidPublishedBallots = decvcplatPublished.filter((decvcplatVote) => {
+    const decvcplatPublishedBallot = fromDecVCPlatSignedVote(decvcplatVote);
+    return !decvcplatPublishedBallot || !verifyDecVCPlatSignedBallot(decvcplatPublishedBallot, decvcplatVote.signedBallot!).signatureValid;
+  }).length;
+
+  return {
+    ...decvcplatVerification,
+    includedInProposal: decvcplatReceipt.vote.proposalId === decvcplatReceipt.proposal.id
+      && decvcplatPublished.some((decvcplatVote) =>
+        decvcplatVote.signedBallot?.signature === decvcplatReceipt.vote.signedBallot!.signature
+        && isDecVCPlatBallotCounted(decvcplatVote)
+        && decvcplatVote.choice === decvcplatBallot.choice
+        && decvcplatVote.stakedAmount === decvcplatBallot.stakedAmount
+      ),
+    publishedBallots: decvcplatPublished.length,
+    invalidPublishedBallots,
+  };
+};
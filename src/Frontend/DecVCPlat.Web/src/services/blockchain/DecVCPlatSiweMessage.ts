@@ -0,0 +1,116 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { getAddress } from 'ethers';
+
+// DecVCPlat Sign-In with Ethereum (EIP-4361)
+// The message is plain text in a fixed layout so wallets can recognise it and
+// show the requesting domain; the backend re-parses it after recovering the signer.
+export interface DecVCPlatSiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const decvcplatSiweHeaderSuffix = ' wants you to sign in with your Ethereum account:';
+
+const decvcplatSiweFieldLabels: Array<[keyof DecVCPlatSiweMessageFields, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+export const buildDecVCPlatSiweMessage = (decvcplatFields: DecVCPlatSiweMessageFields): string => {
+  if (!/^[A-Za-z0-9]{8,}$/.test(decvcplatFields.nonce)) {
+    throw new Error('DecVCPlat SIWE nonce must be at least 8 alphanumeric characters');
+  }
+  if (decvcplatFields.statement?.includes('\n')) {
+    throw new Error('DecVCPlat SIWE statement must be a single line');
+  }
+
+  const decvcplatLines = [
+    `${decvcplatFields.domain}${decvcplatSiweHeaderSuffix}`,
+    getAddress(decvcplatFields.address),
+    '',
+    ...(decvcplatFields.statement ? [decvcplatFields.statement, ''] : []),
+  ];
+
+  decvcplatSiweFieldLabels.forEach(([decvcplatKey, decvcplatLabel]) => {
+    const decvcplatValue = decvcplatFields[decvcplatKey];
+    if (decvcplatValue !== undefined) {
+      decvcplatLines.push(`${decvcplatLabel}: ${decvcplatValue}`);
+    }
+  });
+
+  if (decvcplatFields.resources?.length) {
+    decvcplatLines.push('Resources:', ...decvcplatFields.resources.map(decvcplatResource => `- ${decvcplatResource}`));
+  }
+
+  return decvcplatLines.join('\n');
+};
+
+export const parseDecVCPlatSiweMessage = (decvcplatMessage: string): DecVCPlatSiweMessageFields => {
+  const decvcplatLines = decvcplatMessage.split('\n');
+  const [decvcplatHeader, decvcplatAddress, decvcplatBlank] = decvcplatLines;
+
+  if (!decvcplatHeader?.endsWith(decvcplatSiweHeaderSuffix) || decvcplatBlank !== '') {
+    throw new Error('DecVCPlat SIWE message is malformed');
+  }
+
+  let decvcplatCursor = 3;
+  let decvcplatStatement: string | undefined;
+  if (decvcplatLines[decvcplatCursor] !== undefined && !decvcplatLines[decvcplatCursor].startsWith('URI: ')) {
+    decvcplatStatement = decvcplatLines[decvcplatCursor];
+    decvcplatCursor += 2;
+  }
+
+  const decvcplatValues: Record<string, string> = {};
+  for (const [decvcplatKey, decvcplatLabel] of decvcplatSiweFieldLabels) {
+    const decvcplatLine = decvcplatLines[decvcplatCursor];
+    if (decvcplatLine?.startsWith(`${decvcplatLabel}: `)) {
+      decvcplatValues[decvcplatKey] = decvcplatLine.slice(decvcplatLabel.length + 2);
+      decvcplatCursor += 1;
+    }
+  }
+
+  let decvcplatResources: string[] | undefined;
+  if (decvcplatLines[decvcplatCursor] === 'Resources:') {
+    decvcplatResources = decvcplatLines.slice(decvcplatCursor + 1).map(decvcplatLine => decvcplatLine.replace(/^- /, ''));
+    decvcplatCursor = decvcplatLines.length;
+  }
+
+  if (decvcplatCursor !== decvcplatLines.length) {
+    throw new Error(`DecVCPlat SIWE message has an unexpected line: ${decvcplatLines[decvcplatCursor]}`);
+  }
+  if (!decvcplatValues.uri || decvcplatValues.version !== '1' || !decvcplatValues.chainId || !decvcplatValues.nonce || !decvcplatValues.issuedAt) {
+    throw new Error('DecVCPlat SIWE message is missing required fields');
+  }
+
+  return {
+    domain: decvcplatHeader.slice(0, -decvcplatSiweHeaderSuffix.length),
+    address: getAddress(decvcplatAddress),
+    statement: decvcplatStatement,
+    uri: decvcplatValues.uri,
+    version: '1',
+    chainId: Number(decvcplatValues.chainId),
+    nonce: decvcplatValues.nonce,
+    issuedAt: decvcplatValues.issuedAt,
+    expirationTime: decvcplatValues.expirationTime,
+    notBefore: decvcplatValues.notBefore,
+    requestId: decvcplatValues.requestId,
+    resources: decvcplatResources,
+  };
+};
@@ -0,0 +1,128 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { MaxUint256 } from 'ethers';
+import {
+  DecVCPlatGovernanceContract,
+  DecVCPlatTokenContract,
+  formatDecVCPlatTokenAmount,
+  parseDecVCPlatTokenAmount,
+} from './DecVCPlatContractBindings';
+
+// 'rewards' stakes through DecVCPlatToken.stakeTokens, which moves the caller's own
+// balance internally. 'voting' stakes through DecVCPlatGovernance.stakeForVoting,
+// which pulls tokens with transferFrom and therefore needs an allowance first.
+export type DecVCPlatStakingTarget = 'rewards' | 'voting';
+export type DecVCPlatApprovalMode = 'exact' | 'unlimited';
+
+export type DecVCPlatStakingStepKey = 'allowance' | 'approve' | 'stake';
+export type DecVCPlatStakingStepStatus = 'waiting' | 'active' | 'completed' | 'skipped' | 'failed';
+
+export interface DecVCPlatStakingStep {
+  key: DecVCPlatStakingStepKey;
+  status: DecVCPlatStakingStepStatus;
+  message?: string;
+  txHash?: string;
+}
+
+export interface DecVCPlatStakingRequest {
+  amount: string;
+  target: DecVCPlatStakingTarget;
+  approvalMode: DecVCPlatApprovalMode;
+}
+
+export interface DecVCPlatStakingDependencies {
+  ownerAddress: string;
+  tokenContract: DecVCPlatTokenContract;
+  governanceContract?: DecVCPlatGovernanceContract;
+  // Resolves once the transaction is mined successfully and throws if it reverted
+  waitForTransaction: (decvcplatTxHash: string) => Promise<void>;
+}
+
+export interface DecVCPlatStakingOutcome {
+  amountWei: string;
+  stakingContractAddress: string;
+  approvalTxHash?: string;
+  stakeTxHash: string;
+}
+
+export const decvcplatStakingStepKeys: DecVCPlatStakingStepKey[] = ['allowance', 'approve', 'stake'];
+
+export const createDecVCPlatStakingSteps = (): DecVCPlatStakingStep[] =>
+  decvcplatStakingStepKeys.map((key) => ({ key, status: 'waiting' }));
+
+export const runDecVCPlatStakingFlow = async (
+  decvcplatRequest: DecVCPlatStakingRequest,
+  decvcplatDependencies: DecVCPlatStakingDependencies,
+  onDecVCPlatProgress: (decvcplatStep: DecVCPlatStakingStep) => void
+): Promise<DecVCPlatStakingOutcome> => {
+  const { ownerAddress, tokenContract, governanceContract, waitForTransaction } = decvcplatDependencies;
+  let decvcplatCurrentStep: DecVCPlatStakingStepKey = 'allowance';
+
+  const report = (decvcplatStep: Omit<DecVCPlatStakingStep, 'key'>, decvcplatKey: DecVCPlatStakingStepKey = decvcplatCurrentStep) => {
+    decvcplatCurrentStep = decvcplatKey;
+    onDecVCPlatProgress({ key: decvcplatKey, ...decvcplatStep });
+  };
+
+  try {
+    const decvcplatAmountWei = parseDecVCPlatTokenAmount(decvcplatRequest.amount);
+    if (decvcplatAmountWei <= BigInt(0)) {
+      throw new Error('DecVCPlat stake amount must be greater than zero');
+    }
+
+    if (decvcplatRequest.target === 'voting' && !governanceContract) {
+      throw new Error('DecVCPlat governance contract not configured');
+    }
+
+    const decvcplatStakingContract = decvcplatRequest.target === 'voting' ? governanceContract!.decvcplatAddress : tokenContract.decvcplatAddress;
+    let decvcplatApprovalTxHash: string | undefined;
+
+    // Allowance and approval
+    if (decvcplatRequest.target === 'rewards') {
+      report({ status: 'skipped', message: 'Token staking uses your own balance directly' }, 'allowance');
+      report({ status: 'skipped', message: 'No approval required' }, 'approve');
+    } else {
+      report({ status: 'active', message: 'Reading current allowance' }, 'allowance');
+      const decvcplatAllowance = await tokenContract.allowance(ownerAddress, decvcplatStakingContract);
+      report({ status: 'completed', message: `Current allowance: ${formatDecVCPlatTokenAmount(decvcplatAllowance)} DVCP` });
+
+      if (decvcplatAllowance >= decvcplatAmountWei) {
+        report({ status: 'skipped', message: 'Existing allowance covers this stake' }, 'approve');
+      } else {
+        const decvcplatApprovalAmount = decvcplatRequest.approvalMode === 'unlimited' ? MaxUint256 : decvcplatAmountWei;
+        report({ status: 'active', message: 'Confirm the approval in your wallet' }, 'approve');
+
+        decvcplatApprovalTxHash = await tokenContract.approve(decvcplatStakingContract, decvcplatApprovalAmount);
+        report({ status: 'active', message: 'Waiting for the approval to be mined', txHash: decvcplatApprovalTxHash });
+
+        await waitForTransaction(decvcplatApprovalTxHash);
+        report({
+          status: 'completed',
+          message: decvcplatRequest.approvalMode === 'unlimited'
+            ? 'Unlimited allowance granted'
+            : `Allowance set to ${formatDecVCPlatTokenAmount(decvcplatAmountWei)} DVCP`,
+          txHash: decvcplatApprovalTxHash,
+        });
+      }
+    }
+
+    // Stake
+    report({ status: 'active', message: 'Confirm the stake in your wallet' }, 'stake');
+    const decvcplatStakeTxHash = decvcplatRequest.target === 'voting'
+      ? await governanceContract!.stakeForVoting(decvcplatAmountWei)
+      : await tokenContract.stakeTokens(decvcplatAmountWei);
+    report({ status: 'active', message: 'Waiting for the stake to be mined', txHash: decvcplatStakeTxHash });
+
+    await waitForTransaction(decvcplatStakeTxHash);
+    report({ status: 'completed', message: `${formatDecVCPlatTokenAmount(decvcplatAmountWei)} DVCP staked`, txHash: decvcplatStakeTxHash });
+
+    return {
+      amountWei: decvcplatAmountWei.toString(),
+      stakingContractAddress: decvcplatStakingContract,
+      approvalTxHash: decvcplatApprovalTxHash,
+      stakeTxHash: decvcplatStakeTxHash,
+    };
+  } catch (decvcplatError: any) {
+    report({ status: 'failed', message: decvcplatError?.message || String(decvcplatError) });
+    throw decvcplatError;
+  }
+};
@@ -0,0 +1,174 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import {
+  DecVCPlatEip1193Provider,
+  DecVCPlatTokenContract,
+  formatDecVCPlatTokenAmount,
+} from './DecVCPlatContractBindings';
+import type { DecVCPlatIndexedEvent } from './DecVCPlatEventIndexer';
+import type { WalletStakingSummaryDto } from '../api/DecVCPlatApiContracts';
+
+// DecVCPlat Staking Rewards
+// DecVCPlatToken pays simple interest on the staked amount:
+//   rewards(t) = amount * stakingRewardRate / REWARD_RATE_PRECISION * (t - lastRewardTime) / SECONDS_PER_YEAR
+// Every payout, whether claimed or paid out on unstake, emits RewardsDistributed
+// and resets lastRewardTime. The snapshot below holds everything needed to
+// evaluate that formula at any time, so the chart can be redrawn without
+// another chain read. Amounts are wei strings so the snapshot can live in the store.
+export interface DecVCPlatRewardPayout {
+  timestamp: number;
+  amount: string;
+}
+
+export interface DecVCPlatStakingRewardsSnapshot {
+  stakedAmount: string;
+  isActive: boolean;
+  stakingTime: number;
+  lastRewardTime: number;
+  pendingRewards: string;
+  stakingRewardRate: string;
+  rewardRatePrecision: string;
+  secondsPerYear: number;
+  minStakingPeriod: number;
+  // Timestamp of the block the snapshot was read at
+  readAt: number;
+  // Oldest first
+  payouts: DecVCPlatRewardPayout[];
+}
+
+export interface DecVCPlatRewardSeriesPoint {
+  timestamp: number;
+  // Cumulative DVCP earned, paid out plus pending; set up to readAt
+  earned?: number;
+  // Cumulative DVCP expected if the stake stays as it is; set from readAt on
+  projected?: number;
+}
+
+const decvcplatHistorySamples = 24;
+const decvcplatProjectionSamples = 24;
+const decvcplatSecondsPerDay = 24 * 60 * 60;
+
+const toDecVCPlatTokenNumber = (decvcplatWei: bigint): number => Number(formatDecVCPlatTokenAmount(decvcplatWei));
+
+export const calculateDecVCPlatAnnualReward = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot): bigint =>
+  (BigInt(decvcplatSnapshot.stakedAmount) * BigInt(decvcplatSnapshot.stakingRewardRate)) / BigInt(decvcplatSnapshot.rewardRatePrecision);
+
+// The contract's annual rate as a percentage, e.g. 50 / 1000 -> 5
+export const getDecVCPlatRewardRatePercent = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot): number =>
+  (Number(decvcplatSnapshot.stakingRewardRate) * 100) / Number(decvcplatSnapshot.rewardRatePrecision);
+
+// Same integer arithmetic as _calculateStakingRewards, so the value at readAt
+// matches getPendingRewards exactly
+export const calculateDecVCPlatPendingRewardsAt = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot, decvcplatTimestamp: number): bigint => {
+  if (!decvcplatSnapshot.isActive || BigInt(decvcplatSnapshot.stakedAmount) === BigInt(0)) {
+    return BigInt(0);
+  }
+  const decvcplatElapsed = Math.max(0, Math.floor(decvcplatTimestamp) - decvcplatSnapshot.lastRewardTime);
+  return (calculateDecVCPlatAnnualReward(decvcplatSnapshot) * BigInt(decvcplatElapsed)) / BigInt(decvcplatSnapshot.secondsPerYear);
+};
+
+export const getDecVCPlatTotalPaidOut = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot): bigint =>
+  decvcplatSnapshot.payouts.reduce((decvcplatTotal, decvcplatPayout) => decvcplatTotal + BigInt(decvcplatPayout.amount), BigInt(0));
+
+// Seconds until unstaking is allowed; 0 once the minimum period has passed
+export const getDecVCPlatUnstakeWaitSeconds = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot): number =>
+  decvcplatSnapshot.isActive
+    ? Math.max(0, decvcplatSnapshot.stakingTime + decvcplatSnapshot.minStakingPeriod - decvcplatSnapshot.readAt)
+    : 0;
+
+// Past payouts are known exactly; between them accrual is drawn as a straight
+// line, which is exact as long as the staked amount did not change in between.
+const getDecVCPlatEarnedAt = (decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot, decvcplatTimestamp: number, decvcplatStart: number): number => {
+  let decvcplatPaidBefore = BigInt(0);
+  let decvcplatPreviousTime = decvcplatStart;
+  for (const decvcplatPayout of decvcplatSnapshot.payouts) {
+    if (decvcplatPayout.timestamp > decvcplatTimestamp) {
+      const decvcplatSpan = decvcplatPayout.timestamp - decvcplatPreviousTime;
+      const decvcplatShare = decvcplatSpan > 0 ? (decvcplatTimestamp - decvcplatPreviousTime) / decvcplatSpan : 1;
+      return toDecVCPlatTokenNumber(decvcplatPaidBefore) + toDecVCPlatTokenNumber(BigInt(decvcplatPayout.amount)) * decvcplatShare;
+    }
+    decvcplatPaidBefore += BigInt(decvcplatPayout.amount);
+    decvcplatPreviousTime = decvcplatPayout.timestamp;
+  }
+  return toDecVCPlatTokenNumber(decvcplatPaidBefore + calculateDecVCPlatPendingRewardsAt(decvcplatSnapshot, decvcplatTimestamp));
+};
+
+export const buildDecVCPlatRewardSeries = (
+  decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot,
+  decvcplatProjectionDays: number
+): DecVCPlatRewardSeriesPoint[] => {
+  const decvcplatStart = Math.min(
+    decvcplatSnapshot.isActive ? decvcplatSnapshot.stakingTime : decvcplatSnapshot.readAt,
+    ...decvcplatSnapshot.payouts.map(decvcplatPayout => decvcplatPayout.timestamp)
+  );
+
+  const decvcplatHistoryTimes = new Set<number>(decvcplatSnapshot.payouts.map(decvcplatPayout => decvcplatPayout.timestamp));
+  const decvcplatHistorySpan = decvcplatSnapshot.readAt - decvcplatStart;
+  for (let decvcplatIndex = 0; decvcplatIndex < decvcplatHistorySamples; decvcplatIndex++) {
+    decvcplatHistoryTimes.add(decvcplatStart + Math.floor((decvcplatHistorySpan * decvcplatIndex) / decvcplatHistorySamples));
+  }
+
+  const decvcplatSeries: DecVCPlatRewardSeriesPoint[] = Array.from(decvcplatHistoryTimes)
+    .filter(decvcplatTimestamp => decvcplatTimestamp < decvcplatSnapshot.readAt)
+    .sort((decvcplatLeft, decvcplatRight) => decvcplatLeft - decvcplatRight)
+    .map(decvcplatTimestamp => ({ timestamp: decvcplatTimestamp, earned: getDecVCPlatEarnedAt(decvcplatSnapshot, decvcplatTimestamp, decvcplatStart) }));
+
+  // The point at readAt carries both values so the two lines meet
+  const decvcplatEarnedNow = getDecVCPlatEarnedAt(decvcplatSnapshot, decvcplatSnapshot.readAt, decvcplatStart);
+  decvcplatSeries.push({ timestamp: decvcplatSnapshot.readAt, earned: decvcplatEarnedNow, projected: decvcplatEarnedNow });
+
+  const decvcplatPaidOut = getDecVCPlatTotalPaidOut(decvcplatSnapshot);
+  const decvcplatProjectionSpan = decvcplatProjectionDays * decvcplatSecondsPerDay;
+  for (let decvcplatIndex = 1; decvcplatIndex <= decvcplatProjectionSamples; decvcplatIndex++) {
+    const decvcplatTimestamp = decvcplatSnapshot.readAt + Math.floor((decvcplatProjectionSpan * decvcplatIndex) / decvcplatProjectionSamples);
+    decvcplatSeries.push({
+      timestamp: decvcplatTimestamp,
+      projected: toDecVCPlatTokenNumber(decvcplatPaidOut + calculateDecVCPlatPendingRewardsAt(decvcplatSnapshot, decvcplatTimestamp)),
+    });
+  }
+
+  return decvcplatSeries;
+};
+
+export const toDecVCPlatStakingSummary = (
+  decvcplatSnapshot: DecVCPlatStakingRewardsSnapshot,
+  decvcplatAvailableBalance: string
+): WalletStakingSummaryDto => ({
+  currentlyStakedAmount: formatDecVCPlatTokenAmount(BigInt(decvcplatSnapshot.stakedAmount)),
+  availableForStaking: decvcplatAvailableBalance,
+  earnedStakingRewards: formatDecVCPlatTokenAmount(BigInt(decvcplatSnapshot.pendingRewards)),
+  unstakingWaitPeriod: Math.ceil(getDecVCPlatUnstakeWaitSeconds(decvcplatSnapshot) / decvcplatSecondsPerDay),
+  annualPercentageYield: getDecVCPlatRewardRatePercent(decvcplatSnapshot),
+});
+
+// Reads the stake, pending rewards and reward parameters at the latest block.
+// Payouts come from indexed RewardsDistributed events for the account.
+export const readDecVCPlatStakingRewards = async (
+  decvcplatProvider: DecVCPlatEip1193Provider,
+  decvcplatTokenContract: DecVCPlatTokenContract,
+  decvcplatAccount: string,
+  decvcplatAccountEvents: DecVCPlatIndexedEvent[] = []
+): Promise<DecVCPlatStakingRewardsSnapshot> => {
+  const [decvcplatStakeInfo, decvcplatRewardConfig, decvcplatLatestBlock] = await Promise.all([
+    decvcplatTokenContract.getStakeInfo(decvcplatAccount),
+    decvcplatTokenContract.getRewardConfig(),
+    decvcplatProvider.request({ method: 'eth_getBlockByNumber', params: ['latest', false] }),
+  ]);
+
+  return {
+    stakedAmount: decvcplatStakeInfo.amount.toString(),
+    isActive: decvcplatStakeInfo.isActive,
+    stakingTime: Number(decvcplatStakeInfo.stakingTime),
+    lastRewardTime: Number(decvcplatStakeInfo.lastRewardTime),
+    pendingRewards: decvcplatStakeInfo.pendingRewards.toString(),
+    stakingRewardRate: decvcplatRewardConfig.stakingRewardRate.toString(),
+    rewardRatePrecision: decvcplatRewardConfig.rewardRatePrecision.toString(),
+    secondsPerYear: Number(decvcplatRewardConfig.secondsPerYear),
+    minStakingPeriod: Number(decvcplatRewardConfig.minStakingPeriod),
+    readAt: Number(decvcplatLatestBlock.timestamp),
+    payouts: decvcplatAccountEvents
+      .filter(decvcplatEvent => decvcplatEvent.name === 'RewardsDistributed')
+      .map(decvcplatEvent => ({ timestamp: decvcplatEvent.blockTimestamp, amount: decvcplatEvent.amount }))
+      .sort((decvcplatLeft, decvcplatRight) => decvcplatLeft.timestamp - decvcplatRight.timestamp),
+  };
+};
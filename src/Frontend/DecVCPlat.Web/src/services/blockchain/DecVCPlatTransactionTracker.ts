@@ -0,0 +1,513 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { toQuantity } from 'ethers';
+import type { WalletTransactionCategory } from '../api/DecVCPlatApiContracts';
+import {
+  DecVCPlatEip1193Provider,
+  decodeDecVCPlatRevertReason,
+  extractDecVCPlatRevertData,
+} from './DecVCPlatContractBindings';
+import decvcplatWalletService from './DecVCPlatWalletService';
+
+// 'mined' counts confirmations until the required depth is reached. 'replaced'
+// means the wallet sped the transaction up under a new hash, which is tracked on
+// as its own record; 'cancelled' means the nonce was reused for a different call.
+export type DecVCPlatTrackedTransactionStatus =
+  | 'pending'
+  | 'mined'
+  | 'confirmed'
+  | 'failed'
+  | 'replaced'
+  | 'cancelled'
+  | 'dropped';
+
+export interface DecVCPlatTrackedTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  category: WalletTransactionCategory;
+  amount: string;
+  note?: string;
+  status: DecVCPlatTrackedTransactionStatus;
+  confirmations: number;
+  submittedAt: string;
+  submittedBlock?: number;
+  lastSeenAt?: string;
+  nonce?: number;
+  data?: string;
+  value?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  replacedBy?: string;
+  replacementOf?: string;
+  revertReason?: string;
+}
+
+export type DecVCPlatTrackedTransactionInput = Pick<
+  DecVCPlatTrackedTransaction,
+  'hash' | 'from' | 'to' | 'category' | 'amount' | 'note'
+>;
+
+export type DecVCPlatTrackedTransactionListener = (decvcplatTransaction: DecVCPlatTrackedTransaction) => void;
+
+export interface DecVCPlatTransactionTrackerOptions {
+  getProvider: () => DecVCPlatEip1193Provider | null;
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null;
+  requiredConfirmations?: number;
+  pollIntervalMs?: number;
+  // How long a transaction may be missing from the node before it counts as dropped
+  dropAfterMs?: number;
+  // How many recent blocks to search for the transaction that reused a nonce
+  replacementScanDepth?: number;
+  autoPoll?: boolean;
+}
+
+const decvcplatTrackerStorageKey = 'decvcplat_tracked_transactions';
+
+const decvcplatSettledStatuses: DecVCPlatTrackedTransactionStatus[] = ['confirmed', 'failed', 'replaced', 'cancelled', 'dropped'];
+
+// Bookkeeping fields (nonce, calldata, last mempool sighting) change without the
+// user-visible state changing, so listeners are only told about these.
+const decvcplatObservableFields: Array<keyof DecVCPlatTrackedTransaction> = [
+  'status',
+  'confirmations',
+  'blockNumber',
+  'gasUsed',
+  'replacedBy',
+  'revertReason',
+];
+
+export const isDecVCPlatTransactionSettled = (decvcplatStatus: DecVCPlatTrackedTransactionStatus): boolean =>
+  decvcplatSettledStatuses.includes(decvcplatStatus);
+
+export const describeDecVCPlatTransactionOutcome = (decvcplatTransaction: DecVCPlatTrackedTransaction): string => {
+  switch (decvcplatTransaction.status) {
+    case 'pending':
+      return 'Waiting to be mined';
+    case 'mined':
+      return `${decvcplatTransaction.confirmations} confirmation${decvcplatTransaction.confirmations === 1 ? '' : 's'}`;
+    case 'confirmed':
+      return 'Confirmed';
+    case 'failed':
+      return `Reverted: ${decvcplatTransaction.revertReason || 'no reason given'}`;
+    case 'replaced':
+      return decvcplatTransaction.replacedBy
+        ? `Sped up as ${decvcplatTransaction.replacedBy}`
+        : 'Replaced by another transaction with the same nonce';
+    case 'cancelled':
+      return 'Cancelled in the wallet';
+    case 'dropped':
+      return 'Dropped from the mempool';
+  }
+};
+
+export class DecVCPlatTransactionTracker {
+  private readonly decvcplatTransactions = new Map<string, DecVCPlatTrackedTransaction>();
+  private readonly decvcplatListeners = new Set<DecVCPlatTrackedTransactionListener>();
+  private readonly decvcplatStorage: DecVCPlatTransactionTrackerOptions['storage'];
+  private readonly decvcplatRequiredConfirmations: number;
+  private readonly decvcplatPollIntervalMs: number;
+  private readonly decvcplatDropAfterMs: number;
+  private readonly decvcplatReplacementScanDepth: number;
+  private readonly decvcplatAutoPoll: boolean;
+  private decvcplatPollTimer: ReturnType<typeof setTimeout> | null = null;
+  private decvcplatRefreshing = false;
+
+  constructor(private readonly decvcplatOptions: DecVCPlatTransactionTrackerOptions) {
+    this.decvcplatStorage = decvcplatOptions.storage !== undefined
+      ? decvcplatOptions.storage
+      : typeof window !== 'undefined' ? window.localStorage : null;
+    this.decvcplatRequiredConfirmations = Math.max(decvcplatOptions.requiredConfirmations ?? 3, 1);
+    this.decvcplatPollIntervalMs = decvcplatOptions.pollIntervalMs ?? 4000;
+    this.decvcplatDropAfterMs = decvcplatOptions.dropAfterMs ?? 10 * 60 * 1000;
+    this.decvcplatReplacementScanDepth = decvcplatOptions.replacementScanDepth ?? 25;
+    this.decvcplatAutoPoll = decvcplatOptions.autoPoll ?? true;
+
+    this.loadDecVCPlatTransactions();
+  }
+
+  subscribe(decvcplatListener: DecVCPlatTrackedTransactionListener): () => void {
+    this.decvcplatListeners.add(decvcplatListener);
+    return () => {
+      this.decvcplatListeners.delete(decvcplatListener);
+    };
+  }
+
+  getDecVCPlatTransaction(decvcplatHash: string): DecVCPlatTrackedTransaction | undefined {
+    return this.decvcplatTransactions.get(decvcplatHash.toLowerCase());
+  }
+
+  getDecVCPlatTransactions(): DecVCPlatTrackedTransaction[] {
+    return Array.from(this.decvcplatTransactions.values());
+  }
+
+  track(
+    decvcplatInput: DecVCPlatTrackedTransactionInput,
+    decvcplatKnownFields: Partial<DecVCPlatTrackedTransaction> = {}
+  ): DecVCPlatTrackedTransaction {
+    const decvcplatExisting = this.getDecVCPlatTransaction(decvcplatInput.hash);
+    if (decvcplatExisting) {
+      return decvcplatExisting;
+    }
+
+    const decvcplatTransaction: DecVCPlatTrackedTransaction = {
+      ...decvcplatKnownFields,
+      ...decvcplatInput,
+      hash: decvcplatInput.hash.toLowerCase(),
+      status: 'pending',
+      confirmations: 0,
+      submittedAt: new Date().toISOString(),
+    };
+
+    this.decvcplatTransactions.set(decvcplatTransaction.hash, decvcplatTransaction);
+    this.saveDecVCPlatTransactions();
+    this.notifyDecVCPlatListeners(decvcplatTransaction);
+    this.scheduleDecVCPlatRefresh();
+    return decvcplatTransaction;
+  }
+
+  // Re-announces transactions restored from storage so a reloaded page can rebuild
+  // its pending list, then resumes polling them.
+  resume(): void {
+    this.getDecVCPlatTransactions()
+      .filter(decvcplatTransaction => !isDecVCPlatTransactionSettled(decvcplatTransaction.status))
+      .forEach(decvcplatTransaction => this.notifyDecVCPlatListeners(decvcplatTransaction));
+    this.scheduleDecVCPlatRefresh();
+  }
+
+  stop(): void {
+    if (this.decvcplatPollTimer) {
+      clearTimeout(this.decvcplatPollTimer);
+      this.decvcplatPollTimer = null;
+    }
+  }
+
+  // Resolves once the transaction (or the transaction that sped it up) is mined with
+  // at least the given number of confirmations; rejects if it reverts, is cancelled
+  // or is dropped.
+  waitForDecVCPlatTransaction(decvcplatHash: string, decvcplatMinConfirmations = 1): Promise<DecVCPlatTrackedTransaction> {
+    return new Promise((resolve, reject) => {
+      let decvcplatWatchedHash = decvcplatHash.toLowerCase();
+
+      const settle = (decvcplatTransaction: DecVCPlatTrackedTransaction): boolean => {
+        if (decvcplatTransaction.hash !== decvcplatWatchedHash) {
+          return false;
+        }
+        if (decvcplatTransaction.status === 'replaced' && decvcplatTransaction.replacedBy) {
+          decvcplatWatchedHash = decvcplatTransaction.replacedBy.toLowerCase();
+          const decvcplatReplacement = this.getDecVCPlatTransaction(decvcplatWatchedHash);
+          return decvcplatReplacement ? settle(decvcplatReplacement) : false;
+        }
+        if (
+          decvcplatTransaction.status === 'confirmed'
+          || (decvcplatTransaction.status === 'mined' && decvcplatTransaction.confirmations >= decvcplatMinConfirmations)
+        ) {
+          resolve(decvcplatTransaction);
+          return true;
+        }
+        if (isDecVCPlatTransactionSettled(decvcplatTransaction.status)) {
+          reject(new Error(`DecVCPlat transaction ${decvcplatTransaction.hash}: ${describeDecVCPlatTransactionOutcome(decvcplatTransaction)}`));
+          return true;
+        }
+        return false;
+      };
+
+      const decvcplatCurrent = this.getDecVCPlatTransaction(decvcplatWatchedHash);
+      if (!decvcplatCurrent) {
+        reject(new Error(`DecVCPlat transaction ${decvcplatHash} is not being tracked`));
+        return;
+      }
+      if (settle(decvcplatCurrent)) {
+        return;
+      }
+
+      const unsubscribe = this.subscribe((decvcplatTransaction) => {
+        if (settle(decvcplatTransaction)) {
+          unsubscribe();
+        }
+      });
+    });
+  }
+
+  // One polling pass over every unsettled transaction
+  async refreshDecVCPlatTransactions(): Promise<void> {
+    const decvcplatProvider = this.decvcplatOptions.getProvider();
+    const decvcplatUnsettled = this.getDecVCPlatTransactions()
+      .filter(decvcplatTransaction => !isDecVCPlatTransactionSettled(decvcplatTransaction.status));
+
+    if (!decvcplatProvider || decvcplatUnsettled.length === 0 || this.decvcplatRefreshing) {
+      return;
+    }
+
+    this.decvcplatRefreshing = true;
+    try {
+      const decvcplatLatestBlock = Number(await decvcplatProvider.request({ method: 'eth_blockNumber' }));
+
+      for (const decvcplatTransaction of decvcplatUnsettled) {
+        if (decvcplatTransaction.submittedBlock === undefined) {
+          this.updateDecVCPlatTransaction(decvcplatTransaction.hash, { submittedBlock: decvcplatLatestBlock });
+        }
+        try {
+          await this.refreshDecVCPlatTransaction(decvcplatProvider, decvcplatTransaction.hash, decvcplatLatestBlock);
+        } catch (decvcplatError) {
+          // Leave the transaction as it was; the next pass retries it
+          console.error('DecVCPlat transaction tracking error:', decvcplatError);
+        }
+      }
+    } catch (decvcplatError) {
+      console.error('DecVCPlat transaction tracking error:', decvcplatError);
+    } finally {
+      this.decvcplatRefreshing = false;
+    }
+  }
+
+  private async refreshDecVCPlatTransaction(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatHash: string,
+    decvcplatLatestBlock: number
+  ): Promise<void> {
+    const decvcplatTransaction = this.getDecVCPlatTransaction(decvcplatHash)!;
+    const decvcplatReceipt = await decvcplatProvider.request({
+      method: 'eth_getTransactionReceipt',
+      params: [decvcplatHash],
+    });
+
+    if (decvcplatReceipt) {
+      const decvcplatBlockNumber = Number(decvcplatReceipt.blockNumber);
+      const decvcplatMinedFields = {
+        blockNumber: decvcplatBlockNumber,
+        confirmations: Math.max(decvcplatLatestBlock - decvcplatBlockNumber + 1, 1),
+        gasUsed: BigInt(decvcplatReceipt.gasUsed).toString(),
+      };
+
+      if (Number(decvcplatReceipt.status) === 0) {
+        this.updateDecVCPlatTransaction(decvcplatHash, {
+          ...decvcplatMinedFields,
+          status: 'failed',
+          revertReason: await this.readDecVCPlatRevertReason(decvcplatProvider, decvcplatHash, decvcplatBlockNumber),
+        });
+        return;
+      }
+
+      this.updateDecVCPlatTransaction(decvcplatHash, {
+        ...decvcplatMinedFields,
+        status: decvcplatMinedFields.confirmations >= this.decvcplatRequiredConfirmations ? 'confirmed' : 'mined',
+      });
+      return;
+    }
+
+    // No receipt: still in the mempool, reorged back into it, or gone
+    const decvcplatPendingTransaction = await decvcplatProvider.request({
+      method: 'eth_getTransactionByHash',
+      params: [decvcplatHash],
+    });
+
+    if (decvcplatPendingTransaction) {
+      this.updateDecVCPlatTransaction(decvcplatHash, {
+        status: 'pending',
+        confirmations: 0,
+        blockNumber: undefined,
+        nonce: Number(decvcplatPendingTransaction.nonce),
+        data: decvcplatPendingTransaction.input,
+        value: decvcplatPendingTransaction.value,
+        lastSeenAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (decvcplatTransaction.nonce !== undefined) {
+      const decvcplatAccountNonce = Number(await decvcplatProvider.request({
+        method: 'eth_getTransactionCount',
+        params: [decvcplatTransaction.from, 'latest'],
+      }));
+
+      if (decvcplatAccountNonce > decvcplatTransaction.nonce) {
+        await this.resolveDecVCPlatReplacement(decvcplatProvider, decvcplatTransaction, decvcplatLatestBlock);
+        return;
+      }
+    }
+
+    const decvcplatLastSeen = Date.parse(decvcplatTransaction.lastSeenAt ?? decvcplatTransaction.submittedAt);
+    if (Date.now() - decvcplatLastSeen > this.decvcplatDropAfterMs) {
+      this.updateDecVCPlatTransaction(decvcplatHash, { status: 'dropped' });
+    }
+  }
+
+  // The account has mined a transaction with this nonce under a different hash.
+  // Same target, calldata and value means the wallet sped it up; anything else
+  // (typically a zero-value self-transfer) means the user cancelled it.
+  private async resolveDecVCPlatReplacement(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatTransaction: DecVCPlatTrackedTransaction,
+    decvcplatLatestBlock: number
+  ): Promise<void> {
+    const decvcplatOldestBlock = Math.max(
+      decvcplatLatestBlock - this.decvcplatReplacementScanDepth + 1,
+      decvcplatTransaction.submittedBlock ?? 0,
+      0
+    );
+
+    for (let decvcplatBlockNumber = decvcplatLatestBlock; decvcplatBlockNumber >= decvcplatOldestBlock; decvcplatBlockNumber -= 1) {
+      const decvcplatBlock = await decvcplatProvider.request({
+        method: 'eth_getBlockByNumber',
+        params: [toQuantity(decvcplatBlockNumber), true],
+      });
+      const decvcplatReplacement = (decvcplatBlock?.transactions ?? []).find((decvcplatCandidate: any) =>
+        typeof decvcplatCandidate === 'object'
+        && decvcplatCandidate.from?.toLowerCase() === decvcplatTransaction.from.toLowerCase()
+        && Number(decvcplatCandidate.nonce) === decvcplatTransaction.nonce
+      );
+
+      if (!decvcplatReplacement) {
+        continue;
+      }
+
+      const decvcplatReplacementHash = String(decvcplatReplacement.hash).toLowerCase();
+      const decvcplatSpedUp = decvcplatReplacement.to?.toLowerCase() === decvcplatTransaction.to.toLowerCase()
+        && (decvcplatTransaction.data === undefined || decvcplatReplacement.input === decvcplatTransaction.data)
+        && BigInt(decvcplatReplacement.value ?? 0) === BigInt(decvcplatTransaction.value ?? 0);
+
+      if (decvcplatSpedUp) {
+        this.track(
+          {
+            hash: decvcplatReplacementHash,
+            from: decvcplatTransaction.from,
+            to: decvcplatTransaction.to,
+            category: decvcplatTransaction.category,
+            amount: decvcplatTransaction.amount,
+            note: decvcplatTransaction.note,
+          },
+          {
+            replacementOf: decvcplatTransaction.hash,
+            nonce: decvcplatTransaction.nonce,
+            data: decvcplatReplacement.input,
+            value: decvcplatReplacement.value,
+            submittedBlock: decvcplatTransaction.submittedBlock,
+          }
+        );
+        this.updateDecVCPlatTransaction(decvcplatTransaction.hash, { status: 'replaced', replacedBy: decvcplatReplacementHash });
+      } else {
+        this.updateDecVCPlatTransaction(decvcplatTransaction.hash, { status: 'cancelled', replacedBy: decvcplatReplacementHash });
+      }
+      return;
+    }
+
+    // The nonce was used outside the scanned window; the outcome cannot be attributed
+    this.updateDecVCPlatTransaction(decvcplatTransaction.hash, { status: 'replaced' });
+  }
+
+  // Replays the call against the parent block's state to recover the revert data,
+  // which receipts do not carry. Transactions earlier in the same block can make the
+  // replay diverge, in which case no reason is available.
+  private async readDecVCPlatRevertReason(
+    decvcplatProvider: DecVCPlatEip1193Provider,
+    decvcplatHash: string,
+    decvcplatBlockNumber: number
+  ): Promise<string> {
+    try {
+      const decvcplatMinedTransaction = await decvcplatProvider.request({
+        method: 'eth_getTransactionByHash',
+        params: [decvcplatHash],
+      });
+      if (!decvcplatMinedTransaction) {
+        return 'Transaction reverted';
+      }
+
+      await decvcplatProvider.request({
+        method: 'eth_call',
+        params: [
+          {
+            from: decvcplatMinedTransaction.from,
+            to: decvcplatMinedTransaction.to,
+            data: decvcplatMinedTransaction.input,
+            value: decvcplatMinedTransaction.value,
+          },
+          toQuantity(Math.max(decvcplatBlockNumber - 1, 0)),
+        ],
+      });
+      return 'Transaction reverted; replaying it did not reproduce the failure';
+    } catch (decvcplatError: any) {
+      const decvcplatRevertData = extractDecVCPlatRevertData(decvcplatError);
+      return decvcplatRevertData !== null
+        ? decodeDecVCPlatRevertReason(decvcplatRevertData)
+        : decvcplatError?.message || 'Transaction reverted';
+    }
+  }
+
+  private updateDecVCPlatTransaction(decvcplatHash: string, decvcplatChanges: Partial<DecVCPlatTrackedTransaction>): void {
+    const decvcplatCurrent = this.getDecVCPlatTransaction(decvcplatHash);
+    if (!decvcplatCurrent) {
+      return;
+    }
+
+    const decvcplatUpdated = { ...decvcplatCurrent, ...decvcplatChanges };
+    this.decvcplatTransactions.set(decvcplatUpdated.hash, decvcplatUpdated);
+    this.saveDecVCPlatTransactions();
+
+    if (decvcplatObservableFields.some(decvcplatField => decvcplatCurrent[decvcplatField] !== decvcplatUpdated[decvcplatField])) {
+      this.notifyDecVCPlatListeners(decvcplatUpdated);
+    }
+  }
+
+  private notifyDecVCPlatListeners(decvcplatTransaction: DecVCPlatTrackedTransaction): void {
+    this.decvcplatListeners.forEach((decvcplatListener) => {
+      try {
+        decvcplatListener(decvcplatTransaction);
+      } catch (decvcplatError) {
+        console.error('DecVCPlat transaction listener error:', decvcplatError);
+      }
+    });
+  }
+
+  private scheduleDecVCPlatRefresh(): void {
+    const decvcplatHasUnsettled = this.getDecVCPlatTransactions()
+      .some(decvcplatTransaction => !isDecVCPlatTransactionSettled(decvcplatTransaction.status));
+    if (!this.decvcplatAutoPoll || this.decvcplatPollTimer || !decvcplatHasUnsettled) {
+      return;
+    }
+
+    this.decvcplatPollTimer = setTimeout(async () => {
+      this.decvcplatPollTimer = null;
+      await this.refreshDecVCPlatTransactions();
+      this.scheduleDecVCPlatRefresh();
+    }, this.decvcplatPollIntervalMs);
+  }
+
+  // Only unsettled transactions are persisted; settled ones live in the wallet's
+  // history from then on.
+  private saveDecVCPlatTransactions(): void {
+    if (!this.decvcplatStorage) {
+      return;
+    }
+
+    const decvcplatUnsettled = this.getDecVCPlatTransactions()
+      .filter(decvcplatTransaction => !isDecVCPlatTransactionSettled(decvcplatTransaction.status));
+    if (decvcplatUnsettled.length === 0) {
+      this.decvcplatStorage.removeItem(decvcplatTrackerStorageKey);
+    } else {
+      this.decvcplatStorage.setItem(decvcplatTrackerStorageKey, JSON.stringify(decvcplatUnsettled));
+    }
+  }
+
+  private loadDecVCPlatTransactions(): void {
+    const decvcplatSaved = this.decvcplatStorage?.getItem(decvcplatTrackerStorageKey);
+    if (!decvcplatSaved) {
+      return;
+    }
+
+    try {
+      (JSON.parse(decvcplatSaved) as DecVCPlatTrackedTransaction[]).forEach((decvcplatTransaction) => {
+        this.decvcplatTransactions.set(decvcplatTransaction.hash, decvcplatTransaction);
+      });
+    } catch {
+      this.decvcplatStorage?.removeItem(decvcplatTrackerStorageKey);
+    }
+  }
+}
+
+export const decvcplatTransactionTracker = new DecVCPlatTransactionTracker({
+  getProvider: () => decvcplatWalletService.getDecVCPlatReadProvider(),
+  requiredConfirmations: Number(process.env.REACT_APP_DECVCPLAT_REQUIRED_CONFIRMATIONS) || undefined,
+});
+
+export default decvcplatTransactionTracker;
@@ -0,0 +1,89 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import {
+  DecVCPlatGovernanceContract,
+  DecVCPlatTokenContract,
+  formatDecVCPlatTokenAmount,
+} from './DecVCPlatContractBindings';
+import type { UserVotingStatsDto, VotingStrategy } from '../api/DecVCPlatApiContracts';
+import { calculateDecVCPlatStrategyWeight } from './DecVCPlatVotingStrategy';
+
+// DecVCPlat Voting Power
+// A member's own weight is what they have locked: DVCP staked in the token
+// contract (DecVCPlatToken.getVotingPower) plus DVCP staked for voting in the
+// governance contract (stakedForVoting). Delegation is tracked by the backend,
+// which reports power received from delegators and power handed to a delegate.
+// Only the governance stake can back an on-chain castVote, so it is kept apart.
+export interface DecVCPlatOnChainVotingPower {
+  tokenStake: bigint;
+  votingStake: bigint;
+}
+
+// Whole DVCP, like the rest of the voting API
+export interface DecVCPlatVotingPowerBreakdown {
+  tokenStake: number;
+  votingStake: number;
+  ownStake: number;
+  receivedDelegations: number;
+  delegatedAway: number;
+  // ownStake - delegatedAway + receivedDelegations
+  totalPower: number;
+  // Own stake a ballot can still commit once delegated power is set aside
+  availableToStake: number;
+  // Stake-weighted age of the member's locked DVCP, for conviction voting
+  stakeAgeDays: number;
+  source: 'chain' | 'api';
+}
+
+const toDecVCPlatVotingNumber = (decvcplatWei: bigint): number => Number(formatDecVCPlatTokenAmount(decvcplatWei));
+
+export const readDecVCPlatOnChainVotingPower = async (
+  decvcplatTokenContract: DecVCPlatTokenContract | null,
+  decvcplatGovernanceContract: DecVCPlatGovernanceContract | null,
+  decvcplatAccount: string
+): Promise<DecVCPlatOnChainVotingPower> => {
+  const [tokenStake, votingStake] = await Promise.all([
+    decvcplatTokenContract ? decvcplatTokenContract.getVotingPower(decvcplatAccount) : BigInt(0),
+    decvcplatGovernanceContract ? decvcplatGovernanceContract.getStakedForVoting(decvcplatAccount) : BigInt(0),
+  ]);
+  return { tokenStake, votingStake };
+};
+
+// Chain figures win for the stakes when available; delegation always comes from the
+// backend stats and counts as zero when they could not be loaded.
+export const buildDecVCPlatVotingPowerBreakdown = (
+  decvcplatOnChain: DecVCPlatOnChainVotingPower | null,
+  decvcplatStats: UserVotingStatsDto | null
+): DecVCPlatVotingPowerBreakdown => {
+  const tokenStake = decvcplatOnChain ? toDecVCPlatVotingNumber(decvcplatOnChain.tokenStake) : 0;
+  const votingStake = decvcplatOnChain ? toDecVCPlatVotingNumber(decvcplatOnChain.votingStake) : decvcplatStats?.totalStaked ?? 0;
+  const ownStake = tokenStake + votingStake;
+  const receivedDelegations = decvcplatStats?.receivedPower ?? 0;
+  const delegatedAway = Math.min(decvcplatStats?.delegatedPower ?? 0, ownStake);
+  return {
+    tokenStake,
+    votingStake,
+    ownStake,
+    receivedDelegations,
+    delegatedAway,
+    totalPower: ownStake - delegatedAway + receivedDelegations,
+    availableToStake: ownStake - delegatedAway,
+    stakeAgeDays: decvcplatStats?.stakeAgeDays ?? 0,
+    source: decvcplatOnChain ? 'chain' : 'api',
+  };
+};
+
+// Received delegations ride along with every ballot the delegate casts
+export const calculateDecVCPlatBallotWeight = (decvcplatBreakdown: DecVCPlatVotingPowerBreakdown, decvcplatStakeAmount: number): number =>
+  Math.min(Math.max(decvcplatStakeAmount, 0), decvcplatBreakdown.availableToStake) + decvcplatBreakdown.receivedDelegations;
+
+// The same ballot weighed by a proposal's voting strategy
+export const calculateDecVCPlatStrategyBallotWeight = (
+  decvcplatBreakdown: DecVCPlatVotingPowerBreakdown,
+  decvcplatStakeAmount: number,
+  decvcplatStrategy: VotingStrategy
+): number => calculateDecVCPlatStrategyWeight(decvcplatStrategy, {
+  stakedAmount: Math.min(Math.max(decvcplatStakeAmount, 0), decvcplatBreakdown.availableToStake),
+  receivedPower: decvcplatBreakdown.receivedDelegations,
+  stakeAgeDays: decvcplatBreakdown.stakeAgeDays,
+});
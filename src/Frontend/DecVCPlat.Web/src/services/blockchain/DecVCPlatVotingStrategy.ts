@@ -0,0 +1,85 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import type { ProposalType, VotingProposalDto, VotingStrategy } from '../api/DecVCPlatApiContracts';
+
+// DecVCPlat Voting Strategies
+// A strategy turns the power behind a ballot into the weight it adds to the
+// tallies. Linear counts every DVCP once. Quadratic counts the square root of the
+// ballot's power, so a large holder needs four times the stake for twice the say.
+// Conviction rewards commitment: own stake counts more the longer it has been
+// locked, up to double after decvcplatConvictionMaxDays. Delegated power has no
+// lock history of its own and always counts linearly under conviction.
+// Quorum is measured on unweighted power under every strategy, so thresholds mean
+// the same thing whatever a proposal's type.
+export const decvcplatConvictionMaxDays = 90;
+export const decvcplatConvictionMaxMultiplier = 2;
+
+// The strategy a new proposal of each type is created with
+export const decvcplatProposalTypeVotingStrategies: Record<ProposalType, VotingStrategy> = {
+  ProjectApproval: 'Linear',
+  FundingRelease: 'Conviction',
+  Governance: 'Quadratic',
+  MilestoneApproval: 'Linear',
+};
+
+export interface DecVCPlatBallotPower {
+  // Own stake committed to the ballot
+  stakedAmount: number;
+  // Power delegated to the voter, carried on every ballot they cast
+  receivedPower: number;
+  // How long the voter's stake has been locked, for conviction voting
+  stakeAgeDays?: number;
+}
+
+export interface DecVCPlatVotingStrategyDefinition {
+  id: VotingStrategy;
+  label: string;
+  description: string;
+  calculateWeight: (decvcplatPower: DecVCPlatBallotPower) => number;
+}
+
+// Tallies are added to and taken back out of, so weights are kept to two decimals
+const roundDecVCPlatWeight = (decvcplatWeight: number): number => Math.round(decvcplatWeight * 100) / 100;
+
+const getDecVCPlatBallotPowerTotal = (decvcplatPower: DecVCPlatBallotPower): number =>
+  Math.max(decvcplatPower.stakedAmount, 0) + Math.max(decvcplatPower.receivedPower, 0);
+
+export const getDecVCPlatConvictionMultiplier = (decvcplatStakeAgeDays: number = 0): number => {
+  const decvcplatDays = Math.min(Math.max(decvcplatStakeAgeDays, 0), decvcplatConvictionMaxDays);
+  return 1 + (decvcplatConvictionMaxMultiplier - 1) * (decvcplatDays / decvcplatConvictionMaxDays);
+};
+
+export const decvcplatVotingStrategies: Record<VotingStrategy, DecVCPlatVotingStrategyDefinition> = {
+  Linear: {
+    id: 'Linear',
+    label: 'Linear',
+    description: 'One DVCP, one vote',
+    calculateWeight: (decvcplatPower) => roundDecVCPlatWeight(getDecVCPlatBallotPowerTotal(decvcplatPower)),
+  },
+  Quadratic: {
+    id: 'Quadratic',
+    label: 'Quadratic',
+    description: 'Weight is the square root of the DVCP behind a ballot',
+    calculateWeight: (decvcplatPower) => roundDecVCPlatWeight(Math.sqrt(getDecVCPlatBallotPowerTotal(decvcplatPower))),
+  },
+  Conviction: {
+    id: 'Conviction',
+    label: 'Conviction',
+    description: `Own stake counts up to ${decvcplatConvictionMaxMultiplier}x after ${decvcplatConvictionMaxDays} days locked`,
+    calculateWeight: (decvcplatPower) => roundDecVCPlatWeight(
+      Math.max(decvcplatPower.stakedAmount, 0) * getDecVCPlatConvictionMultiplier(decvcplatPower.stakeAgeDays)
+      + Math.max(decvcplatPower.receivedPower, 0)
+    ),
+  },
+};
+
+// Proposals recorded before strategies existed carry no votingStrategy and were
+// tallied linearly
+export const getDecVCPlatProposalVotingStrategy = (
+  decvcplatProposal: Pick<VotingProposalDto, 'votingStrategy'>
+): DecVCPlatVotingStrategyDefinition => decvcplatVotingStrategies[decvcplatProposal.votingStrategy ?? 'Linear'];
+
+export const calculateDecVCPlatStrategyWeight = (
+  decvcplatStrategy: VotingStrategy,
+  decvcplatPower: DecVCPlatBallotPower
+): number => decvcplatVotingStrategies[decvcplatStrategy].calculateWeight(decvcplatPower);
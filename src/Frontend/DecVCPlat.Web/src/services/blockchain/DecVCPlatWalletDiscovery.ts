@@ -0,0 +1,87 @@
+// © 2024 DecVCPlat. All rights reserved.
+
+import { DecVCPlatEip1193Provider } from './DecVCPlatContractBindings';
+
+declare global {
+  interface Window {
+    ethereum?: any;
+  }
+}
+
+// EIP-6963: every injected wallet announces itself with a CustomEvent carrying its
+// metadata and its own provider, so extensions no longer fight over window.ethereum.
+export interface DecVCPlatWalletProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface DecVCPlatDiscoveredWallet {
+  info: DecVCPlatWalletProviderInfo;
+  provider: DecVCPlatEip1193Provider & Record<string, any>;
+}
+
+// Stands in for wallets that only inject window.ethereum and never announce
+export const decvcplatLegacyWalletRdns = 'injected';
+
+const decvcplatAnnounceEvent = 'eip6963:announceProvider';
+const decvcplatRequestEvent = 'eip6963:requestProvider';
+
+class DecVCPlatWalletDiscovery {
+  private readonly decvcplatWallets = new Map<string, DecVCPlatDiscoveredWallet>();
+  private decvcplatListening = false;
+
+  private readonly handleDecVCPlatAnnouncement = (decvcplatEvent: Event) => {
+    const decvcplatDetail = (decvcplatEvent as CustomEvent<DecVCPlatDiscoveredWallet>).detail;
+    if (!decvcplatDetail?.info?.rdns || typeof decvcplatDetail.provider?.request !== 'function') {
+      return;
+    }
+    // Wallets re-announce on every request; key by rdns so each appears once
+    this.decvcplatWallets.set(decvcplatDetail.info.rdns, decvcplatDetail);
+  };
+
+  // Starts listening and asks every installed wallet to announce. Wallets answer
+  // synchronously from their content script, but some load late and announce on
+  // their own once ready, so the listener stays attached.
+  start(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    if (!this.decvcplatListening) {
+      window.addEventListener(decvcplatAnnounceEvent, this.handleDecVCPlatAnnouncement);
+      this.decvcplatListening = true;
+    }
+    window.dispatchEvent(new Event(decvcplatRequestEvent));
+  }
+
+  async discoverDecVCPlatWallets(decvcplatSettleMs = 250): Promise<DecVCPlatDiscoveredWallet[]> {
+    this.start();
+    await new Promise((resolve) => setTimeout(resolve, decvcplatSettleMs));
+    return this.getDecVCPlatWallets();
+  }
+
+  getDecVCPlatWallets(): DecVCPlatDiscoveredWallet[] {
+    const decvcplatAnnounced = Array.from(this.decvcplatWallets.values());
+    if (decvcplatAnnounced.length > 0 || typeof window === 'undefined' || !window.ethereum) {
+      return decvcplatAnnounced;
+    }
+
+    return [{
+      info: {
+        uuid: decvcplatLegacyWalletRdns,
+        name: window.ethereum.isMetaMask ? 'MetaMask' : window.ethereum.isCoinbaseWallet ? 'Coinbase Wallet' : 'Browser Wallet',
+        icon: '',
+        rdns: decvcplatLegacyWalletRdns,
+      },
+      provider: window.ethereum,
+    }];
+  }
+
+  getDecVCPlatWallet(decvcplatRdns: string): DecVCPlatDiscoveredWallet | undefined {
+    return this.getDecVCPlatWallets().find(decvcplatWallet => decvcplatWallet.info.rdns === decvcplatRdns);
+  }
+}
+
+export const decvcplatWalletDiscovery = new DecVCPlatWalletDiscovery();
+export default decvcplatWalletDiscovery;
@@ -1,23 +1,32 @@
 // © 2024 DecVCPlat. All rights reserved.
 
-declare global {
-  interface Window {
-    ethereum?: any;
-  }
-}
+import { formatEther, hexlify, toUtf8Bytes } from 'ethers';
+import {
+  DecVCPlatContractCall,
+  DecVCPlatEip1193Provider,
+  DecVCPlatGovernanceContract,
+  DecVCPlatOnChainVoteChoice,
+  DecVCPlatTokenContract,
+  DecVCPlatTransactionRequest,
+  formatDecVCPlatTokenAmount,
+  isDecVCPlatSimulationError,
+  parseDecVCPlatTokenAmount,
+} from './DecVCPlatContractBindings';
+import {
+  applyDecVCPlatFeeSuggestion,
+  DecVCPlatFeeSpeed,
+  DecVCPlatTransactionFeeQuote,
+  quoteDecVCPlatTransactionFees,
+} from './DecVCPlatFeeEstimator';
+import decvcplatNetworkRegistry, { DecVCPlatContractName } from './DecVCPlatNetworkRegistry';
+import decvcplatWalletDiscovery, { DecVCPlatWalletProviderInfo } from './DecVCPlatWalletDiscovery';
 
 export interface DecVCPlatWalletConnectionResult {
   decvcplatWalletAddress: string;
   decvcplatNetworkId: number;
   decvcplatNetworkName: string;
   decvcplatWalletProvider: string;
-}
-
-export interface DecVCPlatTokenContractInfo {
-  decvcplatTokenAddress: string;
-  decvcplatTokenSymbol: string;
-  decvcplatTokenDecimals: number;
-  decvcplatTokenName: string;
+  decvcplatWalletRdns: string;
 }
 
 export interface DecVCPlatTransactionResult {
@@ -27,47 +36,65 @@ export interface DecVCPlatTransactionResult {
   decvcplatGasUsed?: string;
 }
 
+// Provider events after the mapping to DecVCPlat terms: an empty account list means
+// the user revoked access or locked the wallet.
+export interface DecVCPlatProviderEventHandlers {
+  onAccountChanged: (decvcplatWalletAddress: string | null) => void;
+  onNetworkChanged: (decvcplatNetworkId: number, decvcplatNetworkName: string) => void;
+  onDisconnected: (decvcplatReason: string) => void;
+}
+
+// Shown to the user before every contract write; resolving null cancels the write
+export interface DecVCPlatFeeConfirmationRequest {
+  decvcplatFunctionName: string;
+  decvcplatContractAddress: string;
+  decvcplatNetworkId: number;
+  decvcplatQuote: DecVCPlatTransactionFeeQuote;
+}
+
+export type DecVCPlatFeeConfirmationHandler = (
+  decvcplatRequest: DecVCPlatFeeConfirmationRequest
+) => Promise<DecVCPlatFeeSpeed | null>;
+
+const decvcplatWalletRdnsStorageKey = 'decvcplat_wallet_rdns';
+
 class DecVCPlatWalletService {
   private decvcplatWalletProvider: any = null;
+  private decvcplatWalletInfo: DecVCPlatWalletProviderInfo | null = null;
   private decvcplatConnectedAddress: string | null = null;
   private decvcplatCurrentNetwork: number | null = null;
+  private decvcplatEventHandlers: DecVCPlatProviderEventHandlers | null = null;
+  private detachDecVCPlatProviderListeners: (() => void) | null = null;
+  private decvcplatFeeConfirmationHandler: DecVCPlatFeeConfirmationHandler | null = null;
+
+  // Picks the requested wallet from the EIP-6963 announcements, falling back to the
+  // wallet used last time and then to the first one found.
+  async detectDecVCPlatWalletProvider(decvcplatWalletRdns?: string): Promise<boolean> {
+    const decvcplatWallets = await decvcplatWalletDiscovery.discoverDecVCPlatWallets();
+    const decvcplatPreferredRdns = decvcplatWalletRdns ?? this.getDecVCPlatRememberedWalletRdns();
+    const decvcplatChosenWallet = decvcplatWallets.find(decvcplatWallet => decvcplatWallet.info.rdns === decvcplatPreferredRdns)
+      ?? (decvcplatWalletRdns ? undefined : decvcplatWallets[0]);
+
+    if (!decvcplatChosenWallet) {
+      return false;
+    }
 
-  // DecVCPlat supported networks configuration
-  private decvcplatSupportedNetworks = {
-    1: { decvcplatName: 'Ethereum Mainnet', decvcplatRpcUrl: 'https://mainnet.infura.io/v3/decvcplat' },
-    11155111: { decvcplatName: 'Sepolia Testnet', decvcplatRpcUrl: 'https://sepolia.infura.io/v3/decvcplat' },
-    137: { decvcplatName: 'Polygon Mainnet', decvcplatRpcUrl: 'https://polygon-rpc.com' },
-  };
-
-  // DecVCPlat token contract addresses
-  private decvcplatTokenContracts: { [networkId: number]: DecVCPlatTokenContractInfo } = {
-    1: {
-      decvcplatTokenAddress: '0xDecVCPlat1234567890123456789012345678901234567890',
-      decvcplatTokenSymbol: 'DVCP',
-      decvcplatTokenDecimals: 18,
-      decvcplatTokenName: 'DecVCPlat Token',
-    },
-    11155111: {
-      decvcplatTokenAddress: '0xDecVCPlatTestnet1234567890123456789012345678901234567890',
-      decvcplatTokenSymbol: 'DVCP',
-      decvcplatTokenDecimals: 18,
-      decvcplatTokenName: 'DecVCPlat Token (Testnet)',
-    },
-  };
-
-  async detectDecVCPlatWalletProvider(): Promise<boolean> {
-    if (typeof window !== 'undefined' && window.ethereum) {
-      this.decvcplatWalletProvider = window.ethereum;
-      return true;
+    if (this.decvcplatWalletProvider !== decvcplatChosenWallet.provider) {
+      this.disconnectDecVCPlatWallet();
     }
-    return false;
+    this.decvcplatWalletProvider = decvcplatChosenWallet.provider;
+    this.decvcplatWalletInfo = decvcplatChosenWallet.info;
+    return true;
   }
 
-  async connectDecVCPlatWallet(): Promise<DecVCPlatWalletConnectionResult> {
-    if (!this.decvcplatWalletProvider) {
-      const decvcplatProviderDetected = await this.detectDecVCPlatWalletProvider();
+  async connectDecVCPlatWallet(decvcplatWalletRdns?: string): Promise<DecVCPlatWalletConnectionResult> {
+    const decvcplatSwitchingWallet = !!decvcplatWalletRdns && decvcplatWalletRdns !== this.decvcplatWalletInfo?.rdns;
+    if (!this.decvcplatWalletProvider || decvcplatSwitchingWallet) {
+      const decvcplatProviderDetected = await this.detectDecVCPlatWalletProvider(decvcplatWalletRdns);
       if (!decvcplatProviderDetected) {
-        throw new Error('DecVCPlat requires MetaMask or compatible wallet extension');
+        throw new Error(decvcplatWalletRdns
+          ? 'DecVCPlat could not find the selected wallet; it may have been disabled or removed'
+          : 'DecVCPlat requires MetaMask or compatible wallet extension');
       }
     }
 
@@ -81,15 +108,19 @@ class DecVCPlatWalletService {
       }
 
       this.decvcplatConnectedAddress = decvcplatAccounts[0];
+      if (this.decvcplatWalletInfo) {
+        localStorage.setItem(decvcplatWalletRdnsStorageKey, this.decvcplatWalletInfo.rdns);
+      }
 
       const decvcplatNetworkId = await this.getCurrentDecVCPlatNetwork();
-      const decvcplatNetworkInfo = this.decvcplatSupportedNetworks[decvcplatNetworkId as keyof typeof this.decvcplatSupportedNetworks];
+      this.attachDecVCPlatProviderListeners();
 
       return {
         decvcplatWalletAddress: this.decvcplatConnectedAddress || '',
         decvcplatNetworkId,
-        decvcplatNetworkName: decvcplatNetworkInfo?.decvcplatName || 'Unknown Network',
+        decvcplatNetworkName: this.getDecVCPlatNetworkName(decvcplatNetworkId),
         decvcplatWalletProvider: this.getDecVCPlatWalletProviderName(),
+        decvcplatWalletRdns: this.decvcplatWalletInfo?.rdns ?? '',
       };
     } catch (decvcplatError) {
       console.error('DecVCPlat wallet connection error:', decvcplatError);
@@ -97,6 +128,19 @@ class DecVCPlatWalletService {
     }
   }
 
+  getDecVCPlatNetworkName(decvcplatNetworkId: number): string {
+    return decvcplatNetworkRegistry.getDecVCPlatNetworkName(decvcplatNetworkId);
+  }
+
+  registerDecVCPlatProviderEventHandlers(decvcplatHandlers: DecVCPlatProviderEventHandlers): void {
+    this.decvcplatEventHandlers = decvcplatHandlers;
+  }
+
+  // Without a handler (tests, scripts) writes go out at the normal fee suggestion
+  registerDecVCPlatFeeConfirmationHandler(decvcplatHandler: DecVCPlatFeeConfirmationHandler | null): void {
+    this.decvcplatFeeConfirmationHandler = decvcplatHandler;
+  }
+
   async getCurrentDecVCPlatNetwork(): Promise<number> {
     if (!this.decvcplatWalletProvider) {
       throw new Error('DecVCPlat wallet provider not initialized');
@@ -110,7 +154,9 @@ class DecVCPlatWalletService {
     return this.decvcplatCurrentNetwork;
   }
 
-  async switchDecVCPlatNetwork(decvcplatTargetNetworkId: number): Promise<void> {
+  // Resolves false when the wallet does not know the chain yet (EIP-3326 error 4902),
+  // so the caller can offer to add it from the network registry.
+  async switchDecVCPlatNetwork(decvcplatTargetNetworkId: number): Promise<boolean> {
     if (!this.decvcplatWalletProvider) {
       throw new Error('DecVCPlat wallet provider not initialized');
     }
@@ -124,14 +170,48 @@ class DecVCPlatWalletService {
       });
 
       this.decvcplatCurrentNetwork = decvcplatTargetNetworkId;
+      return true;
     } catch (decvcplatError: any) {
-      if (decvcplatError.code === 4902) {
-        throw new Error('DecVCPlat network not added to wallet');
+      // MetaMask Mobile wraps the code in an internal error
+      if (decvcplatError.code === 4902 || decvcplatError.data?.originalError?.code === 4902) {
+        return false;
       }
       throw new Error(`DecVCPlat network switch failed: ${decvcplatError.message}`);
     }
   }
 
+  // EIP-3085: the wallet shows the details for approval, then most wallets switch to
+  // the new chain straight away; the explicit switch afterwards covers the rest.
+  async addDecVCPlatNetwork(decvcplatTargetNetworkId: number): Promise<void> {
+    if (!this.decvcplatWalletProvider) {
+      throw new Error('DecVCPlat wallet provider not initialized');
+    }
+
+    const decvcplatNetwork = decvcplatNetworkRegistry.getDecVCPlatNetwork(decvcplatTargetNetworkId);
+    if (!decvcplatNetwork) {
+      throw new Error(`DecVCPlat network ${decvcplatTargetNetworkId} is not configured`);
+    }
+
+    try {
+      await this.decvcplatWalletProvider.request({
+        method: 'wallet_addEthereumChain',
+        params: [{
+          chainId: `0x${decvcplatNetwork.chainId.toString(16)}`,
+          chainName: decvcplatNetwork.name,
+          rpcUrls: [decvcplatNetwork.rpcUrl],
+          nativeCurrency: decvcplatNetwork.nativeCurrency,
+          blockExplorerUrls: decvcplatNetwork.blockExplorerUrl ? [decvcplatNetwork.blockExplorerUrl] : undefined,
+        }],
+      });
+    } catch (decvcplatError: any) {
+      throw new Error(`DecVCPlat network could not be added: ${decvcplatError.message}`);
+    }
+
+    if (!(await this.switchDecVCPlatNetwork(decvcplatTargetNetworkId))) {
+      throw new Error(`DecVCPlat network ${decvcplatNetwork.name} is still unknown to the wallet`);
+    }
+  }
+
   async getDecVCPlatWalletBalance(decvcplatWalletAddress?: string): Promise<string> {
     if (!this.decvcplatWalletProvider) {
       throw new Error('DecVCPlat wallet provider not initialized');
@@ -148,9 +228,7 @@ class DecVCPlatWalletService {
         params: [decvcplatTargetAddress, 'latest'],
       });
 
-      // Convert Wei to Ether (simplified implementation)
-      const decvcplatBalanceEther = (parseInt(decvcplatBalanceWei, 16) / Math.pow(10, 18)).toString();
-      return decvcplatBalanceEther;
+      return formatEther(BigInt(decvcplatBalanceWei));
     } catch (decvcplatError) {
       console.error('DecVCPlat balance retrieval error:', decvcplatError);
       throw new Error(`DecVCPlat balance retrieval failed: ${decvcplatError}`);
@@ -158,98 +236,129 @@ class DecVCPlatWalletService {
   }
 
   async getDecVCPlatTokenBalance(decvcplatWalletAddress?: string): Promise<string> {
-    if (!this.decvcplatCurrentNetwork || !this.decvcplatTokenContracts[this.decvcplatCurrentNetwork]) {
-      throw new Error('DecVCPlat token not available on current network');
-    }
-
     const decvcplatTargetAddress = decvcplatWalletAddress || this.decvcplatConnectedAddress;
     if (!decvcplatTargetAddress) {
       throw new Error('DecVCPlat wallet address not provided');
     }
 
-    const decvcplatTokenContract = this.decvcplatTokenContracts[this.decvcplatCurrentNetwork];
+    const decvcplatTokenContract = this.getDecVCPlatTokenContract();
 
     try {
-      // Simplified ERC20 balanceOf call (would need proper Web3 implementation)
-      const decvcplatBalanceData = `0x70a08231000000000000000000000000${decvcplatTargetAddress.slice(2)}`;
-      
-      const decvcplatBalanceResult = await this.decvcplatWalletProvider.request({
-        method: 'eth_call',
-        params: [{
-          to: decvcplatTokenContract.decvcplatTokenAddress,
-          data: decvcplatBalanceData,
-        }, 'latest'],
-      });
-
-      // Convert hex result to decimal (simplified)
-      const decvcplatBalanceValue = parseInt(decvcplatBalanceResult, 16) / Math.pow(10, decvcplatTokenContract.decvcplatTokenDecimals);
-      return decvcplatBalanceValue.toString();
+      const decvcplatBalanceWei = await decvcplatTokenContract.balanceOf(decvcplatTargetAddress);
+      return formatDecVCPlatTokenAmount(decvcplatBalanceWei);
     } catch (decvcplatError) {
       console.error('DecVCPlat token balance retrieval error:', decvcplatError);
       return '0';
     }
   }
 
-  async stakeDecVCPlatTokens(decvcplatStakeAmount: string, decvcplatStakingContractAddress: string): Promise<DecVCPlatTransactionResult> {
-    if (!this.decvcplatWalletProvider || !this.decvcplatConnectedAddress) {
-      throw new Error('DecVCPlat wallet not connected');
+  // DecVCPlat Contract Bindings
+  getDecVCPlatTokenContract(): DecVCPlatTokenContract {
+    if (!this.decvcplatWalletProvider) {
+      throw new Error('DecVCPlat wallet provider not initialized');
     }
 
-    try {
-      // Simplified staking transaction (would need proper contract interaction)
-      const decvcplatStakeData = this.encodeDecVCPlatStakeTransaction(decvcplatStakeAmount);
-
-      const decvcplatTxParams = {
-        from: this.decvcplatConnectedAddress,
-        to: decvcplatStakingContractAddress,
-        data: decvcplatStakeData,
-        gas: '0x76c0', // 30400 gas
-      };
-
-      const decvcplatTxHash = await this.decvcplatWalletProvider.request({
-        method: 'eth_sendTransaction',
-        params: [decvcplatTxParams],
-      });
+    return new DecVCPlatTokenContract(
+      this.requireDecVCPlatContractAddress('token'),
+      this.decvcplatWalletProvider,
+      this.decvcplatConnectedAddress ?? undefined,
+      this.prepareDecVCPlatTransaction
+    );
+  }
 
-      return {
-        decvcplatTxHash,
-        decvcplatTxStatus: 'pending',
-      };
-    } catch (decvcplatError) {
-      console.error('DecVCPlat token staking error:', decvcplatError);
-      throw new Error(`DecVCPlat token staking failed: ${decvcplatError}`);
+  getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress: string): DecVCPlatGovernanceContract {
+    if (!this.decvcplatWalletProvider) {
+      throw new Error('DecVCPlat wallet provider not initialized');
     }
+
+    return new DecVCPlatGovernanceContract(
+      decvcplatGovernanceContractAddress,
+      this.decvcplatWalletProvider,
+      this.decvcplatConnectedAddress ?? undefined,
+      this.prepareDecVCPlatTransaction
+    );
   }
 
-  async voteOnDecVCPlatProposal(decvcplatProposalId: string, decvcplatVoteChoice: number, decvcplatGovernanceContractAddress: string): Promise<DecVCPlatTransactionResult> {
-    if (!this.decvcplatWalletProvider || !this.decvcplatConnectedAddress) {
-      throw new Error('DecVCPlat wallet not connected');
-    }
+  getDecVCPlatGovernanceAddress(): string {
+    return this.requireDecVCPlatContractAddress('governance');
+  }
 
-    try {
-      // Simplified voting transaction (would need proper contract interaction)
-      const decvcplatVoteData = this.encodeDecVCPlatVoteTransaction(decvcplatProposalId, decvcplatVoteChoice);
-
-      const decvcplatTxParams = {
-        from: this.decvcplatConnectedAddress,
-        to: decvcplatGovernanceContractAddress,
-        data: decvcplatVoteData,
-        gas: '0x9c40', // 40000 gas
-      };
+  // DecVCPlat Token Staking Transactions
+  async stakeDecVCPlatTokens(decvcplatStakeAmount: string): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('token staking', () =>
+      this.getDecVCPlatTokenContract().stakeTokens(parseDecVCPlatTokenAmount(decvcplatStakeAmount))
+    );
+  }
 
-      const decvcplatTxHash = await this.decvcplatWalletProvider.request({
-        method: 'eth_sendTransaction',
-        params: [decvcplatTxParams],
-      });
+  async unstakeDecVCPlatTokens(decvcplatUnstakeAmount: string): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('token unstaking', () =>
+      this.getDecVCPlatTokenContract().unstakeTokens(parseDecVCPlatTokenAmount(decvcplatUnstakeAmount))
+    );
+  }
 
-      return {
-        decvcplatTxHash,
-        decvcplatTxStatus: 'pending',
-      };
-    } catch (decvcplatError) {
-      console.error('DecVCPlat proposal voting error:', decvcplatError);
-      throw new Error(`DecVCPlat proposal voting failed: ${decvcplatError}`);
-    }
+  async claimDecVCPlatStakingRewards(): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('reward claim', () =>
+      this.getDecVCPlatTokenContract().claimStakingRewards()
+    );
+  }
+
+  // DecVCPlat Governance Transactions
+  async stakeDecVCPlatTokensForVoting(decvcplatStakeAmount: string, decvcplatGovernanceContractAddress: string): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('voting stake', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).stakeForVoting(parseDecVCPlatTokenAmount(decvcplatStakeAmount))
+    );
+  }
+
+  async createDecVCPlatProposal(
+    decvcplatTitle: string,
+    decvcplatDescription: string,
+    decvcplatFundingAmount: string,
+    decvcplatGovernanceContractAddress: string
+  ): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('proposal creation', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).createProposal(
+        decvcplatTitle,
+        decvcplatDescription,
+        parseDecVCPlatTokenAmount(decvcplatFundingAmount)
+      )
+    );
+  }
+
+  async voteOnDecVCPlatProposal(
+    decvcplatProposalId: string,
+    decvcplatVoteChoice: DecVCPlatOnChainVoteChoice,
+    decvcplatStakeAmount: string,
+    decvcplatGovernanceContractAddress: string
+  ): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('proposal voting', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).castVote(
+        decvcplatProposalId,
+        decvcplatVoteChoice,
+        parseDecVCPlatTokenAmount(decvcplatStakeAmount)
+      )
+    );
+  }
+
+  async executeDecVCPlatProposal(decvcplatProposalId: string, decvcplatGovernanceContractAddress: string): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('proposal execution', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).executeProposal(decvcplatProposalId)
+    );
+  }
+
+  async completeDecVCPlatMilestone(decvcplatMilestoneId: string, decvcplatGovernanceContractAddress: string): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('milestone completion', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).completeMilestone(decvcplatMilestoneId)
+    );
+  }
+
+  async voteOnDecVCPlatMilestone(
+    decvcplatMilestoneId: string,
+    decvcplatApprove: boolean,
+    decvcplatGovernanceContractAddress: string
+  ): Promise<DecVCPlatTransactionResult> {
+    return this.submitDecVCPlatTransaction('milestone voting', () =>
+      this.getDecVCPlatGovernanceContract(decvcplatGovernanceContractAddress).voteOnMilestone(decvcplatMilestoneId, decvcplatApprove)
+    );
   }
 
   async getDecVCPlatTransactionStatus(decvcplatTxHash: string): Promise<DecVCPlatTransactionResult> {
@@ -274,7 +383,7 @@ class DecVCPlatWalletService {
         decvcplatTxHash,
         decvcplatTxStatus: decvcplatTxReceipt.status === '0x1' ? 'confirmed' : 'failed',
         decvcplatBlockNumber: parseInt(decvcplatTxReceipt.blockNumber, 16),
-        decvcplatGasUsed: parseInt(decvcplatTxReceipt.gasUsed, 16).toString(),
+        decvcplatGasUsed: BigInt(decvcplatTxReceipt.gasUsed).toString(),
       };
     } catch (decvcplatError) {
       console.error('DecVCPlat transaction status error:', decvcplatError);
@@ -285,10 +394,53 @@ class DecVCPlatWalletService {
     }
   }
 
+  // personal_sign takes the UTF-8 bytes hex-encoded so wallets show the text as-is
+  async signDecVCPlatMessage(decvcplatMessage: string): Promise<string> {
+    if (!this.decvcplatWalletProvider || !this.decvcplatConnectedAddress) {
+      throw new Error('DecVCPlat wallet not connected');
+    }
+
+    return this.decvcplatWalletProvider.request({
+      method: 'personal_sign',
+      params: [hexlify(toUtf8Bytes(decvcplatMessage)), this.decvcplatConnectedAddress],
+    });
+  }
+
+  // eth_signTypedData_v4 takes the EIP-712 document as a JSON string
+  async signDecVCPlatTypedData(decvcplatTypedData: unknown): Promise<string> {
+    if (!this.decvcplatWalletProvider || !this.decvcplatConnectedAddress) {
+      throw new Error('DecVCPlat wallet not connected');
+    }
+
+    return this.decvcplatWalletProvider.request({
+      method: 'eth_signTypedData_v4',
+      params: [this.decvcplatConnectedAddress, JSON.stringify(decvcplatTypedData)],
+    });
+  }
+
   disconnectDecVCPlatWallet(): void {
+    this.detachDecVCPlatProviderListeners?.();
+    this.detachDecVCPlatProviderListeners = null;
     this.decvcplatConnectedAddress = null;
     this.decvcplatCurrentNetwork = null;
     this.decvcplatWalletProvider = null;
+    this.decvcplatWalletInfo = null;
+  }
+
+  // Receipt and block reads need no account permission, so pending transactions
+  // restored after a reload can be followed before the wallet reconnects.
+  getDecVCPlatReadProvider(): DecVCPlatEip1193Provider | null {
+    if (this.decvcplatWalletProvider) {
+      return this.decvcplatWalletProvider;
+    }
+    decvcplatWalletDiscovery.start();
+    const decvcplatRememberedRdns = this.getDecVCPlatRememberedWalletRdns();
+    const decvcplatRememberedWallet = decvcplatRememberedRdns ? decvcplatWalletDiscovery.getDecVCPlatWallet(decvcplatRememberedRdns) : undefined;
+    return decvcplatRememberedWallet?.provider ?? decvcplatWalletDiscovery.getDecVCPlatWallets()[0]?.provider ?? null;
+  }
+
+  getDecVCPlatRememberedWalletRdns(): string | null {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(decvcplatWalletRdnsStorageKey) : null;
   }
 
   getDecVCPlatConnectedAddress(): string | null {
@@ -303,21 +455,105 @@ class DecVCPlatWalletService {
     return this.decvcplatCurrentNetwork;
   }
 
+  private requireDecVCPlatContractAddress(decvcplatContract: DecVCPlatContractName): string {
+    if (!this.decvcplatCurrentNetwork) {
+      throw new Error('DecVCPlat wallet network unknown');
+    }
+    return decvcplatNetworkRegistry.requireDecVCPlatContractAddress(this.decvcplatCurrentNetwork, decvcplatContract);
+  }
+
   private getDecVCPlatWalletProviderName(): string {
+    if (this.decvcplatWalletInfo) return this.decvcplatWalletInfo.name;
     if (this.decvcplatWalletProvider?.isMetaMask) return 'MetaMask';
     if (this.decvcplatWalletProvider?.isCoinbaseWallet) return 'Coinbase Wallet';
     if (this.decvcplatWalletProvider?.isWalletConnect) return 'WalletConnect';
     return 'Unknown Wallet';
   }
 
-  private encodeDecVCPlatStakeTransaction(decvcplatAmount: string): string {
-    // Simplified encoding (would need proper ABI encoding)
-    return `0xa694fc3a000000000000000000000000000000000000000000000000${decvcplatAmount}`;
+  // Keeps the cached account and chain in step with the wallet, so the next
+  // transaction is built for whatever the user has selected in the extension.
+  private attachDecVCPlatProviderListeners(): void {
+    const decvcplatProvider = this.decvcplatWalletProvider;
+    if (this.detachDecVCPlatProviderListeners || typeof decvcplatProvider?.on !== 'function') {
+      return;
+    }
+
+    const handleAccountsChanged = (decvcplatAccounts: string[]) => {
+      this.decvcplatConnectedAddress = decvcplatAccounts[0] ?? null;
+      this.decvcplatEventHandlers?.onAccountChanged(this.decvcplatConnectedAddress);
+    };
+    const handleChainChanged = (decvcplatChainId: string) => {
+      this.decvcplatCurrentNetwork = parseInt(decvcplatChainId, 16);
+      this.decvcplatEventHandlers?.onNetworkChanged(
+        this.decvcplatCurrentNetwork,
+        this.getDecVCPlatNetworkName(this.decvcplatCurrentNetwork)
+      );
+    };
+    // Fired when the wallet loses its connection to every chain, not on account lock
+    const handleDisconnect = (decvcplatError?: { message?: string }) => {
+      this.decvcplatEventHandlers?.onDisconnected(decvcplatError?.message || 'DecVCPlat wallet disconnected');
+    };
+
+    decvcplatProvider.on('accountsChanged', handleAccountsChanged);
+    decvcplatProvider.on('chainChanged', handleChainChanged);
+    decvcplatProvider.on('disconnect', handleDisconnect);
+
+    this.detachDecVCPlatProviderListeners = () => {
+      decvcplatProvider.removeListener?.('accountsChanged', handleAccountsChanged);
+      decvcplatProvider.removeListener?.('chainChanged', handleChainChanged);
+      decvcplatProvider.removeListener?.('disconnect', handleDisconnect);
+    };
   }
 
-  private encodeDecVCPlatVoteTransaction(decvcplatProposalId: string, decvcplatVoteChoice: number): string {
-    // Simplified encoding (would need proper ABI encoding)
-    return `0x56781388${decvcplatProposalId.padStart(64, '0')}${decvcplatVoteChoice.toString(16).padStart(64, '0')}`;
+  private readonly prepareDecVCPlatTransaction = async (
+    decvcplatCall: DecVCPlatContractCall,
+    decvcplatFunctionName: string
+  ): Promise<DecVCPlatTransactionRequest> => {
+    const decvcplatQuote = await quoteDecVCPlatTransactionFees(this.decvcplatWalletProvider, decvcplatCall);
+    const decvcplatSpeed = this.decvcplatFeeConfirmationHandler
+      ? await this.decvcplatFeeConfirmationHandler({
+        decvcplatFunctionName,
+        decvcplatContractAddress: decvcplatCall.to,
+        decvcplatNetworkId: this.decvcplatCurrentNetwork ?? 0,
+        decvcplatQuote,
+      })
+      : 'normal';
+
+    if (!decvcplatSpeed) {
+      // Same code a wallet uses when the user rejects the request
+      throw Object.assign(new Error('DecVCPlat transaction cancelled before signing'), { code: 4001 });
+    }
+    return applyDecVCPlatFeeSuggestion(decvcplatCall, decvcplatQuote, decvcplatSpeed);
+  };
+
+  private async submitDecVCPlatTransaction(
+    decvcplatAction: string,
+    decvcplatSend: () => Promise<string>
+  ): Promise<DecVCPlatTransactionResult> {
+    if (!this.decvcplatWalletProvider || !this.decvcplatConnectedAddress) {
+      throw new Error('DecVCPlat wallet not connected');
+    }
+
+    try {
+      const decvcplatTxHash = await decvcplatSend();
+
+      return {
+        decvcplatTxHash,
+        decvcplatTxStatus: 'pending',
+      };
+    } catch (decvcplatError) {
+      // Cancelling the fee preview or rejecting in the wallet keeps EIP-1193 code 4001,
+      // so callers can tell a user cancel from a failed transaction
+      if ((decvcplatError as { code?: unknown } | null)?.code === 4001) {
+        throw decvcplatError;
+      }
+      // A failed simulation was blocked before signing; its message is already user-facing
+      if (isDecVCPlatSimulationError(decvcplatError)) {
+        throw new Error(`DecVCPlat ${decvcplatAction} would fail: ${decvcplatError.message}`);
+      }
+      console.error(`DecVCPlat ${decvcplatAction} error:`, decvcplatError);
+      throw new Error(`DecVCPlat ${decvcplatAction} failed: ${decvcplatError}`);
+    }
   }
 }
 
@@ -100,5 +100,7 @@ afterAll(() => {
 process.env.REACT_APP_API_BASE_URL = 'http://localhost:5000';
 process.env.REACT_APP_ENVIRONMENT = 'test';
 process.env.REACT_APP_ETHEREUM_RPC_URL = 'http://localhost:8545';
+process.env.REACT_APP_DECVCPLAT_API_MODE = 'mock';
+process.env.REACT_APP_DECVCPLAT_MOCK_LATENCY_MS = '0';
 
 export {};
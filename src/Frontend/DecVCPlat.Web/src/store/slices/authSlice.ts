@@ -1,27 +1,25 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { authAPI } from '../../services/api/authAPI';
-
-export interface User {
-  id: string;
-  userName: string;
-  email: string;
-  fullName: string;
-  role: 'Founder' | 'Investor' | 'Luminary';
-  walletAddress?: string;
-  isWalletVerified: boolean;
-  profilePictureUrl?: string;
-  bio?: string;
-  linkedInUrl?: string;
-  twitterUrl?: string;
-  websiteUrl?: string;
-  createdAt: string;
-}
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+import { buildDecVCPlatSiweMessage } from '../../services/blockchain/DecVCPlatSiweMessage';
+import { establishWalletConnection } from './walletSlice';
+import type {
+  AuthSessionDto,
+  LoginRequestDto,
+  RegisterRequestDto,
+  SiweSignatureRequestDto,
+  UpdateProfileRequestDto,
+  UserDto,
+} from '../../services/api/DecVCPlatApiContracts';
+
+export type User = UserDto;
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -30,6 +28,7 @@ interface AuthState {
 const initialState: AuthState = {
   user: null,
   token: null,
+  refreshToken: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
@@ -38,10 +37,9 @@ const initialState: AuthState = {
 // Async thunks
 export const loginUser = createAsyncThunk(
   'auth/login',
-  async (credentials: { email: string; password: string }, { rejectWithValue }) => {
+  async (credentials: LoginRequestDto, { rejectWithValue }) => {
     try {
-      const response = await authAPI.login(credentials);
-      return response.data;
+      return await decvcplatApiService.authenticateDecVCPlatUser(credentials);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Login failed');
     }
@@ -50,16 +48,9 @@ export const loginUser = createAsyncThunk(
 
 export const registerUser = createAsyncThunk(
   'auth/register',
-  async (userData: {
-    userName: string;
-    email: string;
-    password: string;
-    fullName: string;
-    role: 'Founder' | 'Investor' | 'Luminary';
-  }, { rejectWithValue }) => {
+  async (userData: RegisterRequestDto, { rejectWithValue }) => {
     try {
-      const response = await authAPI.register(userData);
-      return response.data;
+      return await decvcplatApiService.registerDecVCPlatUser(userData);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Registration failed');
     }
@@ -71,37 +62,81 @@ export const refreshToken = createAsyncThunk(
   async (_, { getState, rejectWithValue }) => {
     try {
       const state = getState() as { auth: AuthState };
-      if (!state.auth.token) {
-        throw new Error('No token available');
+      if (!state.auth.refreshToken) {
+        throw new Error('No refresh token available');
       }
-      const response = await authAPI.refreshToken();
-      return response.data;
+      return await decvcplatApiService.refreshDecVCPlatToken();
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Token refresh failed');
+      return rejectWithValue(error.response?.data?.message || error.message || 'Token refresh failed');
     }
   }
 );
 
 export const updateProfile = createAsyncThunk(
   'auth/updateProfile',
-  async (profileData: Partial<User>, { rejectWithValue }) => {
+  async (profileData: UpdateProfileRequestDto, { rejectWithValue }) => {
     try {
-      const response = await authAPI.updateProfile(profileData);
-      return response.data;
+      return await decvcplatApiService.updateDecVCPlatUserProfile(profileData);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Profile update failed');
     }
   }
 );
 
+// Fetches a single-use nonce for the connected wallet and has the wallet sign an
+// EIP-4361 message around it; the backend recovers the signer to prove ownership.
+const createDecVCPlatSiweProof = async (
+  decvcplatStatement: string,
+  decvcplatWalletRdns: string | undefined,
+  decvcplatDispatch: (decvcplatAction: any) => any
+): Promise<SiweSignatureRequestDto & { walletAddress: string }> => {
+  if (!decvcplatWalletService.isDecVCPlatWalletConnected() || decvcplatWalletRdns) {
+    await decvcplatDispatch(establishWalletConnection(decvcplatWalletRdns)).unwrap();
+  }
+
+  const decvcplatWalletAddress = decvcplatWalletService.getDecVCPlatConnectedAddress()!;
+  const decvcplatNonce = await decvcplatApiService.requestDecVCPlatSiweNonce({ walletAddress: decvcplatWalletAddress });
+  const message = buildDecVCPlatSiweMessage({
+    domain: window.location.host,
+    address: decvcplatWalletAddress,
+    statement: decvcplatStatement,
+    uri: window.location.origin,
+    version: '1',
+    chainId: decvcplatWalletService.getDecVCPlatCurrentNetwork() ?? 1,
+    nonce: decvcplatNonce.nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: decvcplatNonce.expiresAt,
+  });
+  const signature = await decvcplatWalletService.signDecVCPlatMessage(message);
+
+  return { walletAddress: decvcplatWalletAddress, message, signature };
+};
+
+// Wallet rejections surface as plain errors (or strings from rejectWithValue), API failures as axios errors
+const getDecVCPlatSiweErrorMessage = (error: any, fallback: string): string =>
+  (typeof error === 'string' ? error : error?.response?.data?.message || error?.message) || fallback;
+
+export const loginWithEthereum = createAsyncThunk(
+  'auth/loginWithEthereum',
+  async (walletRdns: string | undefined, { dispatch, rejectWithValue }) => {
+    try {
+      const { message, signature } = await createDecVCPlatSiweProof('Sign in to DecVCPlat.', walletRdns, dispatch);
+      return await decvcplatApiService.authenticateDecVCPlatWithEthereum({ message, signature });
+    } catch (error: any) {
+      return rejectWithValue(getDecVCPlatSiweErrorMessage(error, 'Sign-in with Ethereum failed'));
+    }
+  }
+);
+
+// Links the currently connected wallet to the signed-in account
 export const connectWallet = createAsyncThunk(
   'auth/connectWallet',
-  async (walletAddress: string, { rejectWithValue }) => {
+  async (_: void, { dispatch, rejectWithValue }) => {
     try {
-      const response = await authAPI.connectWallet(walletAddress);
-      return response.data;
+      const decvcplatProof = await createDecVCPlatSiweProof('Link this wallet to my DecVCPlat account.', undefined, dispatch);
+      return await decvcplatApiService.connectDecVCPlatWallet(decvcplatProof);
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Wallet connection failed');
+      return rejectWithValue(getDecVCPlatSiweErrorMessage(error, 'Wallet connection failed'));
     }
   }
 );
@@ -113,6 +148,7 @@ const authSlice = createSlice({
     logout: (state) => {
       state.user = null;
       state.token = null;
+      state.refreshToken = null;
       state.isAuthenticated = false;
       state.error = null;
     },
@@ -126,6 +162,12 @@ const authSlice = createSlice({
       state.token = action.payload;
       state.isAuthenticated = true;
     },
+    setSession: (state, action: PayloadAction<AuthSessionDto>) => {
+      state.token = action.payload.token;
+      state.refreshToken = action.payload.refreshToken ?? state.refreshToken;
+      state.user = action.payload.user;
+      state.isAuthenticated = true;
+    },
   },
   extraReducers: (builder) => {
     // Login
@@ -138,6 +180,7 @@ const authSlice = createSlice({
         state.isLoading = false;
         state.user = action.payload.user;
         state.token = action.payload.token;
+        state.refreshToken = action.payload.refreshToken ?? null;
         state.isAuthenticated = true;
         state.error = null;
       })
@@ -146,6 +189,25 @@ const authSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Sign-In with Ethereum
+    builder
+      .addCase(loginWithEthereum.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loginWithEthereum.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+        state.refreshToken = action.payload.refreshToken ?? null;
+        state.isAuthenticated = true;
+        state.error = null;
+      })
+      .addCase(loginWithEthereum.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
     // Register
     builder
       .addCase(registerUser.pending, (state) => {
@@ -156,6 +218,7 @@ const authSlice = createSlice({
         state.isLoading = false;
         state.user = action.payload.user;
         state.token = action.payload.token;
+        state.refreshToken = action.payload.refreshToken ?? null;
         state.isAuthenticated = true;
         state.error = null;
       })
@@ -168,14 +231,14 @@ const authSlice = createSlice({
     builder
       .addCase(refreshToken.fulfilled, (state, action) => {
         state.token = action.payload.token;
-        if (action.payload.user) {
-          state.user = action.payload.user;
-        }
+        state.refreshToken = action.payload.refreshToken ?? state.refreshToken;
+        state.user = action.payload.user;
       })
       .addCase(refreshToken.rejected, (state) => {
         // If refresh fails, logout user
         state.user = null;
         state.token = null;
+        state.refreshToken = null;
         state.isAuthenticated = false;
       });
 
@@ -187,7 +250,7 @@ const authSlice = createSlice({
       })
       .addCase(updateProfile.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.user = { ...state.user, ...action.payload };
+        state.user = action.payload;
         state.error = null;
       })
       .addCase(updateProfile.rejected, (state, action) => {
@@ -216,5 +279,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { logout, clearError, setUser, setToken } = authSlice.actions;
+export const { logout, clearError, setUser, setToken, setSession } = authSlice.actions;
 export default authSlice.reducer;
@@ -1,41 +1,15 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import type {
+  NotificationDto,
+  NotificationPreferencesDto,
+  NotificationQueryDto,
+} from '../../services/api/DecVCPlatApiContracts';
 
-export interface Notification {
-  id: string;
-  userId: string;
-  title: string;
-  message: string;
-  type: 'ProjectUpdate' | 'VotingResult' | 'FundingRelease' | 'MilestoneComplete' | 'System' | 'Warning' | 'Success';
-  priority: 'Low' | 'Normal' | 'High' | 'Critical';
-  isRead: boolean;
-  isArchived: boolean;
-  actionUrl?: string;
-  actionText?: string;
-  metadata?: any;
-  createdAt: string;
-  readAt?: string;
-  expiresAt?: string;
-}
-
-export interface NotificationPreferences {
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  inAppNotifications: boolean;
-  smsNotifications: boolean;
-  projectUpdates: boolean;
-  votingResults: boolean;
-  fundingReleases: boolean;
-  milestoneUpdates: boolean;
-  systemAlerts: boolean;
-  marketingEmails: boolean;
-  weeklyDigest: boolean;
-  instantAlerts: boolean;
-  quietHoursEnabled: boolean;
-  quietHoursStart?: string;
-  quietHoursEnd?: string;
-}
+export type Notification = NotificationDto;
+export type NotificationPreferences = NotificationPreferencesDto;
 
 interface NotificationState {
   notifications: Notification[];
@@ -80,84 +54,14 @@ const initialState: NotificationState = {
 // Async thunks
 export const fetchNotifications = createAsyncThunk(
   'notifications/fetchNotifications',
-  async (params: { page?: number; pageSize?: number; type?: string; isRead?: boolean }, { rejectWithValue }) => {
+  async (params: NotificationQueryDto, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const mockNotifications: Notification[] = [
-        {
-          id: '1',
-          userId: 'current-user',
-          title: 'Project Approved for Funding',
-          message: 'Your project "AI Healthcare Platform" has been approved for initial funding of $300,000.',
-          type: 'ProjectUpdate',
-          priority: 'High',
-          isRead: false,
-          isArchived: false,
-          actionUrl: '/projects/1',
-          actionText: 'View Project',
-          createdAt: '2024-02-10T14:30:00Z',
-        },
-        {
-          id: '2',
-          userId: 'current-user',
-          title: 'Voting Period Ended',
-          message: 'Voting has ended for proposal "Energy Storage Funding". The proposal passed with 85% approval.',
-          type: 'VotingResult',
-          priority: 'Normal',
-          isRead: false,
-          isArchived: false,
-          actionUrl: '/voting/2',
-          actionText: 'View Results',
-          createdAt: '2024-02-09T16:45:00Z',
-        },
-        {
-          id: '3',
-          userId: 'current-user',
-          title: 'Milestone Completed',
-          message: 'Milestone "MVP Development" has been completed and is awaiting community approval.',
-          type: 'MilestoneComplete',
-          priority: 'Normal',
-          isRead: true,
-          isArchived: false,
-          actionUrl: '/projects/1/milestones',
-          actionText: 'Review Milestone',
-          createdAt: '2024-02-08T10:15:00Z',
-          readAt: '2024-02-08T11:00:00Z',
-        },
-        {
-          id: '4',
-          userId: 'current-user',
-          title: 'System Maintenance Scheduled',
-          message: 'Scheduled maintenance will occur on February 15th from 2:00 AM to 4:00 AM UTC.',
-          type: 'System',
-          priority: 'Low',
-          isRead: true,
-          isArchived: false,
-          createdAt: '2024-02-07T09:00:00Z',
-          readAt: '2024-02-07T14:30:00Z',
-        },
-        {
-          id: '5',
-          userId: 'current-user',
-          title: 'Funds Released Successfully',
-          message: 'Tranche 2 funding of $200,000 has been released to your wallet.',
-          type: 'FundingRelease',
-          priority: 'High',
-          isRead: false,
-          isArchived: false,
-          actionUrl: '/wallet',
-          actionText: 'View Wallet',
-          createdAt: '2024-02-06T13:20:00Z',
-        },
-      ];
-
-      const unreadCount = mockNotifications.filter(n => !n.isRead).length;
-
+      const response = await decvcplatApiService.fetchDecVCPlatNotifications(params);
       return {
-        notifications: mockNotifications,
-        unreadCount,
-        totalCount: mockNotifications.length,
-        totalPages: Math.ceil(mockNotifications.length / (params.pageSize || 20)),
+        notifications: response.items,
+        unreadCount: response.unreadCount,
+        totalCount: response.totalCount,
+        totalPages: response.totalPages,
       };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch notifications');
@@ -169,7 +73,7 @@ export const markAsRead = createAsyncThunk(
   'notifications/markAsRead',
   async (notificationIds: string[], { rejectWithValue }) => {
     try {
-      // Mock implementation
+      await decvcplatApiService.markDecVCPlatNotificationsAsRead(notificationIds);
       return { notificationIds, readAt: new Date().toISOString() };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to mark notifications as read');
@@ -181,7 +85,7 @@ export const markAllAsRead = createAsyncThunk(
   'notifications/markAllAsRead',
   async (_, { rejectWithValue }) => {
     try {
-      // Mock implementation
+      await decvcplatApiService.markAllDecVCPlatNotificationsAsRead();
       return { readAt: new Date().toISOString() };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to mark all notifications as read');
@@ -193,7 +97,7 @@ export const archiveNotifications = createAsyncThunk(
   'notifications/archiveNotifications',
   async (notificationIds: string[], { rejectWithValue }) => {
     try {
-      // Mock implementation
+      await decvcplatApiService.archiveDecVCPlatNotifications(notificationIds);
       return { notificationIds };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to archive notifications');
@@ -205,26 +109,7 @@ export const fetchNotificationPreferences = createAsyncThunk(
   'notifications/fetchPreferences',
   async (_, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const mockPreferences: NotificationPreferences = {
-        emailNotifications: true,
-        pushNotifications: true,
-        inAppNotifications: true,
-        smsNotifications: false,
-        projectUpdates: true,
-        votingResults: true,
-        fundingReleases: true,
-        milestoneUpdates: true,
-        systemAlerts: true,
-        marketingEmails: false,
-        weeklyDigest: true,
-        instantAlerts: true,
-        quietHoursEnabled: false,
-        quietHoursStart: '22:00',
-        quietHoursEnd: '08:00',
-      };
-
-      return mockPreferences;
+      return await decvcplatApiService.fetchDecVCPlatNotificationPreferences();
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch notification preferences');
     }
@@ -235,8 +120,7 @@ export const updateNotificationPreferences = createAsyncThunk(
   'notifications/updatePreferences',
   async (preferences: Partial<NotificationPreferences>, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      return preferences;
+      return await decvcplatApiService.updateDecVCPlatNotificationPreferences(preferences);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to update notification preferences');
     }
@@ -352,9 +236,7 @@ const notificationSlice = createSlice({
       })
       .addCase(updateNotificationPreferences.fulfilled, (state, action) => {
         state.isUpdatingPreferences = false;
-        if (state.preferences) {
-          state.preferences = { ...state.preferences, ...action.payload };
-        }
+        state.preferences = action.payload;
       })
       .addCase(updateNotificationPreferences.rejected, (state, action) => {
         state.isUpdatingPreferences = false;
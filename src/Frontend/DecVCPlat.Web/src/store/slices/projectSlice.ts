@@ -1,63 +1,37 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import { toDecVCPlatApiProblem } from '../../services/api/DecVCPlatApiContracts';
+import decvcplatNetworkRegistry from '../../services/blockchain/DecVCPlatNetworkRegistry';
+import { formatDecVCPlatTokenAmount } from '../../services/blockchain/DecVCPlatContractBindings';
+import decvcplatTransactionTracker from '../../services/blockchain/DecVCPlatTransactionTracker';
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+import {
+  getDecVCPlatOnChainMilestoneCompletionBlocker,
+  getDecVCPlatOnChainMilestoneVoteBlocker,
+} from '../../services/blockchain/DecVCPlatMilestoneVoting';
+import type {
+  CompleteMilestoneRequestDto,
+  CreateProjectRequestDto,
+  DecVCPlatApiProblem,
+  ProjectDocumentDto,
+  ProjectDto,
+  MilestoneVoteRequestDto,
+  ProjectMilestoneDto,
+  ProjectQueryDto,
+  ProjectVoteDto,
+  ProjectVoteRequestDto,
+  UpdateProjectRequestDto,
+} from '../../services/api/DecVCPlatApiContracts';
+import { executeProposal } from './votingSlice';
 
-export interface Project {
-  id: string;
-  title: string;
-  description: string;
-  fundingGoal: number;
-  currentFunding: number;
-  founderId: string;
-  founderName: string;
-  category: string;
-  status: 'Draft' | 'Submitted' | 'UnderReview' | 'Approved' | 'Rejected' | 'Funded' | 'Completed';
-  tags: string[];
-  documents: ProjectDocument[];
-  milestones: ProjectMilestone[];
-  votes: ProjectVote[];
-  createdAt: string;
-  updatedAt: string;
-  submittedAt?: string;
-  approvedAt?: string;
-  fundingDeadline?: string;
-  imageUrl?: string;
-  websiteUrl?: string;
-  githubUrl?: string;
-  pitchDeckUrl?: string;
-}
-
-export interface ProjectDocument {
-  id: string;
-  fileName: string;
-  fileUrl: string;
-  fileType: string;
-  description?: string;
-  uploadedAt: string;
-}
-
-export interface ProjectMilestone {
-  id: string;
-  projectId: string;
-  title: string;
-  description: string;
-  targetAmount: number;
-  targetDate: string;
-  isCompleted: boolean;
-  completedAt?: string;
-  evidenceUrl?: string;
-}
+export type Project = ProjectDto;
+export type ProjectDocument = ProjectDocumentDto;
+export type ProjectMilestone = ProjectMilestoneDto;
+export type ProjectVote = ProjectVoteDto;
 
-export interface ProjectVote {
-  id: string;
-  projectId: string;
-  userId: string;
-  userName: string;
-  voteType: 'Approve' | 'Reject';
-  stakedTokens: number;
-  comment?: string;
-  createdAt: string;
-}
+export const decvcplatCompletedMilestoneStatuses: ProjectMilestone['status'][] = ['Completed', 'Approved', 'FundingReleased'];
 
 interface ProjectsState {
   projects: Project[];
@@ -67,6 +41,10 @@ interface ProjectsState {
   isCreating: boolean;
   isUpdating: boolean;
   error: string | null;
+  validationErrors: Record<string, string>;
+  activeRequestId: string | null;
+  // Milestone whose completion or approval vote is in flight
+  milestoneActionId: string | null;
   filters: {
     status: string;
     category: string;
@@ -88,6 +66,9 @@ const initialState: ProjectsState = {
   isCreating: false,
   isUpdating: false,
   error: null,
+  validationErrors: {},
+  activeRequestId: null,
+  milestoneActionId: null,
   filters: {
     status: 'All',
     category: 'All',
@@ -101,53 +82,32 @@ const initialState: ProjectsState = {
   },
 };
 
+// 'All' is a UI choice only; the API expects the filter to be omitted instead.
+const toDecVCPlatProjectFilter = (decvcplatValue: string): string | undefined =>
+  decvcplatValue && decvcplatValue !== 'All' ? decvcplatValue : undefined;
+
 // Async thunks
+// Without params the query is built from the stored filters and current page, so
+// pages only need to update state and dispatch fetchProjects().
 export const fetchProjects = createAsyncThunk(
   'projects/fetchProjects',
-  async (params: { page?: number; pageSize?: number; status?: string; category?: string; search?: string }, { rejectWithValue }) => {
+  async (params: ProjectQueryDto | undefined, { getState, rejectWithValue }) => {
     try {
-      // Mock implementation - replace with actual API call
-      const mockProjects: Project[] = [
-        {
-          id: '1',
-          title: 'AI-Powered Healthcare Platform',
-          description: 'Revolutionary AI platform for early disease detection and personalized treatment recommendations.',
-          fundingGoal: 1000000,
-          currentFunding: 250000,
-          founderId: 'founder1',
-          founderName: 'John Smith',
-          category: 'Healthcare',
-          status: 'Approved',
-          tags: ['AI', 'Healthcare', 'Machine Learning'],
-          documents: [],
-          milestones: [],
-          votes: [],
-          createdAt: '2024-01-15T10:00:00Z',
-          updatedAt: '2024-01-20T15:30:00Z',
-        },
-        {
-          id: '2',
-          title: 'Sustainable Energy Storage',
-          description: 'Next-generation battery technology for renewable energy storage solutions.',
-          fundingGoal: 2000000,
-          currentFunding: 500000,
-          founderId: 'founder2',
-          founderName: 'Sarah Johnson',
-          category: 'Energy',
-          status: 'Funded',
-          tags: ['Energy', 'Sustainability', 'Battery Tech'],
-          documents: [],
-          milestones: [],
-          votes: [],
-          createdAt: '2024-01-10T08:00:00Z',
-          updatedAt: '2024-01-25T12:00:00Z',
-        },
-      ];
-
+      const { filters, pagination } = (getState() as { projects: ProjectsState }).projects;
+      const response = await decvcplatApiService.fetchDecVCPlatProjects({
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        status: toDecVCPlatProjectFilter(filters.status),
+        category: toDecVCPlatProjectFilter(filters.category),
+        search: filters.search.trim() || undefined,
+        ...params,
+      });
       return {
-        projects: mockProjects,
-        totalCount: mockProjects.length,
-        totalPages: Math.ceil(mockProjects.length / (params.pageSize || 10)),
+        projects: response.items,
+        totalCount: response.totalCount,
+        page: response.page,
+        pageSize: response.pageSize,
+        totalPages: response.totalPages,
       };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch projects');
@@ -159,107 +119,165 @@ export const fetchProjectById = createAsyncThunk(
   'projects/fetchProjectById',
   async (projectId: string, { rejectWithValue }) => {
     try {
-      // Mock implementation - replace with actual API call
-      const mockProject: Project = {
-        id: projectId,
-        title: 'AI-Powered Healthcare Platform',
-        description: 'Revolutionary AI platform for early disease detection and personalized treatment recommendations.',
-        fundingGoal: 1000000,
-        currentFunding: 250000,
-        founderId: 'founder1',
-        founderName: 'John Smith',
-        category: 'Healthcare',
-        status: 'Approved',
-        tags: ['AI', 'Healthcare', 'Machine Learning'],
-        documents: [],
-        milestones: [
-          {
-            id: '1',
-            projectId,
-            title: 'MVP Development',
-            description: 'Complete minimum viable product',
-            targetAmount: 300000,
-            targetDate: '2024-06-01T00:00:00Z',
-            isCompleted: false,
-          },
-        ],
-        votes: [],
-        createdAt: '2024-01-15T10:00:00Z',
-        updatedAt: '2024-01-20T15:30:00Z',
-      };
-
-      return mockProject;
+      return await decvcplatApiService.fetchDecVCPlatProjectById(projectId);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch project');
     }
   }
 );
 
+// Same request as fetchProjectById but without toggling isLoading, so an open
+// project page can poll live milestone tallies without flashing its loader.
+export const refreshProjectById = createAsyncThunk(
+  'projects/refreshProjectById',
+  async (projectId: string, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.fetchDecVCPlatProjectById(projectId);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to refresh project');
+    }
+  }
+);
+
 export const createProject = createAsyncThunk(
   'projects/createProject',
-  async (projectData: Partial<Project>, { rejectWithValue }) => {
+  async (projectData: CreateProjectRequestDto, { rejectWithValue }) => {
     try {
-      // Mock implementation - replace with actual API call
-      const newProject: Project = {
-        id: Date.now().toString(),
-        title: projectData.title || '',
-        description: projectData.description || '',
-        fundingGoal: projectData.fundingGoal || 0,
-        currentFunding: 0,
-        founderId: 'current-user',
-        founderName: 'Current User',
-        category: projectData.category || '',
-        status: 'Draft',
-        tags: projectData.tags || [],
-        documents: [],
-        milestones: [],
-        votes: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      return newProject;
+      return await decvcplatApiService.createDecVCPlatProject(projectData);
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to create project');
+      return rejectWithValue(toDecVCPlatApiProblem(error, 'Failed to create project'));
     }
   }
 );
 
 export const updateProject = createAsyncThunk(
   'projects/updateProject',
-  async ({ projectId, updates }: { projectId: string; updates: Partial<Project> }, { rejectWithValue }) => {
+  async ({ projectId, updates }: { projectId: string; updates: UpdateProjectRequestDto }, { rejectWithValue }) => {
     try {
-      // Mock implementation - replace with actual API call
-      return { projectId, updates };
+      return await decvcplatApiService.updateDecVCPlatProject(projectId, updates);
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to update project');
+      return rejectWithValue(toDecVCPlatApiProblem(error, 'Failed to update project'));
     }
   }
 );
 
 export const voteOnProject = createAsyncThunk(
   'projects/voteOnProject',
-  async (voteData: { projectId: string; voteType: 'Approve' | 'Reject'; stakedTokens: number; comment?: string }, { rejectWithValue }) => {
+  async ({ projectId, ...voteData }: { projectId: string } & ProjectVoteRequestDto, { rejectWithValue }) => {
     try {
-      // Mock implementation - replace with actual API call
-      const newVote: ProjectVote = {
-        id: Date.now().toString(),
-        projectId: voteData.projectId,
-        userId: 'current-user',
-        userName: 'Current User',
-        voteType: voteData.voteType,
-        stakedTokens: voteData.stakedTokens,
-        comment: voteData.comment,
-        createdAt: new Date().toISOString(),
-      };
-
-      return newVote;
+      return await decvcplatApiService.voteOnDecVCPlatProject(projectId, voteData);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to vote on project');
     }
   }
 );
 
+type DecVCPlatMilestoneThunkState = {
+  projects: ProjectsState;
+  wallet: { walletConnection: { address: string; networkId: number; connected: boolean } | null };
+};
+
+// Milestones created on-chain go through DecVCPlatGovernance from the connected
+// wallet when its network has the contract; everything else is API-only.
+const resolveDecVCPlatOnChainMilestone = (decvcplatState: DecVCPlatMilestoneThunkState, decvcplatProjectId: string, decvcplatMilestoneId: string) => {
+  const decvcplatProject = decvcplatState.projects.currentProject?.id === decvcplatProjectId
+    ? decvcplatState.projects.currentProject
+    : decvcplatState.projects.projects.find(project => project.id === decvcplatProjectId);
+  const decvcplatOnChainId = decvcplatProject?.milestones.find(milestone => milestone.id === decvcplatMilestoneId)?.onChainMilestoneId;
+  const decvcplatWallet = decvcplatState.wallet.walletConnection;
+  const decvcplatGovernanceAddress = decvcplatOnChainId && decvcplatWallet?.connected
+    ? decvcplatNetworkRegistry.getDecVCPlatContractAddress(decvcplatWallet.networkId, 'governance')
+    : undefined;
+  return decvcplatOnChainId && decvcplatWallet && decvcplatGovernanceAddress
+    ? { onChainId: decvcplatOnChainId, wallet: decvcplatWallet, governanceAddress: decvcplatGovernanceAddress }
+    : null;
+};
+
+export const completeMilestone = createAsyncThunk(
+  'projects/completeMilestone',
+  async (
+    { projectId, milestoneId, ...completionData }: { projectId: string; milestoneId: string } & CompleteMilestoneRequestDto,
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const decvcplatOnChain = resolveDecVCPlatOnChainMilestone(getState() as DecVCPlatMilestoneThunkState, projectId, milestoneId);
+      if (!decvcplatOnChain) {
+        return await decvcplatApiService.completeDecVCPlatMilestone(projectId, milestoneId, completionData);
+      }
+
+      const decvcplatGovernance = decvcplatWalletService.getDecVCPlatGovernanceContract(decvcplatOnChain.governanceAddress);
+      const decvcplatBlocker = getDecVCPlatOnChainMilestoneCompletionBlocker(await decvcplatGovernance.getMilestone(decvcplatOnChain.onChainId));
+      if (decvcplatBlocker) {
+        return rejectWithValue(decvcplatBlocker);
+      }
+
+      const decvcplatResult = await decvcplatWalletService.completeDecVCPlatMilestone(decvcplatOnChain.onChainId, decvcplatOnChain.governanceAddress);
+      decvcplatTransactionTracker.track({
+        hash: decvcplatResult.decvcplatTxHash,
+        from: decvcplatOnChain.wallet.address,
+        to: decvcplatOnChain.governanceAddress,
+        category: 'funding',
+        amount: '0',
+        note: `DecVCPlat milestone #${decvcplatOnChain.onChainId} marked complete`,
+      });
+      const decvcplatTracked = await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatResult.decvcplatTxHash);
+      return await decvcplatApiService.completeDecVCPlatMilestone(projectId, milestoneId, {
+        ...completionData,
+        transactionHash: decvcplatTracked.hash,
+      });
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to complete milestone');
+    }
+  }
+);
+
+export const voteOnMilestone = createAsyncThunk(
+  'projects/voteOnMilestone',
+  async (
+    { projectId, milestoneId, ...voteData }: { projectId: string; milestoneId: string } & MilestoneVoteRequestDto,
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const decvcplatOnChain = resolveDecVCPlatOnChainMilestone(getState() as DecVCPlatMilestoneThunkState, projectId, milestoneId);
+      if (!decvcplatOnChain) {
+        return await decvcplatApiService.voteOnDecVCPlatMilestone(projectId, milestoneId, voteData);
+      }
+
+      const decvcplatGovernance = decvcplatWalletService.getDecVCPlatGovernanceContract(decvcplatOnChain.governanceAddress);
+      const [decvcplatOnChainMilestone, decvcplatStaked] = await Promise.all([
+        decvcplatGovernance.getMilestone(decvcplatOnChain.onChainId),
+        decvcplatGovernance.getStakedForVoting(decvcplatOnChain.wallet.address),
+      ]);
+      const decvcplatBlocker = getDecVCPlatOnChainMilestoneVoteBlocker(decvcplatOnChainMilestone, decvcplatStaked);
+      if (decvcplatBlocker) {
+        return rejectWithValue(decvcplatBlocker);
+      }
+
+      const decvcplatResult = await decvcplatWalletService.voteOnDecVCPlatMilestone(
+        decvcplatOnChain.onChainId,
+        voteData.approve,
+        decvcplatOnChain.governanceAddress
+      );
+      const decvcplatStakedAmount = formatDecVCPlatTokenAmount(decvcplatStaked);
+      decvcplatTransactionTracker.track({
+        hash: decvcplatResult.decvcplatTxHash,
+        from: decvcplatOnChain.wallet.address,
+        to: decvcplatOnChain.governanceAddress,
+        category: 'vote',
+        amount: decvcplatStakedAmount,
+        note: `DecVCPlat ${voteData.approve ? 'approval' : 'rejection'} of milestone #${decvcplatOnChain.onChainId} with ${decvcplatStakedAmount} DVCP`,
+      });
+      const decvcplatTracked = await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatResult.decvcplatTxHash);
+      return await decvcplatApiService.voteOnDecVCPlatMilestone(projectId, milestoneId, {
+        ...voteData,
+        transactionHash: decvcplatTracked.hash,
+      });
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to vote on milestone');
+    }
+  }
+);
+
 const projectSlice = createSlice({
   name: 'projects',
   initialState,
@@ -267,8 +285,12 @@ const projectSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    clearValidationErrors: (state) => {
+      state.validationErrors = {};
+    },
     setFilters: (state, action: PayloadAction<Partial<typeof initialState.filters>>) => {
       state.filters = { ...state.filters, ...action.payload };
+      state.pagination.page = 1;
     },
     setPagination: (state, action: PayloadAction<Partial<typeof initialState.pagination>>) => {
       state.pagination = { ...state.pagination, ...action.payload };
@@ -280,18 +302,32 @@ const projectSlice = createSlice({
   extraReducers: (builder) => {
     // Fetch Projects
     builder
-      .addCase(fetchProjects.pending, (state) => {
+      .addCase(fetchProjects.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        state.activeRequestId = action.meta.requestId;
       })
       .addCase(fetchProjects.fulfilled, (state, action) => {
+        // A slower response for an older page or filter must not overwrite the latest one
+        if (state.activeRequestId !== action.meta.requestId) {
+          return;
+        }
         state.isLoading = false;
+        state.activeRequestId = null;
         state.projects = action.payload.projects;
-        state.pagination.totalCount = action.payload.totalCount;
-        state.pagination.totalPages = action.payload.totalPages;
+        state.pagination = {
+          page: action.payload.page,
+          pageSize: action.payload.pageSize,
+          totalCount: action.payload.totalCount,
+          totalPages: action.payload.totalPages,
+        };
       })
       .addCase(fetchProjects.rejected, (state, action) => {
+        if (state.activeRequestId !== action.meta.requestId) {
+          return;
+        }
         state.isLoading = false;
+        state.activeRequestId = null;
         state.error = action.payload as string;
       });
 
@@ -315,6 +351,7 @@ const projectSlice = createSlice({
       .addCase(createProject.pending, (state) => {
         state.isCreating = true;
         state.error = null;
+        state.validationErrors = {};
       })
       .addCase(createProject.fulfilled, (state, action) => {
         state.isCreating = false;
@@ -322,8 +359,10 @@ const projectSlice = createSlice({
         state.userProjects.unshift(action.payload);
       })
       .addCase(createProject.rejected, (state, action) => {
+        const problem = action.payload as DecVCPlatApiProblem | undefined;
         state.isCreating = false;
-        state.error = action.payload as string;
+        state.error = problem?.message ?? action.error.message ?? 'Failed to create project';
+        state.validationErrors = problem?.fieldErrors ?? {};
       });
 
     // Update Project
@@ -331,25 +370,28 @@ const projectSlice = createSlice({
       .addCase(updateProject.pending, (state) => {
         state.isUpdating = true;
         state.error = null;
+        state.validationErrors = {};
       })
       .addCase(updateProject.fulfilled, (state, action) => {
         state.isUpdating = false;
-        const { projectId, updates } = action.payload;
+        const updatedProject = action.payload;
         
         // Update in projects array
-        const projectIndex = state.projects.findIndex(p => p.id === projectId);
+        const projectIndex = state.projects.findIndex(p => p.id === updatedProject.id);
         if (projectIndex !== -1) {
-          state.projects[projectIndex] = { ...state.projects[projectIndex], ...updates };
+          state.projects[projectIndex] = updatedProject;
         }
         
         // Update current project if it's the same
-        if (state.currentProject?.id === projectId) {
-          state.currentProject = { ...state.currentProject, ...updates };
+        if (state.currentProject?.id === updatedProject.id) {
+          state.currentProject = updatedProject;
         }
       })
       .addCase(updateProject.rejected, (state, action) => {
+        const problem = action.payload as DecVCPlatApiProblem | undefined;
         state.isUpdating = false;
-        state.error = action.payload as string;
+        state.error = problem?.message ?? action.error.message ?? 'Failed to update project';
+        state.validationErrors = problem?.fieldErrors ?? {};
       });
 
     // Vote on Project
@@ -368,8 +410,57 @@ const projectSlice = createSlice({
           state.projects[projectIndex].votes.push(vote);
         }
       });
+
+    // Refresh Project silently; failures keep the last known copy on screen
+    builder
+      .addCase(refreshProjectById.fulfilled, (state, action) => {
+        if (state.currentProject?.id === action.payload.id) {
+          state.currentProject = action.payload;
+        }
+      });
+
+    // Milestone completion and approval votes return the updated project
+    [completeMilestone, voteOnMilestone].forEach((decvcplatThunk) => {
+      builder
+        .addCase(decvcplatThunk.pending, (state, action) => {
+          state.milestoneActionId = action.meta.arg.milestoneId;
+          state.error = null;
+        })
+        .addCase(decvcplatThunk.fulfilled, (state, action) => {
+          state.milestoneActionId = null;
+          const updatedProject = action.payload;
+          state.projects = state.projects.map(project => project.id === updatedProject.id ? updatedProject : project);
+          state.userProjects = state.userProjects.map(project => project.id === updatedProject.id ? updatedProject : project);
+          if (state.currentProject?.id === updatedProject.id) {
+            state.currentProject = updatedProject;
+          }
+        })
+        .addCase(decvcplatThunk.rejected, (state, action) => {
+          state.milestoneActionId = null;
+          state.error = action.payload as string;
+        });
+    });
+
+    // A FundingRelease proposal's execution releases one of the project's tranches
+    builder
+      .addCase(executeProposal.fulfilled, (state, action) => {
+        const tranche = action.payload.tranche;
+        if (!tranche) {
+          return;
+        }
+        [state.currentProject, ...state.projects, ...state.userProjects].forEach(project => {
+          if (!project || project.id !== tranche.projectId) {
+            return;
+          }
+          project.currentFunding += tranche.amount;
+          const milestone = project.milestones.find(m => m.id === tranche.milestoneId);
+          if (milestone) {
+            milestone.status = 'FundingReleased';
+          }
+        });
+      });
   },
 });
 
-export const { clearError, setFilters, setPagination, clearCurrentProject } = projectSlice.actions;
+export const { clearError, clearValidationErrors, setFilters, setPagination, clearCurrentProject } = projectSlice.actions;
 export default projectSlice.reducer;
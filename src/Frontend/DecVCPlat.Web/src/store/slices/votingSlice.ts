@@ -1,65 +1,47 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import decvcplatEventIndexer, { DecVCPlatProposalTally } from '../../services/blockchain/DecVCPlatEventIndexer';
+import decvcplatNetworkRegistry from '../../services/blockchain/DecVCPlatNetworkRegistry';
+import { formatDecVCPlatTokenAmount } from '../../services/blockchain/DecVCPlatContractBindings';
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+import decvcplatTransactionTracker from '../../services/blockchain/DecVCPlatTransactionTracker';
+import {
+  getDecVCPlatExecutionBlocker,
+  getDecVCPlatOnChainExecutionBlocker,
+} from '../../services/blockchain/DecVCPlatProposalLifecycle';
+import {
+  DecVCPlatVotingPowerBreakdown,
+  buildDecVCPlatVotingPowerBreakdown,
+  readDecVCPlatOnChainVotingPower,
+} from '../../services/blockchain/DecVCPlatVotingPower';
+import {
+  DecVCPlatBallotReceiptVerification,
+  buildDecVCPlatBallotTypedData,
+  createDecVCPlatBallot,
+  toDecVCPlatSignedBallot,
+  verifyDecVCPlatBallotReceipt,
+} from '../../services/blockchain/DecVCPlatSignedBallot';
+import type {
+  BallotReceiptDto,
+  CastVoteRequestDto,
+  CreateDelegationRequestDto,
+  CreateProposalRequestDto,
+  DelegateDto,
+  DelegationDto,
+  ProposalQueryDto,
+  StakeRequestDto,
+  TokenStakeDto,
+  UserVotingStatsDto,
+  VoteDto,
+  VotingProposalDto,
+} from '../../services/api/DecVCPlatApiContracts';
 
-export interface VotingProposal {
-  id: string;
-  title: string;
-  description: string;
-  proposerId: string;
-  proposerName: string;
-  projectId?: string;
-  proposalType: 'ProjectApproval' | 'FundingRelease' | 'Governance' | 'MilestoneApproval';
-  status: 'Active' | 'Passed' | 'Failed' | 'Executed' | 'Cancelled';
-  startTime: string;
-  endTime: string;
-  quorumThreshold: number;
-  approvalThreshold: number;
-  totalStaked: number;
-  forVotes: number;
-  againstVotes: number;
-  abstainVotes: number;
-  executionData?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface TokenStake {
-  id: string;
-  userId: string;
-  proposalId: string;
-  amount: number;
-  lockPeriod: number;
-  stakedAt: string;
-  unstakedAt?: string;
-  rewardsClaimed: number;
-  isActive: boolean;
-}
-
-export interface Vote {
-  id: string;
-  proposalId: string;
-  userId: string;
-  userName: string;
-  choice: 'For' | 'Against' | 'Abstain';
-  votingPower: number;
-  stakedAmount: number;
-  comment?: string;
-  timestamp: string;
-  delegatedTo?: string;
-  delegatedFrom?: string;
-}
-
-export interface UserVotingStats {
-  totalStaked: number;
-  totalVotingPower: number;
-  activeProposals: number;
-  votesCast: number;
-  proposalsCreated: number;
-  rewardsEarned: number;
-  delegatedPower: number;
-  receivedPower: number;
-}
+export type VotingProposal = VotingProposalDto;
+export type TokenStake = TokenStakeDto;
+export type Vote = VoteDto;
+export type UserVotingStats = UserVotingStatsDto;
 
 interface VotingState {
   proposals: VotingProposal[];
@@ -68,10 +50,22 @@ interface VotingState {
   userStakes: TokenStake[];
   userVotes: Vote[];
   userStats: UserVotingStats | null;
+  // Own stake, delegations and total weight; stakes are read from the chain when possible
+  votingPower: DecVCPlatVotingPowerBreakdown | null;
+  // Luminaries accepting delegations, and delegations the user gave or received
+  delegates: DelegateDto[];
+  delegations: DelegationDto[];
+  // Receipt for an off-chain ballot and the outcome of re-checking it in the browser
+  ballotReceipt: { receipt: BallotReceiptDto; verification: DecVCPlatBallotReceiptVerification } | null;
+  // Vote totals rebuilt from VoteCast logs, keyed by on-chain proposal ID (wei strings)
+  onChainTallies: Record<string, DecVCPlatProposalTally>;
   isLoading: boolean;
   isStaking: boolean;
   isVoting: boolean;
   isCreatingProposal: boolean;
+  isDelegating: boolean;
+  // ID of the proposal whose execution is in flight
+  executingProposalId: string | null;
   error: string | null;
   filters: {
     status: string;
@@ -93,10 +87,17 @@ const initialState: VotingState = {
   userStakes: [],
   userVotes: [],
   userStats: null,
+  votingPower: null,
+  delegates: [],
+  delegations: [],
+  ballotReceipt: null,
+  onChainTallies: {},
   isLoading: false,
   isStaking: false,
   isVoting: false,
   isCreatingProposal: false,
+  isDelegating: false,
+  executingProposalId: null,
   error: null,
   filters: {
     status: 'Active',
@@ -114,56 +115,13 @@ const initialState: VotingState = {
 // Async thunks
 export const fetchProposals = createAsyncThunk(
   'voting/fetchProposals',
-  async (params: { page?: number; pageSize?: number; status?: string; type?: string }, { rejectWithValue }) => {
+  async (params: ProposalQueryDto, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const mockProposals: VotingProposal[] = [
-        {
-          id: '1',
-          title: 'Approve AI Healthcare Platform Funding',
-          description: 'Vote to approve initial funding for the AI-powered healthcare platform project.',
-          proposerId: 'luminary1',
-          proposerName: 'Alice Johnson',
-          projectId: 'project1',
-          proposalType: 'ProjectApproval',
-          status: 'Active',
-          startTime: '2024-02-01T10:00:00Z',
-          endTime: '2024-02-08T10:00:00Z',
-          quorumThreshold: 10000,
-          approvalThreshold: 51,
-          totalStaked: 15000,
-          forVotes: 9000,
-          againstVotes: 3000,
-          abstainVotes: 3000,
-          createdAt: '2024-02-01T10:00:00Z',
-          updatedAt: '2024-02-05T14:30:00Z',
-        },
-        {
-          id: '2',
-          title: 'Release Milestone Funding - Energy Storage',
-          description: 'Vote to release next tranche of funding upon completion of prototype milestone.',
-          proposerId: 'luminary2',
-          proposerName: 'Bob Smith',
-          projectId: 'project2',
-          proposalType: 'FundingRelease',
-          status: 'Passed',
-          startTime: '2024-01-25T10:00:00Z',
-          endTime: '2024-02-01T10:00:00Z',
-          quorumThreshold: 8000,
-          approvalThreshold: 60,
-          totalStaked: 12000,
-          forVotes: 8500,
-          againstVotes: 2000,
-          abstainVotes: 1500,
-          createdAt: '2024-01-25T10:00:00Z',
-          updatedAt: '2024-02-01T12:00:00Z',
-        },
-      ];
-
+      const response = await decvcplatApiService.fetchDecVCPlatProposals(params);
       return {
-        proposals: mockProposals,
-        totalCount: mockProposals.length,
-        totalPages: Math.ceil(mockProposals.length / (params.pageSize || 10)),
+        proposals: response.items,
+        totalCount: response.totalCount,
+        totalPages: response.totalPages,
       };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch proposals');
@@ -171,33 +129,31 @@ export const fetchProposals = createAsyncThunk(
   }
 );
 
+// Uses the wallet's network when connected, otherwise the first network with a
+// governance deployment, read through its public RPC endpoint.
+export const syncOnChainProposalTallies = createAsyncThunk(
+  'voting/syncOnChainProposalTallies',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const decvcplatState = getState() as { wallet: { walletConnection: { networkId: number } | null } };
+      const decvcplatChainId = decvcplatState.wallet.walletConnection?.networkId
+        ?? decvcplatNetworkRegistry.getDecVCPlatNetworks().find(decvcplatNetwork => decvcplatNetwork.contracts.governance)?.chainId;
+      if (decvcplatChainId === undefined || !decvcplatEventIndexer.isDecVCPlatChainIndexed(decvcplatChainId)) {
+        return {};
+      }
+      await decvcplatEventIndexer.syncDecVCPlatEvents(decvcplatChainId);
+      return await decvcplatEventIndexer.getDecVCPlatProposalTallies(decvcplatChainId);
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to read on-chain vote tallies');
+    }
+  }
+);
+
 export const fetchProposalById = createAsyncThunk(
   'voting/fetchProposalById',
   async (proposalId: string, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const mockProposal: VotingProposal = {
-        id: proposalId,
-        title: 'Approve AI Healthcare Platform Funding',
-        description: 'Vote to approve initial funding for the AI-powered healthcare platform project. This proposal seeks community approval for the initial funding tranche of $300,000 to support MVP development and initial team hiring.',
-        proposerId: 'luminary1',
-        proposerName: 'Alice Johnson',
-        projectId: 'project1',
-        proposalType: 'ProjectApproval',
-        status: 'Active',
-        startTime: '2024-02-01T10:00:00Z',
-        endTime: '2024-02-08T10:00:00Z',
-        quorumThreshold: 10000,
-        approvalThreshold: 51,
-        totalStaked: 15000,
-        forVotes: 9000,
-        againstVotes: 3000,
-        abstainVotes: 3000,
-        createdAt: '2024-02-01T10:00:00Z',
-        updatedAt: '2024-02-05T14:30:00Z',
-      };
-
-      return mockProposal;
+      return await decvcplatApiService.fetchDecVCPlatProposalById(proposalId);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to fetch proposal');
     }
@@ -206,21 +162,9 @@ export const fetchProposalById = createAsyncThunk(
 
 export const stakeTokens = createAsyncThunk(
   'voting/stakeTokens',
-  async (stakeData: { amount: number; lockPeriod?: number }, { rejectWithValue }) => {
+  async (stakeData: StakeRequestDto, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const newStake: TokenStake = {
-        id: Date.now().toString(),
-        userId: 'current-user',
-        proposalId: 'general',
-        amount: stakeData.amount,
-        lockPeriod: stakeData.lockPeriod || 30,
-        stakedAt: new Date().toISOString(),
-        rewardsClaimed: 0,
-        isActive: true,
-      };
-
-      return newStake;
+      return await decvcplatApiService.stakeDecVCPlatTokens(stakeData);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to stake tokens');
     }
@@ -229,96 +173,282 @@ export const stakeTokens = createAsyncThunk(
 
 export const castVote = createAsyncThunk(
   'voting/castVote',
-  async (voteData: {
-    proposalId: string;
-    choice: 'For' | 'Against' | 'Abstain';
-    stakedAmount: number;
-    comment?: string;
-  }, { rejectWithValue }) => {
+  async (voteData: CastVoteRequestDto, { rejectWithValue }) => {
     try {
-      // Mock implementation
-      const newVote: Vote = {
-        id: Date.now().toString(),
-        proposalId: voteData.proposalId,
-        userId: 'current-user',
-        userName: 'Current User',
-        choice: voteData.choice,
-        votingPower: voteData.stakedAmount,
-        stakedAmount: voteData.stakedAmount,
-        comment: voteData.comment,
-        timestamp: new Date().toISOString(),
-      };
-
-      return newVote;
+      return await decvcplatApiService.castDecVCPlatVote(voteData);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to cast vote');
     }
   }
 );
 
+// Has the connected wallet sign the ballot as EIP-712 typed data; null when no
+// wallet is connected
+const signDecVCPlatVote = async (voteData: CastVoteRequestDto): Promise<CastVoteRequestDto | null> => {
+  const decvcplatVoter = decvcplatWalletService.getDecVCPlatConnectedAddress();
+  const decvcplatChainId = decvcplatWalletService.getDecVCPlatCurrentNetwork();
+  if (!decvcplatVoter || decvcplatChainId === null) {
+    return null;
+  }
+
+  const decvcplatBallot = createDecVCPlatBallot({
+    proposalId: voteData.proposalId,
+    choice: voteData.choice,
+    stakedAmount: voteData.stakedAmount,
+    voter: decvcplatVoter,
+  });
+  const decvcplatSignature = await decvcplatWalletService.signDecVCPlatTypedData(
+    buildDecVCPlatBallotTypedData(decvcplatBallot, decvcplatChainId)
+  );
+  return { ...voteData, signedBallot: toDecVCPlatSignedBallot(decvcplatBallot, decvcplatChainId, decvcplatSignature) };
+};
+
+// Gasless voting for Governance proposals: the connected wallet signs the ballot
+// and the API counts it once the signature checks out.
+export const castSignedVote = createAsyncThunk(
+  'voting/castSignedVote',
+  async (voteData: CastVoteRequestDto, { rejectWithValue }) => {
+    try {
+      const decvcplatSignedVote = await signDecVCPlatVote(voteData);
+      if (!decvcplatSignedVote) {
+        return rejectWithValue('Connect your wallet to sign a ballot');
+      }
+      return await decvcplatApiService.castDecVCPlatVote(decvcplatSignedVote);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to cast signed ballot');
+    }
+  }
+);
+
+// Replaces the user's ballot while the proposal is Active; a signed ballot is
+// replaced by a freshly signed one so its receipt stays verifiable
+export const changeVote = createAsyncThunk(
+  'voting/changeVote',
+  async ({ signBallot, ...voteData }: CastVoteRequestDto & { signBallot?: boolean }, { rejectWithValue }) => {
+    try {
+      if (!signBallot) {
+        return await decvcplatApiService.changeDecVCPlatVote(voteData);
+      }
+      const decvcplatSignedVote = await signDecVCPlatVote(voteData);
+      if (!decvcplatSignedVote) {
+        return rejectWithValue('Connect your wallet to sign a ballot');
+      }
+      return await decvcplatApiService.changeDecVCPlatVote(decvcplatSignedVote);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to change vote');
+    }
+  }
+);
+
+export const withdrawVote = createAsyncThunk(
+  'voting/withdrawVote',
+  async (proposalId: string, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.withdrawDecVCPlatVote(proposalId);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to withdraw vote');
+    }
+  }
+);
+
+export const fetchUserVotes = createAsyncThunk(
+  'voting/fetchUserVotes',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.fetchDecVCPlatUserVotes();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch your votes');
+    }
+  }
+);
+
+export const fetchBallotReceipt = createAsyncThunk(
+  'voting/fetchBallotReceipt',
+  async (ballotHash: string, { rejectWithValue }) => {
+    try {
+      const receipt = await decvcplatApiService.fetchDecVCPlatBallotReceipt(ballotHash);
+      return { receipt, verification: verifyDecVCPlatBallotReceipt(receipt) };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to fetch ballot receipt');
+    }
+  }
+);
+
 export const createProposal = createAsyncThunk(
   'voting/createProposal',
-  async (proposalData: {
-    title: string;
-    description: string;
-    proposalType: VotingProposal['proposalType'];
-    projectId?: string;
-    executionData?: string;
-    votingPeriod?: number;
-  }, { rejectWithValue }) => {
+  async (proposalData: CreateProposalRequestDto, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.createDecVCPlatProposal(proposalData);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to create proposal');
+    }
+  }
+);
+
+// Luminaries execute passed proposals. When the proposal was created on-chain and the
+// wallet's network has the governance contract, executeProposal is sent from the
+// wallet after the on-chain record has been checked, and the API is only told once
+// the receipt carries ProposalExecuted; it then links the transaction to the funding
+// tranche being released. Otherwise the API executes the proposal itself.
+export const executeProposal = createAsyncThunk(
+  'voting/executeProposal',
+  async (proposalId: string, { getState, dispatch, rejectWithValue }) => {
     try {
-      // Mock implementation
-      const endTime = new Date();
-      endTime.setDate(endTime.getDate() + (proposalData.votingPeriod || 7));
-
-      const newProposal: VotingProposal = {
-        id: Date.now().toString(),
-        title: proposalData.title,
-        description: proposalData.description,
-        proposerId: 'current-user',
-        proposerName: 'Current User',
-        projectId: proposalData.projectId,
-        proposalType: proposalData.proposalType,
-        status: 'Active',
-        startTime: new Date().toISOString(),
-        endTime: endTime.toISOString(),
-        quorumThreshold: 10000,
-        approvalThreshold: 51,
-        totalStaked: 0,
-        forVotes: 0,
-        againstVotes: 0,
-        abstainVotes: 0,
-        executionData: proposalData.executionData,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+      const decvcplatState = getState() as {
+        voting: VotingState;
+        wallet: { walletConnection: { address: string; networkId: number; connected: boolean } | null };
       };
+      const decvcplatProposal = decvcplatState.voting.proposals.find(proposal => proposal.id === proposalId)
+        ?? await decvcplatApiService.fetchDecVCPlatProposalById(proposalId);
+      const decvcplatBlocker = getDecVCPlatExecutionBlocker(decvcplatProposal);
+      if (decvcplatBlocker) {
+        return rejectWithValue(decvcplatBlocker);
+      }
+
+      const decvcplatOnChainId = decvcplatProposal.onChainProposalId;
+      const decvcplatWallet = decvcplatState.wallet.walletConnection;
+      const decvcplatGovernanceAddress = decvcplatOnChainId && decvcplatWallet?.connected
+        ? decvcplatNetworkRegistry.getDecVCPlatContractAddress(decvcplatWallet.networkId, 'governance')
+        : undefined;
+      if (!decvcplatOnChainId || !decvcplatWallet || !decvcplatGovernanceAddress) {
+        return await decvcplatApiService.executeDecVCPlatProposal(proposalId);
+      }
+
+      const decvcplatGovernance = decvcplatWalletService.getDecVCPlatGovernanceContract(decvcplatGovernanceAddress);
+      const [decvcplatOnChainProposal, decvcplatTotalSupply, decvcplatQuorumPercentage] = await Promise.all([
+        decvcplatGovernance.getProposal(decvcplatOnChainId),
+        decvcplatWalletService.getDecVCPlatTokenContract().totalSupply(),
+        decvcplatGovernance.getQuorumPercentage(),
+      ]);
+      const decvcplatOnChainBlocker = getDecVCPlatOnChainExecutionBlocker(
+        decvcplatOnChainProposal,
+        decvcplatTotalSupply,
+        decvcplatQuorumPercentage
+      );
+      if (decvcplatOnChainBlocker) {
+        return rejectWithValue(decvcplatOnChainBlocker);
+      }
+
+      const decvcplatFundingAmount = formatDecVCPlatTokenAmount(decvcplatOnChainProposal.fundingAmount);
+      const decvcplatResult = await decvcplatWalletService.executeDecVCPlatProposal(decvcplatOnChainId, decvcplatGovernanceAddress);
+      decvcplatTransactionTracker.track({
+        hash: decvcplatResult.decvcplatTxHash,
+        from: decvcplatWallet.address,
+        to: decvcplatGovernanceAddress,
+        category: 'funding',
+        amount: decvcplatFundingAmount,
+        note: `DecVCPlat proposal #${decvcplatOnChainId} executed, releasing ${decvcplatFundingAmount} DVCP`,
+      });
 
-      return newProposal;
+      const decvcplatTracked = await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatResult.decvcplatTxHash);
+      const decvcplatExecution = await decvcplatGovernance.getProposalExecution(decvcplatTracked.hash);
+      if (!decvcplatExecution || decvcplatExecution.proposalId.toString() !== decvcplatOnChainId) {
+        return rejectWithValue('Execution transaction did not emit ProposalExecuted; the contract marked the proposal Failed');
+      }
+
+      const decvcplatExecuted = await decvcplatApiService.executeDecVCPlatProposal(proposalId, {
+        transactionHash: decvcplatExecution.transactionHash,
+        chainId: decvcplatWallet.networkId,
+        blockNumber: decvcplatExecution.blockNumber,
+      });
+      dispatch(syncOnChainProposalTallies());
+      return decvcplatExecuted;
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to create proposal');
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to execute proposal');
     }
   }
 );
 
+// Staked amounts come from DecVCPlatToken.getVotingPower and the governance
+// contract's stakedForVoting when the connected wallet's network has them; the
+// backend stats still supply delegation and activity counts.
 export const fetchUserVotingStats = createAsyncThunk(
   'voting/fetchUserVotingStats',
-  async (_, { rejectWithValue }) => {
+  async (_, { getState, rejectWithValue }) => {
     try {
-      // Mock implementation
-      const mockStats: UserVotingStats = {
-        totalStaked: 50000,
-        totalVotingPower: 55000,
-        activeProposals: 3,
-        votesCart: 12,
-        proposalsCreated: 2,
-        rewardsEarned: 2500,
-        delegatedPower: 10000,
-        receivedPower: 15000,
+      const decvcplatState = getState() as { wallet: { walletConnection: { address: string; networkId: number; connected: boolean } | null } };
+      const decvcplatWallet = decvcplatState.wallet.walletConnection;
+      const decvcplatTokenAddress = decvcplatWallet && decvcplatNetworkRegistry.getDecVCPlatContractAddress(decvcplatWallet.networkId, 'token');
+      const decvcplatGovernanceAddress = decvcplatWallet && decvcplatNetworkRegistry.getDecVCPlatContractAddress(decvcplatWallet.networkId, 'governance');
+      const decvcplatReadsChain = !!decvcplatWallet?.connected && !!(decvcplatTokenAddress || decvcplatGovernanceAddress);
+
+      const [decvcplatStats, decvcplatOnChain] = await Promise.all([
+        // Delegation is optional when the chain can answer for the stakes
+        decvcplatApiService.fetchDecVCPlatUserVotingStats().catch((error) => {
+          if (!decvcplatReadsChain) {
+            throw error;
+          }
+          return null;
+        }),
+        decvcplatReadsChain
+          ? readDecVCPlatOnChainVotingPower(
+            decvcplatTokenAddress ? decvcplatWalletService.getDecVCPlatTokenContract() : null,
+            decvcplatGovernanceAddress ? decvcplatWalletService.getDecVCPlatGovernanceContract(decvcplatGovernanceAddress) : null,
+            decvcplatWallet!.address
+          )
+          : Promise.resolve(null),
+      ]);
+
+      const votingPower = buildDecVCPlatVotingPowerBreakdown(decvcplatOnChain, decvcplatStats);
+      const stats = decvcplatStats && {
+        ...decvcplatStats,
+        totalStaked: votingPower.ownStake,
+        totalVotingPower: votingPower.totalPower,
       };
+      return { stats, votingPower };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Failed to fetch user stats');
+    }
+  }
+);
+
+export const fetchDelegates = createAsyncThunk(
+  'voting/fetchDelegates',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.fetchDecVCPlatDelegates();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch delegates');
+    }
+  }
+);
+
+export const fetchDelegations = createAsyncThunk(
+  'voting/fetchDelegations',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await decvcplatApiService.fetchDecVCPlatDelegations();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch delegations');
+    }
+  }
+);
+
+// Delegating or revoking moves voting power, so stats and delegate totals are refreshed
+export const delegateVotingPower = createAsyncThunk(
+  'voting/delegateVotingPower',
+  async (delegationData: CreateDelegationRequestDto, { dispatch, rejectWithValue }) => {
+    try {
+      const delegation = await decvcplatApiService.createDecVCPlatDelegation(delegationData);
+      dispatch(fetchUserVotingStats());
+      dispatch(fetchDelegates());
+      return delegation;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delegate voting power');
+    }
+  }
+);
 
-      return mockStats;
+export const revokeDelegation = createAsyncThunk(
+  'voting/revokeDelegation',
+  async (delegationId: string, { dispatch, rejectWithValue }) => {
+    try {
+      const delegation = await decvcplatApiService.revokeDecVCPlatDelegation(delegationId);
+      dispatch(fetchUserVotingStats());
+      dispatch(fetchDelegates());
+      return delegation;
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch user stats');
+      return rejectWithValue(error.response?.data?.message || 'Failed to revoke delegation');
     }
   }
 );
@@ -388,33 +518,78 @@ const votingSlice = createSlice({
         state.error = action.payload as string;
       });
 
-    // Cast Vote
-    builder
-      .addCase(castVote.pending, (state) => {
-        state.isVoting = true;
-        state.error = null;
-      })
-      .addCase(castVote.fulfilled, (state, action) => {
-        state.isVoting = false;
-        state.userVotes.push(action.payload);
-        
-        // Update proposal vote counts if it's the current proposal
-        if (state.currentProposal && state.currentProposal.id === action.payload.proposalId) {
+    // Cast Vote; signed ballots are counted the same way
+    [castVote, castSignedVote].forEach((decvcplatThunk) => {
+      builder
+        .addCase(decvcplatThunk.pending, (state) => {
+          state.isVoting = true;
+          state.error = null;
+        })
+        .addCase(decvcplatThunk.fulfilled, (state, action) => {
+          state.isVoting = false;
+          state.userVotes.unshift(action.payload);
+
+          // Update vote counts on the current proposal and its list entry. votingPower
+          // already includes power delegated to the voter, stakedAmount does not;
+          // weight is votingPower under the proposal's voting strategy.
           const vote = action.payload;
-          state.currentProposal.totalStaked += vote.stakedAmount;
-          
-          if (vote.choice === 'For') {
-            state.currentProposal.forVotes += vote.votingPower;
-          } else if (vote.choice === 'Against') {
-            state.currentProposal.againstVotes += vote.votingPower;
-          } else {
-            state.currentProposal.abstainVotes += vote.votingPower;
+          const weight = vote.weight ?? vote.votingPower;
+          [state.currentProposal, state.proposals.find(proposal => proposal.id === vote.proposalId)].forEach(proposal => {
+            if (!proposal || proposal.id !== vote.proposalId) {
+              return;
+            }
+            proposal.totalStaked += vote.stakedAmount;
+            proposal.participation = (proposal.participation ?? proposal.forVotes + proposal.againstVotes + proposal.abstainVotes)
+              + vote.votingPower;
+
+            if (vote.choice === 'For') {
+              proposal.forVotes += weight;
+            } else if (vote.choice === 'Against') {
+              proposal.againstVotes += weight;
+            } else {
+              proposal.abstainVotes += weight;
+            }
+          });
+        })
+        .addCase(decvcplatThunk.rejected, (state, action) => {
+          state.isVoting = false;
+          state.error = action.payload as string;
+        });
+    });
+
+    // Change or Withdraw Vote; the API returns the re-tallied proposal, so it is
+    // taken as is rather than adjusting the local tallies twice
+    [changeVote, withdrawVote].forEach((decvcplatThunk) => {
+      builder
+        .addCase(decvcplatThunk.pending, (state) => {
+          state.isVoting = true;
+          state.error = null;
+        })
+        .addCase(decvcplatThunk.fulfilled, (state, action) => {
+          state.isVoting = false;
+          const { proposal, previousVote, vote } = action.payload;
+          state.userVotes = state.userVotes.some(userVote => userVote.id === previousVote.id)
+            ? state.userVotes.map(userVote => userVote.id === previousVote.id ? previousVote : userVote)
+            : [previousVote, ...state.userVotes];
+          if (vote) {
+            state.userVotes.unshift(vote);
           }
-        }
-      })
-      .addCase(castVote.rejected, (state, action) => {
-        state.isVoting = false;
-        state.error = action.payload as string;
+          state.proposals = state.proposals.map(entry => entry.id === proposal.id ? proposal : entry);
+          state.userProposals = state.userProposals.map(entry => entry.id === proposal.id ? proposal : entry);
+          if (state.currentProposal?.id === proposal.id) {
+            state.currentProposal = proposal;
+          }
+        })
+        .addCase(decvcplatThunk.rejected, (state, action) => {
+          state.isVoting = false;
+          state.error = action.payload as string;
+        });
+    });
+
+    // Fetch User Votes
+    builder
+      .addCase(fetchUserVotes.fulfilled, (state, action) => {
+        state.userVotes = action.payload;
       });
 
     // Create Proposal
@@ -433,13 +608,122 @@ const votingSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Execute Proposal
+    builder
+      .addCase(executeProposal.pending, (state, action) => {
+        state.executingProposalId = action.meta.arg;
+        state.error = null;
+      })
+      .addCase(executeProposal.fulfilled, (state, action) => {
+        state.executingProposalId = null;
+        const executed = action.payload.proposal;
+        state.proposals = state.proposals.map(proposal => proposal.id === executed.id ? executed : proposal);
+        state.userProposals = state.userProposals.map(proposal => proposal.id === executed.id ? executed : proposal);
+        if (state.currentProposal?.id === executed.id) {
+          state.currentProposal = executed;
+        }
+      })
+      .addCase(executeProposal.rejected, (state, action) => {
+        state.executingProposalId = null;
+        state.error = action.payload as string;
+      });
+
+    // On-chain tallies; a failed sync keeps the last known totals
+    builder
+      .addCase(syncOnChainProposalTallies.fulfilled, (state, action) => {
+        state.onChainTallies = action.payload;
+      });
+
     // Fetch User Voting Stats
     builder
       .addCase(fetchUserVotingStats.fulfilled, (state, action) => {
-        state.userStats = action.payload;
+        state.userStats = action.payload.stats ?? state.userStats;
+        state.votingPower = action.payload.votingPower;
+      });
+
+    // Ballot Receipt
+    builder
+      .addCase(fetchBallotReceipt.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+        state.ballotReceipt = null;
+      })
+      .addCase(fetchBallotReceipt.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.ballotReceipt = action.payload;
+      })
+      .addCase(fetchBallotReceipt.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Delegation
+    builder
+      .addCase(fetchDelegates.fulfilled, (state, action) => {
+        state.delegates = action.payload;
+      })
+      .addCase(fetchDelegations.fulfilled, (state, action) => {
+        state.delegations = action.payload;
+      })
+      .addCase(delegateVotingPower.pending, (state) => {
+        state.isDelegating = true;
+        state.error = null;
+      })
+      .addCase(delegateVotingPower.fulfilled, (state, action) => {
+        state.isDelegating = false;
+        state.delegations.unshift(action.payload);
+      })
+      .addCase(delegateVotingPower.rejected, (state, action) => {
+        state.isDelegating = false;
+        state.error = action.payload as string;
+      })
+      .addCase(revokeDelegation.pending, (state) => {
+        state.isDelegating = true;
+        state.error = null;
+      })
+      .addCase(revokeDelegation.fulfilled, (state, action) => {
+        state.isDelegating = false;
+        state.delegations = state.delegations.map((delegation) =>
+          delegation.id === action.payload.id ? action.payload : delegation
+        );
+      })
+      .addCase(revokeDelegation.rejected, (state, action) => {
+        state.isDelegating = false;
+        state.error = action.payload as string;
       });
   },
 });
 
+// Indexed tallies are keyed by the contract's proposal ID, which only proposals
+// created on-chain carry; API-only proposals never match one
+export const getOnChainProposalTally = (
+  proposal: Pick<VotingProposal, 'onChainProposalId'>,
+  tallies: Record<string, DecVCPlatProposalTally>
+): DecVCPlatProposalTally | undefined =>
+  proposal.onChainProposalId ? tallies[proposal.onChainProposalId] : undefined;
+
+// Proposals created on-chain show the chain's vote totals instead of the API's,
+// converted from wei to whole DVCP. The contract weighs votes by stake, so these
+// tallies are linear whatever the proposal's strategy.
+export const applyOnChainProposalTally = (proposal: VotingProposal, tally?: DecVCPlatProposalTally): VotingProposal => {
+  if (!tally) {
+    return proposal;
+  }
+  const toDvcp = (decvcplatWei: string) => Number(formatDecVCPlatTokenAmount(BigInt(decvcplatWei)));
+  const forVotes = toDvcp(tally.forVotes);
+  const againstVotes = toDvcp(tally.againstVotes);
+  const abstainVotes = toDvcp(tally.abstainVotes);
+  const participation = forVotes + againstVotes + abstainVotes;
+  return {
+    ...proposal,
+    votingStrategy: 'Linear',
+    forVotes,
+    againstVotes,
+    abstainVotes,
+    participation,
+    totalStaked: participation,
+  };
+};
+
 export const { clearError, setFilters, setPagination, clearCurrentProposal } = votingSlice.actions;
 export default votingSlice.reducer;
@@ -1,10 +1,38 @@
 // © 2024 DecVCPlat. All rights reserved.
 
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import decvcplatApiService from '../../services/api/DecVCPlatApiClient';
+import decvcplatWalletService from '../../services/blockchain/DecVCPlatWalletService';
+import decvcplatNetworkRegistry, { DecVCPlatNetworkConfig } from '../../services/blockchain/DecVCPlatNetworkRegistry';
+import decvcplatEventIndexer from '../../services/blockchain/DecVCPlatEventIndexer';
+import decvcplatTransactionTracker, {
+  DecVCPlatTrackedTransaction,
+  DecVCPlatTrackedTransactionStatus,
+} from '../../services/blockchain/DecVCPlatTransactionTracker';
+import {
+  createDecVCPlatStakingSteps,
+  runDecVCPlatStakingFlow,
+  DecVCPlatStakingRequest,
+  DecVCPlatStakingStep,
+} from '../../services/blockchain/DecVCPlatStakingFlow';
+import {
+  DecVCPlatStakingRewardsSnapshot,
+  readDecVCPlatStakingRewards,
+  toDecVCPlatStakingSummary,
+} from '../../services/blockchain/DecVCPlatStakingRewards';
+import { formatDecVCPlatTokenAmount } from '../../services/blockchain/DecVCPlatContractBindings';
+import type {
+  WalletStakingSummaryDto,
+  WalletTokenBalanceDto,
+  WalletTransactionDto,
+  WalletTransactionStatus,
+} from '../../services/api/DecVCPlatApiContracts';
 
 export interface DecVCPlatWallet {
   address: string;
-  walletType: 'MetaMask' | 'WalletConnect' | 'Coinbase' | 'DecVCPlat';
+  // Display name and reverse-DNS id announced by the wallet (EIP-6963)
+  walletType: string;
+  walletRdns: string;
   networkId: number;
   connected: boolean;
   ethBalance: string;
@@ -12,56 +40,38 @@ export interface DecVCPlatWallet {
   networkDisplayName: string;
 }
 
-export interface DecVCPlatTokenInfo {
-  tokenSymbol: string;
-  tokenName: string;
-  contractAddress: string;
-  userBalance: string;
-  tokenDecimals: number;
-  tokenIconUrl?: string;
-  usdEquivalent?: number;
-}
-
-export interface DecVCPlatTransaction {
-  transactionHash: string;
-  fromAddress: string;
-  toAddress: string;
-  amountTransferred: string;
-  gasConsumed: string;
-  gasCostInGwei: string;
-  blockTimestamp: string;
-  confirmationStatus: 'pending' | 'confirmed' | 'failed';
-  transactionCategory: 'stake' | 'unstake' | 'vote' | 'transfer' | 'funding' | 'reward';
-  transactionNote?: string;
-  blockHeight?: number;
-}
-
-export interface DecVCPlatStakingData {
-  currentlyStakedAmount: string;
-  availableForStaking: string;
-  earnedStakingRewards: string;
-  unstakingWaitPeriod: number;
-  nextRewardDistribution?: string;
-  annualPercentageYield: number;
+export type DecVCPlatTokenInfo = WalletTokenBalanceDto;
+export interface DecVCPlatTransaction extends WalletTransactionDto {
+  // Set on transactions submitted from this browser and followed by the tracker
+  confirmations?: number;
+  trackingStatus?: DecVCPlatTrackedTransactionStatus;
+  revertReason?: string;
 }
+export type DecVCPlatStakingData = WalletStakingSummaryDto;
 
 interface DecVCPlatWalletState {
   walletConnection: DecVCPlatWallet | null;
   userTokenBalances: DecVCPlatTokenInfo[];
   userTransactionHistory: DecVCPlatTransaction[];
   userStakingData: DecVCPlatStakingData | null;
+  // Live reward state read from the token contract; null where DVCP is not deployed
+  stakingRewards: DecVCPlatStakingRewardsSnapshot | null;
   connectingToWallet: boolean;
   fetchingBalances: boolean;
   fetchingTransactionHistory: boolean;
   processingStakeRequest: boolean;
   processingUnstakeRequest: boolean;
+  claimingStakingRewards: boolean;
+  stakingFlow: {
+    request: DecVCPlatStakingRequest;
+    steps: DecVCPlatStakingStep[];
+  } | null;
   walletErrorMessage: string | null;
-  supportedNetworks: Array<{
-    networkId: number;
-    networkName: string;
-    rpcEndpoint: string;
-    blockExplorerUrl: string;
-  }>;
+  // Mirrors the network registry so components re-render when a manifest loads
+  supportedNetworks: DecVCPlatNetworkConfig[];
+  // Chain the wallet refused to switch to because it has not been added yet
+  networkPendingAddition: number | null;
+  addingNetwork: boolean;
 }
 
 const decvcplatWalletInitialState: DecVCPlatWalletState = {
@@ -69,41 +79,71 @@ const decvcplatWalletInitialState: DecVCPlatWalletState = {
   userTokenBalances: [],
   userTransactionHistory: [],
   userStakingData: null,
+  stakingRewards: null,
   connectingToWallet: false,
   fetchingBalances: false,
   fetchingTransactionHistory: false,
   processingStakeRequest: false,
   processingUnstakeRequest: false,
+  claimingStakingRewards: false,
+  stakingFlow: null,
   walletErrorMessage: null,
-  supportedNetworks: [
-    {
-      networkId: 1,
-      networkName: 'Ethereum Mainnet',
-      rpcEndpoint: 'https://mainnet.infura.io/v3/decvcplat',
-      blockExplorerUrl: 'https://etherscan.io',
-    },
-    {
-      networkId: 11155111,
-      networkName: 'Sepolia Testnet',
-      rpcEndpoint: 'https://sepolia.infura.io/v3/decvcplat',
-      blockExplorerUrl: 'https://sepolia.etherscan.io',
-    },
-  ],
+  supportedNetworks: decvcplatNetworkRegistry.getDecVCPlatNetworks(),
+  networkPendingAddition: null,
+  addingNetwork: false,
+};
+
+const decvcplatTrackedStatusMap: Record<DecVCPlatTrackedTransactionStatus, WalletTransactionStatus> = {
+  pending: 'pending',
+  mined: 'pending',
+  confirmed: 'confirmed',
+  failed: 'failed',
+  replaced: 'failed',
+  cancelled: 'failed',
+  dropped: 'failed',
 };
 
+const toDecVCPlatTransactionRecord = (decvcplatTracked: DecVCPlatTrackedTransaction): DecVCPlatTransaction => ({
+  transactionHash: decvcplatTracked.hash,
+  fromAddress: decvcplatTracked.from,
+  toAddress: decvcplatTracked.to,
+  amountTransferred: decvcplatTracked.amount,
+  gasConsumed: decvcplatTracked.gasUsed ?? '0',
+  gasCostInGwei: '0',
+  blockTimestamp: decvcplatTracked.submittedAt,
+  confirmationStatus: decvcplatTrackedStatusMap[decvcplatTracked.status],
+  transactionCategory: decvcplatTracked.category,
+  transactionNote: decvcplatTracked.note,
+  blockHeight: decvcplatTracked.blockNumber,
+  confirmations: decvcplatTracked.confirmations,
+  trackingStatus: decvcplatTracked.status,
+  revertReason: decvcplatTracked.revertReason,
+});
+
+const isSameDecVCPlatHexValue = (decvcplatLeft: string, decvcplatRight?: string): boolean =>
+  !!decvcplatRight && decvcplatLeft.toLowerCase() === decvcplatRight.toLowerCase();
+
 // DecVCPlat-specific async operations
 export const establishWalletConnection = createAsyncThunk(
   'decvcplatWallet/establishWalletConnection',
-  async (walletProvider: 'MetaMask' | 'WalletConnect' | 'Coinbase', { rejectWithValue }) => {
+  async (walletRdns: string | undefined, { rejectWithValue }) => {
     try {
+      const decvcplatConnectionResult = await decvcplatWalletService.connectDecVCPlatWallet(walletRdns);
+      const [decvcplatEthBalance, decvcplatTokenBalance] = await Promise.all([
+        decvcplatWalletService.getDecVCPlatWalletBalance(),
+        // The DVCP contract may not be deployed on the selected network
+        decvcplatWalletService.getDecVCPlatTokenBalance().catch(() => '0'),
+      ]);
+
       const decvcplatWalletConnection: DecVCPlatWallet = {
-        address: '0xDecVCPlat1234567890123456789012345678',
-        walletType: walletProvider,
-        networkId: 1,
+        address: decvcplatConnectionResult.decvcplatWalletAddress,
+        walletType: decvcplatConnectionResult.decvcplatWalletProvider,
+        walletRdns: decvcplatConnectionResult.decvcplatWalletRdns,
+        networkId: decvcplatConnectionResult.decvcplatNetworkId,
         connected: true,
-        ethBalance: '2.1234',
-        decvcplatTokenBalance: '75000.0',
-        networkDisplayName: 'Ethereum Mainnet',
+        ethBalance: decvcplatEthBalance,
+        decvcplatTokenBalance,
+        networkDisplayName: decvcplatConnectionResult.decvcplatNetworkName,
       };
 
       localStorage.setItem('decvcplat_wallet_state', JSON.stringify(decvcplatWalletConnection));
@@ -118,6 +158,7 @@ export const terminateWalletConnection = createAsyncThunk(
   'decvcplatWallet/terminateWalletConnection',
   async (_, { rejectWithValue }) => {
     try {
+      decvcplatWalletService.disconnectDecVCPlatWallet();
       localStorage.removeItem('decvcplat_wallet_state');
       return null;
     } catch (decvcplatError: any) {
@@ -126,6 +167,21 @@ export const terminateWalletConnection = createAsyncThunk(
   }
 );
 
+export const refreshWalletOnChainBalances = createAsyncThunk(
+  'decvcplatWallet/refreshWalletOnChainBalances',
+  async (_, { rejectWithValue }) => {
+    try {
+      const [decvcplatEthBalance, decvcplatTokenBalance] = await Promise.all([
+        decvcplatWalletService.getDecVCPlatWalletBalance(),
+        decvcplatWalletService.getDecVCPlatTokenBalance().catch(() => '0'),
+      ]);
+      return { ethBalance: decvcplatEthBalance, decvcplatTokenBalance };
+    } catch (decvcplatError: any) {
+      return rejectWithValue(decvcplatError.message || 'DecVCPlat balance refresh failed');
+    }
+  }
+);
+
 export const retrieveTokenBalances = createAsyncThunk(
   'decvcplatWallet/retrieveTokenBalances',
   async (_, { getState, rejectWithValue }) => {
@@ -135,36 +191,9 @@ export const retrieveTokenBalances = createAsyncThunk(
         throw new Error('DecVCPlat wallet not connected');
       }
 
-      const decvcplatTokenBalances: DecVCPlatTokenInfo[] = [
-        {
-          tokenSymbol: 'ETH',
-          tokenName: 'Ethereum',
-          contractAddress: '0x0000000000000000000000000000000000000000',
-          userBalance: '2.1234',
-          tokenDecimals: 18,
-          usdEquivalent: 4800.56,
-        },
-        {
-          tokenSymbol: 'DVCP',
-          tokenName: 'DecVCPlat Token',
-          contractAddress: '0xDecVCPlatToken1111111111111111111111111',
-          userBalance: '75000.0',
-          tokenDecimals: 18,
-          usdEquivalent: 37500.0,
-        },
-        {
-          tokenSymbol: 'USDC',
-          tokenName: 'USD Coin',
-          contractAddress: '0xDecVCPlatUSDC2222222222222222222222222',
-          userBalance: '5000.0',
-          tokenDecimals: 6,
-          usdEquivalent: 5000.0,
-        },
-      ];
-
-      return decvcplatTokenBalances;
+      return await decvcplatApiService.fetchDecVCPlatWalletBalances(currentState.wallet.walletConnection.address);
     } catch (decvcplatError: any) {
-      return rejectWithValue(decvcplatError.message || 'DecVCPlat balance retrieval failed');
+      return rejectWithValue(decvcplatError.response?.data?.message || decvcplatError.message || 'DecVCPlat balance retrieval failed');
     }
   }
 );
@@ -178,38 +207,15 @@ export const retrieveTransactionHistory = createAsyncThunk(
         throw new Error('DecVCPlat wallet not connected');
       }
 
-      const decvcplatTransactionHistory: DecVCPlatTransaction[] = [
-        {
-          transactionHash: '0xDecVCPlat123abc456def789ghi012jkl345mno678pqr901stu234vwx567yz',
-          fromAddress: '0xDecVCPlat1234567890123456789012345678',
-          toAddress: '0xDecVCPlatStaking9876543210987654321098765432',
-          amountTransferred: '10000.0',
-          gasConsumed: '45000',
-          gasCostInGwei: '25',
-          blockTimestamp: '2024-02-10T14:30:00Z',
-          confirmationStatus: 'confirmed',
-          transactionCategory: 'stake',
-          transactionNote: 'DecVCPlat governance token staking',
-          blockHeight: 19456789,
-        },
-        {
-          transactionHash: '0xDecVCPlat456def789ghi012jkl345mno678pqr901stu234vwx567yz123abc',
-          fromAddress: '0xDecVCPlatRewards9876543210987654321098765432',
-          toAddress: '0xDecVCPlat1234567890123456789012345678',
-          amountTransferred: '750.0',
-          gasConsumed: '21000',
-          gasCostInGwei: '20',
-          blockTimestamp: '2024-02-09T10:15:00Z',
-          confirmationStatus: 'confirmed',
-          transactionCategory: 'reward',
-          transactionNote: 'DecVCPlat staking rewards distribution',
-          blockHeight: 19456700,
-        },
-      ];
-
-      return decvcplatTransactionHistory;
+      // Networks with DVCP contracts are read from the chain; the API covers the rest
+      const { address: decvcplatAddress, networkId: decvcplatNetworkId } = currentState.wallet.walletConnection;
+      if (decvcplatEventIndexer.isDecVCPlatChainIndexed(decvcplatNetworkId)) {
+        await decvcplatEventIndexer.syncDecVCPlatEvents(decvcplatNetworkId);
+        return await decvcplatEventIndexer.getDecVCPlatWalletHistory(decvcplatNetworkId, decvcplatAddress);
+      }
+      return await decvcplatApiService.fetchDecVCPlatWalletTransactions(decvcplatAddress);
     } catch (decvcplatError: any) {
-      return rejectWithValue(decvcplatError.message || 'DecVCPlat transaction history retrieval failed');
+      return rejectWithValue(decvcplatError.response?.data?.message || decvcplatError.message || 'DecVCPlat transaction history retrieval failed');
     }
   }
 );
@@ -223,45 +229,140 @@ export const retrieveStakingData = createAsyncThunk(
         throw new Error('DecVCPlat wallet not connected');
       }
 
-      const decvcplatStakingData: DecVCPlatStakingData = {
-        currentlyStakedAmount: '50000.0',
-        availableForStaking: '25000.0',
-        earnedStakingRewards: '2750.0',
-        unstakingWaitPeriod: 7,
-        nextRewardDistribution: '2024-02-17T10:00:00Z',
-        annualPercentageYield: 15.0,
-      };
+      // Where the token is deployed the contract is the source of truth for rewards
+      const { address: decvcplatAddress, networkId: decvcplatNetworkId } = currentState.wallet.walletConnection;
+      if (decvcplatNetworkRegistry.getDecVCPlatContractAddress(decvcplatNetworkId, 'token')) {
+        const decvcplatProvider = decvcplatWalletService.getDecVCPlatReadProvider();
+        if (!decvcplatProvider) {
+          throw new Error('DecVCPlat wallet provider not initialized');
+        }
+        const decvcplatAccountEvents = decvcplatEventIndexer.isDecVCPlatChainIndexed(decvcplatNetworkId)
+          ? await decvcplatEventIndexer.syncDecVCPlatEvents(decvcplatNetworkId)
+            .then(() => decvcplatEventIndexer.getDecVCPlatAccountEvents(decvcplatNetworkId, decvcplatAddress))
+            // Without payout history the chart starts from the current stake
+            .catch(() => [])
+          : [];
+        const [decvcplatRewards, decvcplatAvailableBalance] = await Promise.all([
+          readDecVCPlatStakingRewards(decvcplatProvider, decvcplatWalletService.getDecVCPlatTokenContract(), decvcplatAddress, decvcplatAccountEvents),
+          decvcplatWalletService.getDecVCPlatTokenBalance(decvcplatAddress),
+        ]);
+        return { summary: toDecVCPlatStakingSummary(decvcplatRewards, decvcplatAvailableBalance), rewards: decvcplatRewards };
+      }
 
-      return decvcplatStakingData;
+      const decvcplatSummary = await decvcplatApiService.fetchDecVCPlatWalletStakingSummary(decvcplatAddress);
+      return { summary: decvcplatSummary, rewards: null };
     } catch (decvcplatError: any) {
-      return rejectWithValue(decvcplatError.message || 'DecVCPlat staking data retrieval failed');
+      return rejectWithValue(decvcplatError.response?.data?.message || decvcplatError.message || 'DecVCPlat staking data retrieval failed');
+    }
+  }
+);
+
+// DecVCPlat provider events. The wallet service reports account and chain switches
+// made in the extension; everything derived from the old account or chain is
+// dropped and fetched again.
+const saveDecVCPlatWalletConnection = (decvcplatWalletConnection: DecVCPlatWallet | null) => {
+  if (decvcplatWalletConnection) {
+    localStorage.setItem('decvcplat_wallet_state', JSON.stringify(decvcplatWalletConnection));
+  }
+};
+
+export const handleWalletAccountChange = createAsyncThunk(
+  'decvcplatWallet/handleWalletAccountChange',
+  async (decvcplatWalletAddress: string | null, { getState, dispatch }) => {
+    if (!decvcplatWalletAddress) {
+      await dispatch(terminateWalletConnection());
+      return;
     }
+
+    dispatch(walletAccountChanged(decvcplatWalletAddress));
+    saveDecVCPlatWalletConnection((getState() as { wallet: DecVCPlatWalletState }).wallet.walletConnection);
+    await Promise.all([
+      dispatch(refreshWalletOnChainBalances()),
+      dispatch(retrieveTokenBalances()),
+      dispatch(retrieveTransactionHistory()),
+      dispatch(retrieveStakingData()),
+    ]);
+  }
+);
+
+export const handleWalletNetworkChange = createAsyncThunk(
+  'decvcplatWallet/handleWalletNetworkChange',
+  async (decvcplatNetwork: { networkId: number; networkDisplayName: string }, { getState, dispatch }) => {
+    dispatch(walletNetworkChanged(decvcplatNetwork));
+    saveDecVCPlatWalletConnection((getState() as { wallet: DecVCPlatWalletState }).wallet.walletConnection);
+    // History and staking are read per chain, so they change with the network
+    await Promise.all([
+      dispatch(refreshWalletOnChainBalances()),
+      dispatch(retrieveTransactionHistory()),
+      dispatch(retrieveStakingData()),
+    ]);
   }
 );
 
+export const handleWalletProviderDisconnect = createAsyncThunk(
+  'decvcplatWallet/handleWalletProviderDisconnect',
+  async (decvcplatReason: string, { dispatch }) => {
+    await dispatch(terminateWalletConnection());
+    return decvcplatReason;
+  }
+);
+
+// Runs allowance check, optional approval and the stake itself, publishing each
+// step to state.stakingFlow so the dialog can show where the user is.
 export const executeTokenStaking = createAsyncThunk(
   'decvcplatWallet/executeTokenStaking',
-  async (stakingAmount: string, { getState, rejectWithValue }) => {
+  async (stakingRequest: DecVCPlatStakingRequest, { getState, dispatch, rejectWithValue }) => {
     try {
       const currentState = getState() as { wallet: DecVCPlatWalletState };
       if (!currentState.wallet.walletConnection) {
         throw new Error('DecVCPlat wallet not connected');
       }
 
-      const decvcplatStakingTransaction: DecVCPlatTransaction = {
-        transactionHash: '0xDecVCPlatStake' + Math.random().toString(16).substring(2, 50),
-        fromAddress: currentState.wallet.walletConnection.address,
-        toAddress: '0xDecVCPlatStaking9876543210987654321098765432',
-        amountTransferred: stakingAmount,
-        gasConsumed: '0',
-        gasCostInGwei: '0',
-        blockTimestamp: new Date().toISOString(),
-        confirmationStatus: 'pending',
-        transactionCategory: 'stake',
-        transactionNote: `DecVCPlat ${stakingAmount} DVCP tokens staked for governance`,
-      };
+      const decvcplatOwnerAddress = currentState.wallet.walletConnection.address;
+      const decvcplatTokenContract = decvcplatWalletService.getDecVCPlatTokenContract();
+      const decvcplatGovernanceContract = stakingRequest.target === 'voting'
+        ? decvcplatWalletService.getDecVCPlatGovernanceContract(decvcplatWalletService.getDecVCPlatGovernanceAddress())
+        : undefined;
+      const decvcplatStakingContractAddress = decvcplatGovernanceContract?.decvcplatAddress ?? decvcplatTokenContract.decvcplatAddress;
 
-      return decvcplatStakingTransaction;
+      return await runDecVCPlatStakingFlow(
+        stakingRequest,
+        {
+          ownerAddress: decvcplatOwnerAddress,
+          tokenContract: decvcplatTokenContract,
+          governanceContract: decvcplatGovernanceContract,
+          waitForTransaction: async (decvcplatTxHash) => {
+            await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatTxHash);
+          },
+        },
+        (decvcplatStep) => {
+          // Hand each transaction to the tracker as soon as the wallet returns its hash,
+          // so history and notifications follow it even if the dialog is closed
+          if (decvcplatStep.txHash && decvcplatStep.key === 'approve') {
+            decvcplatTransactionTracker.track({
+              hash: decvcplatStep.txHash,
+              from: decvcplatOwnerAddress,
+              to: decvcplatTokenContract.decvcplatAddress,
+              category: 'approval',
+              amount: stakingRequest.amount,
+              note: `DecVCPlat DVCP spending approved for governance staking (${stakingRequest.approvalMode})`,
+            });
+          }
+          if (decvcplatStep.txHash && decvcplatStep.key === 'stake') {
+            decvcplatTransactionTracker.track({
+              hash: decvcplatStep.txHash,
+              from: decvcplatOwnerAddress,
+              to: decvcplatStakingContractAddress,
+              category: 'stake',
+              amount: stakingRequest.amount,
+              note: stakingRequest.target === 'voting'
+                ? `DecVCPlat ${stakingRequest.amount} DVCP tokens staked for governance voting`
+                : `DecVCPlat ${stakingRequest.amount} DVCP tokens staked for rewards`,
+            });
+          }
+          dispatch(updateStakingStep(decvcplatStep));
+        }
+      );
     } catch (decvcplatError: any) {
       return rejectWithValue(decvcplatError.message || 'DecVCPlat token staking failed');
     }
@@ -277,26 +378,82 @@ export const executeTokenUnstaking = createAsyncThunk(
         throw new Error('DecVCPlat wallet not connected');
       }
 
-      const decvcplatUnstakingTransaction: DecVCPlatTransaction = {
-        transactionHash: '0xDecVCPlatUnstake' + Math.random().toString(16).substring(2, 48),
-        fromAddress: '0xDecVCPlatStaking9876543210987654321098765432',
-        toAddress: currentState.wallet.walletConnection.address,
-        amountTransferred: unstakingAmount,
-        gasConsumed: '0',
-        gasCostInGwei: '0',
-        blockTimestamp: new Date().toISOString(),
-        confirmationStatus: 'pending',
-        transactionCategory: 'unstake',
-        transactionNote: `DecVCPlat ${unstakingAmount} DVCP tokens unstaked from governance`,
-      };
+      const decvcplatUnstakeResult = await decvcplatWalletService.unstakeDecVCPlatTokens(unstakingAmount);
+      decvcplatTransactionTracker.track({
+        hash: decvcplatUnstakeResult.decvcplatTxHash,
+        from: currentState.wallet.walletConnection.address,
+        to: decvcplatWalletService.getDecVCPlatTokenContract().decvcplatAddress,
+        category: 'unstake',
+        amount: unstakingAmount,
+        note: `DecVCPlat ${unstakingAmount} DVCP tokens unstaked`,
+      });
 
-      return decvcplatUnstakingTransaction;
+      return await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatUnstakeResult.decvcplatTxHash);
     } catch (decvcplatError: any) {
       return rejectWithValue(decvcplatError.message || 'DecVCPlat token unstaking failed');
     }
   }
 );
 
+// Claims whatever has accrued; the amount shown is the pending figure at the time
+// of the claim, the contract mints up to the block it lands in.
+export const claimStakingRewards = createAsyncThunk(
+  'decvcplatWallet/claimStakingRewards',
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const currentState = getState() as { wallet: DecVCPlatWalletState };
+      if (!currentState.wallet.walletConnection) {
+        throw new Error('DecVCPlat wallet not connected');
+      }
+
+      const decvcplatPendingRewards = formatDecVCPlatTokenAmount(BigInt(currentState.wallet.stakingRewards?.pendingRewards ?? '0'));
+      const decvcplatClaimResult = await decvcplatWalletService.claimDecVCPlatStakingRewards();
+      decvcplatTransactionTracker.track({
+        hash: decvcplatClaimResult.decvcplatTxHash,
+        from: currentState.wallet.walletConnection.address,
+        to: decvcplatWalletService.getDecVCPlatTokenContract().decvcplatAddress,
+        category: 'reward',
+        amount: decvcplatPendingRewards,
+        note: `DecVCPlat ${decvcplatPendingRewards} DVCP staking rewards claimed`,
+      });
+
+      const decvcplatTracked = await decvcplatTransactionTracker.waitForDecVCPlatTransaction(decvcplatClaimResult.decvcplatTxHash);
+      await Promise.all([
+        dispatch(retrieveStakingData()),
+        dispatch(refreshWalletOnChainBalances()),
+      ]);
+      return decvcplatTracked;
+    } catch (decvcplatError: any) {
+      return rejectWithValue(decvcplatError.message || 'DecVCPlat reward claim failed');
+    }
+  }
+);
+
+// The wallet's chainChanged event carries the new network into the store
+export const switchDecVCPlatNetwork = createAsyncThunk(
+  'decvcplatWallet/switchDecVCPlatNetwork',
+  async (networkId: number, { rejectWithValue }) => {
+    try {
+      const switched = await decvcplatWalletService.switchDecVCPlatNetwork(networkId);
+      return { networkId, networkName: decvcplatNetworkRegistry.getDecVCPlatNetworkName(networkId), switched };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Network switching failed');
+    }
+  }
+);
+
+export const addDecVCPlatNetworkToWallet = createAsyncThunk(
+  'decvcplatWallet/addDecVCPlatNetworkToWallet',
+  async (networkId: number, { rejectWithValue }) => {
+    try {
+      await decvcplatWalletService.addDecVCPlatNetwork(networkId);
+      return { networkId, networkName: decvcplatNetworkRegistry.getDecVCPlatNetworkName(networkId) };
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Adding the network failed');
+    }
+  }
+);
+
 const decvcplatWalletSlice = createSlice({
   name: 'decvcplatWallet',
   initialState: decvcplatWalletInitialState,
@@ -313,6 +470,62 @@ const decvcplatWalletSlice = createSlice({
         }
       }
     },
+    updateStakingStep: (state, action: PayloadAction<DecVCPlatStakingStep>) => {
+      const targetStep = state.stakingFlow?.steps.find(step => step.key === action.payload.key);
+      if (targetStep) {
+        Object.assign(targetStep, action.payload);
+      }
+    },
+    resetStakingFlow: (state) => {
+      state.stakingFlow = null;
+    },
+    // Mirrors tracker updates into the history; a sped-up transaction's entry is
+    // carried over to the replacement's hash.
+    applyTrackedTransaction: (state, action: PayloadAction<DecVCPlatTrackedTransaction>) => {
+      const decvcplatTracked = action.payload;
+      if (decvcplatTracked.status === 'replaced' && decvcplatTracked.replacedBy) {
+        return;
+      }
+
+      const decvcplatRecord = toDecVCPlatTransactionRecord(decvcplatTracked);
+      const decvcplatIndex = state.userTransactionHistory.findIndex(tx =>
+        isSameDecVCPlatHexValue(tx.transactionHash, decvcplatTracked.hash)
+        || isSameDecVCPlatHexValue(tx.transactionHash, decvcplatTracked.replacementOf)
+      );
+
+      if (decvcplatIndex === -1) {
+        state.userTransactionHistory.unshift(decvcplatRecord);
+      } else {
+        state.userTransactionHistory[decvcplatIndex] = {
+          ...decvcplatRecord,
+          blockTimestamp: state.userTransactionHistory[decvcplatIndex].blockTimestamp,
+        };
+      }
+    },
+    walletAccountChanged: (state, action: PayloadAction<string>) => {
+      if (!state.walletConnection || isSameDecVCPlatHexValue(state.walletConnection.address, action.payload)) {
+        return;
+      }
+      state.walletConnection.address = action.payload;
+      state.userTokenBalances = [];
+      state.userTransactionHistory = [];
+      state.userStakingData = null;
+      state.stakingRewards = null;
+      state.stakingFlow = null;
+    },
+    supportedNetworksUpdated: (state, action: PayloadAction<DecVCPlatNetworkConfig[]>) => {
+      state.supportedNetworks = action.payload;
+    },
+    dismissNetworkAddition: (state) => {
+      state.networkPendingAddition = null;
+    },
+    walletNetworkChanged: (state, action: PayloadAction<{ networkId: number; networkDisplayName: string }>) => {
+      if (!state.walletConnection) {
+        return;
+      }
+      state.walletConnection.networkId = action.payload.networkId;
+      state.walletConnection.networkDisplayName = action.payload.networkDisplayName;
+    },
     appendNewTransaction: (state, action: PayloadAction<DecVCPlatTransaction>) => {
       state.userTransactionHistory.unshift(action.payload);
     },
@@ -348,6 +561,18 @@ const decvcplatWalletSlice = createSlice({
         state.userTokenBalances = [];
         state.userTransactionHistory = [];
         state.userStakingData = null;
+        state.stakingRewards = null;
+      });
+
+    builder
+      .addCase(refreshWalletOnChainBalances.fulfilled, (state, action) => {
+        if (state.walletConnection) {
+          state.walletConnection.ethBalance = action.payload.ethBalance;
+          state.walletConnection.decvcplatTokenBalance = action.payload.decvcplatTokenBalance;
+        }
+      })
+      .addCase(handleWalletProviderDisconnect.fulfilled, (state, action) => {
+        state.walletErrorMessage = action.payload;
       });
 
     builder
@@ -371,7 +596,12 @@ const decvcplatWalletSlice = createSlice({
       })
       .addCase(retrieveTransactionHistory.fulfilled, (state, action) => {
         state.fetchingTransactionHistory = false;
-        state.userTransactionHistory = action.payload;
+        // Keep locally tracked transactions the backend has not indexed yet
+        const decvcplatIndexedHashes = new Set(action.payload.map(tx => tx.transactionHash.toLowerCase()));
+        state.userTransactionHistory = [
+          ...state.userTransactionHistory.filter(tx => tx.trackingStatus && !decvcplatIndexedHashes.has(tx.transactionHash.toLowerCase())),
+          ...action.payload,
+        ];
       })
       .addCase(retrieveTransactionHistory.rejected, (state, action) => {
         state.fetchingTransactionHistory = false;
@@ -380,21 +610,32 @@ const decvcplatWalletSlice = createSlice({
 
     builder
       .addCase(retrieveStakingData.fulfilled, (state, action) => {
-        state.userStakingData = action.payload;
+        state.userStakingData = action.payload.summary;
+        state.stakingRewards = action.payload.rewards;
       });
 
     builder
-      .addCase(executeTokenStaking.pending, (state) => {
+      .addCase(executeTokenStaking.pending, (state, action) => {
         state.processingStakeRequest = true;
         state.walletErrorMessage = null;
+        state.stakingFlow = {
+          request: action.meta.arg,
+          steps: createDecVCPlatStakingSteps(),
+        };
       })
-      .addCase(executeTokenStaking.fulfilled, (state, action) => {
+      .addCase(executeTokenStaking.fulfilled, (state) => {
         state.processingStakeRequest = false;
-        state.userTransactionHistory.unshift(action.payload);
       })
       .addCase(executeTokenStaking.rejected, (state, action) => {
         state.processingStakeRequest = false;
         state.walletErrorMessage = action.payload as string;
+
+        // Failures raised before the flow starts (e.g. missing contract config) never reach a step
+        const unfinishedSteps = state.stakingFlow?.steps.filter(step => step.status === 'waiting' || step.status === 'active') ?? [];
+        if (state.stakingFlow && !state.stakingFlow.steps.some(step => step.status === 'failed') && unfinishedSteps.length > 0) {
+          unfinishedSteps[0].status = 'failed';
+          unfinishedSteps[0].message = action.payload as string;
+        }
       });
 
     builder
@@ -402,13 +643,38 @@ const decvcplatWalletSlice = createSlice({
         state.processingUnstakeRequest = true;
         state.walletErrorMessage = null;
       })
-      .addCase(executeTokenUnstaking.fulfilled, (state, action) => {
+      .addCase(executeTokenUnstaking.fulfilled, (state) => {
         state.processingUnstakeRequest = false;
-        state.userTransactionHistory.unshift(action.payload);
       })
       .addCase(executeTokenUnstaking.rejected, (state, action) => {
         state.processingUnstakeRequest = false;
         state.walletErrorMessage = action.payload as string;
+      })
+      .addCase(claimStakingRewards.pending, (state) => {
+        state.claimingStakingRewards = true;
+        state.walletErrorMessage = null;
+      })
+      .addCase(claimStakingRewards.fulfilled, (state) => {
+        state.claimingStakingRewards = false;
+      })
+      .addCase(claimStakingRewards.rejected, (state, action) => {
+        state.claimingStakingRewards = false;
+        state.walletErrorMessage = action.payload as string;
+      })
+      .addCase(switchDecVCPlatNetwork.fulfilled, (state, action) => {
+        state.networkPendingAddition = action.payload.switched ? null : action.payload.networkId;
+      })
+      .addCase(addDecVCPlatNetworkToWallet.pending, (state) => {
+        state.addingNetwork = true;
+      })
+      .addCase(addDecVCPlatNetworkToWallet.fulfilled, (state) => {
+        state.addingNetwork = false;
+        state.networkPendingAddition = null;
+      })
+      .addCase(addDecVCPlatNetworkToWallet.rejected, (state, action) => {
+        state.addingNetwork = false;
+        state.networkPendingAddition = null;
+        state.walletErrorMessage = action.payload as string;
       });
   },
 });
@@ -416,6 +682,13 @@ const decvcplatWalletSlice = createSlice({
 export const { 
   clearWalletError, 
   updateTransactionConfirmation, 
+  updateStakingStep,
+  resetStakingFlow,
+  applyTrackedTransaction,
+  walletAccountChanged,
+  walletNetworkChanged,
+  supportedNetworksUpdated,
+  dismissNetworkAddition,
   appendNewTransaction, 
   restoreWalletFromStorage 
 } = decvcplatWalletSlice.actions;
@@ -426,21 +699,4 @@ export const stakeDecVCPlatTokens = executeTokenStaking;
 export const unstakeDecVCPlatTokens = executeTokenUnstaking;
 export const fetchDecVCPlatTransactionHistory = retrieveTransactionHistory;
 
-// Network switching function - create a basic implementation
-export const switchDecVCPlatNetwork = createAsyncThunk(
-  'decvcplatWallet/switchDecVCPlatNetwork',
-  async (networkId: number, { rejectWithValue }) => {
-    try {
-      // Mock implementation for network switching
-      const networkInfo = networkId === 1 
-        ? { networkId: 1, networkName: 'Ethereum Mainnet' }
-        : { networkId: 11155111, networkName: 'Sepolia Testnet' };
-      
-      return networkInfo;
-    } catch (error: any) {
-      return rejectWithValue(error.message || 'Network switching failed');
-    }
-  }
-);
-
 export default decvcplatWalletSlice.reducer;
@@ -4,14 +4,29 @@ import { configureStore } from '@reduxjs/toolkit';
 import { persistStore, persistReducer } from 'redux-persist';
 import storage from 'redux-persist/lib/storage';
 import { combineReducers } from '@reduxjs/toolkit';
+import decvcplatApiService from '../services/api/DecVCPlatApiClient';
+import type { NotificationDto } from '../services/api/DecVCPlatApiContracts';
+import decvcplatWalletService from '../services/blockchain/DecVCPlatWalletService';
+import decvcplatNetworkRegistry from '../services/blockchain/DecVCPlatNetworkRegistry';
+import decvcplatTransactionTracker, {
+  DecVCPlatTrackedTransaction,
+  describeDecVCPlatTransactionOutcome,
+  isDecVCPlatTransactionSettled,
+} from '../services/blockchain/DecVCPlatTransactionTracker';
 
 // Slices
-import authSlice from './slices/authSlice';
+import authSlice, { logout, setSession } from './slices/authSlice';
 import themeSlice from './slices/themeSlice';
 import projectSlice from './slices/projectSlice';
 import votingSlice from './slices/votingSlice';
-import notificationSlice from './slices/notificationSlice';
-import walletSlice from './slices/walletSlice';
+import notificationSlice, { addNotification } from './slices/notificationSlice';
+import walletSlice, {
+  applyTrackedTransaction,
+  handleWalletAccountChange,
+  handleWalletNetworkChange,
+  handleWalletProviderDisconnect,
+  supportedNetworksUpdated,
+} from './slices/walletSlice';
 
 // Persist configuration
 const persistConfig = {
@@ -50,5 +65,73 @@ export const store = configureStore({
 
 export const persistor = persistStore(store);
 
+// Keep the API client's session in step with the auth slice. Refreshes done by the
+// client's 401 handling flow back into the store; a failed refresh logs the user out
+// and ProtectedRoute takes them to /login.
+decvcplatApiService.registerDecVCPlatSessionHandlers({
+  onSessionRefreshed: (decvcplatSession) => store.dispatch(setSession(decvcplatSession)),
+  onSessionExpired: () => store.dispatch(logout()),
+});
+
+store.subscribe(() => {
+  const { token, refreshToken } = store.getState().auth;
+  decvcplatApiService.setDecVCPlatAuthenticationToken(token, refreshToken);
+});
+
+// Account and network switches made in the wallet extension replace the connected
+// wallet's address, chain and balances instead of leaving them stale.
+decvcplatWalletService.registerDecVCPlatProviderEventHandlers({
+  onAccountChanged: (decvcplatWalletAddress) => store.dispatch(handleWalletAccountChange(decvcplatWalletAddress)),
+  onNetworkChanged: (decvcplatNetworkId, decvcplatNetworkName) =>
+    store.dispatch(handleWalletNetworkChange({ networkId: decvcplatNetworkId, networkDisplayName: decvcplatNetworkName })),
+  onDisconnected: (decvcplatReason) => store.dispatch(handleWalletProviderDisconnect(decvcplatReason)),
+});
+
+// Deployments published after the build (REACT_APP_DECVCPLAT_DEPLOYMENTS_URL) are
+// merged into the network registry once fetched; until then the built-in ones apply.
+decvcplatNetworkRegistry.subscribe(() =>
+  store.dispatch(supportedNetworksUpdated(decvcplatNetworkRegistry.getDecVCPlatNetworks()))
+);
+if (process.env.REACT_APP_DECVCPLAT_DEPLOYMENTS_URL) {
+  decvcplatNetworkRegistry
+    .loadDecVCPlatDeploymentManifest(process.env.REACT_APP_DECVCPLAT_DEPLOYMENTS_URL)
+    .catch((decvcplatError) => console.error('DecVCPlat deployment manifest error:', decvcplatError));
+}
+
+const toDecVCPlatTransactionNotification = (
+  decvcplatTransaction: DecVCPlatTrackedTransaction,
+  decvcplatUserId: string
+): NotificationDto => {
+  const decvcplatConfirmed = decvcplatTransaction.status === 'confirmed';
+  return {
+    id: `tx-${decvcplatTransaction.hash}-${decvcplatTransaction.status}`,
+    userId: decvcplatUserId,
+    title: decvcplatConfirmed ? 'Transaction confirmed' : 'Transaction did not complete',
+    message: `${decvcplatTransaction.note || `DecVCPlat ${decvcplatTransaction.category} transaction`}: ${describeDecVCPlatTransactionOutcome(decvcplatTransaction)}`,
+    type: decvcplatConfirmed ? 'Success' : 'Warning',
+    priority: decvcplatConfirmed ? 'Normal' : 'High',
+    isRead: false,
+    isArchived: false,
+    actionUrl: '/wallet',
+    actionText: 'View wallet',
+    metadata: { transactionHash: decvcplatTransaction.hash },
+    createdAt: new Date().toISOString(),
+  };
+};
+
+// Follow submitted transactions to their final state, including ones a previous page
+// load left pending. A sped-up transaction is reported through its replacement.
+decvcplatTransactionTracker.subscribe((decvcplatTransaction) => {
+  store.dispatch(applyTrackedTransaction(decvcplatTransaction));
+
+  const decvcplatSpedUp = decvcplatTransaction.status === 'replaced' && !!decvcplatTransaction.replacedBy;
+  if (isDecVCPlatTransactionSettled(decvcplatTransaction.status) && !decvcplatSpedUp) {
+    store.dispatch(addNotification(
+      toDecVCPlatTransactionNotification(decvcplatTransaction, store.getState().auth.user?.id ?? '')
+    ));
+  }
+});
+decvcplatTransactionTracker.resume();
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;